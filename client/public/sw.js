@@ -0,0 +1,68 @@
+// WildBranch service worker: keeps the app shell and downloaded stories available offline.
+// Stories are downloaded into OFFLINE_CACHE by the page (client/src/lib/offline-reading.ts);
+// this worker serves them, and anything else it has seen, when the network is unreachable.
+const SHELL_CACHE = "wildbranch-shell-v1";
+const OFFLINE_CACHE = "wildbranch-offline-v1";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((keys) => Promise.all(
+        keys.filter((key) => key !== SHELL_CACHE && key !== OFFLINE_CACHE).map((key) => caches.delete(key))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+// The signed-in user is remembered so offline reading still knows who is reading;
+// other API responses are never cached here
+function isShellRequest(url) {
+  if (url.pathname === "/api/auth/user") return true;
+  return !url.pathname.startsWith("/api/");
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) {
+    // Cover art and page images from other hosts are only served from a story download
+    event.respondWith(fetch(request).catch(() => cachedOrError(request)));
+    return;
+  }
+
+  event.respondWith(networkFirst(request, isShellRequest(url)));
+});
+
+async function networkFirst(request, remember) {
+  try {
+    const response = await fetch(request);
+    if (remember) {
+      const cache = await caches.open(SHELL_CACHE);
+      if (response.ok) {
+        await cache.put(request, response.clone());
+      } else {
+        await cache.delete(request);
+      }
+    }
+    return response;
+  } catch (error) {
+    const cached = await caches.match(request);
+    if (cached) return cached;
+    // Client-side routes all load the same page
+    if (request.mode === "navigate") {
+      const shell = await caches.match("/");
+      if (shell) return shell;
+    }
+    throw error;
+  }
+}
+
+async function cachedOrError(request) {
+  return (await caches.match(request)) || Response.error();
+}
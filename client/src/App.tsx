@@ -14,8 +14,8 @@ import Profile from "@/pages/profile";
 import Store from "@/pages/store";
 import StoryBuilder from "@/pages/story-builder";
 import UserManagement from "@/pages/user-management";
+import MyStories from "@/pages/my-stories";
 import StoryMapDemo from "@/pages/story-map-demo";
-import MermaidDemo from "@/pages/mermaid-demo";
 import MermaidSimple from "@/pages/mermaid-simple";
 // EggplantStore is handled by the Store component
 import { Bookmarks } from "@/pages/bookmarks";
@@ -35,6 +35,7 @@ function Router() {
   return (
     <Switch>
       <Route path="/" component={Home} />
+      <Route path="/story/:storyId/page/:pageId" component={StoryReaderPages} />
       <Route path="/story/:storyId" component={StoryReaderPages} />
       <Route path="/my-reading" component={MyReading} />
       <Route path="/bookmarks" component={Bookmarks} />
@@ -43,9 +44,9 @@ function Router() {
       <Route path="/store" component={Store} />
       <Route path="/eggplants" component={Store} />
       <Route path="/story-builder" component={StoryBuilder} />
+      <Route path="/my-stories" component={MyStories} />
       <Route path="/user-management" component={UserManagement} />
       <Route path="/story-map-demo" component={StoryMapDemo} />
-      <Route path="/mermaid-demo" component={MermaidDemo} />
       <Route path="/mermaid-simple" component={MermaidSimple} />
       <Route path="/landing" component={Landing} />
       <Route component={NotFound} />
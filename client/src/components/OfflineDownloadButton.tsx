@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { CloudDownload, CloudOff, Check, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { useToast } from '@/hooks/use-toast';
+import { downloadStory, isStoryDownloaded, removeDownload } from '@/lib/offline-reading';
+
+interface OfflineDownloadButtonProps {
+  storyId: string;
+  readingOffline?: boolean; // The page on screen came from the download rather than the server
+}
+
+// Marks a story "download for offline": its pages, choices and images are kept on the device
+export default function OfflineDownloadButton({ storyId, readingOffline }: OfflineDownloadButtonProps) {
+  const { toast } = useToast();
+  const [downloaded, setDownloaded] = useState(() => isStoryDownloaded(storyId));
+  const [isWorking, setIsWorking] = useState(false);
+
+  const handleDownload = async () => {
+    setIsWorking(true);
+    try {
+      await downloadStory(storyId);
+      setDownloaded(true);
+      toast({
+        title: 'Downloaded',
+        description: 'This story can now be read offline. Premium paths you own are included.',
+        duration: 2000,
+      });
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: "Couldn't download this story",
+        variant: 'destructive',
+      });
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = async () => {
+    setIsWorking(true);
+    try {
+      await removeDownload(storyId);
+      setDownloaded(false);
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  if (!downloaded) {
+    return (
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={handleDownload}
+        disabled={isWorking || readingOffline}
+        title="Download for offline"
+        className="text-kindle-secondary hover:text-kindle p-2"
+      >
+        {isWorking ? <Loader2 className="w-4 h-4 animate-spin" /> : <CloudDownload className="w-4 h-4" />}
+      </Button>
+    );
+  }
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          disabled={isWorking}
+          title={readingOffline ? 'Reading offline' : 'Downloaded for offline'}
+          className="text-kindle-secondary hover:text-kindle p-2"
+        >
+          {readingOffline ? <CloudOff className="w-4 h-4 text-purple-600" /> : <Check className="w-4 h-4 text-purple-600" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-56">
+        <DropdownMenuLabel>
+          {readingOffline ? 'Reading offline' : 'Available offline'}
+        </DropdownMenuLabel>
+        <DropdownMenuSeparator />
+        {!readingOffline && (
+          <DropdownMenuItem onClick={handleDownload} className="cursor-pointer">
+            <CloudDownload className="w-4 h-4 mr-2 text-purple-600" />
+            Update download
+          </DropdownMenuItem>
+        )}
+        <DropdownMenuItem onClick={handleRemove} className="cursor-pointer">
+          <CloudOff className="w-4 h-4 mr-2 text-purple-600" />
+          Remove download
+        </DropdownMenuItem>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { Save, Check, Copy, Plus, Trash2 } from 'lucide-react';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { apiRequest } from '@/lib/queryClient';
+import { useToast } from '@/hooks/use-toast';
+import type { ReadingProgress } from '@shared/schema';
+
+export type SaveSlot = ReadingProgress & { currentPageTitle: string | null };
+
+interface SaveSlotPickerProps {
+  storyId: string;
+  activeSlot?: string; // Slot being read; falls back to the most recently read one
+  onSelect: (slot: string) => void;
+  disabled?: boolean;
+}
+
+// Switches between the reader's named playthroughs of a story, or starts a new one
+export default function SaveSlotPicker({ storyId, activeSlot, onSelect, disabled }: SaveSlotPickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [newSlot, setNewSlot] = useState<{ copyFrom?: string } | null>(null);
+  const [name, setName] = useState('');
+
+  const { data: slots = [], refetch } = useQuery<SaveSlot[]>({
+    queryKey: [`/api/stories/${storyId}/slots`],
+    enabled: !!storyId,
+  });
+  const currentSlot = activeSlot ?? slots[0]?.slot;
+
+  const refreshSlots = () => {
+    queryClient.invalidateQueries({ queryKey: [`/api/stories/${storyId}/slots`] });
+    queryClient.invalidateQueries({ queryKey: ['/api/reading-progress'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (slot: { name: string; copyFrom?: string }): Promise<SaveSlot> => {
+      const response = await apiRequest('POST', `/api/stories/${storyId}/slots`, slot);
+      return response.json();
+    },
+    onSuccess: (slot) => {
+      refreshSlots();
+      setNewSlot(null);
+      onSelect(slot.slot);
+    },
+    onError: (error: any) => {
+      toast({
+        title: 'Error',
+        description: error.message?.startsWith('409')
+          ? 'You already have a save slot with that name'
+          : "Couldn't create the save slot",
+        variant: 'destructive',
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (slot: string) => {
+      await apiRequest('DELETE', `/api/stories/${storyId}/slots/${encodeURIComponent(slot)}`);
+    },
+    onSuccess: refreshSlots,
+  });
+
+  const openNewSlot = (copyFrom?: string) => {
+    setName(`Playthrough ${slots.length + 1}`);
+    setNewSlot({ copyFrom });
+  };
+
+  const handleCreate = () => {
+    if (!name.trim()) return;
+    createMutation.mutate({ name: name.trim(), copyFrom: newSlot?.copyFrom });
+  };
+
+  return (
+    <>
+      {/* Slots move on as the reader turns pages, so refresh them whenever the menu opens */}
+      <DropdownMenu onOpenChange={(open) => open && refetch()}>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="sm"
+            disabled={disabled}
+            className="text-kindle-secondary hover:text-kindle p-2"
+          >
+            <Save className="w-4 h-4 sm:mr-2" />
+            <span className="hidden sm:inline truncate max-w-[96px]">{currentSlot ?? 'Save Slots'}</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-64">
+          <DropdownMenuLabel className="flex items-center gap-2">
+            <Save className="w-4 h-4 text-purple-600" />
+            Save Slots
+          </DropdownMenuLabel>
+          <DropdownMenuSeparator />
+
+          {slots.map((slot) => (
+            <DropdownMenuItem
+              key={slot.id}
+              onClick={() => slot.slot !== currentSlot && onSelect(slot.slot)}
+              className={`cursor-pointer ${
+                slot.slot === currentSlot ? 'bg-purple-100 dark:bg-purple-900/50 font-semibold' : ''
+              }`}
+            >
+              <div className="flex items-center justify-between w-full gap-2">
+                <div className="min-w-0">
+                  <div className="truncate">{slot.slot}</div>
+                  <div className="text-xs text-gray-500 truncate">
+                    {slot.isCompleted ? 'Finished' : slot.currentPageTitle ?? `Page ${slot.currentPage}`}
+                  </div>
+                </div>
+                {slot.slot === currentSlot ? (
+                  <Check className="w-4 h-4 text-purple-600 shrink-0" />
+                ) : (
+                  <button
+                    onClick={(event) => {
+                      event.stopPropagation();
+                      deleteMutation.mutate(slot.slot);
+                    }}
+                    title={`Delete ${slot.slot}`}
+                    className="p-1 text-gray-400 hover:text-red-500 shrink-0"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+            </DropdownMenuItem>
+          ))}
+
+          <DropdownMenuSeparator />
+          {currentSlot && (
+            <DropdownMenuItem onClick={() => openNewSlot(currentSlot)} className="cursor-pointer">
+              <Copy className="w-4 h-4 mr-2 text-purple-600" />
+              Save a copy from here
+            </DropdownMenuItem>
+          )}
+          <DropdownMenuItem onClick={() => openNewSlot()} className="cursor-pointer">
+            <Plus className="w-4 h-4 mr-2 text-purple-600" />
+            New playthrough
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!newSlot} onOpenChange={(open) => !open && setNewSlot(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {newSlot?.copyFrom ? `Copy "${newSlot.copyFrom}"` : 'New Playthrough'}
+            </DialogTitle>
+          </DialogHeader>
+          <div className="space-y-4">
+            <p className="text-sm text-gray-500">
+              {newSlot?.copyFrom
+                ? 'The copy keeps your place, choices and story state, so you can explore another path without losing this one.'
+                : 'Starts the story from the beginning in a separate slot. Your other playthroughs are kept.'}
+            </p>
+            <Input
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleCreate()}
+              maxLength={40}
+              placeholder="Slot name..."
+            />
+            <div className="flex gap-2 justify-end">
+              <Button variant="outline" onClick={() => setNewSlot(null)}>
+                Cancel
+              </Button>
+              <Button onClick={handleCreate} disabled={!name.trim() || createMutation.isPending}>
+                Create Slot
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,73 +1,86 @@
 import React from 'react';
-import { ChevronRight } from 'lucide-react';
+import { ChevronRight, Undo2 } from 'lucide-react';
 import { useQuery } from '@tanstack/react-query';
+import { apiRequest } from '@/lib/queryClient';
 
 interface BreadcrumbProps {
   storyId: string;
-  currentPage: number;
-  onNavigateToPage: (pageNumber: number) => void;
+  slot?: string; // Save slot being read; the server's most recent one when unset
+  currentPageTitle: string;
+  onRewind: (historyId: string) => void;
+  disabled?: boolean;
 }
 
-interface MapPageBubble {
-  id: string;
-  type: 'page' | 'choice' | 'ending';
-  pageNumber: number;
-  title: string;
+export interface ReadingPathStep {
+  historyId: string;
+  choiceId: string;
+  choiceText: string;
   isPremium: boolean;
-  isOwned: boolean;
-  x: number;
-  y: number;
-  connections: string[];
+  fromPageId: string;
+  fromPageTitle: string;
+  fromPageNumber: number;
+  toPageId: string;
+  toPageTitle: string;
+  toPageNumber: number;
+  chosenAt: string | null;
 }
 
-interface StoryMapData {
+export interface ReadingPath {
   storyId: string;
-  pageBubbles: MapPageBubble[];
-  choices: any[];
+  steps: ReadingPathStep[];
 }
 
-export default function StoryBreadcrumb({ storyId, currentPage, onNavigateToPage }: BreadcrumbProps) {
-  const { data: mapData } = useQuery<StoryMapData>({
-    queryKey: [`/api/stories/${storyId}/map`],
-    enabled: !!storyId,
+// The reader's path in one save slot; invalidate [`/api/stories/${storyId}/path`] after choices and rewinds
+export function useReadingPath(storyId: string, slot: string | undefined, enabled = true) {
+  return useQuery<ReadingPath>({
+    queryKey: [`/api/stories/${storyId}/path`, { slot }],
+    queryFn: async () => {
+      const query = slot ? `?slot=${encodeURIComponent(slot)}` : '';
+      const response = await apiRequest('GET', `/api/stories/${storyId}/path${query}`);
+      return response.json();
+    },
+    enabled: !!storyId && enabled,
   });
+}
 
-  if (!mapData?.pageBubbles) return null;
+// Shows the forks the reader passed through; tapping one rewinds to it so they can choose again
+export default function StoryBreadcrumb({ storyId, slot, currentPageTitle, onRewind, disabled }: BreadcrumbProps) {
+  const { data: path } = useReadingPath(storyId, slot);
 
-  // Build breadcrumb trail (simplified - shows recent pages)
-  const recentPages = mapData.pageBubbles
-    .filter(page => page.pageNumber <= currentPage)
-    .sort((a, b) => a.pageNumber - b.pageNumber)
-    .slice(-4); // Show last 4 pages for space
+  if (!path?.steps.length) return null;
 
-  const handleCrumbClick = (pageNumber: number) => {
-    onNavigateToPage(pageNumber);
-  };
+  // Show the last 4 forks for space
+  const recentSteps = path.steps.slice(-4);
+  const isTrimmed = path.steps.length > recentSteps.length;
 
   return (
-    <div className="flex items-center gap-1 text-sm bg-white/80 backdrop-blur-sm rounded-full px-4 py-2 border border-purple-200 dark:bg-gray-800/80 dark:border-purple-700">
-      {recentPages.map((page, index) => (
-        <React.Fragment key={page.id}>
+    <div className="flex items-center gap-1 text-sm bg-white/80 backdrop-blur-sm rounded-full px-4 py-2 border border-purple-200 dark:bg-gray-800/80 dark:border-purple-700 overflow-x-auto">
+      {isTrimmed && (
+        <>
+          <span className="text-gray-400">…</span>
+          <ChevronRight className="w-3 h-3 text-gray-400 shrink-0" />
+        </>
+      )}
+      {recentSteps.map((step) => (
+        <React.Fragment key={step.historyId}>
           <button
-            onClick={() => handleCrumbClick(page.pageNumber)}
-            className={`
-              px-2 py-1 rounded-md transition-colors cursor-pointer
-              ${page.pageNumber === currentPage 
-                ? 'bg-purple-100 text-purple-800 font-semibold dark:bg-purple-900/50 dark:text-purple-200' 
-                : 'text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700'
-              }
-            `}
+            onClick={() => onRewind(step.historyId)}
+            disabled={disabled}
+            title={`You chose "${step.choiceText}". Go back and choose differently`}
+            className="flex items-center gap-1 px-2 py-1 rounded-md transition-colors cursor-pointer whitespace-nowrap text-gray-600 hover:bg-gray-100 dark:text-gray-400 dark:hover:bg-gray-700 disabled:opacity-50"
           >
-            {page.title}
-            {page.isPremium && !page.isOwned && (
+            <Undo2 className="w-3 h-3" />
+            {step.fromPageTitle}
+            {step.isPremium && (
               <span className="ml-1 text-amber-600">🍆</span>
             )}
           </button>
-          {index < recentPages.length - 1 && (
-            <ChevronRight className="w-3 h-3 text-gray-400" />
-          )}
+          <ChevronRight className="w-3 h-3 text-gray-400 shrink-0" />
         </React.Fragment>
       ))}
+      <span className="px-2 py-1 rounded-md whitespace-nowrap bg-purple-100 text-purple-800 font-semibold dark:bg-purple-900/50 dark:text-purple-200">
+        {currentPageTitle}
+      </span>
     </div>
   );
-}
\ No newline at end of file
+}
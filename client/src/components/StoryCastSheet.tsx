@@ -0,0 +1,54 @@
+import React from 'react';
+import { Users } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from '@/components/ui/sheet';
+import { CharacterAvatar } from '@/components/character-avatar';
+import type { StoryCharacter } from '@shared/types';
+
+interface StoryCastSheetProps {
+  characters: StoryCharacter[];
+}
+
+// Who's who in the story, for readers who lose track of the cast
+export default function StoryCastSheet({ characters }: StoryCastSheetProps) {
+  if (characters.length === 0) return null;
+
+  return (
+    <Sheet>
+      <SheetTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-kindle-secondary hover:text-kindle p-2"
+          aria-label="Cast"
+        >
+          <Users className="w-5 h-5" />
+        </Button>
+      </SheetTrigger>
+      <SheetContent side="right" className="bg-kindle text-kindle border-dark-tertiary/30 overflow-y-auto">
+        <SheetHeader>
+          <SheetTitle className="text-kindle">Cast</SheetTitle>
+          <SheetDescription className="text-kindle-secondary">The people you'll meet in this story</SheetDescription>
+        </SheetHeader>
+        <ul className="mt-6 space-y-5">
+          {characters.map((character) => (
+            <li key={character.id} className="flex items-start gap-3">
+              <CharacterAvatar character={character} className="h-12 w-12" />
+              <div className="min-w-0">
+                <div className="font-semibold" style={character.color ? { color: character.color } : undefined}>
+                  {character.name}
+                  {character.pronouns && (
+                    <span className="ml-2 text-xs font-normal text-kindle-secondary">({character.pronouns})</span>
+                  )}
+                </div>
+                {character.bio && (
+                  <p className="mt-1 text-sm text-kindle-secondary whitespace-pre-wrap">{character.bio}</p>
+                )}
+              </div>
+            </li>
+          ))}
+        </ul>
+      </SheetContent>
+    </Sheet>
+  );
+}
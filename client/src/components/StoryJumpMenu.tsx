@@ -1,5 +1,5 @@
 import React, { useState } from 'react';
-import { MoreHorizontal, Navigation, Lock } from 'lucide-react';
+import { MoreHorizontal, Navigation, Lock, Undo2, MapIcon } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   DropdownMenu,
@@ -9,54 +9,30 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import { useQuery } from '@tanstack/react-query';
+import { useReadingPath } from '@/components/StoryBreadcrumb';
+import { useStoryMap } from '@/components/StoryMap';
 
 interface JumpMenuProps {
   storyId: string;
   currentPage: number;
-  onNavigateToPage: (pageNumber: number) => void;
+  onNavigateToPage: (pageId: string) => void;
+  slot?: string;
+  // When set, lists the forks on the reader's path so they can go back and choose again
+  onRewind?: (historyId: string) => void;
+  onOpenMap?: () => void;
 }
 
-interface MapPageBubble {
-  id: string;
-  type: 'page' | 'choice' | 'ending';
-  pageNumber: number;
-  title: string;
-  isPremium: boolean;
-  isOwned: boolean;
-  x: number;
-  y: number;
-  connections: string[];
-}
-
-interface MapChoice {
-  id: string;
-  fromPageId: string;
-  toPageId: string;
-  text: string;
-  isPremium: boolean;
-  isOwned: boolean;
-  eggplantCost: number;
-  targetPage: number;
-}
-
-interface StoryMapData {
-  storyId: string;
-  pageBubbles: MapPageBubble[];
-  choices: MapChoice[];
-}
+export default function StoryJumpMenu({ storyId, currentPage, onNavigateToPage, slot, onRewind, onOpenMap }: JumpMenuProps) {
+  const { data: mapData } = useStoryMap(storyId, slot);
 
-export default function StoryJumpMenu({ storyId, currentPage, onNavigateToPage }: JumpMenuProps) {
-  const { data: mapData } = useQuery<StoryMapData>({
-    queryKey: [`/api/stories/${storyId}/map`],
-    enabled: !!storyId,
-  });
+  const { data: path } = useReadingPath(storyId, slot, !!onRewind);
+  const pathSteps = onRewind ? path?.steps || [] : [];
 
   if (!mapData?.pageBubbles) return null;
 
-  // Get unlocked pages (accessible from current reading progress)
+  // Get unlocked pages: the ones a signed-in reader has been to, otherwise everything up to the current page
   const unlockedPages = mapData.pageBubbles.filter(page => 
-    page.pageNumber <= currentPage || page.isOwned
+    (mapData.reader ? page.visited : page.pageNumber <= currentPage) || page.isOwned
   );
 
   // Get premium locked pages
@@ -64,8 +40,8 @@ export default function StoryJumpMenu({ storyId, currentPage, onNavigateToPage }
     page.isPremium && !page.isOwned
   );
 
-  const handlePageJump = (pageNumber: number) => {
-    onNavigateToPage(pageNumber);
+  const handlePageJump = (pageId: string) => {
+    onNavigateToPage(pageId);
   };
 
   return (
@@ -86,12 +62,22 @@ export default function StoryJumpMenu({ storyId, currentPage, onNavigateToPage }
           Story Navigation
         </DropdownMenuLabel>
         <DropdownMenuSeparator />
+
+        {onOpenMap && (
+          <>
+            <DropdownMenuItem onClick={onOpenMap} className="cursor-pointer">
+              <MapIcon className="w-4 h-4 mr-2 text-purple-600" />
+              View story map
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+          </>
+        )}
         
         {/* Unlocked Pages */}
         {unlockedPages.map((page) => (
           <DropdownMenuItem
             key={page.id}
-            onClick={() => handlePageJump(page.pageNumber)}
+            onClick={() => handlePageJump(page.id)}
             className={`cursor-pointer ${
               page.pageNumber === currentPage 
                 ? 'bg-purple-100 dark:bg-purple-900/50 font-semibold' 
@@ -112,6 +98,31 @@ export default function StoryJumpMenu({ storyId, currentPage, onNavigateToPage }
           </DropdownMenuItem>
         ))}
 
+        {/* Forks on the reader's path, most recent first */}
+        {pathSteps.length > 0 && (
+          <>
+            <DropdownMenuSeparator />
+            <DropdownMenuLabel className="text-xs text-gray-500">
+              Choose Differently
+            </DropdownMenuLabel>
+            {pathSteps.slice().reverse().map((step) => (
+              <DropdownMenuItem
+                key={step.historyId}
+                onClick={() => onRewind?.(step.historyId)}
+                className="cursor-pointer"
+              >
+                <div className="flex items-start gap-2 w-full">
+                  <Undo2 className="w-3 h-3 mt-1 text-purple-600 shrink-0" />
+                  <div className="min-w-0">
+                    <div className="font-medium truncate">{step.fromPageTitle}</div>
+                    <div className="text-xs text-gray-500 truncate">You chose: {step.choiceText}</div>
+                  </div>
+                </div>
+              </DropdownMenuItem>
+            ))}
+          </>
+        )}
+
         {/* Premium Locked Pages */}
         {lockedPages.length > 0 && (
           <>
@@ -1,58 +1,56 @@
 import { useState, useEffect } from "react";
 import { useQuery } from "@tanstack/react-query";
-import { X, Navigation, MapPin } from "lucide-react";
+import { X, Navigation, Flag } from "lucide-react";
 import { Button } from "@/components/ui/button";
-import StoryMapReactFlow from './StoryMapReactFlow';
+import { apiRequest } from "@/lib/queryClient";
+import type { StoryMapData } from "@shared/schema";
 
 interface StoryMapProps {
   storyId: string;
-  currentPage: number;
+  slot?: string;
+  draft?: boolean; // The builder's view: the working copy, unpublished changes included
   isOpen: boolean;
   onClose: () => void;
-  onNavigateToPage: (pageNumber: number) => void;
+  onNavigateToPage?: (pageId: string) => void;
 }
 
-interface MapPageBubble {
-  id: string;
-  type: 'page' | 'choice' | 'ending';
-  pageNumber: number;
-  title: string;
-  isPremium: boolean;
-  isOwned: boolean;
-  x: number;
-  y: number;
-  connections: string[];
+type MapPageBubble = StoryMapData['pageBubbles'][number];
+
+// Signed-in readers get the map of their own reading in the given save slot
+export function useStoryMap(storyId: string, slot: string | undefined, enabled = true) {
+  return useQuery<StoryMapData>({
+    queryKey: [`/api/stories/${storyId}/map`, { slot }],
+    queryFn: async () => {
+      const query = slot ? `?slot=${encodeURIComponent(slot)}` : '';
+      const response = await apiRequest('GET', `/api/stories/${storyId}/map${query}`);
+      return response.json();
+    },
+    enabled: !!storyId && enabled,
+  });
 }
 
-interface MapChoice {
-  id: string;
-  fromPageId: string;
-  toPageId: string;
-  text: string;
-  isPremium: boolean;
-  isOwned: boolean;
-  eggplantCost: number;
-  targetPage: number;
+// Pages the reader hasn't reached are silhouettes; guests (no `reader`) see the whole map
+function isRevealed(mapData: StoryMapData, pageBubble: MapPageBubble) {
+  return !mapData.reader || pageBubble.visited;
 }
 
-interface StoryMapData {
-  storyId: string;
-  pageBubbles: MapPageBubble[];
-  choices: MapChoice[];
+function useDraftStoryMap(storyId: string, enabled: boolean) {
+  return useQuery<StoryMapData>({
+    queryKey: [`/api/stories/${storyId}/draft/map`],
+    enabled: !!storyId && enabled,
+  });
 }
 
-function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: StoryMapProps) {
-  const [selectedPageBubble, setSelectedPageBubble] = useState<string | null>(null);
+function StoryMap({ storyId, slot, draft, isOpen, onClose, onNavigateToPage }: StoryMapProps) {
   const [scale, setScale] = useState(1);
   const [panX, setPanX] = useState(0);
   const [panY, setPanY] = useState(0);
   const [isDragging, setIsDragging] = useState(false);
   const [dragStart, setDragStart] = useState({ x: 0, y: 0 });
 
-  const { data: mapData, isLoading } = useQuery<StoryMapData>({
-    queryKey: [`/api/stories/${storyId}/map`],
-    enabled: !!storyId && isOpen,
-  });
+  const readerMap = useStoryMap(storyId, slot, isOpen && !draft);
+  const draftMap = useDraftStoryMap(storyId, isOpen && !!draft);
+  const { data: mapData, isLoading } = draft ? draftMap : readerMap;
 
   // Close map when clicking outside
   const handleBackdropClick = (e: React.MouseEvent) => {
@@ -61,12 +59,10 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
     }
   };
 
-  // Handle page bubble click for navigation
+  // Only pages the reader has found can be jumped to
   const handlePageBubbleClick = (pageBubble: MapPageBubble) => {
-    if (!isDragging) {
-      setSelectedPageBubble(pageBubble.id);
-      // Navigate to the page number
-      onNavigateToPage(pageBubble.pageNumber);
+    if (onNavigateToPage && !isDragging && mapData && isRevealed(mapData, pageBubble)) {
+      onNavigateToPage(pageBubble.id);
       onClose(); // Close map after navigation
     }
   };
@@ -147,8 +143,14 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white">
               Story Map
             </h2>
+            {mapData?.reader && (
+              <div className="flex items-center gap-1 text-sm text-amber-600 dark:text-amber-400 ml-2">
+                <Flag className="w-4 h-4" />
+                Endings found {mapData.reader.endingsFound}/{mapData.reader.totalEndings}
+              </div>
+            )}
             <div className="text-sm text-gray-500 dark:text-gray-400 ml-4">
-              Mouse wheel to zoom • Drag to pan • Click nodes to navigate
+              Mouse wheel to zoom • Drag to pan{onNavigateToPage && ' • Click nodes to navigate'}
             </div>
           </div>
           <div className="flex items-center gap-2">
@@ -247,18 +249,20 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
 
                   // Simple straight line paths for clarity
                   const pathData = `M ${x1} ${y1} L ${x2} ${y2}`;
+                  // Branches leading into unexplored pages fade into the fog
+                  const isFogged = !isRevealed(mapData, toNode);
 
                   return (
                     <g key={choice.id}>
                       {/* Clean connecting arrows */}
                       <path
                         d={pathData}
-                        stroke={choice.isPremium ? "#8b5cf6" : "#6b7280"}
-                        strokeWidth={choice.isPremium ? "5" : "3.5"}
+                        stroke={choice.taken ? "#f59e0b" : choice.isPremium ? "#8b5cf6" : "#6b7280"}
+                        strokeWidth={choice.taken ? "5" : choice.isPremium ? "5" : "3.5"}
                         fill="none"
-                        strokeDasharray={choice.isPremium ? "10,5" : "none"}
+                        strokeDasharray={choice.isPremium && !choice.taken ? "10,5" : "none"}
                         markerEnd="url(#arrowhead)"
-                        opacity={choice.isPremium ? "0.9" : "0.7"}
+                        opacity={isFogged ? "0.25" : choice.isPremium || choice.taken ? "0.9" : "0.7"}
                         className="transition-all duration-200 hover:opacity-100 hover:stroke-width-6"
                       />
                     </g>
@@ -287,11 +291,16 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
                 {mapData?.pageBubbles.map((pageBubble) => {
                   const x = (pageBubble.x * 100) + 20;
                   const y = (pageBubble.y * 80) + 20;
-                  const isCurrentPage = pageBubble.pageNumber === currentPage;
+                  const isCurrentPage = pageBubble.isCurrent;
+                  const revealed = isRevealed(mapData, pageBubble);
                   
                   return (
                     <g key={pageBubble.id}>
-                      <g className="cursor-pointer hover:scale-105 transition-all duration-200" onClick={() => handlePageBubbleClick(pageBubble)}>
+                      <g
+                        className={revealed && onNavigateToPage ? "cursor-pointer hover:scale-105 transition-all duration-200" : "cursor-default"}
+                        opacity={revealed ? 1 : 0.45}
+                        onClick={() => handlePageBubbleClick(pageBubble)}
+                      >
                         {/* Card shadow */}
                         <rect
                           x={x + 2}
@@ -302,19 +311,21 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
                           fill="rgba(0,0,0,0.1)"
                         />
                         
-                        {/* White card background */}
+                        {/* White card background; unexplored pages are grey silhouettes */}
                         <rect
                           x={x}
                           y={y}
                           width="120"
                           height="60"
                           rx="12"
-                          fill={pageBubble.isPremium ? "#faf7ff" : "white"}
+                          fill={!revealed ? "#d1d5db" : pageBubble.isPremium ? "#faf7ff" : "white"}
                           stroke={isCurrentPage ? "#8b5cf6" : 
+                                 pageBubble.isDiscoveredEnding ? "#f59e0b" :
+                                 !revealed ? "#9ca3af" :
                                  pageBubble.isPremium && pageBubble.isOwned ? "#a855f7" : 
                                  pageBubble.isPremium && !pageBubble.isOwned ? "#c4b5fd" : "#e5e7eb"}
-                          strokeWidth={isCurrentPage ? "3" : pageBubble.isPremium ? "2.5" : "2"}
-                          strokeDasharray={pageBubble.isPremium && !pageBubble.isOwned ? "8,4" : "none"}
+                          strokeWidth={isCurrentPage || pageBubble.isDiscoveredEnding ? "3" : pageBubble.isPremium ? "2.5" : "2"}
+                          strokeDasharray={!revealed || (pageBubble.isPremium && !pageBubble.isOwned) ? "8,4" : "none"}
                         />
                         
                         {/* Page content */}
@@ -334,7 +345,7 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
                           className="fill-gray-500 text-xs pointer-events-none"
                           style={{ fontSize: '9px' }}
                         >
-                          {pageBubble.title.split(' ').slice(0, 2).join(' ')}
+                          {revealed ? pageBubble.title.split(' ').slice(0, 2).join(' ') : '???'}
                         </text>
                         
                         {/* Premium indicator */}
@@ -349,6 +360,19 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
                             🍆
                           </text>
                         )}
+
+                        {/* Discovered ending */}
+                        {pageBubble.isDiscoveredEnding && (
+                          <text
+                            x={x + 15}
+                            y={y + 15}
+                            textAnchor="middle"
+                            className="pointer-events-none"
+                            style={{ fontSize: '14px' }}
+                          >
+                            🏁
+                          </text>
+                        )}
                       </g>
                       
                       {/* Current position indicator */}
@@ -403,6 +427,24 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
                     <div className="w-7 h-5 rounded-lg" style={{ backgroundColor: '#92400e' }} />
                     <span className="font-medium">Story Ending</span>
                   </div>
+                  {mapData?.reader && (
+                    <>
+                      <div className="flex items-center gap-3">
+                        <div className="w-7 h-5 rounded-lg bg-gray-300 border-2 border-dashed border-gray-400 opacity-60" />
+                        <span className="font-medium">Not Yet Explored</span>
+                      </div>
+                      <div className="flex items-center gap-3">
+                        <span className="text-lg leading-none">🏁</span>
+                        <span className="font-medium">Ending You've Found</span>
+                      </div>
+                      <div className="flex items-center gap-3 md:col-span-2">
+                        <svg width="24" height="12" className="flex-shrink-0">
+                          <path d="M 2 6 L 22 6" stroke="#f59e0b" strokeWidth="4" fill="none" />
+                        </svg>
+                        <span className="font-medium">Choices You've Made</span>
+                      </div>
+                    </>
+                  )}
                   <div className="flex items-center gap-3 md:col-span-2">
                     <svg width="24" height="12" className="flex-shrink-0">
                       <defs>
@@ -416,11 +458,13 @@ function StoryMap({ storyId, currentPage, isOpen, onClose, onNavigateToPage }: S
                     <span className="font-medium">Premium Path (red dashed)</span>
                   </div>
                 </div>
-                <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-950/50 rounded-lg border border-blue-200 dark:border-blue-800">
-                  <p className="text-xs text-blue-700 dark:text-blue-300 leading-relaxed">
-                    <strong>How to use:</strong> Click any accessible node to jump to that page. Your progress is automatically saved. Premium paths unlock permanently once purchased.
-                  </p>
-                </div>
+                {!draft && (
+                  <div className="mt-4 p-3 bg-blue-50 dark:bg-blue-950/50 rounded-lg border border-blue-200 dark:border-blue-800">
+                    <p className="text-xs text-blue-700 dark:text-blue-300 leading-relaxed">
+                      <strong>How to use:</strong> {mapData?.reader ? "Click any page you've reached to jump back to it; the rest of the story stays hidden until you find it." : 'Click any node to jump to that page.'} Your progress is automatically saved. Premium paths unlock permanently once purchased.
+                    </p>
+                  </div>
+                )}
               </div>
             </div>
           )}
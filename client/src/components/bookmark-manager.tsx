@@ -7,6 +7,7 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
+import { saveBookmark } from "@/lib/offline-reading";
 import { BookmarkPlus, BookmarkCheck, Edit, Trash2 } from "lucide-react";
 import { formatDistanceToNow } from "date-fns";
 
@@ -34,18 +35,18 @@ export function BookmarkManager({ storyId, pageId, pageTitle }: BookmarkManagerP
   });
 
   const createBookmarkMutation = useMutation({
-    mutationFn: async (bookmarkData: any) => {
-      const response = await apiRequest("POST", "/api/bookmarks", bookmarkData);
-      return response.json();
-    },
-    onSuccess: () => {
+    // Saved offline, the bookmark is queued and sent once the reader is back online
+    mutationFn: saveBookmark,
+    onSuccess: ({ queued }) => {
       queryClient.invalidateQueries({ queryKey: ["/api/bookmarks"] });
       setIsCreating(false);
       setTitle("");
       setNotes("");
       toast({
         title: "Bookmark Created",
-        description: "Your bookmark has been saved successfully.",
+        description: queued
+          ? "You're offline, so it will be saved when you reconnect."
+          : "Your bookmark has been saved successfully.",
       });
     },
     onError: () => {
@@ -0,0 +1,24 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
+import type { StoryCharacter } from "@shared/types";
+
+interface CharacterAvatarProps {
+  character?: Pick<StoryCharacter, "name" | "avatarUrl" | "color">;
+  name?: string; // Used when the message's sender isn't in the cast
+  className?: string;
+}
+
+// The character's picture, or their initial on their colour until it loads
+export function CharacterAvatar({ character, name, className = "h-8 w-8" }: CharacterAvatarProps) {
+  const displayName = character?.name || name || "?";
+  return (
+    <Avatar className={className}>
+      {character?.avatarUrl && <AvatarImage src={character.avatarUrl} alt={displayName} className="object-cover" />}
+      <AvatarFallback
+        className="text-xs font-semibold text-white"
+        style={{ backgroundColor: character?.color || "#6b7280" }}
+      >
+        {displayName.charAt(0).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
@@ -1,57 +1,233 @@
-import { ChatMessage } from "@shared/types";
+import { useEffect, useRef, useState } from "react";
+import { Mic } from "lucide-react";
+import { ChatMessage, StoryCharacter } from "@shared/types";
+import { CharacterAvatar } from "@/components/character-avatar";
+
+// A reply the reader can send; taking it follows the story choice with this id
+export interface ChatReply {
+  id: string;
+  text: string;
+}
 
 interface ChatMessageRendererProps {
   messages: ChatMessage[];
+  characters?: StoryCharacter[];
   className?: string;
+  replies?: ChatReply[];
+  onReply?: (replyId: string) => void;
+  onComplete?: () => void;
+  disabled?: boolean;
+}
+
+// Used when a message doesn't set its own pacing
+const DEFAULT_DELAY_MS = 600;
+const TYPING_MS_PER_CHARACTER = 40;
+const MIN_TYPING_MS = 800;
+const MAX_TYPING_MS = 3000;
+
+function typingTime(message: ChatMessage): number {
+  if (message.typingMs !== undefined) return message.typingMs;
+  // The reader's own messages appear without the other side "typing"
+  if (message.isUser) return 0;
+  return Math.min(MAX_TYPING_MS, Math.max(MIN_TYPING_MS, message.message.length * TYPING_MS_PER_CHARACTER));
+}
+
+function prefersReducedMotion(): boolean {
+  return typeof window !== "undefined" && window.matchMedia?.("(prefers-reduced-motion: reduce)").matches;
+}
+
+function formatDuration(seconds: number): string {
+  const rounded = Math.round(seconds);
+  return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, "0")}`;
 }
 
-export function ChatMessageRenderer({ messages, className = "" }: ChatMessageRendererProps) {
+/**
+ * Plays a chat page back one message at a time: each waits out its pause, shows "typing…" and then
+ * appears. Readers can skip to the end, and everything shows at once for those who prefer reduced
+ * motion. Once the last message is in, any replies are offered as the reader's next message.
+ * Remount it (e.g. with a `key`) to replay a different page.
+ */
+export function ChatMessageRenderer({
+  messages,
+  characters = [],
+  className = "",
+  replies = [],
+  onReply,
+  onComplete,
+  disabled,
+}: ChatMessageRendererProps) {
+  const [reducedMotion] = useState(prefersReducedMotion);
+  const [shownCount, setShownCount] = useState(() => (reducedMotion ? messages.length : 0));
+  const [typingMessage, setTypingMessage] = useState<ChatMessage | null>(null);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  const onCompleteRef = useRef(onComplete);
+  onCompleteRef.current = onComplete;
+
+  const isComplete = shownCount >= messages.length;
+
+  useEffect(() => {
+    if (isComplete) {
+      setTypingMessage(null);
+      onCompleteRef.current?.();
+      return;
+    }
+
+    const next = messages[shownCount];
+    const delay = next.delayMs ?? (shownCount === 0 ? 0 : DEFAULT_DELAY_MS);
+    const typing = typingTime(next);
+    let typingTimer: ReturnType<typeof setTimeout> | undefined;
+    const delayTimer = setTimeout(() => {
+      if (typing > 0) setTypingMessage(next);
+      typingTimer = setTimeout(() => {
+        setTypingMessage(null);
+        setShownCount((count) => count + 1);
+      }, typing);
+    }, delay);
+
+    return () => {
+      clearTimeout(delayTimer);
+      if (typingTimer) clearTimeout(typingTimer);
+    };
+  }, [shownCount, isComplete, messages]);
+
+  useEffect(() => {
+    if (shownCount === 0 && !typingMessage) return;
+    bottomRef.current?.scrollIntoView({ behavior: reducedMotion ? "auto" : "smooth", block: "nearest" });
+  }, [shownCount, typingMessage, reducedMotion]);
+
+  const shownMessages = messages.slice(0, shownCount);
+  // Cast members are shown as they are now, so a renamed character doesn't keep their old name
+  const characterFor = (message: ChatMessage) =>
+    message.characterId ? characters.find((character) => character.id === message.characterId) : undefined;
+  const senderName = (message: ChatMessage) => characterFor(message)?.name || message.sender;
+
   return (
     <div className={`space-y-4 max-w-md mx-auto p-4 ${className}`}>
-      {messages.map((message) => (
-        <div
-          key={message.id}
-          className={`flex ${message.isUser ? 'justify-end' : 'justify-start'}`}
-        >
+      {shownMessages.map((message, index) => {
+        // "Read" once the other side has answered, "Delivered" until then
+        const isRead = shownMessages.slice(index + 1).some((later) => !later.isUser);
+        const character = characterFor(message);
+        return (
           <div
-            className={`max-w-[80%] px-4 py-3 rounded-2xl text-sm leading-relaxed ${
-              message.isUser
-                ? 'bg-blue-500 text-white rounded-br-md' // User messages (blue, right aligned)
-                : 'bg-gray-200 text-gray-800 rounded-bl-md' // Other character messages (gray, left aligned)
-            }`}
+            key={message.id}
+            className={`flex flex-col ${message.isUser ? 'items-end' : 'items-start'}`}
           >
-            {/* Sender name for character messages */}
-            {!message.isUser && message.sender && (
-              <div className="text-xs font-medium text-gray-600 mb-1">
-                {message.sender}
+            <div className={`flex items-end gap-2 max-w-full ${message.isUser ? 'flex-row-reverse' : ''}`}>
+              {!message.isUser && character && <CharacterAvatar character={character} />}
+              <div
+                className={`max-w-[80%] px-4 py-3 rounded-2xl text-sm leading-relaxed ${
+                  message.isUser
+                    ? 'bg-blue-500 text-white rounded-br-md' // User messages (blue, right aligned)
+                    : 'bg-gray-200 text-gray-800 rounded-bl-md' // Other character messages (gray, left aligned)
+                }`}
+              >
+                {/* Sender name for character messages */}
+                {!message.isUser && senderName(message) && (
+                  <div
+                    className="text-xs font-medium text-gray-600 mb-1"
+                    style={character?.color ? { color: character.color } : undefined}
+                  >
+                    {senderName(message)}
+                  </div>
+                )}
+
+                {message.attachment?.type === "image" && message.attachment.url && (
+                  <img
+                    src={message.attachment.url}
+                    alt={message.attachment.caption || "Photo"}
+                    loading="lazy"
+                    className="rounded-lg mb-2 max-h-64 w-full object-cover"
+                  />
+                )}
+
+                {message.attachment?.type === "voice" && message.attachment.url && (
+                  <div className="mb-2 space-y-1">
+                    <div className="flex items-center gap-2">
+                      <Mic className="w-4 h-4 shrink-0" />
+                      <audio controls preload="none" src={message.attachment.url} className="h-8 max-w-full" />
+                      {message.attachment.durationSeconds !== undefined && (
+                        <span className="text-xs opacity-70">{formatDuration(message.attachment.durationSeconds)}</span>
+                      )}
+                    </div>
+                    {message.attachment.caption && (
+                      <div className="text-xs italic opacity-80">“{message.attachment.caption}”</div>
+                    )}
+                  </div>
+                )}
+
+                {/* Message content */}
+                {message.message && (
+                  <div className="whitespace-pre-wrap">
+                    {message.message}
+                  </div>
+                )}
+
+                {/* Optional timestamp */}
+                {message.timestamp && (
+                  <div className={`text-xs mt-1 opacity-70 ${
+                    message.isUser ? 'text-blue-100' : 'text-gray-500'
+                  }`}>
+                    {message.timestamp}
+                  </div>
+                )}
               </div>
-            )}
-            
-            {/* Message content */}
-            <div className="whitespace-pre-wrap">
-              {message.message}
             </div>
-            
-            {/* Optional timestamp */}
-            {message.timestamp && (
-              <div className={`text-xs mt-1 opacity-70 ${
-                message.isUser ? 'text-blue-100' : 'text-gray-500'
-              }`}>
-                {message.timestamp}
+
+            {message.isUser && message.readReceipt && (
+              <div className="text-[10px] text-gray-400 mt-1 mr-1">
+                {isRead ? "Read" : "Delivered"}
               </div>
             )}
           </div>
+        );
+      })}
+
+      {/* Typing indicator */}
+      {typingMessage !== null && (
+        <div className="flex items-end gap-2 justify-start" aria-live="polite">
+          {!typingMessage.isUser && characterFor(typingMessage) && <CharacterAvatar character={characterFor(typingMessage)} />}
+          <div className="px-4 py-3 rounded-2xl rounded-bl-md bg-gray-200 text-gray-600">
+            {senderName(typingMessage) && <div className="text-xs font-medium mb-1">{senderName(typingMessage)} is typing…</div>}
+            <div className="flex space-x-1">
+              <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse"></div>
+              <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse delay-100"></div>
+              <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse delay-200"></div>
+            </div>
+          </div>
         </div>
-      ))}
-      
-      {/* Chat interface indicators */}
-      <div className="flex justify-center mt-6">
-        <div className="flex space-x-1">
-          <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse"></div>
-          <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse delay-100"></div>
-          <div className="w-2 h-2 bg-gray-400 rounded-full animate-pulse delay-200"></div>
+      )}
+
+      {/* Replies: the reader's choice, sent as their next message */}
+      {isComplete && replies.length > 0 && (
+        <div className="flex flex-col items-end gap-2 pt-2">
+          <div className="text-xs text-gray-400">Reply</div>
+          {replies.map((reply) => (
+            <button
+              key={reply.id}
+              type="button"
+              onClick={() => onReply?.(reply.id)}
+              disabled={disabled}
+              className="max-w-[80%] px-4 py-2 rounded-2xl rounded-br-md border border-blue-400 text-blue-300 text-sm text-left hover:bg-blue-500 hover:text-white transition-colors disabled:opacity-50"
+            >
+              {reply.text}
+            </button>
+          ))}
         </div>
-      </div>
+      )}
+
+      {!isComplete && (
+        <div className="flex justify-center">
+          <button
+            type="button"
+            onClick={() => setShownCount(messages.length)}
+            className="text-xs text-gray-400 hover:text-gray-200 underline"
+          >
+            Skip
+          </button>
+        </div>
+      )}
+
+      <div ref={bottomRef} />
     </div>
   );
-}
\ No newline at end of file
+}
@@ -0,0 +1,75 @@
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent } from "@/components/ui/card";
+import { formatDistanceToNow } from "date-fns";
+import type { EggplantTransaction } from "@shared/schema";
+
+interface EggplantHistoryResponse {
+  balance: number;
+  transactions: EggplantTransaction[];
+}
+
+const REASON_LABELS: Record<EggplantTransaction["reason"], string> = {
+  signup_bonus: "Welcome bonus",
+  stripe_purchase: "Purchase",
+  package_purchase: "Package",
+  premium_choice: "Premium path",
+  spend: "Spent",
+  admin_grant: "Gift from WildBranch",
+  ab_test: "Balance adjustment",
+};
+
+export function EggplantHistory({ limit = 20 }: { limit?: number }) {
+  const { data, isLoading } = useQuery<EggplantHistoryResponse>({
+    queryKey: [`/api/eggplants/history?limit=${limit}`],
+  });
+
+  const transactions = data?.transactions || [];
+
+  return (
+    <Card className="bg-dark-secondary border-dark-tertiary">
+      <CardContent className="pt-6">
+        <h3 className="text-lg font-semibold text-text-primary mb-4">Eggplant History</h3>
+        {isLoading ? (
+          <div className="space-y-2">
+            {[1, 2, 3].map((i) => (
+              <div key={i} className="h-12 bg-dark-tertiary rounded-lg animate-pulse" />
+            ))}
+          </div>
+        ) : transactions.length === 0 ? (
+          <p className="text-sm text-text-muted">No eggplant activity yet.</p>
+        ) : (
+          <div className="space-y-2">
+            {transactions.map((transaction) => (
+              <div
+                key={transaction.id}
+                className="flex items-center justify-between p-3 bg-dark-tertiary rounded-lg"
+              >
+                <div className="min-w-0">
+                  <p className="text-sm font-medium text-text-primary truncate">
+                    {transaction.description || REASON_LABELS[transaction.reason]}
+                  </p>
+                  <p className="text-xs text-text-muted">
+                    {REASON_LABELS[transaction.reason]}
+                    {transaction.createdAt &&
+                      ` • ${formatDistanceToNow(new Date(transaction.createdAt), { addSuffix: true })}`}
+                  </p>
+                </div>
+                <div className="text-right flex-shrink-0 ml-3">
+                  <p
+                    className={`text-sm font-semibold ${
+                      transaction.amount >= 0 ? "text-green-400" : "text-rose-gold"
+                    }`}
+                  >
+                    {transaction.amount >= 0 ? "+" : ""}
+                    {transaction.amount} 🍆
+                  </p>
+                  <p className="text-xs text-text-muted">Balance {transaction.balanceAfter}</p>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
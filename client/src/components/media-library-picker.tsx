@@ -0,0 +1,191 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { ImagePlus, Loader2, Trash2, Upload } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import type { MediaAsset } from "@shared/schema";
+
+const MEDIA_QUERY_KEY = ["/api/media"];
+const ACCEPTED_TYPES = "image/jpeg,image/png,image/webp,image/gif,image/avif";
+
+interface MediaLibraryPickerProps {
+  onSelect: (asset: MediaAsset) => void;
+  label?: string;
+  className?: string;
+}
+
+// The smallest copy that still fills a grid tile
+function thumbnailUrl(asset: MediaAsset): string {
+  return asset.variants.find((variant) => variant.name === "thumb")?.url ?? asset.url;
+}
+
+// Opens the author's uploaded images to pick one, upload new ones, or fix their alt text
+export function MediaLibraryPicker({ onSelect, label = "Library", className }: MediaLibraryPickerProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [altText, setAltText] = useState("");
+
+  const { data: assets = [], isLoading } = useQuery<MediaAsset[]>({
+    queryKey: MEDIA_QUERY_KEY,
+    enabled: isOpen,
+  });
+  const selected = assets.find((asset) => asset.id === selectedId);
+
+  const select = (asset: MediaAsset | undefined) => {
+    setSelectedId(asset?.id ?? null);
+    setAltText(asset?.altText ?? "");
+  };
+
+  const uploadMutation = useMutation({
+    // Images go up as the raw request body rather than JSON
+    mutationFn: async (file: File): Promise<MediaAsset> => {
+      const response = await fetch(`/api/media?filename=${encodeURIComponent(file.name)}`, {
+        method: "POST",
+        headers: { "Content-Type": file.type },
+        body: file,
+        credentials: "include",
+      });
+      if (!response.ok) {
+        const { message } = await response.json().catch(() => ({ message: response.statusText }));
+        throw new Error(message);
+      }
+      return response.json();
+    },
+    onSuccess: (asset) => {
+      queryClient.invalidateQueries({ queryKey: MEDIA_QUERY_KEY });
+      select(asset);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Upload failed", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const altTextMutation = useMutation({
+    mutationFn: async ({ id, altText }: { id: string; altText: string }): Promise<MediaAsset> => {
+      const response = await apiRequest("PATCH", `/api/media/${id}`, { altText });
+      return response.json();
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: MEDIA_QUERY_KEY }),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/media/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: MEDIA_QUERY_KEY });
+      select(undefined);
+    },
+  });
+
+  const handleFiles = (files: FileList | null) => {
+    const file = files?.[0];
+    if (file) uploadMutation.mutate(file);
+    if (fileInputRef.current) fileInputRef.current.value = "";
+  };
+
+  const handleUse = async () => {
+    if (!selected) return;
+    const asset = altText.trim() !== selected.altText
+      ? await altTextMutation.mutateAsync({ id: selected.id, altText: altText.trim() })
+      : selected;
+    onSelect(asset);
+    setIsOpen(false);
+  };
+
+  return (
+    <>
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() => setIsOpen(true)}
+        className={className ?? "border-dark-tertiary text-text-secondary"}
+      >
+        <ImagePlus className="w-4 h-4 mr-2" />
+        {label}
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Media Library</DialogTitle>
+            <DialogDescription>Upload an image or pick one you've used before.</DialogDescription>
+          </DialogHeader>
+
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept={ACCEPTED_TYPES}
+            className="hidden"
+            onChange={(e) => handleFiles(e.target.files)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={uploadMutation.isPending}
+          >
+            {uploadMutation.isPending ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Upload className="w-4 h-4 mr-2" />}
+            {uploadMutation.isPending ? "Uploading…" : "Upload image"}
+          </Button>
+
+          <div className="grid grid-cols-3 sm:grid-cols-4 gap-2 max-h-[320px] overflow-y-auto">
+            {isLoading && <p className="col-span-full text-sm text-muted-foreground">Loading…</p>}
+            {!isLoading && assets.length === 0 && (
+              <p className="col-span-full text-sm text-muted-foreground">No images yet.</p>
+            )}
+            {assets.map((asset) => (
+              <button
+                key={asset.id}
+                type="button"
+                onClick={() => select(asset)}
+                className={`aspect-square overflow-hidden rounded-md border-2 ${
+                  asset.id === selectedId ? "border-purple-500" : "border-transparent"
+                }`}
+              >
+                <img src={thumbnailUrl(asset)} alt={asset.altText} loading="lazy" className="h-full w-full object-cover" />
+              </button>
+            ))}
+          </div>
+
+          {selected && (
+            <div className="space-y-2">
+              <div className="text-xs text-muted-foreground truncate">
+                {selected.filename} · {selected.width}×{selected.height}
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  value={altText}
+                  onChange={(e) => setAltText(e.target.value)}
+                  placeholder="Describe the image for readers who can't see it"
+                  maxLength={500}
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => deleteMutation.mutate(selected.id)}
+                  disabled={deleteMutation.isPending}
+                  title="Delete from library"
+                  className="text-red-500 hover:text-red-600"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <Button type="button" className="w-full" onClick={handleUse} disabled={altTextMutation.isPending}>
+                Use this image
+              </Button>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
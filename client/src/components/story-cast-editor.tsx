@@ -0,0 +1,175 @@
+import { Plus, Trash2, UserPlus } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CharacterAvatar } from "@/components/character-avatar";
+import { MediaLibraryPicker } from "@/components/media-library-picker";
+import { CharacterMentions } from "@shared/story-engine/CharacterMentions";
+import type { StoryCharacter } from "@shared/types";
+
+// Picked in turn for new characters so the cast starts out easy to tell apart
+const CHARACTER_COLORS = ["#e11d48", "#2563eb", "#16a34a", "#d97706", "#9333ea", "#0891b2"];
+const NO_CHARACTER = "none";
+
+interface StoryCastPanelProps {
+  characters: StoryCharacter[];
+  onCharactersChange: (characters: StoryCharacter[]) => void;
+}
+
+// The story's cast; chat messages and page text pick characters from here
+export function StoryCastPanel({ characters, onCharactersChange }: StoryCastPanelProps) {
+  const addCharacter = () => {
+    onCharactersChange([
+      ...characters,
+      {
+        id: `character-${Date.now()}`,
+        name: `Character ${characters.length + 1}`,
+        color: CHARACTER_COLORS[characters.length % CHARACTER_COLORS.length],
+      },
+    ]);
+  };
+
+  const updateCharacter = (id: string, updates: Partial<StoryCharacter>) => {
+    onCharactersChange(characters.map((character) => (character.id === id ? { ...character, ...updates } : character)));
+  };
+
+  const removeCharacter = (id: string) => {
+    onCharactersChange(characters.filter((character) => character.id !== id));
+  };
+
+  return (
+    <div className="p-4 border-b border-dark-tertiary">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="text-sm font-semibold text-text-primary">Cast</h4>
+          <p className="text-xs text-text-muted">Characters readers meet in chats and story text</p>
+        </div>
+        <Button onClick={addCharacter} size="sm" variant="outline" className="border-dark-tertiary text-text-primary">
+          <Plus className="w-4 h-4 mr-2" />
+          Character
+        </Button>
+      </div>
+
+      {characters.length > 0 && (
+        <div className="space-y-3">
+          {characters.map((character) => (
+            <div key={character.id} className="p-3 bg-dark-tertiary rounded-lg space-y-2">
+              <div className="flex items-center space-x-2">
+                <CharacterAvatar character={character} />
+                <Input
+                  value={character.name}
+                  onChange={(e) => updateCharacter(character.id, { name: e.target.value })}
+                  placeholder="Name"
+                  maxLength={80}
+                  className="bg-dark-secondary border-dark-secondary text-text-primary"
+                />
+                <Input
+                  value={character.pronouns || ""}
+                  onChange={(e) => updateCharacter(character.id, { pronouns: e.target.value || null })}
+                  placeholder="Pronouns"
+                  maxLength={40}
+                  className="bg-dark-secondary border-dark-secondary text-text-primary w-28"
+                />
+                <input
+                  type="color"
+                  value={character.color || "#6b7280"}
+                  onChange={(e) => updateCharacter(character.id, { color: e.target.value })}
+                  aria-label={`${character.name}'s colour`}
+                  className="h-9 w-9 shrink-0 cursor-pointer rounded border border-dark-secondary bg-transparent"
+                />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => removeCharacter(character.id)}
+                  className="text-red-400 hover:bg-red-400/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <Input
+                  value={character.avatarUrl || ""}
+                  onChange={(e) => updateCharacter(character.id, { avatarUrl: e.target.value || null })}
+                  placeholder="Avatar image URL"
+                  className="bg-dark-secondary border-dark-secondary text-text-primary text-sm"
+                />
+                <MediaLibraryPicker
+                  onSelect={(asset) => updateCharacter(character.id, { avatarUrl: asset.url })}
+                  className="border-dark-secondary text-text-secondary"
+                />
+              </div>
+              <Textarea
+                value={character.bio || ""}
+                onChange={(e) => updateCharacter(character.id, { bio: e.target.value || null })}
+                placeholder="A line or two readers see in the cast list"
+                maxLength={2000}
+                className="bg-dark-secondary border-dark-secondary text-text-primary text-sm min-h-[50px]"
+              />
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface CharacterSelectProps {
+  characters: StoryCharacter[];
+  value?: string;
+  onChange: (character: StoryCharacter | undefined) => void;
+}
+
+// Who sends a chat message; "Someone else" leaves the typed sender name in charge
+export function CharacterSelect({ characters, value, onChange }: CharacterSelectProps) {
+  const isKnown = !!value && characters.some((character) => character.id === value);
+  return (
+    <Select
+      value={isKnown ? value : NO_CHARACTER}
+      onValueChange={(id) => onChange(characters.find((character) => character.id === id))}
+    >
+      <SelectTrigger className="bg-dark-secondary border-dark-secondary text-text-primary text-sm">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-dark-secondary border-dark-tertiary">
+        <SelectItem value={NO_CHARACTER}>Someone else</SelectItem>
+        {characters.map((character) => (
+          <SelectItem key={character.id} value={character.id}>
+            {character.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+interface InsertCharacterButtonProps {
+  characters: StoryCharacter[];
+  onInsert: (mention: string) => void;
+}
+
+// Adds a mention to page text; readers see the character's current name in their colour
+export function InsertCharacterButton({ characters, onInsert }: InsertCharacterButtonProps) {
+  if (characters.length === 0) return null;
+  return (
+    <Select
+      value=""
+      onValueChange={(id) => {
+        const character = characters.find((candidate) => candidate.id === id);
+        if (character) onInsert(CharacterMentions.format(character));
+      }}
+    >
+      <SelectTrigger className="h-8 w-auto bg-dark-tertiary border-dark-tertiary text-text-secondary text-xs">
+        <UserPlus className="w-3 h-3 mr-1" />
+        <SelectValue placeholder="Insert character" />
+      </SelectTrigger>
+      <SelectContent className="bg-dark-secondary border-dark-tertiary">
+        {characters.map((character) => (
+          <SelectItem key={character.id} value={character.id}>
+            {character.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
@@ -0,0 +1,132 @@
+import { useRef, useState } from "react";
+import { Bold, Image, Italic, SeparatorHorizontal } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Textarea } from "@/components/ui/textarea";
+import { InsertCharacterButton } from "@/components/story-cast-editor";
+import { MediaLibraryPicker } from "@/components/media-library-picker";
+import { StoryContent } from "@/components/story-content";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import type { StoryCharacter } from "@shared/types";
+
+interface StoryContentEditorProps {
+  id?: string;
+  value: string;
+  onChange: (content: string) => void;
+  placeholder?: string;
+  characters?: StoryCharacter[];
+}
+
+// Page text in the markdown the reader understands, with buttons for each mark and a preview
+export function StoryContentEditor({ id, value, onChange, placeholder, characters = [] }: StoryContentEditorProps) {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const [isPreviewing, setIsPreviewing] = useState(false);
+
+  // Replaces the selection (or inserts at the cursor, or the end if the box hasn't been focused)
+  // and selects `select` within what was inserted
+  const replaceSelection = (build: (selected: string) => { text: string; select?: [number, number] }) => {
+    const textarea = textareaRef.current;
+    const start = textarea?.selectionStart ?? value.length;
+    const end = textarea?.selectionEnd ?? value.length;
+    const { text, select } = build(value.slice(start, end));
+    onChange(value.slice(0, start) + text + value.slice(end));
+
+    requestAnimationFrame(() => {
+      if (!textarea) return;
+      textarea.focus();
+      const [from, to] = select ?? [text.length, text.length];
+      textarea.setSelectionRange(start + from, start + to);
+    });
+  };
+
+  const wrap = (mark: string, fallback: string) =>
+    replaceSelection((selected) => {
+      const inner = selected || fallback;
+      return { text: `${mark}${inner}${mark}`, select: [mark.length, mark.length + inner.length] };
+    });
+
+  const insertBlock = (block: string) =>
+    replaceSelection(() => ({ text: `\n\n${block}\n\n` }));
+
+  const insertImage = () => {
+    const url = window.prompt("Image URL (https://… or /path)")?.trim();
+    if (!url) return;
+    if (!StoryMarkdown.isSafeUrl(url)) {
+      window.alert("Images need a web address starting with https:// or a path on this site.");
+      return;
+    }
+    insertImageMarkdown(url, "");
+  };
+
+  // Brackets would end the description early, so they're left out
+  const insertImageMarkdown = (url: string, altText: string) =>
+    replaceSelection((selected) => {
+      const alt = (selected || altText || "Describe the image").replace(/[\[\]]/g, "");
+      return { text: `![${alt}](${url})`, select: [2, 2 + alt.length] };
+    });
+
+  const toolbarButton = "h-8 px-2 text-text-secondary hover:bg-dark-tertiary";
+
+  return (
+    <div className="space-y-2">
+      <div className="flex flex-wrap items-center gap-1">
+        <Button type="button" variant="ghost" size="sm" className={toolbarButton} disabled={isPreviewing}
+          onClick={() => wrap("*", "inner thoughts")} title="Italic (*text*)">
+          <Italic className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" className={toolbarButton} disabled={isPreviewing}
+          onClick={() => wrap("**", "emphasis")} title="Bold (**text**)">
+          <Bold className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" className={toolbarButton} disabled={isPreviewing}
+          onClick={() => insertBlock("***")} title="Scene break (***)">
+          <SeparatorHorizontal className="w-4 h-4" />
+        </Button>
+        <Button type="button" variant="ghost" size="sm" className={toolbarButton} disabled={isPreviewing}
+          onClick={insertImage} title="Image (![description](url))">
+          <Image className="w-4 h-4" />
+        </Button>
+        {!isPreviewing && (
+          <MediaLibraryPicker
+            onSelect={(asset) => insertImageMarkdown(asset.url, asset.altText)}
+            className="h-8 border-dark-tertiary text-text-secondary"
+          />
+        )}
+        {!isPreviewing && (
+          <InsertCharacterButton
+            characters={characters}
+            onInsert={(mention) => replaceSelection(() => ({ text: mention }))}
+          />
+        )}
+        <Button
+          type="button"
+          variant="outline"
+          size="sm"
+          onClick={() => setIsPreviewing(!isPreviewing)}
+          className="ml-auto h-8 border-dark-tertiary text-text-secondary"
+        >
+          {isPreviewing ? "Edit" : "Preview"}
+        </Button>
+      </div>
+
+      {isPreviewing ? (
+        <div className="kindle-text text-kindle bg-kindle rounded-md p-4 min-h-[200px] max-h-[400px] overflow-y-auto">
+          <StoryContent content={value} characters={characters} />
+        </div>
+      ) : (
+        <Textarea
+          id={id}
+          ref={textareaRef}
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          className="bg-dark-tertiary border-dark-tertiary text-text-primary min-h-[200px]"
+          placeholder={placeholder}
+        />
+      )}
+
+      <div className="text-xs text-text-muted">
+        {StoryMarkdown.toPlainText(value, characters).split(/\s+/).filter(w => w.length > 0).length} words
+        <span className="ml-2">· *italics*, **bold**, *** for a scene break</span>
+      </div>
+    </div>
+  );
+}
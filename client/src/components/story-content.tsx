@@ -0,0 +1,71 @@
+import { Fragment } from "react";
+import { StoryMarkdown, type StoryInline } from "@shared/story-engine/StoryMarkdown";
+import type { StoryCharacter } from "@shared/types";
+
+interface StoryContentProps {
+  content: string;
+  characters?: StoryCharacter[];
+}
+
+function renderInline(nodes: StoryInline[]) {
+  return nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "lineBreak":
+        return <br key={index} />;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "image":
+        return <img key={index} src={node.url} alt={node.alt} loading="lazy" className="inline-block max-h-[1.5em] align-text-bottom" />;
+      case "mention":
+        return (
+          <span
+            key={index}
+            className="font-semibold"
+            style={node.character?.color ? { color: node.character.color } : undefined}
+          >
+            {node.character?.name ?? node.name}
+          </span>
+        );
+    }
+  });
+}
+
+/**
+ * A page's text as styled blocks. Sizes are in em so the reader's typography settings on the
+ * surrounding `.kindle-text` carry through; nothing in the text is ever rendered as HTML.
+ */
+export function StoryContent({ content, characters = [] }: StoryContentProps) {
+  return (
+    <>
+      {StoryMarkdown.parse(content, characters).map((block, index) => {
+        switch (block.type) {
+          case "paragraph":
+            return (
+              <p key={index} className="kindle-paragraph">
+                {renderInline(block.children)}
+              </p>
+            );
+          case "sceneBreak":
+            return (
+              <div key={index} role="separator" className="text-center tracking-[1em] text-kindle-secondary my-[1.5em]">
+                ***
+              </div>
+            );
+          case "image":
+            return (
+              <figure key={index} className="my-[1.5em]">
+                <img src={block.url} alt={block.alt} loading="lazy" className="mx-auto rounded-lg max-h-[70vh]" />
+                {block.alt && (
+                  <figcaption className="mt-2 text-center text-[0.8em] italic text-kindle-secondary">{block.alt}</figcaption>
+                )}
+              </figure>
+            );
+        }
+      })}
+    </>
+  );
+}
@@ -0,0 +1,224 @@
+import { useState } from "react";
+import { Search, SlidersHorizontal, X } from "lucide-react";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+
+export type StoryLength = "any" | "short" | "medium" | "long";
+export type ReadingStatus = "any" | "unread" | "in_progress" | "completed";
+export type PathCount = "any" | "some" | "many";
+
+export interface StorySearchState {
+  query: string;
+  spiceLevels: number[];
+  length: StoryLength;
+  paths: PathCount;
+  status: ReadingStatus;
+  hasUnownedPremium: boolean;
+}
+
+export const EMPTY_STORY_SEARCH: StorySearchState = {
+  query: "",
+  spiceLevels: [],
+  length: "any",
+  paths: "any",
+  status: "any",
+  hasUnownedPremium: false,
+};
+
+const LENGTH_RANGES: Record<StoryLength, { minWords?: number; maxWords?: number }> = {
+  any: {},
+  short: { maxWords: 5000 },
+  medium: { minWords: 5000, maxWords: 15000 },
+  long: { minWords: 15000 },
+};
+
+const PATH_MINIMUMS: Record<PathCount, number | undefined> = {
+  any: undefined,
+  some: 3,
+  many: 6,
+};
+
+// Query string for GET /api/stories/search, without the page number
+export function storySearchParams(search: StorySearchState, category: string): URLSearchParams {
+  const params = new URLSearchParams();
+  if (search.query.trim()) params.set("q", search.query.trim());
+  if (category !== "all") params.set("category", category);
+  if (search.spiceLevels.length > 0) params.set("spice", search.spiceLevels.join(","));
+  const { minWords, maxWords } = LENGTH_RANGES[search.length];
+  if (minWords !== undefined) params.set("minWords", String(minWords));
+  if (maxWords !== undefined) params.set("maxWords", String(maxWords));
+  const minPaths = PATH_MINIMUMS[search.paths];
+  if (minPaths !== undefined) params.set("minPaths", String(minPaths));
+  if (search.status !== "any") params.set("status", search.status);
+  if (search.hasUnownedPremium) params.set("hasUnownedPremium", "true");
+  return params;
+}
+
+export function countActiveFilters(search: StorySearchState): number {
+  return [
+    search.spiceLevels.length > 0,
+    search.length !== "any",
+    search.paths !== "any",
+    search.status !== "any",
+    search.hasUnownedPremium,
+  ].filter(Boolean).length;
+}
+
+interface StorySearchPanelProps {
+  search: StorySearchState;
+  onSearchChange: (search: StorySearchState) => void;
+  // Reading status and owned paths only mean something for signed-in readers
+  showReaderFilters: boolean;
+}
+
+function FilterChip({ active, onClick, children }: { active: boolean; onClick: () => void; children: React.ReactNode }) {
+  return (
+    <button
+      onClick={onClick}
+      className={`px-3 py-1.5 rounded-full text-xs font-medium border transition-all ${
+        active
+          ? "bg-rose-gold text-dark-primary border-rose-gold"
+          : "border-dark-tertiary text-text-muted hover:text-text-secondary"
+      }`}
+    >
+      {children}
+    </button>
+  );
+}
+
+export function StorySearchPanel({ search, onSearchChange, showReaderFilters }: StorySearchPanelProps) {
+  const [showFilters, setShowFilters] = useState(false);
+  const activeFilters = countActiveFilters(search);
+  const update = (updates: Partial<StorySearchState>) => onSearchChange({ ...search, ...updates });
+
+  const toggleSpice = (level: number) => {
+    update({
+      spiceLevels: search.spiceLevels.includes(level)
+        ? search.spiceLevels.filter((existing) => existing !== level)
+        : [...search.spiceLevels, level].sort(),
+    });
+  };
+
+  return (
+    <section className="space-y-3">
+      <div className="flex items-center space-x-2">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-text-muted" />
+          <Input
+            value={search.query}
+            onChange={(e) => update({ query: e.target.value })}
+            placeholder="Search titles, tags and stories..."
+            className="pl-9 pr-9 bg-dark-secondary border-dark-tertiary text-text-primary"
+          />
+          {search.query && (
+            <button
+              onClick={() => update({ query: "" })}
+              className="absolute right-3 top-1/2 -translate-y-1/2 text-text-muted hover:text-text-secondary"
+            >
+              <X className="w-4 h-4" />
+            </button>
+          )}
+        </div>
+        <button
+          onClick={() => setShowFilters(!showFilters)}
+          className={`relative h-10 w-10 rounded-md flex items-center justify-center border transition-colors ${
+            showFilters || activeFilters > 0
+              ? "border-rose-gold text-rose-gold"
+              : "border-dark-tertiary text-text-muted hover:text-text-secondary"
+          }`}
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {activeFilters > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 w-4 h-4 rounded-full bg-rose-gold text-dark-primary text-[10px] font-bold flex items-center justify-center">
+              {activeFilters}
+            </span>
+          )}
+        </button>
+      </div>
+
+      {showFilters && (
+        <div className="p-4 bg-dark-secondary rounded-xl border border-dark-tertiary space-y-4">
+          <div className="space-y-2">
+            <Label className="text-xs text-text-muted">Spice</Label>
+            <div className="flex flex-wrap gap-2">
+              {[1, 2, 3].map((level) => (
+                <FilterChip key={level} active={search.spiceLevels.includes(level)} onClick={() => toggleSpice(level)}>
+                  {"🌶️".repeat(level)}
+                </FilterChip>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-text-muted">Length</Label>
+            <div className="flex flex-wrap gap-2">
+              {([
+                ["any", "Any"],
+                ["short", "Under 5k words"],
+                ["medium", "5k–15k"],
+                ["long", "15k+"],
+              ] as const).map(([length, label]) => (
+                <FilterChip key={length} active={search.length === length} onClick={() => update({ length })}>
+                  {label}
+                </FilterChip>
+              ))}
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label className="text-xs text-text-muted">Paths</Label>
+            <div className="flex flex-wrap gap-2">
+              {([
+                ["any", "Any"],
+                ["some", "3+ paths"],
+                ["many", "6+ paths"],
+              ] as const).map(([paths, label]) => (
+                <FilterChip key={paths} active={search.paths === paths} onClick={() => update({ paths })}>
+                  {label}
+                </FilterChip>
+              ))}
+            </div>
+          </div>
+
+          {showReaderFilters && (
+            <>
+              <div className="space-y-2">
+                <Label className="text-xs text-text-muted">Your reading</Label>
+                <div className="flex flex-wrap gap-2">
+                  {([
+                    ["any", "Any"],
+                    ["unread", "Not started"],
+                    ["in_progress", "In progress"],
+                    ["completed", "Finished"],
+                  ] as const).map(([status, label]) => (
+                    <FilterChip key={status} active={search.status === status} onClick={() => update({ status })}>
+                      {label}
+                    </FilterChip>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex items-center justify-between">
+                <Label className="text-sm text-text-primary">Has premium paths I haven't unlocked</Label>
+                <Switch
+                  checked={search.hasUnownedPremium}
+                  onCheckedChange={(hasUnownedPremium) => update({ hasUnownedPremium })}
+                />
+              </div>
+            </>
+          )}
+
+          {activeFilters > 0 && (
+            <button
+              onClick={() => onSearchChange({ ...EMPTY_STORY_SEARCH, query: search.query })}
+              className="text-xs text-text-muted hover:text-rose-gold underline"
+            >
+              Clear filters
+            </button>
+          )}
+        </div>
+      )}
+    </section>
+  );
+}
@@ -0,0 +1,285 @@
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import type { ChoiceCondition, ChoiceEffect, StoryVariableDefinition } from "@shared/types";
+
+const OPERATOR_LABELS: Record<ChoiceCondition["operator"], string> = {
+  eq: "=",
+  neq: "≠",
+  gt: ">",
+  gte: "≥",
+  lt: "<",
+  lte: "≤",
+};
+
+interface StoryVariablesPanelProps {
+  variables: StoryVariableDefinition[];
+  onVariablesChange: (variables: StoryVariableDefinition[]) => void;
+}
+
+// Story-level declarations: trust, desire, tookRiskyPath...
+export function StoryVariablesPanel({ variables, onVariablesChange }: StoryVariablesPanelProps) {
+  const addVariable = () => {
+    onVariablesChange([
+      ...variables,
+      { name: `var${variables.length + 1}`, type: "number", defaultValue: 0 },
+    ]);
+  };
+
+  const updateVariable = (index: number, updates: Partial<StoryVariableDefinition>) => {
+    onVariablesChange(variables.map((variable, i) => (i === index ? { ...variable, ...updates } : variable)));
+  };
+
+  const removeVariable = (index: number) => {
+    onVariablesChange(variables.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="p-4 border-b border-dark-tertiary">
+      <div className="flex items-center justify-between mb-3">
+        <div>
+          <h4 className="text-sm font-semibold text-text-primary">Story Variables</h4>
+          <p className="text-xs text-text-muted">Track reader state and show choices only when it matters</p>
+        </div>
+        <Button onClick={addVariable} size="sm" variant="outline" className="border-dark-tertiary text-text-primary">
+          <Plus className="w-4 h-4 mr-2" />
+          Variable
+        </Button>
+      </div>
+
+      {variables.length > 0 && (
+        <div className="space-y-2">
+          {variables.map((variable, index) => (
+            <div key={index} className="flex items-center space-x-2">
+              <Input
+                value={variable.name}
+                onChange={(e) => updateVariable(index, { name: e.target.value.replace(/[^a-zA-Z0-9_]/g, "") })}
+                placeholder="name"
+                className="bg-dark-tertiary border-dark-tertiary text-text-primary w-40"
+              />
+              <Select
+                value={variable.type}
+                onValueChange={(type: StoryVariableDefinition["type"]) =>
+                  updateVariable(index, { type, defaultValue: type === "boolean" ? false : 0 })
+                }
+              >
+                <SelectTrigger className="bg-dark-tertiary border-dark-tertiary text-text-primary w-28">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="bg-dark-secondary border-dark-tertiary">
+                  <SelectItem value="number">Number</SelectItem>
+                  <SelectItem value="boolean">Flag</SelectItem>
+                </SelectContent>
+              </Select>
+              <VariableValueInput
+                type={variable.type}
+                value={variable.defaultValue}
+                onChange={(defaultValue) => updateVariable(index, { defaultValue })}
+              />
+              <Button
+                size="sm"
+                variant="ghost"
+                onClick={() => removeVariable(index)}
+                className="text-red-400 hover:bg-red-400/10"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+interface ChoiceLogicEditorProps {
+  variables: StoryVariableDefinition[];
+  effects: ChoiceEffect[];
+  conditions: ChoiceCondition[];
+  onChange: (updates: { effects?: ChoiceEffect[]; conditions?: ChoiceCondition[] }) => void;
+}
+
+// Per-choice conditions (when it shows) and effects (what it changes)
+export function ChoiceLogicEditor({ variables, effects, conditions, onChange }: ChoiceLogicEditorProps) {
+  if (variables.length === 0) {
+    return (
+      <p className="text-xs text-text-muted">
+        Add story variables to make this choice conditional or change reader state.
+      </p>
+    );
+  }
+
+  const findVariable = (name: string) => variables.find((variable) => variable.name === name) || variables[0];
+  const defaultFor = (variable: StoryVariableDefinition) => (variable.type === "boolean" ? true : 1);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label className="text-text-primary">Show only when</Label>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-text-muted"
+            onClick={() =>
+              onChange({
+                conditions: [
+                  ...conditions,
+                  { variable: variables[0].name, operator: variables[0].type === "boolean" ? "eq" : "gte", value: defaultFor(variables[0]) },
+                ],
+              })
+            }
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {conditions.map((condition, index) => {
+            const variable = findVariable(condition.variable);
+            const update = (updates: Partial<ChoiceCondition>) =>
+              onChange({ conditions: conditions.map((c, i) => (i === index ? { ...c, ...updates } : c)) });
+            return (
+              <div key={index} className="flex items-center space-x-2">
+                <VariableSelect
+                  variables={variables}
+                  value={condition.variable}
+                  onChange={(name) => update({ variable: name, operator: "eq", value: defaultFor(findVariable(name)) })}
+                />
+                <Select value={condition.operator} onValueChange={(operator: ChoiceCondition["operator"]) => update({ operator })}>
+                  <SelectTrigger className="bg-dark-tertiary border-dark-tertiary text-text-primary w-16">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-secondary border-dark-tertiary">
+                    {(variable.type === "boolean" ? (["eq", "neq"] as const) : (Object.keys(OPERATOR_LABELS) as ChoiceCondition["operator"][])).map((operator) => (
+                      <SelectItem key={operator} value={operator}>
+                        {OPERATOR_LABELS[operator]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <VariableValueInput type={variable.type} value={condition.value} onChange={(value) => update({ value })} />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onChange({ conditions: conditions.filter((_, i) => i !== index) })}
+                  className="text-red-400 hover:bg-red-400/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between mb-2">
+          <Label className="text-text-primary">When chosen</Label>
+          <Button
+            size="sm"
+            variant="ghost"
+            className="text-text-muted"
+            onClick={() =>
+              onChange({
+                effects: [
+                  ...effects,
+                  { variable: variables[0].name, operation: variables[0].type === "boolean" ? "set" : "increment", value: defaultFor(variables[0]) },
+                ],
+              })
+            }
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+        </div>
+        <div className="space-y-2">
+          {effects.map((effect, index) => {
+            const variable = findVariable(effect.variable);
+            const update = (updates: Partial<ChoiceEffect>) =>
+              onChange({ effects: effects.map((e, i) => (i === index ? { ...e, ...updates } : e)) });
+            return (
+              <div key={index} className="flex items-center space-x-2">
+                <VariableSelect
+                  variables={variables}
+                  value={effect.variable}
+                  onChange={(name) => update({ variable: name, operation: "set", value: defaultFor(findVariable(name)) })}
+                />
+                <Select
+                  value={effect.operation}
+                  onValueChange={(operation: ChoiceEffect["operation"]) => update({ operation })}
+                  disabled={variable.type === "boolean"}
+                >
+                  <SelectTrigger className="bg-dark-tertiary border-dark-tertiary text-text-primary w-20">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="bg-dark-secondary border-dark-tertiary">
+                    <SelectItem value="set">=</SelectItem>
+                    <SelectItem value="increment">+=</SelectItem>
+                  </SelectContent>
+                </Select>
+                <VariableValueInput type={variable.type} value={effect.value} onChange={(value) => update({ value })} />
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  onClick={() => onChange({ effects: effects.filter((_, i) => i !== index) })}
+                  className="text-red-400 hover:bg-red-400/10"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function VariableSelect({
+  variables,
+  value,
+  onChange,
+}: {
+  variables: StoryVariableDefinition[];
+  value: string;
+  onChange: (name: string) => void;
+}) {
+  return (
+    <Select value={value} onValueChange={onChange}>
+      <SelectTrigger className="bg-dark-tertiary border-dark-tertiary text-text-primary w-32">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent className="bg-dark-secondary border-dark-tertiary">
+        {variables.map((variable) => (
+          <SelectItem key={variable.name} value={variable.name}>
+            {variable.name}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  );
+}
+
+function VariableValueInput({
+  type,
+  value,
+  onChange,
+}: {
+  type: StoryVariableDefinition["type"];
+  value: number | boolean;
+  onChange: (value: number | boolean) => void;
+}) {
+  if (type === "boolean") {
+    return <Switch checked={Boolean(value)} onCheckedChange={onChange} />;
+  }
+  return (
+    <Input
+      type="number"
+      value={Number(value)}
+      onChange={(e) => onChange(parseInt(e.target.value) || 0)}
+      className="bg-dark-tertiary border-dark-tertiary text-text-primary w-20"
+    />
+  );
+}
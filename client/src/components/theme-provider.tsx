@@ -1,16 +1,26 @@
-import { createContext, useContext, useEffect, useState } from "react";
+import { createContext, useContext, useEffect, useRef, useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/useAuth";
+import { loadStoredReaderPreferences, storeReaderPreferences } from "@/lib/reader-preferences";
+import type { ReaderPreferences } from "@shared/readerPreferences";
 
 type Theme = "dark" | "light" | "system";
 
 type ThemeProviderContextType = {
   theme: Theme;
   setTheme: (theme: Theme) => void;
+  // How the reader shows story text; the reader page applies these, nothing else does
+  readerPreferences: ReaderPreferences;
+  setReaderPreferences: (updates: Partial<ReaderPreferences>) => void;
 };
 
 const ThemeProviderContext = createContext<ThemeProviderContextType | undefined>(
   undefined
 );
 
+const READER_PREFERENCES_KEY = ["/api/user/preferences"];
+
 type ThemeProviderProps = {
   children: React.ReactNode;
   defaultTheme?: Theme;
@@ -25,6 +35,21 @@ export function ThemeProvider({
   const [theme, setTheme] = useState<Theme>(
     () => (localStorage.getItem(storageKey) as Theme) || defaultTheme
   );
+  const { isAuthenticated } = useAuth();
+  const queryClient = useQueryClient();
+
+  // Signed-in readers carry their settings between devices; guests keep them in this browser
+  const [readerPreferences, setLocalReaderPreferences] = useState(loadStoredReaderPreferences);
+  const { data: savedReaderPreferences } = useQuery<ReaderPreferences>({
+    queryKey: READER_PREFERENCES_KEY,
+    enabled: isAuthenticated,
+  });
+
+  useEffect(() => {
+    if (!savedReaderPreferences) return;
+    setLocalReaderPreferences(savedReaderPreferences);
+    storeReaderPreferences(savedReaderPreferences);
+  }, [savedReaderPreferences]);
 
   useEffect(() => {
     const root = window.document.documentElement;
@@ -44,12 +69,34 @@ export function ThemeProvider({
     root.classList.add(theme);
   }, [theme]);
 
+  // Counts saves so a slow response to an earlier one can't undo a later change
+  const latestSave = useRef(0);
+
+  // Applied straight away; the server copy catches up in the background
+  const setReaderPreferences = (updates: Partial<ReaderPreferences>) => {
+    const next = { ...readerPreferences, ...updates };
+    setLocalReaderPreferences(next);
+    storeReaderPreferences(next);
+
+    if (isAuthenticated) {
+      const save = ++latestSave.current;
+      apiRequest("PUT", "/api/user/preferences", updates)
+        .then((response) => response.json())
+        .then((saved: ReaderPreferences) => {
+          if (save === latestSave.current) queryClient.setQueryData(READER_PREFERENCES_KEY, saved);
+        })
+        .catch((error) => console.error("Failed to save reader preferences:", error));
+    }
+  };
+
   const value = {
     theme,
     setTheme: (theme: Theme) => {
       localStorage.setItem(storageKey, theme);
       setTheme(theme);
     },
+    readerPreferences,
+    setReaderPreferences,
   };
 
   return (
@@ -66,4 +113,4 @@ export const useTheme = () => {
     throw new Error("useTheme must be used within a ThemeProvider");
 
   return context;
-};
\ No newline at end of file
+};
@@ -1,73 +1,95 @@
-import { useState } from "react";
+import { useEffect, useState } from "react";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Slider } from "@/components/ui/slider";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useTheme } from "@/components/theme-provider";
+import {
+  FONT_OPTIONS,
+  PAGE_TURN_OPTIONS,
+  TEXT_WIDTH_OPTIONS,
+  THEME_OPTIONS,
+  readerTextStyle,
+} from "@/lib/reader-preferences";
+import {
+  FONT_SIZE_RANGE,
+  LINE_HEIGHT_RANGE,
+  PAGE_TURN_ANIMATIONS,
+  READER_FONT_FAMILIES,
+  READER_TEXT_WIDTHS,
+  READER_THEMES,
+  type ReaderPreferences,
+} from "@shared/readerPreferences";
 
 interface TypographySettingsProps {
   isOpen: boolean;
   onClose: () => void;
 }
 
+// Edits a copy of the reader's preferences, previewed here and saved on Apply
 export function TypographySettings({ isOpen, onClose }: TypographySettingsProps) {
-  const [fontSize, setFontSize] = useState(1.125);
-  const [fontFamily, setFontFamily] = useState("crimson");
-  const [lineHeight, setLineHeight] = useState(1.7);
+  const { readerPreferences, setReaderPreferences } = useTheme();
+  const [draft, setDraft] = useState<ReaderPreferences>(readerPreferences);
+
+  useEffect(() => {
+    if (isOpen) setDraft(readerPreferences);
+  }, [isOpen, readerPreferences]);
 
   if (!isOpen) return null;
 
+  const update = (updates: Partial<ReaderPreferences>) => setDraft({ ...draft, ...updates });
+
   const applySettings = () => {
-    // Apply settings to reading text
-    const readerElement = document.querySelector('.kindle-text');
-    if (readerElement) {
-      (readerElement as HTMLElement).style.fontSize = `${fontSize}rem`;
-      (readerElement as HTMLElement).style.lineHeight = `${lineHeight}`;
-      
-      // Remove existing font classes
-      readerElement.classList.remove('font-crimson', 'font-garamond', 'font-baskerville', 'font-georgia');
-      
-      // Add selected font class
-      readerElement.classList.add(`font-${fontFamily}`);
-    }
-    
-    // Save to localStorage
-    localStorage.setItem('reading-preferences', JSON.stringify({
-      fontSize,
-      fontFamily,
-      lineHeight
-    }));
-    
+    setReaderPreferences(draft);
     onClose();
   };
 
-  const fontOptions = [
-    { value: "crimson", label: "Crimson Text", description: "Classic, elegant serif perfect for long reading" },
-    { value: "garamond", label: "EB Garamond", description: "Traditional French renaissance style" },
-    { value: "baskerville", label: "Libre Baskerville", description: "Modern adaptation of a timeless design" },
-    { value: "georgia", label: "Georgia", description: "Designed for screen reading" }
-  ];
+  const optionButton = (isSelected: boolean) =>
+    `flex-1 border-dark-tertiary/50 ${isSelected ? "bg-rose-gold text-dark-primary hover:bg-rose-gold/90" : "text-kindle hover:bg-dark-secondary/50"}`;
 
   return (
     <div className="fixed inset-0 bg-black/50 backdrop-blur-sm z-50 flex items-center justify-center p-4">
-      <Card className="w-full max-w-md bg-kindle border-dark-tertiary/50">
+      <Card className="w-full max-w-md max-h-[90vh] overflow-y-auto bg-kindle border-dark-tertiary/50">
         <CardHeader className="pb-4">
           <CardTitle className="text-kindle text-lg">Reading Preferences</CardTitle>
         </CardHeader>
         <CardContent className="space-y-6">
+          {/* Theme */}
+          <div className="space-y-3">
+            <Label className="text-kindle-secondary text-sm">Theme</Label>
+            <div className="flex flex-wrap gap-2">
+              {READER_THEMES.map((theme) => (
+                <Button
+                  key={theme}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ theme })}
+                  className={optionButton(draft.theme === theme)}
+                >
+                  <span
+                    className="w-3 h-3 mr-2 rounded-full border border-kindle-secondary/50"
+                    style={{ backgroundColor: THEME_OPTIONS[theme].swatch }}
+                  />
+                  {THEME_OPTIONS[theme].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
           {/* Font Family */}
           <div className="space-y-3">
             <Label className="text-kindle-secondary text-sm">Font Style</Label>
-            <Select value={fontFamily} onValueChange={setFontFamily}>
+            <Select value={draft.fontFamily} onValueChange={(fontFamily: ReaderPreferences["fontFamily"]) => update({ fontFamily })}>
               <SelectTrigger className="bg-dark-secondary/50 border-dark-tertiary/50 text-kindle">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent className="bg-kindle border-dark-tertiary/50">
-                {fontOptions.map((font) => (
-                  <SelectItem key={font.value} value={font.value} className="text-kindle hover:bg-dark-secondary/50">
+                {READER_FONT_FAMILIES.map((font) => (
+                  <SelectItem key={font} value={font} className="text-kindle hover:bg-dark-secondary/50">
                     <div>
-                      <div className="font-medium">{font.label}</div>
-                      <div className="text-xs text-kindle-secondary">{font.description}</div>
+                      <div className="font-medium">{FONT_OPTIONS[font].label}</div>
+                      <div className="text-xs text-kindle-secondary">{FONT_OPTIONS[font].description}</div>
                     </div>
                   </SelectItem>
                 ))}
@@ -80,16 +102,16 @@ export function TypographySettings({ isOpen, onClose }: TypographySettingsProps)
             <Label className="text-kindle-secondary text-sm">Text Size</Label>
             <div className="space-y-2">
               <Slider
-                value={[fontSize]}
-                onValueChange={(value) => setFontSize(value[0])}
-                min={0.875}
-                max={1.5}
-                step={0.125}
+                value={[draft.fontSize]}
+                onValueChange={(value) => update({ fontSize: value[0] })}
+                min={FONT_SIZE_RANGE.min}
+                max={FONT_SIZE_RANGE.max}
+                step={FONT_SIZE_RANGE.step}
                 className="w-full"
               />
               <div className="flex justify-between text-xs text-kindle-secondary">
                 <span>Small</span>
-                <span>{fontSize.toFixed(2)}rem</span>
+                <span>{draft.fontSize.toFixed(2)}rem</span>
                 <span>Large</span>
               </div>
             </div>
@@ -100,49 +122,77 @@ export function TypographySettings({ isOpen, onClose }: TypographySettingsProps)
             <Label className="text-kindle-secondary text-sm">Line Spacing</Label>
             <div className="space-y-2">
               <Slider
-                value={[lineHeight]}
-                onValueChange={(value) => setLineHeight(value[0])}
-                min={1.4}
-                max={2.0}
-                step={0.1}
+                value={[draft.lineHeight]}
+                onValueChange={(value) => update({ lineHeight: value[0] })}
+                min={LINE_HEIGHT_RANGE.min}
+                max={LINE_HEIGHT_RANGE.max}
+                step={LINE_HEIGHT_RANGE.step}
                 className="w-full"
               />
               <div className="flex justify-between text-xs text-kindle-secondary">
                 <span>Tight</span>
-                <span>{lineHeight.toFixed(1)}</span>
+                <span>{draft.lineHeight.toFixed(1)}</span>
                 <span>Loose</span>
               </div>
             </div>
           </div>
 
+          {/* Text Width */}
+          <div className="space-y-3">
+            <Label className="text-kindle-secondary text-sm">Text Width</Label>
+            <div className="flex flex-wrap gap-2">
+              {READER_TEXT_WIDTHS.map((textWidth) => (
+                <Button
+                  key={textWidth}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ textWidth })}
+                  className={optionButton(draft.textWidth === textWidth)}
+                >
+                  {TEXT_WIDTH_OPTIONS[textWidth].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
+          {/* Page Turn */}
+          <div className="space-y-3">
+            <Label className="text-kindle-secondary text-sm">Page Turn</Label>
+            <div className="flex flex-wrap gap-2">
+              {PAGE_TURN_ANIMATIONS.map((pageTurnAnimation) => (
+                <Button
+                  key={pageTurnAnimation}
+                  variant="outline"
+                  size="sm"
+                  onClick={() => update({ pageTurnAnimation })}
+                  className={optionButton(draft.pageTurnAnimation === pageTurnAnimation)}
+                >
+                  {PAGE_TURN_OPTIONS[pageTurnAnimation].label}
+                </Button>
+              ))}
+            </div>
+          </div>
+
           {/* Preview */}
           <div className="space-y-2">
             <Label className="text-kindle-secondary text-sm">Preview</Label>
-            <div 
-              className="p-3 bg-dark-secondary/30 rounded-lg text-kindle"
-              style={{
-                fontSize: `${fontSize}rem`,
-                lineHeight: lineHeight,
-                fontFamily: fontFamily === 'crimson' ? "'Crimson Text', serif" :
-                           fontFamily === 'garamond' ? "'EB Garamond', serif" :
-                           fontFamily === 'baskerville' ? "'Libre Baskerville', serif" :
-                           'Georgia, serif'
-              }}
-            >
-              The warm afternoon sun streamed through the tall windows of the library, casting long shadows across the wooden tables where students bent over their books.
+            <div className={THEME_OPTIONS[draft.theme].className}>
+              <div className="p-3 bg-kindle rounded-lg text-kindle border border-dark-tertiary/50" style={readerTextStyle(draft)}>
+                The warm afternoon sun streamed through the tall windows of the library, casting long shadows across the wooden tables where students bent over their books.
+              </div>
             </div>
           </div>
 
           {/* Buttons */}
           <div className="flex gap-3 pt-4">
-            <Button 
-              variant="outline" 
+            <Button
+              variant="outline"
               onClick={onClose}
               className="flex-1 border-dark-tertiary/50 text-kindle hover:bg-dark-secondary/50"
             >
               Cancel
             </Button>
-            <Button 
+            <Button
               onClick={applySettings}
               className="flex-1 bg-rose-gold text-dark-primary hover:bg-rose-gold/90"
             >
@@ -153,4 +203,4 @@ export function TypographySettings({ isOpen, onClose }: TypographySettingsProps)
       </Card>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -1,5 +1,6 @@
 import { useState } from "react";
-import { Plus, Edit, Trash2, ArrowRight } from "lucide-react";
+import { useQuery } from "@tanstack/react-query";
+import { Plus, Edit, Trash2, ArrowRight, AlertCircle, AlertTriangle, CheckCircle } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogTrigger } from "@/components/ui/dialog";
@@ -9,7 +10,12 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 
-import type { StoryPage, Choice, ChatMessage } from "@shared/types";
+import { StoryVariablesPanel, ChoiceLogicEditor } from "@/components/story-variables-editor";
+import { StoryCastPanel, CharacterSelect } from "@/components/story-cast-editor";
+import { StoryContentEditor } from "@/components/story-content-editor";
+import { MediaLibraryPicker } from "@/components/media-library-picker";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import type { StoryPage, Choice, ChatMessage, StoryCharacter, StoryVariableDefinition } from "@shared/types";
 
 // Extended types for the visual timeline builder that includes ending cards
 interface TimelineStoryPage extends StoryPage {
@@ -24,15 +30,67 @@ interface TimelineStoryPage extends StoryPage {
   };
 }
 
+// Seconds typed into a timing field, as milliseconds; blank leaves the timing automatic
+function toMilliseconds(seconds: string): number | undefined {
+  if (seconds.trim() === "") return undefined;
+  return Math.min(60000, Math.max(0, Math.round(Number(seconds) * 1000))) || 0;
+}
+
+// Page cards show the start of the text as readers see it, without the markdown
+function truncatePreview(text: string): string {
+  return text.substring(0, 150) + (text.length > 150 ? "..." : "");
+}
+
+// Mirrors the report from GET /api/stories/:storyId/validate
+interface StoryValidationReport {
+  isValid: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: Array<{
+    severity: "error" | "warning";
+    code: string;
+    message: string;
+    pageId?: string;
+    choiceId?: string;
+  }>;
+}
+
 interface VisualTimelineBuilderProps {
   pages: TimelineStoryPage[];
   onPagesChange: (pages: TimelineStoryPage[]) => void;
+  variables?: StoryVariableDefinition[];
+  onVariablesChange?: (variables: StoryVariableDefinition[]) => void;
+  characters?: StoryCharacter[];
+  onCharactersChange?: (characters: StoryCharacter[]) => void;
+  storyId?: string | null;
 }
 
-export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBuilderProps) {
+export function VisualTimelineBuilder({
+  pages,
+  onPagesChange,
+  variables = [],
+  onVariablesChange,
+  characters = [],
+  onCharactersChange,
+  storyId,
+}: VisualTimelineBuilderProps) {
   const [editingPage, setEditingPage] = useState<TimelineStoryPage | null>(null);
   const [editingChoice, setEditingChoice] = useState<{ pageId: string; choice: Choice } | null>(null);
 
+  // Validation runs against the last saved draft, so it only exists once the story has been saved
+  const { data: validation } = useQuery<StoryValidationReport>({
+    queryKey: [`/api/stories/${storyId}/validate`],
+    enabled: !!storyId,
+  });
+  const issuesForPage = (pageId: string) => validation?.issues.filter(issue => issue.pageId === pageId) || [];
+
+  // Read the choice being edited from pages so the dialog reflects edits as they happen
+  const activeChoice = editingChoice
+    ? pages.find(p => p.id === editingChoice.pageId)?.choices?.find(c => c.id === editingChoice.choice.id) || editingChoice.choice
+    : null;
+  // Likewise for the messages of the chat page being edited
+  const activeChatMessages = editingPage ? pages.find(p => p.id === editingPage.id)?.chatMessages || [] : [];
+
   const addPage = (pageType: "story" | "choice" | "chat" = "story") => {
     const newPage: TimelineStoryPage = {
       id: `page-${Date.now()}`,
@@ -42,7 +100,7 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
       content: pageType === "chat" ? "Chat conversation..." : "",
       order: pages.length + 1,
       pageType,
-      choices: pageType === "choice" ? [] : undefined,
+      choices: pageType === "story" ? undefined : [],
       chatMessages: pageType === "chat" ? [] : undefined,
     };
     onPagesChange([...pages, newPage]);
@@ -55,6 +113,13 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
     onPagesChange(updatedPages);
   };
 
+  const updateEndingCardImage = (cardImageUrl: string) => {
+    if (!editingPage?.endingCard) return;
+    const endingCard = { ...editingPage.endingCard, cardImageUrl };
+    updatePage(editingPage.id, { endingCard });
+    setEditingPage({ ...editingPage, endingCard });
+  };
+
   const removePage = (pageId: string) => {
     if (pageId === "start") return; // Protect starting page
     const updatedPages = pages.filter(p => p.id !== pageId);
@@ -192,6 +257,48 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
           </div>
         </div>
 
+        {onCharactersChange && (
+          <StoryCastPanel characters={characters} onCharactersChange={onCharactersChange} />
+        )}
+
+        {onVariablesChange && (
+          <StoryVariablesPanel variables={variables} onVariablesChange={onVariablesChange} />
+        )}
+
+        {validation && (
+          <div className="p-4 border-b border-dark-tertiary">
+            <div className="flex items-center justify-between mb-2">
+              <h4 className="text-sm font-semibold text-text-primary">Story Check</h4>
+              <span className="text-xs text-text-muted">Based on your last saved draft</span>
+            </div>
+            {validation.issues.length === 0 ? (
+              <p className="flex items-center text-sm text-green-500">
+                <CheckCircle className="w-4 h-4 mr-2" />
+                Every page is reachable and every path ends properly
+              </p>
+            ) : (
+              <ul className="space-y-1">
+                {validation.issues.map((issue, index) => (
+                  <li
+                    key={index}
+                    className={`flex items-start text-sm ${issue.severity === "error" ? "text-red-400" : "text-gold-accent"}`}
+                  >
+                    {issue.severity === "error" ? (
+                      <AlertCircle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    ) : (
+                      <AlertTriangle className="w-4 h-4 mr-2 mt-0.5 flex-shrink-0" />
+                    )}
+                    {issue.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {validation.errorCount > 0 && (
+              <p className="text-xs text-text-muted mt-2">Errors must be fixed before this story can be published.</p>
+            )}
+          </div>
+        )}
+
         {/* Spatial Timeline View */}
         <div className="p-6 overflow-x-auto">
           <div className="flex items-start space-x-8 min-w-max pb-4">
@@ -224,9 +331,21 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                         : page.pageType === "chat"
                         ? "border-green-600 hover:border-green-600/80 hover:bg-green-600/5"
                         : "border-blue-600 hover:border-blue-600/80 hover:bg-blue-600/5"
-                    } ${editingPage?.id === page.id ? "ring-2 ring-rose-gold" : ""}`}
+                    } ${editingPage?.id === page.id ? "ring-2 ring-rose-gold" : ""} ${
+                      issuesForPage(page.id).some(issue => issue.severity === "error") ? "ring-2 ring-red-500" : ""
+                    }`}
                     onClick={() => setEditingPage(page)}
                   >
+                    {issuesForPage(page.id).length > 0 && (
+                      <div
+                        className={`absolute -top-2 -right-2 z-10 rounded-full p-0.5 ${
+                          issuesForPage(page.id).some(issue => issue.severity === "error") ? "bg-red-500" : "bg-gold-accent"
+                        }`}
+                        title={issuesForPage(page.id).map(issue => issue.message).join("\n")}
+                      >
+                        <AlertCircle className="w-3 h-3 text-white" />
+                      </div>
+                    )}
                     {/* Page Header */}
                     <div className="p-3 border-b border-text-muted/20">
                       <div className="flex items-center justify-between">
@@ -272,7 +391,7 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                             }
                           </div>
                         ) : page.content ? 
-                          page.content.substring(0, 150) + (page.content.length > 150 ? "..." : "") : 
+                          truncatePreview(StoryMarkdown.toPlainText(page.content, characters)) : 
                           <span className="italic">
                             {page.pageType === "choice" ? 
                               "Add choice content that leads to decision..." : 
@@ -286,10 +405,13 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                     {/* Page Footer */}
                     <div className="p-2 border-t border-text-muted/20 bg-dark-tertiary/30">
                       <div className="flex justify-between items-center text-[10px] text-text-muted">
-                        <span>{page.content.split(' ').filter(w => w.length > 0).length} words</span>
+                        <span>{StoryMarkdown.toPlainText(page.content, characters).split(/\s+/).filter(w => w.length > 0).length} words</span>
                         {page.pageType === "choice" && (
                           <span>{page.choices?.length || 0} choices</span>
                         )}
+                        {page.pageType === "chat" && (
+                          <span>{page.chatMessages?.length || 0} messages · {page.choices?.length || 0} replies</span>
+                        )}
                       </div>
                     </div>
 
@@ -322,10 +444,12 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                     )}
                   </div>
 
-                  {/* Choice Branches - Spatial Layout Below */}
-                  {page.pageType === "choice" && (
+                  {/* Choice Branches - Spatial Layout Below; on chat pages they're the reader's replies */}
+                  {(page.pageType === "choice" || page.pageType === "chat") && (
                     <div className="mt-6 space-y-2">
-                      <div className="text-xs text-text-muted text-center mb-3">Choice Options:</div>
+                      <div className="text-xs text-text-muted text-center mb-3">
+                        {page.pageType === "chat" ? "Reply Options:" : "Choice Options:"}
+                      </div>
                       
                       {page.choices?.map((choice, choiceIndex) => {
                         const targetPage = pages.find(p => p.id === choice.targetPageId);
@@ -341,7 +465,7 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                               onClick={() => setEditingChoice({ pageId: page.id, choice })}
                             >
                               <span className="truncate px-2">
-                                {choice.text || `Option ${choiceIndex + 1}`}
+                                {choice.text || (page.pageType === "chat" ? `Reply ${choiceIndex + 1}` : `Option ${choiceIndex + 1}`)}
                               </span>
                               {choice.isPremium && (
                                 <span className="absolute -top-1 -right-1 text-[8px]">
@@ -384,7 +508,7 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                         className="w-32 h-8 border-dashed border-text-muted text-text-muted hover:border-rose-gold hover:text-rose-gold"
                       >
                         <Plus className="w-3 h-3 mr-1" />
-                        Add Choice
+                        {page.pageType === "chat" ? "Add Reply" : "Add Choice"}
                       </Button>
                     </div>
                   )}
@@ -427,7 +551,8 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                   onValueChange={(value: "story" | "choice" | "chat") => {
                     const updates = {
                       pageType: value,
-                      choices: value === "choice" ? (editingPage.choices || []) : undefined,
+                      // Chat pages branch through the reader's reply, so they keep their choices too
+                      choices: value === "story" ? undefined : (editingPage.choices || []),
                       chatMessages: value === "chat" ? (editingPage.chatMessages || []) : undefined
                     };
                     updatePage(editingPage.id, updates);
@@ -660,6 +785,20 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                         />
                       </div>
 
+                      <div>
+                        <Label htmlFor="card-image" className="text-text-primary">Card Image</Label>
+                        <div className="flex items-center gap-2">
+                          <Input
+                            id="card-image"
+                            value={editingPage.endingCard.cardImageUrl || ""}
+                            onChange={(e) => updateEndingCardImage(e.target.value)}
+                            placeholder="Pick from your library or paste a URL"
+                            className="bg-dark-tertiary border-dark-tertiary text-text-primary"
+                          />
+                          <MediaLibraryPicker onSelect={(asset) => updateEndingCardImage(asset.url)} />
+                        </div>
+                      </div>
+
                       {/* Title Card Preview */}
                       <div className="space-y-6">
                         <div className="text-center">
@@ -774,8 +913,8 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                   </div>
                   
                   <div className="space-y-3 max-h-60 overflow-y-auto">
-                    {editingPage.chatMessages && editingPage.chatMessages.length > 0 ? 
-                      editingPage.chatMessages.map((message, index) => (
+                    {activeChatMessages.length > 0 ? 
+                      activeChatMessages.map((message, index) => (
                         <div key={message.id} className="p-3 bg-dark-tertiary rounded-lg border border-dark-tertiary">
                           <div className="flex items-center justify-between mb-2">
                             <div className="flex items-center space-x-2">
@@ -797,6 +936,16 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                           </div>
                           
                           <div className="space-y-2">
+                            {characters.length > 0 && (
+                              <CharacterSelect
+                                characters={characters}
+                                value={message.characterId}
+                                onChange={(character) => updateChatMessage(editingPage.id, message.id, character
+                                  ? { characterId: character.id, sender: character.name }
+                                  : { characterId: undefined }
+                                )}
+                              />
+                            )}
                             <Input
                               placeholder="Sender name (e.g., Alex, Jake, etc.)"
                               value={message.sender}
@@ -809,6 +958,102 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                               onChange={(e) => updateChatMessage(editingPage.id, message.id, { message: e.target.value })}
                               className="bg-dark-secondary border-dark-secondary text-text-primary text-sm min-h-[60px]"
                             />
+
+                            {/* Playback: blank timings follow the message's length */}
+                            <div className="grid grid-cols-2 gap-2">
+                              <div>
+                                <Label className="text-xs text-text-muted">Pause before (s)</Label>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="60"
+                                  step="0.5"
+                                  placeholder={index === 0 ? "0" : "0.6"}
+                                  value={message.delayMs === undefined ? "" : message.delayMs / 1000}
+                                  onChange={(e) => updateChatMessage(editingPage.id, message.id, { delayMs: toMilliseconds(e.target.value) })}
+                                  className="bg-dark-secondary border-dark-secondary text-text-primary text-sm"
+                                />
+                              </div>
+                              <div>
+                                <Label className="text-xs text-text-muted">Typing for (s)</Label>
+                                <Input
+                                  type="number"
+                                  min="0"
+                                  max="60"
+                                  step="0.5"
+                                  placeholder="Auto"
+                                  value={message.typingMs === undefined ? "" : message.typingMs / 1000}
+                                  onChange={(e) => updateChatMessage(editingPage.id, message.id, { typingMs: toMilliseconds(e.target.value) })}
+                                  className="bg-dark-secondary border-dark-secondary text-text-primary text-sm"
+                                />
+                              </div>
+                            </div>
+
+                            <div className="grid grid-cols-3 gap-2">
+                              <Select
+                                value={message.attachment?.type || "none"}
+                                onValueChange={(value: "none" | "image" | "voice") => updateChatMessage(editingPage.id, message.id, {
+                                  attachment: value === "none" ? undefined : { url: "", ...message.attachment, type: value },
+                                })}
+                              >
+                                <SelectTrigger className="bg-dark-secondary border-dark-secondary text-text-primary text-sm">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent className="bg-dark-secondary border-dark-tertiary">
+                                  <SelectItem value="none">No attachment</SelectItem>
+                                  <SelectItem value="image">Image</SelectItem>
+                                  <SelectItem value="voice">Voice note</SelectItem>
+                                </SelectContent>
+                              </Select>
+                              {message.attachment && (
+                                <Input
+                                  placeholder={message.attachment.type === "image" ? "Image URL" : "Audio URL"}
+                                  value={message.attachment.url}
+                                  onChange={(e) => updateChatMessage(editingPage.id, message.id, {
+                                    attachment: { ...message.attachment!, url: e.target.value },
+                                  })}
+                                  className="col-span-2 bg-dark-secondary border-dark-secondary text-text-primary text-sm"
+                                />
+                              )}
+                            </div>
+
+                            {message.attachment && (
+                              <div className={`grid gap-2 ${message.attachment.type === "voice" ? "grid-cols-3" : "grid-cols-1"}`}>
+                                <Input
+                                  placeholder={message.attachment.type === "image" ? "Description (alt text)" : "Transcript"}
+                                  value={message.attachment.caption || ""}
+                                  onChange={(e) => updateChatMessage(editingPage.id, message.id, {
+                                    attachment: { ...message.attachment!, caption: e.target.value || undefined },
+                                  })}
+                                  className={`bg-dark-secondary border-dark-secondary text-text-primary text-sm ${message.attachment.type === "voice" ? "col-span-2" : ""}`}
+                                />
+                                {message.attachment.type === "voice" && (
+                                  <Input
+                                    type="number"
+                                    min="0"
+                                    placeholder="Length (s)"
+                                    value={message.attachment.durationSeconds ?? ""}
+                                    onChange={(e) => updateChatMessage(editingPage.id, message.id, {
+                                      attachment: {
+                                        ...message.attachment!,
+                                        durationSeconds: e.target.value === "" ? undefined : Math.max(0, Number(e.target.value)),
+                                      },
+                                    })}
+                                    className="bg-dark-secondary border-dark-secondary text-text-primary text-sm"
+                                  />
+                                )}
+                              </div>
+                            )}
+
+                            {message.isUser && (
+                              <div className="flex items-center space-x-2">
+                                <Switch
+                                  checked={!!message.readReceipt}
+                                  onCheckedChange={(checked) => updateChatMessage(editingPage.id, message.id, { readReceipt: checked || undefined })}
+                                />
+                                <Label className="text-xs text-text-muted">Show "Read" receipt</Label>
+                              </div>
+                            )}
                           </div>
                         </div>
                       )) : 
@@ -830,22 +1075,19 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
                       </span>
                     )}
                   </Label>
-                  <Textarea
+                  <StoryContentEditor
                     id="page-content"
                     value={editingPage.content}
-                    onChange={(e) => {
-                      updatePage(editingPage.id, { content: e.target.value });
-                      setEditingPage({ ...editingPage, content: e.target.value });
+                    onChange={(content) => {
+                      updatePage(editingPage.id, { content });
+                      setEditingPage({ ...editingPage, content });
                     }}
-                    className="bg-dark-tertiary border-dark-tertiary text-text-primary min-h-[200px]"
+                    characters={characters}
                     placeholder={editingPage.pageType === "choice" 
                       ? "Write the content that leads up to the choice decision..." 
                       : "Write the story content for this page..."
                     }
                   />
-                  <div className="text-xs text-text-muted mt-1">
-                    {editingPage.content.split(' ').filter(w => w.length > 0).length} words
-                  </div>
                 </div>
               )}
             </div>
@@ -860,13 +1102,13 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
             <DialogTitle className="text-text-primary">Edit Choice</DialogTitle>
           </DialogHeader>
           
-          {editingChoice && (
+          {editingChoice && activeChoice && (
             <div className="space-y-4">
               <div>
                 <Label htmlFor="choice-text" className="text-text-primary">Choice Text</Label>
                 <Input
                   id="choice-text"
-                  value={editingChoice.choice.text}
+                  value={activeChoice.text}
                   onChange={(e) => updateChoice(editingChoice.pageId, editingChoice.choice.id, { text: e.target.value })}
                   className="bg-dark-tertiary border-dark-tertiary text-text-primary"
                 />
@@ -875,7 +1117,7 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
               <div>
                 <Label htmlFor="target-page" className="text-text-primary">Target Page</Label>
                 <Select
-                  value={editingChoice.choice.targetPageId}
+                  value={activeChoice.targetPageId}
                   onValueChange={(value) => updateChoice(editingChoice.pageId, editingChoice.choice.id, { targetPageId: value })}
                 >
                   <SelectTrigger className="bg-dark-tertiary border-dark-tertiary text-text-primary">
@@ -894,26 +1136,35 @@ export function VisualTimelineBuilder({ pages, onPagesChange }: VisualTimelineBu
               <div className="flex items-center space-x-2">
                 <Switch
                   id="is-premium"
-                  checked={editingChoice.choice.isPremium}
+                  checked={activeChoice.isPremium}
                   onCheckedChange={(checked) => updateChoice(editingChoice.pageId, editingChoice.choice.id, { isPremium: checked })}
                 />
                 <Label htmlFor="is-premium" className="text-text-primary">Premium Choice</Label>
               </div>
               
-              {editingChoice.choice.isPremium && (
+              {activeChoice.isPremium && (
                 <div>
                   <Label htmlFor="eggplant-cost" className="text-text-primary">Eggplant Cost</Label>
                   <Input
                     id="eggplant-cost"
                     type="number"
                     min="1"
-                    value={editingChoice.choice.eggplantCost}
+                    value={activeChoice.eggplantCost}
                     onChange={(e) => updateChoice(editingChoice.pageId, editingChoice.choice.id, { eggplantCost: parseInt(e.target.value) || 0 })}
                     className="bg-dark-tertiary border-dark-tertiary text-text-primary"
                   />
                 </div>
               )}
               
+              {onVariablesChange && (
+                <ChoiceLogicEditor
+                  variables={variables}
+                  effects={activeChoice.effects || []}
+                  conditions={activeChoice.conditions || []}
+                  onChange={(updates) => updateChoice(editingChoice.pageId, editingChoice.choice.id, updates)}
+                />
+              )}
+              
               <div className="flex justify-end space-x-2">
                 <Button
                   variant="outline"
@@ -0,0 +1,303 @@
+import { StoryEngine, type StoryDataProvider } from "@shared/story-engine/StoryEngine";
+import type {
+  NavigationResult,
+  OfflineStoryBundle,
+  StoryCharacter,
+  StoryChoice,
+  UserProgress,
+} from "@shared/story-engine/types/EngineTypes";
+
+// Downloaded stories live in Cache Storage, where the service worker (public/sw.js) can serve their images
+export const OFFLINE_CACHE = "wildbranch-offline-v1";
+const DOWNLOADS_KEY = "offline-stories";
+const SYNC_QUEUE_KEY = "offline-sync-queue";
+const progressKey = (storyId: string) => `offline-progress-${storyId}`;
+const bundleUrl = (storyId: string) => `/api/stories/${storyId}/offline`;
+
+export const OFFLINE_PURCHASE_ERROR = "Premium paths can't be unlocked offline";
+
+export interface OfflineDownload {
+  storyId: string;
+  title: string;
+  downloadedAt: string;
+}
+
+interface ProgressSync {
+  type: "progress";
+  body: {
+    storyId: string;
+    slot?: string;
+    currentPageId: string;
+    pagesRead: number;
+    // Taken offline, oldest first; the server replays them to work out story variables and the reading path
+    choiceIds: string[];
+    lastReadAt: string;
+  };
+}
+
+interface BookmarkSync {
+  type: "bookmark";
+  body: { storyId: string; pageId: string; title: string; notes?: string };
+}
+
+type SyncItem = ProgressSync | BookmarkSync;
+
+function readJson<T>(key: string, fallback: T): T {
+  try {
+    const value = localStorage.getItem(key);
+    return value ? JSON.parse(value) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+// fetch only rejects when the request never reached the server
+export function isNetworkError(error: unknown): boolean {
+  return !navigator.onLine || error instanceof TypeError;
+}
+
+// === DOWNLOADS ===
+export function getOfflineDownloads(): Record<string, OfflineDownload> {
+  return readJson(DOWNLOADS_KEY, {});
+}
+
+export function isStoryDownloaded(storyId: string): boolean {
+  return !!getOfflineDownloads()[storyId];
+}
+
+// Saves the story's pages, choices and images so it can be read without a connection
+export async function downloadStory(storyId: string): Promise<OfflineDownload> {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const response = await fetch(bundleUrl(storyId), { credentials: "include" });
+  if (!response.ok) {
+    throw new Error(`${response.status}: ${response.statusText}`);
+  }
+
+  const bundle: OfflineStoryBundle = await response.clone().json();
+  await cache.put(bundleUrl(storyId), response);
+  // A missing image shouldn't fail the whole download
+  await Promise.all(bundle.assets.map(async (url) => {
+    try {
+      const sameOrigin = new URL(url, location.href).origin === location.origin;
+      await cache.put(url, await fetch(url, sameOrigin ? {} : { mode: "no-cors" }));
+    } catch {}
+  }));
+
+  const download = { storyId, title: bundle.metadata.title, downloadedAt: bundle.downloadedAt };
+  localStorage.setItem(DOWNLOADS_KEY, JSON.stringify({ ...getOfflineDownloads(), [storyId]: download }));
+  return download;
+}
+
+export async function removeDownload(storyId: string): Promise<void> {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const cached = await cache.match(bundleUrl(storyId));
+  if (cached) {
+    const bundle: OfflineStoryBundle = await cached.json();
+    await Promise.all(bundle.assets.map((url) => cache.delete(url)));
+    await cache.delete(bundleUrl(storyId));
+  }
+
+  const { [storyId]: _removed, ...downloads } = getOfflineDownloads();
+  localStorage.setItem(DOWNLOADS_KEY, JSON.stringify(downloads));
+  localStorage.removeItem(progressKey(storyId));
+}
+
+// Keeps a downloaded story's local place in step with reading done online
+export function rememberProgress(progress: UserProgress) {
+  if (isStoryDownloaded(progress.storyId)) {
+    localStorage.setItem(progressKey(progress.storyId), JSON.stringify(progress));
+  }
+}
+
+async function loadBundle(storyId: string): Promise<OfflineStoryBundle | null> {
+  const cache = await caches.open(OFFLINE_CACHE);
+  const cached = await cache.match(bundleUrl(storyId));
+  return cached ? cached.json() : null;
+}
+
+// The cast as it was when the story was downloaded
+export async function getOfflineCharacters(storyId: string): Promise<StoryCharacter[] | null> {
+  const bundle = await loadBundle(storyId);
+  // Downloads made before stories had a cast don't carry one
+  return bundle ? bundle.characters ?? [] : null;
+}
+
+// === OFFLINE NAVIGATION ===
+/**
+ * Runs the story engine in the browser against a downloaded story. Progress is kept locally and,
+ * for signed-in readers, queued to sync once they're back online along with the choices they took. Premium choices they already
+ * own work as usual; anything that needs a purchase fails with OFFLINE_PURCHASE_ERROR.
+ */
+class OfflineStoryProvider implements StoryDataProvider {
+  private choicesTaken: string[] = [];
+
+  constructor(private bundle: OfflineStoryBundle) {}
+
+  async getUserProgress(_userId: string, storyId: string): Promise<UserProgress | null> {
+    return readJson<UserProgress | null>(progressKey(storyId), null) ?? this.bundle.progress;
+  }
+
+  async saveUserProgress(progress: UserProgress): Promise<void> {
+    localStorage.setItem(progressKey(progress.storyId), JSON.stringify(progress));
+    if (!progress.userId) return;
+
+    const pagesRead = Math.max(
+      0,
+      ...this.bundle.pages.filter((page) => progress.completedPages.includes(page.id)).map((page) => page.pageNumber)
+    );
+    queueSync({
+      type: "progress",
+      body: {
+        storyId: progress.storyId,
+        slot: progress.slot,
+        currentPageId: progress.currentPageId,
+        pagesRead,
+        choiceIds: this.choicesTaken,
+        lastReadAt: new Date(progress.lastReadAt).toISOString(),
+      },
+    });
+  }
+
+  async getUserEggplants(): Promise<number> {
+    return this.bundle.userEggplants;
+  }
+
+  async purchaseChoice(): Promise<never> {
+    throw new Error(OFFLINE_PURCHASE_ERROR);
+  }
+
+  // Sent with the progress saved after it, so the server can replay it
+  async recordChoice(_userId: string, _storyId: string, choiceId: string): Promise<void> {
+    this.choicesTaken.push(choiceId);
+  }
+
+  async getChoiceHistory() {
+    return [];
+  }
+
+  async removeChoiceHistory(): Promise<void> {}
+
+  async getPage(pageId: string) {
+    return this.bundle.pages.find((page) => page.id === pageId) ?? null;
+  }
+
+  async getChoice(choiceId: string) {
+    return this.bundle.choices.find((choice) => choice.id === choiceId) ?? null;
+  }
+
+  async getChoicesFromPage(pageId: string): Promise<StoryChoice[]> {
+    return this.bundle.choices.filter((choice) => choice.fromPageId === pageId);
+  }
+
+  async getFirstPageId() {
+    return this.bundle.firstPageId;
+  }
+
+  async getStoryVariables() {
+    return this.bundle.variables;
+  }
+
+  async getStoryMetadata() {
+    return this.bundle.metadata;
+  }
+}
+
+const offlineEngine = new StoryEngine();
+
+// The offline counterpart of POST /api/stories/:storyId/session; null if the story isn't downloaded
+export async function navigateOffline(
+  storyId: string,
+  target: { choiceId?: string; pageId?: string },
+  userId?: string
+): Promise<NavigationResult | null> {
+  const bundle = await loadBundle(storyId);
+  if (!bundle) return null;
+
+  const provider = new OfflineStoryProvider(bundle);
+  const result = await offlineEngine.navigate(
+    {
+      userId,
+      storyId,
+      // The engine saves nothing for guests, so their local progress is passed in and kept here
+      guestProgress: userId ? undefined : (await provider.getUserProgress("", storyId)) ?? undefined,
+      choiceId: target.choiceId,
+      targetPageId: target.pageId,
+    },
+    provider
+  );
+  if (!userId && result.session) {
+    await provider.saveUserProgress(result.session.progress);
+  }
+  return result;
+}
+
+// === SYNC QUEUE ===
+function queueSync(item: SyncItem) {
+  const queue = readJson<SyncItem[]>(SYNC_QUEUE_KEY, []);
+  // Only the latest position in each save slot matters, but every choice taken on the way there does
+  const earlier = queue.find((queued): queued is ProgressSync => item.type === "progress" && queued.type === "progress"
+    && queued.body.storyId === item.body.storyId && queued.body.slot === item.body.slot);
+  if (earlier && item.type === "progress") {
+    item.body.choiceIds = [...(earlier.body.choiceIds ?? []), ...item.body.choiceIds];
+  }
+  localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify([...queue.filter((queued) => queued !== earlier), item]));
+}
+
+// Creates a personal bookmark, or queues it if the reader is offline
+export async function saveBookmark(bookmark: BookmarkSync["body"]): Promise<{ queued: boolean }> {
+  try {
+    const response = await fetch("/api/bookmarks", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(bookmark),
+      credentials: "include",
+    });
+    if (!response.ok) {
+      throw new Error(`${response.status}: ${(await response.text()) || response.statusText}`);
+    }
+    return { queued: false };
+  } catch (error) {
+    if (!isNetworkError(error)) throw error;
+    queueSync({ type: "bookmark", body: bookmark });
+    return { queued: true };
+  }
+}
+
+let flushing: Promise<void> | null = null;
+
+// Replays queued progress and bookmarks in order; stops at the first failure and tries again on the next reconnect
+export function flushSyncQueue(): Promise<void> {
+  flushing ??= (async () => {
+    try {
+      for (;;) {
+        const [item] = readJson<SyncItem[]>(SYNC_QUEUE_KEY, []);
+        if (!item) return;
+
+        const url = item.type === "progress" ? "/api/reading-progress" : "/api/bookmarks";
+        let response: Response;
+        try {
+          response = await fetch(url, {
+            method: "POST",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify(item.body),
+            credentials: "include",
+          });
+        } catch {
+          return;
+        }
+        // Wait for the reader to sign back in, or for the server to recover; other rejections
+        // (a page removed since) would fail the same way every time, so those items are dropped
+        if (response.status === 401 || response.status >= 500) return;
+        localStorage.setItem(SYNC_QUEUE_KEY, JSON.stringify(readJson<SyncItem[]>(SYNC_QUEUE_KEY, []).slice(1)));
+      }
+    } finally {
+      flushing = null;
+    }
+  })();
+  return flushing;
+}
+
+export function startOfflineSync() {
+  window.addEventListener("online", () => flushSyncQueue());
+  if (navigator.onLine) flushSyncQueue();
+}
@@ -0,0 +1,80 @@
+import type { CSSProperties } from "react";
+import {
+  DEFAULT_READER_PREFERENCES,
+  FONT_SIZE_RANGE,
+  LINE_HEIGHT_RANGE,
+  PAGE_TURN_ANIMATIONS,
+  READER_FONT_FAMILIES,
+  READER_TEXT_WIDTHS,
+  READER_THEMES,
+  type ReaderPreferences,
+} from "@shared/readerPreferences";
+
+// Signed-in readers' settings come from the server; this copy covers guests and the moment before it loads
+const STORAGE_KEY = "reading-preferences";
+
+export const FONT_OPTIONS: Record<ReaderPreferences["fontFamily"], { label: string; description: string; css: string }> = {
+  crimson: { label: "Crimson Text", description: "Classic, elegant serif perfect for long reading", css: "'Crimson Text', serif" },
+  garamond: { label: "EB Garamond", description: "Traditional French renaissance style", css: "'EB Garamond', serif" },
+  baskerville: { label: "Libre Baskerville", description: "Modern adaptation of a timeless design", css: "'Libre Baskerville', serif" },
+  georgia: { label: "Georgia", description: "Designed for screen reading", css: "Georgia, serif" },
+};
+
+export const THEME_OPTIONS: Record<ReaderPreferences["theme"], { label: string; className: string; swatch: string }> = {
+  dark: { label: "Dark", className: "", swatch: "hsl(30, 12%, 8%)" },
+  light: { label: "Light", className: "reader-theme-light", swatch: "hsl(0, 0%, 100%)" },
+  sepia: { label: "Sepia", className: "reader-theme-sepia", swatch: "hsl(39, 45%, 90%)" },
+  oled: { label: "OLED", className: "reader-theme-oled", swatch: "hsl(0, 0%, 0%)" },
+};
+
+export const TEXT_WIDTH_OPTIONS: Record<ReaderPreferences["textWidth"], { label: string; className: string }> = {
+  narrow: { label: "Narrow", className: "max-w-xl" },
+  medium: { label: "Medium", className: "max-w-3xl" },
+  wide: { label: "Wide", className: "max-w-5xl" },
+};
+
+// Played on each new page; readers who ask their system for less motion don't get one
+export const PAGE_TURN_OPTIONS: Record<ReaderPreferences["pageTurnAnimation"], { label: string; className: string }> = {
+  fade: { label: "Fade", className: "animate-in fade-in duration-500 motion-reduce:animate-none" },
+  slide: { label: "Slide", className: "animate-in fade-in slide-in-from-right-8 duration-300 motion-reduce:animate-none" },
+  none: { label: "None", className: "" },
+};
+
+// Font settings for the page text; sizes inside it are in em, so they follow
+export function readerTextStyle(preferences: ReaderPreferences): CSSProperties {
+  return {
+    fontFamily: FONT_OPTIONS[preferences.fontFamily].css,
+    fontSize: `${preferences.fontSize}rem`,
+    lineHeight: preferences.lineHeight,
+  };
+}
+
+const isOneOf = <T extends string>(options: readonly T[], value: unknown): value is T =>
+  typeof value === "string" && (options as readonly string[]).includes(value);
+
+const inRange = (value: unknown, min: number, max: number): value is number =>
+  typeof value === "number" && value >= min && value <= max;
+
+// Anything unreadable or out of range in the saved copy falls back to the default
+export function loadStoredReaderPreferences(): ReaderPreferences {
+  let stored: Record<string, unknown> = {};
+  try {
+    stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}") ?? {};
+  } catch {
+    // Start over from the defaults
+  }
+
+  const defaults = DEFAULT_READER_PREFERENCES;
+  return {
+    fontFamily: isOneOf(READER_FONT_FAMILIES, stored.fontFamily) ? stored.fontFamily : defaults.fontFamily,
+    fontSize: inRange(stored.fontSize, FONT_SIZE_RANGE.min, FONT_SIZE_RANGE.max) ? stored.fontSize : defaults.fontSize,
+    lineHeight: inRange(stored.lineHeight, LINE_HEIGHT_RANGE.min, LINE_HEIGHT_RANGE.max) ? stored.lineHeight : defaults.lineHeight,
+    theme: isOneOf(READER_THEMES, stored.theme) ? stored.theme : defaults.theme,
+    pageTurnAnimation: isOneOf(PAGE_TURN_ANIMATIONS, stored.pageTurnAnimation) ? stored.pageTurnAnimation : defaults.pageTurnAnimation,
+    textWidth: isOneOf(READER_TEXT_WIDTHS, stored.textWidth) ? stored.textWidth : defaults.textWidth,
+  };
+}
+
+export function storeReaderPreferences(preferences: ReaderPreferences): void {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(preferences));
+}
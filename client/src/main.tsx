@@ -1,5 +1,9 @@
 import { createRoot } from "react-dom/client";
 import App from "./App";
+import { startOfflineSync } from "./lib/offline-reading";
 import "./index.css";
 
+// Send progress and bookmarks saved while offline
+startOfflineSync();
+
 createRoot(document.getElementById("root")!).render(<App />);
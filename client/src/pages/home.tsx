@@ -1,5 +1,5 @@
-import { useState } from "react";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useEffect, useState } from "react";
+import { useInfiniteQuery, useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { BookOpen, Gem, Moon, Sun, GitBranch } from "lucide-react";
 import { useAuth } from "@/hooks/useAuth";
 import { useTheme } from "@/components/theme-provider";
@@ -8,6 +8,7 @@ import { Button } from "@/components/ui/button";
 import BottomNavigation from "@/components/bottom-navigation";
 import FloatingCreateButton from "@/components/floating-create-button";
 import { StoryCard } from "@/components/story-card";
+import { StorySearchPanel, storySearchParams, countActiveFilters, EMPTY_STORY_SEARCH, type StorySearchState } from "@/components/story-search-panel";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest } from "@/lib/queryClient";
 import type { Story } from "@shared/schema";
@@ -29,9 +30,34 @@ export default function Home() {
     queryKey: ["/api/stories/featured"],
   });
 
-  const { data: stories = [] } = useQuery<Story[]>({
-    queryKey: ["/api/stories", activeFilter !== "all" ? `?category=${activeFilter}` : ""],
+  const [search, setSearch] = useState<StorySearchState>(EMPTY_STORY_SEARCH);
+  const [debouncedQuery, setDebouncedQuery] = useState("");
+
+  // Wait for a pause in typing before searching
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebouncedQuery(search.query), 300);
+    return () => clearTimeout(timeout);
+  }, [search.query]);
+
+  const searchParams = storySearchParams({ ...search, query: debouncedQuery }, activeFilter).toString();
+  const isSearching = !!debouncedQuery.trim() || countActiveFilters(search) > 0;
+
+  const {
+    data: searchResults,
+    fetchNextPage,
+    hasNextPage,
+    isFetchingNextPage,
+  } = useInfiniteQuery({
+    queryKey: ["/api/stories/search", searchParams],
+    queryFn: async ({ pageParam }) => {
+      const response = await apiRequest("GET", `/api/stories/search?${searchParams}&page=${pageParam}`);
+      return (await response.json()) as { stories: Story[]; total: number; page: number; hasMore: boolean };
+    },
+    initialPageParam: 1,
+    getNextPageParam: (lastPage) => (lastPage.hasMore ? lastPage.page + 1 : undefined),
   });
+  const stories = searchResults?.pages.flatMap((page) => page.stories) ?? [];
+  const totalResults = searchResults?.pages[0]?.total ?? 0;
 
   // Fetch reading progress for authenticated users
   const { data: readingProgress = [] } = useQuery<any[]>({
@@ -248,6 +274,8 @@ export default function Home() {
           </section>
         )}
 
+        <StorySearchPanel search={search} onSearchChange={setSearch} showReaderFilters={!!user} />
+
         {/* Filter Tabs */}
         <section className="flex bg-dark-secondary rounded-xl p-1">
           {filterButtons.map((filter) => (
@@ -306,7 +334,16 @@ export default function Home() {
 
         {/* Story Grid */}
         <section className="space-y-4">
-          <h3 className="text-lg font-semibold text-text-primary">Browse Stories</h3>
+          <div className="flex items-baseline justify-between">
+            <h3 className="text-lg font-semibold text-text-primary">
+              {isSearching ? "Search Results" : "Browse Stories"}
+            </h3>
+            {isSearching && (
+              <span className="text-xs text-text-muted">
+                {totalResults} {totalResults === 1 ? "story" : "stories"}
+              </span>
+            )}
+          </div>
           
           <div className="space-y-4">
             {stories.map((story) => {
@@ -352,9 +389,22 @@ export default function Home() {
             })}
           </div>
 
+          {hasNextPage && (
+            <Button
+              variant="outline"
+              onClick={() => fetchNextPage()}
+              disabled={isFetchingNextPage}
+              className="w-full border-dark-tertiary text-text-secondary hover:bg-dark-tertiary"
+            >
+              {isFetchingNextPage ? "Loading..." : "Load more"}
+            </Button>
+          )}
+
           {stories.length === 0 && (
             <div className="text-center py-8">
-              <p className="text-text-muted">No stories found in this category.</p>
+              <p className="text-text-muted">
+                {isSearching ? "No stories match your search." : "No stories found in this category."}
+              </p>
             </div>
           )}
         </section>
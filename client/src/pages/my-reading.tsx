@@ -1,5 +1,5 @@
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { BookOpen, Heart, Clock, ArrowLeft, CheckCircle, Target, TrendingUp, Star, Award, Calendar } from "lucide-react";
+import { BookOpen, Heart, Clock, ArrowLeft, CheckCircle, Target, TrendingUp, Star, Award, Calendar, Save } from "lucide-react";
 import { useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
 import { useLocation } from "wouter";
@@ -19,6 +19,12 @@ type ReadingProgressWithStory = ReadingProgress & {
   story: Story;
 };
 
+// A story with the reader's save slots in it, most recently read first
+type StoryInProgress = {
+  story: Story;
+  slots: ReadingProgressWithStory[];
+};
+
 export default function MyReading() {
   const { user, isLoading: authLoading } = useAuth();
   const [, setLocation] = useLocation();
@@ -97,18 +103,14 @@ export default function MyReading() {
     },
   });
 
-  const openStory = (storyId: string) => {
-    setLocation(`/story/${storyId}`);
+  const openStory = (storyId: string, slot?: string) => {
+    setLocation(slot ? `/story/${storyId}?slot=${encodeURIComponent(slot)}` : `/story/${storyId}`);
   };
 
-  const openStoryFromBeginning = async (storyId: string) => {
+  const openStoryFromBeginning = async (storyId: string, slot?: string) => {
     try {
-      // Clear reading progress by setting to the starting node
-      await apiRequest("POST", '/api/reading-progress', {
-        storyId,
-        currentPageId: `${storyId.split('-')[0]}-start`, // Assume start page follows pattern
-        isBookmarked: false
-      });
+      // Clear the slot's progress so the reader opens on the first page
+      await apiRequest("POST", `/api/stories/${storyId}/start-from-beginning`, { slot });
       
       // Invalidate cache to refresh the UI
       queryClient.invalidateQueries({ queryKey: ["/api/reading-progress"] });
@@ -125,16 +127,24 @@ export default function MyReading() {
         variant: "destructive",
       });
     }
-    setLocation(`/story/${storyId}`);
+    openStory(storyId, slot);
   };
 
   const handleBookmark = (storyId: string) => {
     bookmarkMutation.mutate(storyId);
   };
 
+  // Progress comes back one row per save slot, newest first; group the slots under their story
+  const storiesInProgress = readingProgress.reduce<StoryInProgress[]>((stories, progress) => {
+    const entry = stories.find(s => s.story.id === progress.storyId);
+    if (entry) entry.slots.push(progress);
+    else stories.push({ story: progress.story, slots: [progress] });
+    return stories;
+  }, []);
+
   // Filter stories based on active tab and completion status
-  const continueReading = readingProgress.filter(p => !p.isCompleted && (!p.isBookmarked || (p.lastReadAt && new Date(p.lastReadAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000))));
-  const bookmarked = readingProgress.filter(p => p.isBookmarked);
+  const continueReading = storiesInProgress.filter(({ slots }) => slots.some(p => !p.isCompleted && (!p.isBookmarked || (p.lastReadAt && new Date(p.lastReadAt) > new Date(Date.now() - 7 * 24 * 60 * 60 * 1000)))));
+  const bookmarked = storiesInProgress.filter(({ slots }) => slots.some(p => p.isBookmarked));
 
   const currentList = activeTab === "continue" ? continueReading : bookmarked;
 
@@ -266,23 +276,52 @@ export default function MyReading() {
           </div>
         ) : currentList.length > 0 ? (
           <div className="space-y-4">
-            {currentList.map((progress) => (
-              <div key={progress.id} className="space-y-2">
-                <StoryCard
-                  story={progress.story}
-                  onRead={() => openStory(progress.storyId)}
-                  onReadFromBeginning={() => openStoryFromBeginning(progress.storyId)}
-                  onBookmark={() => handleBookmark(progress.storyId)}
-                  showProgress={true}
-                  progressPercent={progress.isCompleted ? 100 : Math.min(100, (progress.currentPageId ? 50 : 10))}
-                />
-                {progress.isCompleted && (
-                  <div className="px-3 py-2 bg-rose-gold/10 border border-rose-gold/20 rounded-lg">
-                    <p className="text-xs text-rose-gold font-medium">✓ Story Completed - Tap to restart from beginning</p>
+            {currentList.map(({ story, slots }) => {
+              // The card opens the slot read most recently
+              const progress = slots[0];
+              return (
+                <div key={story.id} className="space-y-2">
+                  <StoryCard
+                    story={story}
+                    onRead={() => openStory(story.id, progress.slot)}
+                    onReadFromBeginning={() => openStoryFromBeginning(story.id, progress.slot)}
+                    onBookmark={() => handleBookmark(story.id)}
+                    showProgress={true}
+                    progressPercent={progress.isCompleted ? 100 : Math.min(100, (progress.currentPageId ? 50 : 10))}
+                  />
+                  {progress.isCompleted && (
+                    <div className="px-3 py-2 bg-rose-gold/10 border border-rose-gold/20 rounded-lg">
+                      <p className="text-xs text-rose-gold font-medium">✓ Story Completed - Tap to restart from beginning</p>
+                    </div>
+                  )}
+                  {/* Save slots: each is a separate playthrough of the story */}
+                  <div className="bg-dark-secondary border border-dark-tertiary rounded-lg divide-y divide-dark-tertiary">
+                    {slots.map((slot) => (
+                      <button
+                        key={slot.id}
+                        onClick={() => openStory(story.id, slot.slot)}
+                        className="w-full flex items-center justify-between px-3 py-2 text-left hover:bg-dark-tertiary/50 transition-colors"
+                      >
+                        <div className="flex items-center space-x-2 min-w-0">
+                          <Save className="w-3.5 h-3.5 text-rose-gold shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm text-text-primary truncate">{slot.slot}</p>
+                            <p className="text-xs text-text-muted">
+                              {slot.isCompleted ? "Completed" : `Page ${slot.currentPage}`}
+                            </p>
+                          </div>
+                        </div>
+                        {slot.lastReadAt && (
+                          <span className="text-xs text-text-muted shrink-0 ml-2">
+                            {formatDistanceToNow(new Date(slot.lastReadAt), { addSuffix: true })}
+                          </span>
+                        )}
+                      </button>
+                    ))}
                   </div>
-                )}
-              </div>
-            ))}
+                </div>
+              );
+            })}
           </div>
         ) : (
           <div className="text-center py-12">
@@ -0,0 +1,397 @@
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { ArrowLeft, BookOpen, CheckCircle, Download, Edit, Eye, FileJson, FileText, Plus, Trash2, Upload, Users } from "lucide-react";
+import { useRef, useState } from "react";
+import { useLocation } from "wouter";
+import { useAuth } from "@/hooks/useAuth";
+import { isAdmin } from "@shared/userRoles";
+import { BottomNavigation } from "@/components/bottom-navigation";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { formatDistanceToNow } from "date-fns";
+import type { Story } from "@shared/schema";
+
+type AuthorStory = Story & {
+  authorRole: "owner" | "co-author";
+  readers: number;
+  completions: number;
+  premiumPurchases: number;
+  eggplantsEarned: number;
+  hasUnpublishedChanges: boolean;
+};
+
+export default function MyStories() {
+  const { user, isLoading: authLoading } = useAuth();
+  const [, setLocation] = useLocation();
+  const [activeTab, setActiveTab] = useState<"drafts" | "published">("drafts");
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: authorStories = [], isLoading } = useQuery<AuthorStory[]>({
+    queryKey: ["/api/author/stories"],
+    enabled: !!user && isAdmin(user),
+  });
+
+  const publishMutation = useMutation({
+    mutationFn: async ({ storyId, isPublished }: { storyId: string; isPublished: boolean }) => {
+      return await apiRequest("POST", `/api/stories/${storyId}/${isPublished ? "publish" : "unpublish"}`);
+    },
+    onSuccess: (_, { isPublished }) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/author/stories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stories"] });
+      toast({
+        title: isPublished ? "Story Published" : "Story Unpublished",
+        description: isPublished ? "Readers can now find your story." : "Your story is back in drafts.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Update Failed",
+        description: error.message || "Failed to update story",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Story packages (.json), Twine (.twee/.tw) and Ink (.ink) files become new drafts
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      if (/\.json$/i.test(file.name)) {
+        let storyPackage: unknown;
+        try {
+          storyPackage = JSON.parse(await file.text());
+        } catch {
+          throw new Error("The file is not valid JSON");
+        }
+
+        // Dry run first so the author sees conflicts before anything is created
+        const check = await (await apiRequest("POST", "/api/stories/import?dryRun=true", storyPackage)).json();
+        const problems: string[] = check.conflicts.map((conflict: { message: string }) => conflict.message);
+        if (!check.canImport) throw new Error(problems.join("; "));
+        if (problems.length > 0 && !window.confirm(`Import "${check.summary.title}" anyway?\n\n${problems.join("\n")}`)) {
+          return null;
+        }
+
+        const result = await (await apiRequest("POST", "/api/stories/import", storyPackage)).json();
+        return { story: result.story as Story, warnings: [] as string[] };
+      }
+
+      const format = /\.ink$/i.test(file.name) ? "ink" : "twee";
+      const response = await fetch(`/api/stories/import?format=${format}`, {
+        method: "POST",
+        headers: { "Content-Type": "text/plain" },
+        body: await file.text(),
+        credentials: "include",
+      });
+      const result = await response.json();
+      if (!response.ok) throw new Error(result.message);
+      return result as { story: Story; warnings: string[] };
+    },
+    onSuccess: (result) => {
+      if (!result) return;
+      const { story, warnings } = result;
+      queryClient.invalidateQueries({ queryKey: ["/api/author/stories"] });
+      setActiveTab("drafts");
+      toast({
+        title: "Story Imported",
+        description: warnings.length > 0
+          ? `"${story.title}" is in your drafts. ${warnings.length} item(s) couldn't be converted: ${warnings.slice(0, 3).join("; ")}`
+          : `"${story.title}" is in your drafts.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Import Failed",
+        description: error.message || "Failed to import story",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (storyId: string) => {
+      return await apiRequest("DELETE", `/api/stories/${storyId}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/author/stories"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/stories"] });
+      toast({
+        title: "Story Deleted",
+        description: "The story and all its pages have been removed.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Delete Failed",
+        description: error.message || "Failed to delete story",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!authLoading && (!user || !isAdmin(user))) {
+    return (
+      <div className="max-w-md mx-auto bg-dark-primary min-h-screen flex flex-col items-center justify-center p-6 space-y-6">
+        <div className="text-center space-y-4">
+          <FileText className="w-16 h-16 text-rose-gold mx-auto" />
+          <div>
+            <h2 className="text-2xl font-bold text-text-primary mb-2">Writers Only</h2>
+            <p className="text-text-muted leading-relaxed">
+              Only writers can manage stories.
+            </p>
+          </div>
+        </div>
+        <Button
+          onClick={() => setLocation("/")}
+          variant="outline"
+          className="border-dark-tertiary text-text-secondary hover:bg-dark-tertiary"
+        >
+          Back to Browse
+        </Button>
+      </div>
+    );
+  }
+
+  const drafts = authorStories.filter((story) => !story.isPublished);
+  const published = authorStories.filter((story) => story.isPublished);
+  const currentList = activeTab === "drafts" ? drafts : published;
+
+  const totals = authorStories.reduce(
+    (sum, story) => ({
+      readers: sum.readers + story.readers,
+      completions: sum.completions + story.completions,
+      eggplantsEarned: sum.eggplantsEarned + story.eggplantsEarned,
+    }),
+    { readers: 0, completions: 0, eggplantsEarned: 0 }
+  );
+
+  const confirmDelete = (story: AuthorStory) => {
+    if (window.confirm(`Delete "${story.title}"? This cannot be undone.`)) {
+      deleteMutation.mutate(story.id);
+    }
+  };
+
+  return (
+    <div className="max-w-md mx-auto bg-dark-primary min-h-screen relative pb-20">
+      {/* Header */}
+      <header className="sticky top-0 z-50 bg-dark-primary/95 backdrop-blur-sm border-b border-dark-tertiary">
+        <div className="flex items-center justify-between p-4">
+          <div className="flex items-center space-x-3">
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setLocation("/profile")}
+              className="h-8 w-8 p-0 hover:bg-dark-tertiary"
+            >
+              <ArrowLeft size={16} className="text-text-muted" />
+            </Button>
+            <h1 className="text-xl font-bold tracking-tight text-text-primary">My Stories</h1>
+          </div>
+          <div className="flex space-x-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".json,.twee,.tw,.ink,.txt"
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                if (file) importMutation.mutate(file);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => importInputRef.current?.click()}
+              disabled={importMutation.isPending}
+              className="border-dark-tertiary text-text-primary hover:bg-dark-tertiary h-8"
+            >
+              <Upload className="w-4 h-4 mr-1" />
+              Import
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => setLocation("/story-builder")}
+              className="bg-rose-gold text-dark-primary hover:bg-rose-gold/90 h-8"
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              New
+            </Button>
+          </div>
+        </div>
+      </header>
+
+      {/* Totals */}
+      <div className="grid grid-cols-3 gap-3 px-4 pt-4">
+        <Card className="bg-dark-secondary border-dark-tertiary">
+          <CardContent className="p-3 text-center">
+            <p className="text-lg font-bold text-text-primary">{totals.readers}</p>
+            <p className="text-xs text-text-muted">Readers</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-dark-secondary border-dark-tertiary">
+          <CardContent className="p-3 text-center">
+            <p className="text-lg font-bold text-text-primary">{totals.completions}</p>
+            <p className="text-xs text-text-muted">Completions</p>
+          </CardContent>
+        </Card>
+        <Card className="bg-dark-secondary border-dark-tertiary">
+          <CardContent className="p-3 text-center">
+            <p className="text-lg font-bold text-gold-accent">{totals.eggplantsEarned} 🍆</p>
+            <p className="text-xs text-text-muted">Earned</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {/* Tab Navigation */}
+      <div className="px-4 py-4">
+        <div className="flex bg-dark-secondary rounded-xl p-1">
+          {([
+            ["drafts", "Drafts", drafts.length],
+            ["published", "Published", published.length],
+          ] as const).map(([tab, label, count]) => (
+            <button
+              key={tab}
+              onClick={() => setActiveTab(tab)}
+              className={`flex-1 py-2.5 px-4 rounded-lg font-medium text-sm transition-all ${
+                activeTab === tab
+                  ? "bg-rose-gold text-dark-primary"
+                  : "text-text-muted hover:text-text-secondary"
+              }`}
+            >
+              {label} ({count})
+            </button>
+          ))}
+        </div>
+      </div>
+
+      {/* Story List */}
+      <div className="px-4 space-y-3">
+        {isLoading ? (
+          [1, 2, 3].map((i) => (
+            <div key={i} className="h-32 bg-dark-secondary rounded-xl animate-pulse" />
+          ))
+        ) : currentList.length === 0 ? (
+          <div className="text-center py-12">
+            <BookOpen className="w-12 h-12 text-text-muted mx-auto mb-3" />
+            <p className="text-text-muted">
+              {activeTab === "drafts" ? "No drafts in progress." : "You haven't published anything yet."}
+            </p>
+          </div>
+        ) : (
+          currentList.map((story) => (
+            <Card key={story.id} className="bg-dark-secondary border-dark-tertiary">
+              <CardContent className="p-4 space-y-3">
+                <div className="flex items-start justify-between">
+                  <div className="min-w-0">
+                    <h3 className="font-semibold text-text-primary truncate">{story.title}</h3>
+                    <p className="text-xs text-text-muted">
+                      {story.updatedAt && `Updated ${formatDistanceToNow(new Date(story.updatedAt), { addSuffix: true })}`}
+                    </p>
+                  </div>
+                  <div className="flex flex-col items-end space-y-1 flex-shrink-0">
+                    {story.authorRole === "co-author" && (
+                      <Badge variant="outline" className="border-dark-tertiary text-text-muted">
+                        <Users className="w-3 h-3 mr-1" />
+                        Co-author
+                      </Badge>
+                    )}
+                    {story.isPublished && story.hasUnpublishedChanges && (
+                      <Badge variant="outline" className="border-gold-accent/50 text-gold-accent">
+                        Unpublished changes
+                      </Badge>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-4 text-xs text-text-muted">
+                  <span className="flex items-center"><Eye className="w-3 h-3 mr-1" />{story.readers}</span>
+                  <span className="flex items-center"><CheckCircle className="w-3 h-3 mr-1" />{story.completions}</span>
+                  <span>{story.premiumPurchases} unlocks</span>
+                  <span className="text-gold-accent">{story.eggplantsEarned} 🍆</span>
+                </div>
+
+                <div className="flex space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setLocation(`/story/${story.id}`)}
+                    className="border-dark-tertiary text-text-primary hover:bg-dark-tertiary"
+                  >
+                    Preview
+                  </Button>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => setLocation(`/story-builder?storyId=${story.id}`)}
+                    className="border-dark-tertiary text-text-primary hover:bg-dark-tertiary"
+                  >
+                    <Edit className="w-3 h-3 mr-1" />
+                    Edit
+                  </Button>
+                  {story.isPublished && story.hasUnpublishedChanges && (
+                    <Button
+                      size="sm"
+                      onClick={() => publishMutation.mutate({ storyId: story.id, isPublished: true })}
+                      disabled={publishMutation.isPending}
+                      className="bg-rose-gold text-dark-primary hover:bg-rose-gold/90"
+                    >
+                      Publish Changes
+                    </Button>
+                  )}
+                  <Button
+                    size="sm"
+                    variant={story.isPublished ? "outline" : "default"}
+                    onClick={() => publishMutation.mutate({ storyId: story.id, isPublished: !story.isPublished })}
+                    disabled={publishMutation.isPending}
+                    className={story.isPublished
+                      ? "border-dark-tertiary text-text-primary hover:bg-dark-tertiary"
+                      : "bg-rose-gold text-dark-primary hover:bg-rose-gold/90"}
+                  >
+                    {story.isPublished ? "Unpublish" : "Publish"}
+                  </Button>
+                  <Button
+                    asChild
+                    size="sm"
+                    variant="ghost"
+                    className="text-text-muted hover:bg-dark-tertiary"
+                  >
+                    <a href={`/api/stories/${story.id}/export/twee`} download title="Export as Twee">
+                      <Download className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  <Button
+                    asChild
+                    size="sm"
+                    variant="ghost"
+                    className="text-text-muted hover:bg-dark-tertiary"
+                  >
+                    <a href={`/api/stories/${story.id}/export`} download title="Export story package">
+                      <FileJson className="w-4 h-4" />
+                    </a>
+                  </Button>
+                  {story.authorRole === "owner" && (
+                    <Button
+                      size="sm"
+                      variant="ghost"
+                      onClick={() => confirmDelete(story)}
+                      disabled={deleteMutation.isPending}
+                      className="text-red-400 hover:bg-red-400/10 ml-auto"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          ))
+        )}
+      </div>
+
+      <BottomNavigation />
+    </div>
+  );
+}
@@ -2,6 +2,7 @@ import { ArrowLeft, LogOut, Gem, BookOpen, Heart, User, Settings, Plus, Edit } f
 import { useAuth } from "@/hooks/useAuth";
 import { useLocation } from "wouter";
 import { BottomNavigation } from "@/components/bottom-navigation";
+import { EggplantHistory } from "@/components/eggplant-history";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent } from "@/components/ui/card";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/ui/avatar";
@@ -213,6 +214,9 @@ export default function Profile() {
           </CardContent>
         </Card>
 
+        {/* Eggplant Ledger */}
+        <EggplantHistory />
+
         {/* Quick Actions */}
         <Card className="bg-dark-secondary border-dark-tertiary">
           <CardContent className="pt-6">
@@ -250,7 +254,7 @@ export default function Profile() {
                   <Button
                     variant="ghost"
                     className="w-full justify-start text-rose-gold hover:bg-dark-tertiary"
-                    onClick={() => setLocation("/story-builder")}
+                    onClick={() => setLocation("/my-stories")}
                   >
                     <Edit className="w-4 h-4 mr-3" />
                     Manage My Stories
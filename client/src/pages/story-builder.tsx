@@ -7,16 +7,18 @@ import { Badge } from "@/components/ui/badge";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
-import { ArrowLeft, Plus, Save, Eye, ArrowRight, Gem, Trash2, Edit } from "lucide-react";
+import { ArrowLeft, Plus, Save, Eye, ArrowRight, Gem, Trash2, Edit, MapIcon } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { useAuth } from "@/hooks/useAuth";
 import { isAdmin } from "@shared/userRoles";
 import BottomNavigation from "@/components/bottom-navigation";
 import { VisualTimelineBuilder } from "@/components/visual-timeline-builder";
-import type { StoryPage, CreateStoryPayload } from "@shared/types";
+import { MediaLibraryPicker } from "@/components/media-library-picker";
+import StoryMap from "@/components/StoryMap";
+import type { StoryPage, CreateStoryPayload, StoryCharacter, StoryVariableDefinition } from "@shared/types";
 
 export default function StoryBuilder() {
   const [, setLocation] = useLocation();
@@ -26,6 +28,7 @@ export default function StoryBuilder() {
   const [currentStep, setCurrentStep] = useState(1);
   const [hasUnsavedChanges, setHasUnsavedChanges] = useState(false);
   const initialDataRef = useRef<any>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
 
   // Redirect if not admin
   if (!user || !isAdmin(user)) {
@@ -52,6 +55,7 @@ export default function StoryBuilder() {
     imageUrl: "",
     spiceLevel: 1,
     category: "straight",
+    tags: "",
     isPublished: false,
     isFeatured: false,
   });
@@ -64,19 +68,75 @@ export default function StoryBuilder() {
     { id: "page-5", title: "First Choice", content: "", order: 5, pageType: "choice", choices: [] },
   ]);
 
+  const [variables, setVariables] = useState<StoryVariableDefinition[]>([]);
+  const [characters, setCharacters] = useState<StoryCharacter[]>([]);
+
+  // Set once the story exists on the server; edits then go to its working draft
+  const [storyId, setStoryId] = useState<string | null>(
+    () => new URLSearchParams(window.location.search).get("storyId")
+  );
+  const [loadedStoryId, setLoadedStoryId] = useState<string | null>(null);
+
+  const { data: draft } = useQuery<{
+    storyId: string;
+    isPublished: boolean;
+    hasUnpublishedChanges: boolean;
+    title: string;
+    description: string;
+    imageUrl: string | null;
+    spiceLevel: number;
+    category: string;
+    tags: string[];
+    pages: StoryPage[];
+    variables: StoryVariableDefinition[];
+    characters: StoryCharacter[];
+  }>({
+    queryKey: [`/api/stories/${storyId}/draft`],
+    enabled: !!storyId && loadedStoryId !== storyId,
+  });
+
+  // Load an existing story into the builder once, then treat it as the saved baseline
+  useEffect(() => {
+    if (!draft || loadedStoryId === draft.storyId) return;
+
+    const loadedStoryData = {
+      title: draft.title,
+      description: draft.description,
+      imageUrl: draft.imageUrl || "",
+      spiceLevel: draft.spiceLevel,
+      category: draft.category,
+      tags: draft.tags.join(", "),
+      isPublished: draft.isPublished,
+      isFeatured: storyData.isFeatured,
+    };
+    initialDataRef.current = {
+      storyData: loadedStoryData,
+      pages: draft.pages,
+      variables: draft.variables,
+      characters: draft.characters,
+    };
+    setStoryData(loadedStoryData);
+    setPages(draft.pages);
+    setVariables(draft.variables);
+    setCharacters(draft.characters);
+    setLoadedStoryId(draft.storyId);
+  }, [draft]);
+
   // Track changes to detect unsaved work
   useEffect(() => {
     if (!initialDataRef.current) {
-      initialDataRef.current = { storyData, pages };
+      initialDataRef.current = { storyData, pages, variables, characters };
       return;
     }
 
     const hasChanges = 
       JSON.stringify(storyData) !== JSON.stringify(initialDataRef.current.storyData) ||
-      JSON.stringify(pages) !== JSON.stringify(initialDataRef.current.pages);
+      JSON.stringify(pages) !== JSON.stringify(initialDataRef.current.pages) ||
+      JSON.stringify(variables) !== JSON.stringify(initialDataRef.current.variables) ||
+      JSON.stringify(characters) !== JSON.stringify(initialDataRef.current.characters);
     
     setHasUnsavedChanges(hasChanges);
-  }, [storyData, pages]);
+  }, [storyData, pages, variables, characters]);
 
   // Prevent navigation with unsaved changes
   useEffect(() => {
@@ -121,20 +181,39 @@ export default function StoryBuilder() {
     setLocation(path);
   };
 
+  const timelinePayload = () => ({
+    title: storyData.title,
+    description: storyData.description,
+    imageUrl: storyData.imageUrl,
+    spiceLevel: storyData.spiceLevel,
+    category: storyData.category,
+    tags: storyData.tags,
+    pages: pages,
+    variables: variables,
+    characters: characters
+  });
+
   // Create complete story mutation (published)
   const createStoryMutation = useMutation({
     mutationFn: async () => {
-      const storyPayload = {
-        title: storyData.title,
-        description: storyData.description,
-        imageUrl: storyData.imageUrl,
-        spiceLevel: storyData.spiceLevel,
-        category: storyData.category,
-        isPublished: true,
-        isFeatured: storyData.isFeatured,
-        pages: pages
-      };
-      const response = await apiRequest("POST", "/api/stories", storyPayload);
+      // Existing stories save their draft first, then publish it in one step
+      // New stories are created unpublished so a failed validation leaves a draft to fix
+      let publishStoryId = storyId;
+      if (publishStoryId) {
+        await apiRequest("PUT", `/api/stories/${publishStoryId}/draft`, timelinePayload());
+      } else {
+        const response = await apiRequest("POST", "/api/stories", {
+          ...timelinePayload(),
+          isPublished: false,
+          isFeatured: storyData.isFeatured,
+        });
+        const story = await response.json();
+        publishStoryId = story.id as string;
+        setStoryId(publishStoryId);
+        setLoadedStoryId(publishStoryId);
+      }
+
+      const response = await apiRequest("POST", `/api/stories/${publishStoryId}/publish`);
       return response.json();
     },
     onSuccess: () => {
@@ -145,11 +224,15 @@ export default function StoryBuilder() {
       });
       setLocation("/");
       queryClient.invalidateQueries({ queryKey: ['/api/admin/stories'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/author/stories'] });
     },
     onError: (error: any) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/stories/${storyId}/validate`] });
       toast({
         title: "Creation Failed",
-        description: error.message || "Failed to create story",
+        description: error.message?.startsWith("400")
+          ? "Your story was saved as a draft. Fix the errors in the timeline before publishing."
+          : error.message || "Failed to create story",
         variant: "destructive",
       });
     },
@@ -158,21 +241,39 @@ export default function StoryBuilder() {
   // Save draft mutation
   const saveDraftMutation = useMutation({
     mutationFn: async () => {
+      if (storyId) {
+        const response = await apiRequest("PUT", `/api/stories/${storyId}/draft`, timelinePayload());
+        return response.json();
+      }
+
       const draftPayload = {
         title: storyData.title,
         description: storyData.description,
         imageUrl: storyData.imageUrl,
         spiceLevel: storyData.spiceLevel,
         category: storyData.category,
+        tags: storyData.tags,
         isPublished: false,
         isFeatured: false,
-        pages: pages
+        pages: pages,
+        variables: variables,
+        characters: characters
       };
       const response = await apiRequest("POST", "/api/stories/draft", draftPayload);
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (result) => {
+      if (!storyId && result.story?.id) {
+        // Later saves update this story instead of creating another draft; the
+        // builder keeps its local ids until the story is reopened
+        setStoryId(result.story.id);
+        setLoadedStoryId(result.story.id);
+      }
+      initialDataRef.current = { storyData, pages, variables, characters };
       setHasUnsavedChanges(false); // Clear unsaved changes flag  
+      queryClient.invalidateQueries({ queryKey: ['/api/author/stories'] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stories/${storyId || result.story?.id}/validate`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stories/${storyId || result.story?.id}/draft/map`] });
       toast({
         title: "Draft Saved!",
         description: "Your story draft has been saved successfully.",
@@ -244,13 +345,30 @@ export default function StoryBuilder() {
                 </div>
 
                 <div>
-                  <Label className="text-text-secondary">Cover Image URL (optional)</Label>
+                  <Label className="text-text-secondary">Cover Image (optional)</Label>
+                  <div className="flex items-center gap-2">
+                    <Input
+                      value={storyData.imageUrl}
+                      onChange={(e) => setStoryData({ ...storyData, imageUrl: e.target.value })}
+                      placeholder="Pick from your library or paste a URL"
+                      className="bg-dark-tertiary border-dark-tertiary text-text-primary"
+                    />
+                    <MediaLibraryPicker onSelect={(asset) => setStoryData({ ...storyData, imageUrl: asset.url })} />
+                  </div>
+                  {storyData.imageUrl && (
+                    <img src={storyData.imageUrl} alt="Cover preview" className="mt-2 h-32 rounded-md object-cover" />
+                  )}
+                </div>
+
+                <div>
+                  <Label className="text-text-secondary">Tags (optional)</Label>
                   <Input
-                    value={storyData.imageUrl}
-                    onChange={(e) => setStoryData({ ...storyData, imageUrl: e.target.value })}
-                    placeholder="https://example.com/image.jpg"
+                    value={storyData.tags}
+                    onChange={(e) => setStoryData({ ...storyData, tags: e.target.value })}
+                    placeholder="vampire, slow burn, office"
                     className="bg-dark-tertiary border-dark-tertiary text-text-primary"
                   />
+                  <p className="text-xs text-text-muted mt-1">Comma-separated. Readers can find your story by these.</p>
                 </div>
 
                 <div className="grid grid-cols-2 gap-4">
@@ -297,7 +415,21 @@ export default function StoryBuilder() {
         return (
           <div className="space-y-6">
             <div>
-              <h2 className="text-xl font-bold text-text-primary mb-4">Story Structure</h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-xl font-bold text-text-primary">Story Structure</h2>
+                {/* Lays out the last saved draft */}
+                {storyId && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setIsMapOpen(true)}
+                    className="border-dark-tertiary text-text-secondary hover:bg-dark-tertiary"
+                  >
+                    <MapIcon className="w-4 h-4 mr-2" />
+                    Story Map
+                  </Button>
+                )}
+              </div>
               <p className="text-text-muted mb-6">
                 Create your story using two types of pages: <strong>Story Pages</strong> for narrative content 
                 and <strong>Choice Pages</strong> for branching decisions. Every choice page should lead to story pages or other choice pages.
@@ -307,6 +439,11 @@ export default function StoryBuilder() {
             <VisualTimelineBuilder 
               pages={pages} 
               onPagesChange={setPages} 
+              variables={variables}
+              onVariablesChange={setVariables}
+              characters={characters}
+              onCharactersChange={setCharacters}
+              storyId={storyId}
             />
           </div>
         );
@@ -440,6 +577,15 @@ export default function StoryBuilder() {
         </div>
       </div>
       
+      {storyId && (
+        <StoryMap
+          storyId={storyId}
+          draft
+          isOpen={isMapOpen}
+          onClose={() => setIsMapOpen(false)}
+        />
+      )}
+      
       <BottomNavigation />
     </div>
   );
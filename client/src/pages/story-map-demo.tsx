@@ -1,7 +1,6 @@
 import { useState } from 'react';
 import { useLocation } from 'wouter';
 import StoryMap from '@/components/StoryMap';
-import ReactFlowStoryMap from '@/components/ReactFlowStoryMap';
 import { Button } from '@/components/ui/button';
 
 export default function StoryMapDemo() {
@@ -9,10 +8,10 @@ export default function StoryMapDemo() {
   const [isMapOpen, setIsMapOpen] = useState(true);
   const searchParams = new URLSearchParams(location.split('?')[1]);
   const storyId = searchParams.get('story') || 'campus-encounter';
-  const currentPage = parseInt(searchParams.get('page') || '1');
+  const slot = searchParams.get('slot') || undefined;
 
-  const handlePageBubbleClick = (pageNumber: number) => {
-    console.log('Navigate to page:', pageNumber);
+  const handlePageBubbleClick = (pageId: string) => {
+    console.log('Navigate to page:', pageId);
     // You can add navigation logic here
   };
 
@@ -35,31 +34,16 @@ export default function StoryMapDemo() {
               📖 View Story Map
             </Button>
             <div className="text-sm text-gray-500">
-              Story: <span className="font-semibold">{storyId}</span> • Page: <span className="font-semibold">{currentPage}</span>
+              Story: <span className="font-semibold">{storyId}</span>
+              {slot && <> • Slot: <span className="font-semibold">{slot}</span></>}
             </div>
           </div>
         </div>
         
-        {/* React Flow Story Map - Modern Design */}
         <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">
-            🎨 React Flow Story Map (New Design)
-          </h2>
-          <ReactFlowStoryMap 
-            storyId={storyId} 
-            currentPage={currentPage}
-            onNavigateToPage={handlePageBubbleClick}
-          />
-        </div>
-
-        {/* Original Story Map */}
-        <div className="mb-8">
-          <h2 className="text-2xl font-bold text-gray-800 dark:text-gray-200 mb-4">
-            📖 Original Story Map
-          </h2>
           <StoryMap 
             storyId={storyId} 
-            currentPage={currentPage}
+            slot={slot}
             isOpen={isMapOpen}
             onClose={() => setIsMapOpen(false)}
             onNavigateToPage={handlePageBubbleClick}
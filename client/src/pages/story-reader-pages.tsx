@@ -1,159 +1,177 @@
 import { useState, useEffect, useCallback } from "react";
-import { useRoute, useLocation } from "wouter";
-import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { useParams, useLocation, useSearch } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
 import { apiRequest } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/useAuth";
 import { useToast } from "@/hooks/use-toast";
 import { Button } from "@/components/ui/button";
-import { ChevronLeft, Home } from "lucide-react";
+import { ChevronLeft, Home, Type } from "lucide-react";
 import { ChatMessageRenderer } from "@/components/chat-message-renderer";
+import { StoryContent } from "@/components/story-content";
 import StoryJumpMenu from "@/components/StoryJumpMenu";
-import { SpendButton } from "@/components/SpendButton";
+import StoryMap from "@/components/StoryMap";
+import StoryBreadcrumb from "@/components/StoryBreadcrumb";
+import SaveSlotPicker from "@/components/SaveSlotPicker";
+import OfflineDownloadButton from "@/components/OfflineDownloadButton";
+import StoryCastSheet from "@/components/StoryCastSheet";
+import { TypographySettings } from "@/components/typography-settings";
+import { useTheme } from "@/components/theme-provider";
 import { SimpleSpendButton } from "@/components/SimpleSpendButton";
-import { PremiumUnlockAnimation } from "@/components/PremiumUnlockAnimation";
 import { EndingCardReveal } from "@/components/EndingCardReveal";
-import type { StoryPage, Choice } from "@shared/types";
+import {
+  getOfflineCharacters,
+  isNetworkError,
+  navigateOffline,
+  rememberProgress,
+  OFFLINE_PURCHASE_ERROR,
+} from "@/lib/offline-reading";
+import { PAGE_TURN_OPTIONS, TEXT_WIDTH_OPTIONS, THEME_OPTIONS, readerTextStyle } from "@/lib/reader-preferences";
+import type { StoryCharacter, StoryChoice, StorySession } from "@shared/story-engine/types/EngineTypes";
+
+type NavigationTarget = { choiceId?: string; pageId?: string; slot?: string };
 
 export default function StoryReaderPages() {
-  const [match, params] = useRoute("/story/:storyId");
+  // /story/:storyId resumes; /story/:storyId/page/:pageId opens that page; ?slot= picks a save slot
+  const params = useParams<{ storyId: string; pageId?: string }>();
+  const search = useSearch();
   const [, setLocation] = useLocation();
-  const { user, isAuthenticated } = useAuth();
+  const { user, isAuthenticated, isLoading: isAuthLoading } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
+  const { readerPreferences } = useTheme();
+  const themeClass = THEME_OPTIONS[readerPreferences.theme].className;
+  const widthClass = TEXT_WIDTH_OPTIONS[readerPreferences.textWidth].className;
   
-  // Page-based state
-  const [currentPage, setCurrentPage] = useState(1);
-  const [totalPages, setTotalPages] = useState(0);
-
+  const storyId = params.storyId;
+
+  // Everything on screen comes from the story engine's session for the current page
+  const [session, setSession] = useState<StorySession | null>(null);
+  // Set while pages come from the story's offline download because the server can't be reached
+  const [readingOffline, setReadingOffline] = useState(false);
+  // Signed-in readers' save slot; until one is known the server resumes the slot they read last
+  const [slot, setSlot] = useState<string | undefined>(() => new URLSearchParams(search).get("slot") || undefined);
   
-  const storyId = params?.storyId;
-
-  // Get story
-  const { data: story } = useQuery<{ id: string; title: string }>({
-    queryKey: [`/api/stories/${storyId}`],
-    enabled: !!storyId,
-  });
-
-  // Get all pages for this story ordered sequentially  
-  const { data: allPages = [] } = useQuery<Array<{ 
-    id: string; 
-    storyId: string; 
-    title: string; 
-    content: string; 
-    order: number;
-    nextPageId?: string;
-    isFirstChoice?: boolean;
-  }>>({
-    queryKey: [`/api/stories/${storyId}/pages`],
+  // Ending card state
+  const [showEndingCard, setShowEndingCard] = useState(false);
+  const [endingCard, setEndingCard] = useState<any>(null);
+  const [isMapOpen, setIsMapOpen] = useState(false);
+  const [isTypographyOpen, setIsTypographyOpen] = useState(false);
+  // The chat page whose messages have finished playing; its choices wait until then
+  const [chatPlayedPageId, setChatPlayedPageId] = useState<string | null>(null);
+
+  // The cast names chat senders and characters mentioned in the text; downloads carry their own copy
+  const { data: characters = [] } = useQuery<StoryCharacter[]>({
+    queryKey: [`/api/stories/${storyId}/characters`],
+    queryFn: async () => {
+      try {
+        const response = await apiRequest("GET", `/api/stories/${storyId}/characters`);
+        return response.json();
+      } catch (error) {
+        if (isNetworkError(error)) return (await getOfflineCharacters(storyId)) ?? [];
+        throw error;
+      }
+    },
     enabled: !!storyId,
   });
 
-  // Get choices for current page (PAGE-BASED ONLY)
-  const currentPageData = allPages[currentPage - 1]; // Convert 1-based page to 0-based index
-  const { data: choices = [] } = useQuery<Array<{ 
-    id: string; 
-    choiceText: string; 
-    isPremium: boolean; 
-    eggplantCost?: number;
-    targetPage: number;
-  }>>({
-    queryKey: [`/api/pages/${currentPage}/choices?storyId=${storyId}`],
-    enabled: !!storyId && currentPage > 0,
-  });
+  const showSession = (nextSession: StorySession) => {
+    setSession(nextSession);
+    rememberProgress(nextSession.progress);
+    if (isAuthenticated) {
+      if (nextSession.progress.slot) setSlot(nextSession.progress.slot);
+      // Choices and rewinds change the reader's path, and what their map reveals
+      queryClient.invalidateQueries({ queryKey: [`/api/stories/${storyId}/path`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/stories/${storyId}/map`] });
+    }
+    // Keep the address bar on the page being read, so it can be shared or reloaded
+    setLocation(`/story/${storyId}/page/${nextSession.currentPage.id}`, { replace: true });
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  };
 
-  // Get progress (page-based only)
-  const { data: progress } = useQuery<{ currentPage?: number }>({
-    queryKey: [`/api/reading-progress/${storyId}`],
-    enabled: !!storyId && isAuthenticated,
+  const navigateMutation = useMutation({
+    mutationFn: async (target: NavigationTarget): Promise<StorySession> => {
+      try {
+        const response = await apiRequest("POST", `/api/stories/${storyId}/session`, { slot, ...target });
+        const nextSession: StorySession = await response.json();
+        setReadingOffline(false);
+        return nextSession;
+      } catch (error) {
+        if (!isNetworkError(error)) throw error;
+
+        // No connection: keep reading from the download, if there is one
+        const result = await navigateOffline(storyId, target, user?.id);
+        if (!result) throw error;
+        if (!result.session) {
+          const needsPurchase = result.errorCode === "login_required" || result.errorCode === "insufficient_eggplants";
+          throw new Error(needsPurchase ? OFFLINE_PURCHASE_ERROR : result.error || "This page isn't available offline");
+        }
+        setReadingOffline(true);
+        return result.session;
+      }
+    },
+    onSuccess: showSession,
   });
 
-  // Get user's purchased premium paths for this story
-  const { data: purchasedPaths = [] } = useQuery<Array<{ choiceId: string }>>({
-    queryKey: [`/api/purchased-paths/${storyId}`],
-    enabled: !!storyId && isAuthenticated,
+  // Go back to an earlier fork on the reader's path and drop the choices made since
+  const rewindMutation = useMutation({
+    mutationFn: async (historyId: string): Promise<StorySession> => {
+      const response = await apiRequest("POST", `/api/stories/${storyId}/path/rewind`, { historyId, slot });
+      return response.json();
+    },
+    onSuccess: (nextSession) => {
+      showSession(nextSession);
+      toast({
+        title: "Rewound",
+        description: "Pick a different path from here.",
+        duration: 2000,
+      });
+    },
+    onError: () => {
+      toast({
+        title: "Error",
+        description: "Couldn't go back to that choice",
+        variant: "destructive",
+      });
+    },
   });
+  const isNavigating = navigateMutation.isPending || rewindMutation.isPending;
 
-  // Track reset state to prevent progress restoration conflicts
-  const [isResetting, setIsResetting] = useState(false);
-  const [isNavigating, setIsNavigating] = useState(false);
-  
-  // Ending card state
-  const [showEndingCard, setShowEndingCard] = useState(false);
-  const [endingCard, setEndingCard] = useState<any>(null);
-
-  const saveProgress = useCallback((pageNumber: number) => {
-    if (!storyId) return;
-
-    // Save locally (page-based only)
-    localStorage.setItem(`story-${storyId}-page`, pageNumber.toString());
-    
-    // Save to server if authenticated (page-based only)
-    if (isAuthenticated) {
-      apiRequest("POST", "/api/reading-progress", {
-        storyId,
-        currentPage: pageNumber, // Pure page-based progress
-        pagesRead: pageNumber,
-        isBookmarked: false,
-      }).catch(() => {});
-    }
-  }, [storyId, isAuthenticated]);
+  // Open the linked page, or resume once we know whether the reader is signed in.
+  // Guests resume too: the server keeps their place in their session and hands it to their account at login.
+  useEffect(() => {
+    if (!storyId || isAuthLoading) return;
+
+    navigateMutation.mutate(params.pageId ? { pageId: params.pageId } : {}, {
+      onError: () => {
+        // The page may have been removed since; resume the story instead
+        if (params.pageId) navigateMutation.mutate({});
+      },
+    });
+  }, [storyId, isAuthLoading, isAuthenticated]);
+
+  const currentPage = session?.currentPage;
+  const choices = session?.availableChoices || [];
+  const isEnding = !!currentPage?.isEnding;
+
+  // On chat pages, choices the reader can take straight away are offered as their reply in the chat;
+  // ones still to be bought stay in the list below so the unlock buttons are there
+  const isChatPage = currentPage?.pageType === "chat" && !!currentPage.chatMessages?.length;
+  const replyChoices = isChatPage && !isEnding ? choices.filter(({ requiresPurchase }) => !requiresPurchase) : [];
+  const listedChoices = choices.filter((availableChoice) => !replyChoices.includes(availableChoice));
+  const isChatPlaying = isChatPage && chatPlayedPageId !== currentPage?.id;
 
   // Navigation functions with navigation lock
   const goToPreviousPage = useCallback(() => {
-    if (currentPage > 1 && !isNavigating) {
-      setIsNavigating(true);
-      const newPage = currentPage - 1;
-      setCurrentPage(newPage);
-      saveProgress(newPage);
-      setTimeout(() => setIsNavigating(false), 300);
+    if (currentPage?.previousPageId && !isNavigating) {
+      navigateMutation.mutate({ pageId: currentPage.previousPageId });
     }
-  }, [currentPage, saveProgress, isNavigating]);
+  }, [currentPage, isNavigating]);
 
   const goToNextPage = useCallback(() => {
-    if (currentPage < totalPages && !isNavigating) {
-      setIsNavigating(true);
-      const newPage = currentPage + 1;
-      setCurrentPage(newPage);
-      saveProgress(newPage);
-      setTimeout(() => setIsNavigating(false), 300);
-    }
-  }, [currentPage, totalPages, saveProgress, isNavigating]);
-
-  // Set total pages when data loads and fix progress logic
-  useEffect(() => {
-    if (allPages.length > 0) {
-      setTotalPages(allPages.length);
-    }
-  }, [allPages]);
-
-  // Separate effect for progress restoration to prevent loops
-  useEffect(() => {
-    if (allPages.length === 0 || isResetting || isNavigating) {
-      return; // Don't restore during reset or navigation
-    }
-    
-    // Only restore progress once when the story loads
-    let targetPage = 1;
-    
-    // Check authenticated user progress first
-    if (progress?.currentPage && progress.currentPage >= 1 && progress.currentPage <= allPages.length) {
-      targetPage = progress.currentPage;
-    } else if (!isAuthenticated) {
-      // Check localStorage for guests only if not authenticated
-      const savedPage = localStorage.getItem(`story-${storyId}-page`);
-      if (savedPage) {
-        const savedPageNum = parseInt(savedPage);
-        if (savedPageNum >= 1 && savedPageNum <= allPages.length) {
-          targetPage = savedPageNum;
-        }
-      }
-    }
-    
-    // Only set current page if it's different to avoid loops
-    if (currentPage !== targetPage) {
-      setCurrentPage(targetPage);
+    if (currentPage?.nextPageId && !isNavigating) {
+      navigateMutation.mutate({ pageId: currentPage.nextPageId });
     }
-  }, [progress, storyId, isAuthenticated, allPages.length]); // Removed currentPage dependency
+  }, [currentPage, isNavigating]);
 
   // Fast and responsive swipe navigation system
   useEffect(() => {
@@ -186,10 +204,10 @@ export default function StoryReaderPages() {
       
       // More sensitive thresholds: 60px minimum distance, 1 second max time
       if (isHorizontalSwipe && Math.abs(deltaX) > 60 && deltaTime < 1000) {
-        if (deltaX > 0 && currentPage > 1) {
+        if (deltaX > 0) {
           // Right swipe - go back
           goToPreviousPage();
-        } else if (deltaX < 0 && choices.length === 0 && currentPage < totalPages) {
+        } else if (deltaX < 0) {
           // Left swipe - go forward (only if no choices)
           goToNextPage();
         }
@@ -208,172 +226,120 @@ export default function StoryReaderPages() {
       storyElement.removeEventListener('touchstart', handleTouchStart);
       storyElement.removeEventListener('touchend', handleTouchEnd);
     };
-  }, [currentPage, totalPages, choices.length, isNavigating, goToPreviousPage, goToNextPage]);
+  }, [isNavigating, goToPreviousPage, goToNextPage]);
 
   // Navigate to first choice page for re-exploration
   const goToFirstChoice = async () => {
-    if (!storyId || !allPages.length) return;
+    if (!storyId) return;
     
     try {
       // Get the first choice page from the server
       const response = await apiRequest("GET", `/api/stories/${storyId}/first-choice-page`);
       const data = await response.json();
+      if (!data.firstChoicePageId) throw new Error("No choice page");
       
-      const firstChoicePageNumber = data.firstChoicePageNumber || 5; // Fallback to page 5
-      
-      // Navigate to the first choice page
-      setCurrentPage(firstChoicePageNumber);
-      saveProgress(firstChoicePageNumber);
-      
-      toast({
-        title: "Ready to Explore!",
-        description: "You're now at the first choice point. Choose your path!",
-        duration: 2000,
+      navigateMutation.mutate({ pageId: data.firstChoicePageId }, {
+        onSuccess: () => {
+          toast({
+            title: "Ready to Explore!",
+            description: "You're now at the first choice point. Choose your path!",
+            duration: 2000,
+          });
+        },
       });
-      
-      window.scrollTo({ top: 0, behavior: 'smooth' });
     } catch (error) {
-      // Fallback to hardcoded logic if API fails
-      let firstChoicePageNumber = 5; // Default fallback
-      
-      if (storyId === 'desert-seduction') {
-        firstChoicePageNumber = 2; // Desert Encounter has choices
-      } else if (storyId === 'campus-encounter') {
-        firstChoicePageNumber = 5; // The Moment has choices  
-      }
-      
-      setCurrentPage(firstChoicePageNumber);
-      saveProgress(firstChoicePageNumber);
-      
       toast({
-        title: "Ready to Explore!",
-        description: "You're now at the first choice point. Choose your path!",
-        duration: 2000,
+        title: "Error",
+        description: "Couldn't find a choice point in this story",
+        variant: "destructive",
       });
-      
-      window.scrollTo({ top: 0, behavior: 'smooth' });
     }
   };
 
   // Handle navigation from story map
-  const handleMapNavigation = (pageNumber: number) => {
-    if (pageNumber >= 1 && pageNumber <= totalPages) {
-      setCurrentPage(pageNumber);
-      saveProgress(pageNumber);
-      window.scrollTo({ top: 0, behavior: 'smooth' });
+  const handleMapNavigation = (pageId: string) => {
+    if (!isNavigating) {
+      navigateMutation.mutate({ pageId });
     }
   };
 
-  // Handle choice click - premium authentication is now handled in button rendering
-  const handleChoiceClick = (choice: any) => {
-    // Proceed with regular choice selection
-    selectChoiceMutation.mutate(choice.id);
-  };
-
-  // Select choice - navigate to target page
-  const selectChoiceMutation = useMutation({
-    mutationFn: async (choiceId: string) => {
-      const response = await apiRequest("POST", `/api/choices/${choiceId}/select`, {
-        storyId,
-        currentPage: currentPage, // PAGE-BASED ONLY
-      });
-      return response.json();
-    },
-    onSuccess: (data, choiceId) => {
-      
-      if (data.targetPage) {
-        // Direct page-based navigation
-        const targetPageNumber = data.targetPage;
-        if (targetPageNumber >= 1 && targetPageNumber <= totalPages) {
-          setCurrentPage(targetPageNumber);
-          saveProgress(targetPageNumber);
-        }
-        
-        // Show feedback
-        const choice = choices.find(c => c.id === choiceId);
-        
-        if (choice?.isPremium) {
-          // For premium choices, check if it was already owned
-          // Only show "already owned" if explicitly true, not just truthy
-          if (data.alreadyOwned === true) {
+  // Take a choice through the engine, which also handles any premium purchase
+  const handleChoiceClick = (choice: StoryChoice, requiresPurchase: boolean) => {
+    navigateMutation.mutate({ choiceId: choice.id }, {
+      onSuccess: () => {
+        if (choice.isPremium) {
+          if (!requiresPurchase) {
             toast({
               title: "✨ Premium Path Accessed! ✨",
               description: "You already own this path - no eggplants deducted!",
               duration: 2000,
             });
           } else {
-            // This covers both false and undefined cases (new purchases)
             toast({
               title: "🍆✨ Premium Choice Made! ✨🍆",
               description: `Spent ${choice.eggplantCost || 0} eggplants`,
               duration: 1500,
             });
           }
+          // Refresh user data to update eggplant count
+          queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
         } else {
-          // For free choices
           toast({
             title: "✨ Choice Made! ✨",
             description: "Your story continues...",
             duration: 1500,
           });
         }
-        
-        // Refresh user data if this was a premium choice to update eggplant count
-        if (choice?.isPremium) {
-          queryClient.invalidateQueries({ queryKey: ["/api/auth/user"] });
+      },
+      onError: (error: any) => {
+        if (error.message?.includes("401") || error.message?.includes("Login required")) {
+          toast({
+            title: "Login Required",
+            description: "You need to login to access premium content.",
+            variant: "destructive",
+          });
+          setTimeout(() => {
+            window.location.href = "/api/login";
+          }, 1500);
+        } else if (error.message?.includes("Not enough eggplants")) {
+          toast({
+            title: "Not Enough Eggplants",
+            description: "You need more eggplants to unlock this premium choice.",
+            variant: "destructive",
+          });
+        } else {
+          toast({
+            title: "Error",
+            description: error.message || "Failed to make choice",
+            variant: "destructive",
+          });
         }
-        
-        window.scrollTo({ top: 0, behavior: 'smooth' });
-      }
-    },
-    onError: (error: any) => {
-      if (error.message?.includes("401") || error.message?.includes("Login required")) {
-        toast({
-          title: "Login Required",
-          description: "You need to login to access premium content.",
-          variant: "destructive",
-        });
-        setTimeout(() => {
-          window.location.href = "/api/login";
-        }, 1500);
-      } else if (error.message?.includes("Not enough eggplants")) {
-        toast({
-          title: "Not Enough Eggplants",
-          description: "You need more eggplants to unlock this premium choice.",
-          variant: "destructive",
-        });
-      } else {
+      },
+    });
+  };
+
+  // Resume another save slot where it left off
+  const handleSlotSelect = (nextSlot: string) => {
+    navigateMutation.mutate({ slot: nextSlot }, {
+      onSuccess: () => {
         toast({
-          title: "Error",
-          description: error.message || "Failed to make choice",
-          variant: "destructive",
+          title: nextSlot,
+          description: "Picking up where this playthrough left off.",
+          duration: 2000,
         });
-      }
-    },
-  });
+      },
+    });
+  };
 
   // Reset story
   const resetMutation = useMutation({
     mutationFn: async () => {
-      console.log("Reset mutation called for story:", storyId);
-      setIsResetting(true);
-      
-      // Clear local storage FIRST to prevent it from overriding reset
-      localStorage.removeItem(`story-${storyId}-page`);
-      
-      // Clear server progress if authenticated
-      if (isAuthenticated) {
-        await apiRequest("POST", `/api/stories/${storyId}/start-from-beginning`);
-      }
-      
-      // Return success to ensure proper sequencing
-      return { success: true };
+      // Guests' progress is kept server-side in their session, so it's cleared the same way
+      await apiRequest("POST", `/api/stories/${storyId}/start-from-beginning`, isAuthenticated ? { slot } : {});
     },
     onSuccess: () => {
-      console.log("Reset mutation success - setting page to 1");
-      // Reset to page 1 and save it immediately to prevent overwrites
-      setCurrentPage(1);
-      saveProgress(1); // Save page 1 immediately
+      // With no saved progress, resuming starts the story from its first page
+      navigateMutation.mutate({});
       
       // Refresh all related queries to sync state
       queryClient.invalidateQueries({ queryKey: [`/api/reading-progress/${storyId}`] });
@@ -384,29 +350,19 @@ export default function StoryReaderPages() {
         description: "You're back at the beginning of the story!",
         duration: 2000,
       });
-      
-      // Reset the reset state after a short delay
-      setTimeout(() => {
-        setIsResetting(false);
-        console.log("Reset state cleared");
-      }, 3000);
     },
     onError: (error) => {
       console.error("Reset mutation failed:", error);
-      setIsResetting(false);
     }
   });
 
-  // Check if story is ending (no next choices available)
-  const isEnding = choices.length === 0 && currentPage === totalPages;
-  
   // Check for ending card when reaching an ending
   useEffect(() => {
     const checkForEndingCard = async () => {
-      if (!isEnding || !currentPageData?.id || !isAuthenticated || showEndingCard) return;
+      if (!isEnding || !currentPage?.id || !isAuthenticated || showEndingCard) return;
       
       try {
-        const response = await apiRequest("GET", `/api/pages/${currentPageData.id}/ending-card`);
+        const response = await apiRequest("GET", `/api/pages/${currentPage.id}/ending-card`);
         const data = await response.json();
         
         if (data.card) {
@@ -420,7 +376,7 @@ export default function StoryReaderPages() {
     };
     
     checkForEndingCard();
-  }, [isEnding, currentPageData?.id, isAuthenticated, showEndingCard]);
+  }, [isEnding, currentPage?.id, isAuthenticated, showEndingCard]);
 
   // Handle ending card actions
   const handleCardContinue = () => {
@@ -434,16 +390,16 @@ export default function StoryReaderPages() {
     setLocation('/collection');
   };
 
-  if (!story || !currentPageData || allPages.length === 0) {
+  if (!session || !currentPage) {
     return (
-      <div className="h-screen flex items-center justify-center bg-kindle">
+      <div className={`h-screen flex items-center justify-center bg-kindle ${themeClass}`}>
         <div className="animate-spin w-8 h-8 border-4 border-rose-gold border-t-transparent rounded-full" />
       </div>
     );
   }
 
   return (
-    <div className="min-h-screen bg-kindle text-kindle">
+    <div className={`min-h-screen bg-kindle text-kindle ${themeClass}`}>
       {/* Header */}
       <header className="fixed top-0 left-0 right-0 bg-kindle/95 backdrop-blur-sm border-b border-dark-tertiary/30 z-50">
         <div className="flex items-center justify-between px-4 py-3 sm:px-6 sm:py-4">
@@ -458,15 +414,45 @@ export default function StoryReaderPages() {
           </Button>
           
           <h1 className="text-base sm:text-lg font-semibold text-kindle truncate max-w-[120px] sm:max-w-xs">
-            {story.title}
+            {session.metadata.title}
           </h1>
           
           <div className="flex items-center space-x-2">
+            {/* Offline download */}
+            <OfflineDownloadButton storyId={storyId} readingOffline={readingOffline} />
+
+            {/* Cast */}
+            <StoryCastSheet characters={characters} />
+
+            {/* Typography and theme */}
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => setIsTypographyOpen(true)}
+              className="text-kindle-secondary hover:text-kindle p-2"
+              title="Reading preferences"
+            >
+              <Type className="w-4 h-4" />
+            </Button>
+
+            {/* Save Slots */}
+            {isAuthenticated && (
+              <SaveSlotPicker
+                storyId={storyId}
+                activeSlot={slot}
+                onSelect={handleSlotSelect}
+                disabled={isNavigating}
+              />
+            )}
+
             {/* Jump Menu */}
             <StoryJumpMenu
               storyId={storyId || ""}
-              currentPage={currentPage}
+              currentPage={currentPage.pageNumber}
               onNavigateToPage={handleMapNavigation}
+              slot={slot}
+              onRewind={isAuthenticated ? (historyId) => rewindMutation.mutate(historyId) : undefined}
+              onOpenMap={() => setIsMapOpen(true)}
             />
             
             {/* Floating Eggplant Counter */}
@@ -483,13 +469,26 @@ export default function StoryReaderPages() {
       </header>
 
       {/* Main Content */}
-      <main id="story-content" className="pt-16 sm:pt-20 px-4 sm:px-6 max-w-3xl mx-auto pb-32">
+      <main id="story-content" className={`pt-16 sm:pt-20 px-4 sm:px-6 ${widthClass} mx-auto pb-32`}>
+        {/* Path so far, for readers whose choices are saved */}
+        {isAuthenticated && (
+          <div className="mb-4 flex justify-center">
+            <StoryBreadcrumb
+              storyId={storyId}
+              slot={slot}
+              currentPageTitle={currentPage.title}
+              onRewind={(historyId) => rewindMutation.mutate(historyId)}
+              disabled={isNavigating}
+            />
+          </div>
+        )}
+
         {/* Page Progress Bar */}
         <div className="mb-6">
           <div className="w-full bg-dark-tertiary rounded-full h-2">
             <div 
               className="bg-gradient-to-r from-rose-gold to-gold-accent h-2 rounded-full transition-all duration-300"
-              style={{ width: `${(currentPage / totalPages) * 100}%` }}
+              style={{ width: `${(currentPage.pageNumber / session.metadata.totalPages) * 100}%` }}
             />
           </div>
           <div className="text-center mt-2 text-sm text-kindle-secondary">
@@ -497,31 +496,40 @@ export default function StoryReaderPages() {
         </div>
         
         {/* Story Content */}
-        <div className="kindle-text text-kindle space-y-4 sm:space-y-6 mb-8">
-          <h2 className="text-lg sm:text-xl font-bold text-kindle mb-3 sm:mb-4">{currentPageData.title}</h2>
+        <div
+          key={currentPage.id}
+          className={`kindle-text text-kindle space-y-4 sm:space-y-6 mb-8 ${PAGE_TURN_OPTIONS[readerPreferences.pageTurnAnimation].className}`}
+          style={readerTextStyle(readerPreferences)}
+        >
+          <h2 className="text-lg sm:text-xl font-bold text-kindle mb-3 sm:mb-4">{currentPage.title}</h2>
           
           {/* Check if this is a chat page */}
-          {(currentPageData as any).pageType === "chat" && (currentPageData as any).chatMessages ? (
-            // Render chat messages
-            <ChatMessageRenderer 
-              messages={(currentPageData as any).chatMessages}
+          {isChatPage ? (
+            // Play the chat back, with any replies the reader can send
+            <ChatMessageRenderer
+              key={currentPage.id}
+              messages={currentPage.chatMessages!}
+              characters={characters}
+              replies={replyChoices.map(({ choice }) => ({ id: choice.id, text: choice.choiceText }))}
+              onReply={(choiceId) => {
+                const reply = replyChoices.find(({ choice }) => choice.id === choiceId);
+                if (reply && !isNavigating) handleChoiceClick(reply.choice, reply.requiresPurchase);
+              }}
+              onComplete={() => setChatPlayedPageId(currentPage.id)}
+              disabled={isNavigating}
               className="bg-dark-secondary/20 rounded-lg p-4 border border-dark-tertiary/30"
             />
           ) : (
-            // Render regular text content
-            currentPageData.content.split('\n\n').map((paragraph, index) => (
-              <p key={index} className="kindle-paragraph leading-relaxed text-sm sm:text-base">
-                {paragraph}
-              </p>
-            ))
+            // Render the page's text; its size and spacing follow the reader's typography settings
+            <StoryContent content={currentPage.content} characters={characters} />
           )}
         </div>
 
         {/* Choices */}
-        {choices.length > 0 && !isEnding && (
+        {listedChoices.length > 0 && !isEnding && !isChatPlaying && (
           <div className="space-y-3 sm:space-y-4 mb-8">
             <h3 className="text-base sm:text-lg font-semibold text-kindle mb-3 sm:mb-4">What do you do?</h3>
-            {choices.map((choice, index) => (
+            {listedChoices.map(({ choice, requiresPurchase }, index) => (
               <div key={choice.id} className="space-y-2">
                 {/* Choice Text */}
                 <div className={`w-full text-left p-3 sm:p-4 rounded-lg border ${
@@ -538,7 +546,7 @@ export default function StoryReaderPages() {
                         {choice.choiceText}
                       </span>
                       {/* Show ownership status for authenticated users */}
-                      {choice.isPremium && isAuthenticated && purchasedPaths.some(p => p.choiceId === choice.id) && (
+                      {choice.isPremium && !requiresPurchase && (
                         <div className="inline-flex items-center gap-1 px-2 py-1 bg-green-500/15 text-green-400 border border-green-500/30 rounded-full text-xs font-medium mt-2">
                           <span>✓</span>
                           <span>Owned</span>
@@ -553,16 +561,16 @@ export default function StoryReaderPages() {
                   !isAuthenticated ? (
                     <Button
                       onClick={() => window.location.href = "/api/login"}
-                      disabled={selectChoiceMutation.isPending}
+                      disabled={isNavigating}
                       className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-semibold shadow-lg shadow-purple-500/25"
                     >
                       Sign In to Unlock ({choice.eggplantCost || 0} 🍆)
                     </Button>
-                  ) : purchasedPaths.some(p => p.choiceId === choice.id) ? (
+                  ) : !requiresPurchase ? (
                     // User already owns this premium choice - show simple continue button
                     <Button
-                      onClick={() => handleChoiceClick(choice)}
-                      disabled={selectChoiceMutation.isPending}
+                      onClick={() => handleChoiceClick(choice, requiresPurchase)}
+                      disabled={isNavigating}
                       className="w-full bg-gradient-to-r from-green-600 to-emerald-600 hover:from-green-700 hover:to-emerald-700 text-white font-semibold shadow-lg"
                     >
                       Continue to {String.fromCharCode(65 + index)} (Owned)
@@ -571,17 +579,17 @@ export default function StoryReaderPages() {
                     // User doesn't own this premium choice yet - show spending button
                     <SimpleSpendButton
                       cost={choice.eggplantCost || 0}
-                      currentBalance={(user as any)?.eggplants || 0}
+                      currentBalance={session.userEggplants}
                       label={`Unlock Path ${String.fromCharCode(65 + index)}`}
-                      disabled={selectChoiceMutation.isPending}
-                      onConfirm={() => handleChoiceClick(choice)}
+                      disabled={isNavigating}
+                      onConfirm={() => handleChoiceClick(choice, requiresPurchase)}
                       className="w-full"
                     />
                   )
                 ) : (
                   <Button
-                    onClick={() => handleChoiceClick(choice)}
-                    disabled={selectChoiceMutation.isPending}
+                    onClick={() => handleChoiceClick(choice, requiresPurchase)}
+                    disabled={isNavigating}
                     className="w-full bg-dark-tertiary hover:bg-kindle-secondary/20 text-kindle border border-dark-tertiary hover:border-kindle-secondary"
                   >
                     Choose Option {String.fromCharCode(65 + index)}
@@ -633,12 +641,12 @@ export default function StoryReaderPages() {
       {/* Bottom Navigation - only show if not at ending */}
       {!isEnding && (
         <div className="fixed bottom-0 left-0 right-0 bg-kindle/95 backdrop-blur-sm border-t border-dark-tertiary/30">
-          <div className="flex items-center justify-between px-6 py-4 max-w-3xl mx-auto">
+          <div className={`flex items-center justify-between px-6 py-4 ${widthClass} mx-auto`}>
             <Button
               variant="ghost"
               size="sm"
               onClick={goToPreviousPage}
-              disabled={currentPage === 1}
+              disabled={!currentPage.previousPageId}
               className="text-kindle hover:text-rose-gold disabled:opacity-30"
             >
               <ChevronLeft className="w-5 h-5 mr-1" />
@@ -647,7 +655,7 @@ export default function StoryReaderPages() {
             
             <div className="text-center">
               <div className="text-sm font-medium text-kindle-secondary">
-                {story.title}
+                {session.metadata.title}
               </div>
               <button
                 onClick={() => resetMutation.mutate()}
@@ -657,7 +665,7 @@ export default function StoryReaderPages() {
               </button>
             </div>
             
-            {choices.length === 0 && currentPage < totalPages ? (
+            {currentPage.nextPageId ? (
               <Button
                 variant="ghost"
                 size="sm"
@@ -684,6 +692,16 @@ export default function StoryReaderPages() {
         />
       )}
 
+      <TypographySettings isOpen={isTypographyOpen} onClose={() => setIsTypographyOpen(false)} />
+
+      <StoryMap
+        storyId={storyId}
+        slot={isAuthenticated ? slot : undefined}
+        isOpen={isMapOpen}
+        onClose={() => setIsMapOpen(false)}
+        onNavigateToPage={handleMapNavigation}
+      />
+
     </div>
   );
 }
\ No newline at end of file
@@ -3,9 +3,12 @@ import type {
   StoryPage,
   StoryChoice,
   StoryMetadata,
-  UserProgress
+  UserProgress,
+  StoryVariableDefinition,
+  ChoiceHistoryEntry
 } from '../../shared/story-engine/types/EngineTypes';
 import { storage } from '../storage';
+import { transactionManager } from '../transaction-manager';
 
 /**
  * Database adapter for StoryEngine - connects modular engine to existing storage
@@ -13,25 +16,22 @@ import { storage } from '../storage';
  */
 export class DatabaseStoryProvider implements StoryDataProvider {
 
-  async getUserProgress(userId: string, storyId: string): Promise<UserProgress | null> {
+  async getUserProgress(userId: string, storyId: string, slot?: string): Promise<UserProgress | null> {
     try {
-      const progress = await storage.getReadingProgress(userId, storyId);
+      const progress = await storage.getReadingProgress(userId, storyId, slot);
       if (!progress) return null;
 
-      // Get current page by page number - need to find the page ID
       const pages = await storage.getStoryPages(storyId);
-      const currentPage = pages.find(p => p.order === progress.currentPage);
-      
-      // Get purchased choices - for now use empty array until getUserChoices is implemented
-      const purchasedChoices: any[] = [];
 
       // Convert database format to engine format
       return {
         userId,
         storyId,
-        currentPageId: currentPage?.id || '',
-        completedPages: [], // Will build this from pagesRead count
-        purchasedChoices: purchasedChoices.map((choice: any) => choice.choiceId),
+        slot: progress.slot,
+        currentPageId: progress.currentPageId || '',
+        completedPages: pages.filter(p => p.order <= (progress.pagesRead || 0)).map(p => p.id), // pagesRead is the furthest page reached
+        purchasedChoices: await this.getPurchasedChoiceIds(userId, storyId),
+        variables: progress.variables || {},
         lastReadAt: progress.lastReadAt || new Date()
       };
     } catch (error) {
@@ -39,27 +39,26 @@ export class DatabaseStoryProvider implements StoryDataProvider {
     }
   }
 
+  // Premium choices the reader has bought in this story, in any save slot
+  async getPurchasedChoiceIds(userId: string, storyId: string): Promise<string[]> {
+    const purchasedPaths = await storage.getUserPurchasedPaths(userId, storyId);
+    return purchasedPaths.map((path: any) => path.choiceId);
+  }
+
   async saveUserProgress(progress: UserProgress): Promise<void> {
-    try {
-      // Find page number from page ID
-      const pages = await storage.getStoryPages(progress.storyId);
-      const currentPage = pages.find(p => p.id === progress.currentPageId);
-      const pageNumber = currentPage?.order || 1;
-
-      // Convert engine format to database format
-      await storage.saveReadingProgress({
-        id: `${progress.userId}-${progress.storyId}`,
-        userId: progress.userId,
-        storyId: progress.storyId,
-        currentPage: pageNumber,
-        pagesRead: progress.completedPages.length,
-        choicesMade: progress.purchasedChoices.length,
-        lastReadAt: progress.lastReadAt,
-        isCompleted: false // Will be determined by story engine
-      });
-    } catch (error) {
-      throw error;
-    }
+    const pages = await storage.getStoryPages(progress.storyId);
+    const completedOrders = pages.filter(p => progress.completedPages.includes(p.id)).map(p => p.order);
+
+    // Convert engine format to database format; completion and bookmarks are left as they are
+    await storage.saveReadingProgress({
+      userId: progress.userId,
+      storyId: progress.storyId,
+      slot: progress.slot,
+      currentPageId: progress.currentPageId,
+      pagesRead: Math.max(0, ...completedOrders),
+      lastReadAt: progress.lastReadAt,
+      variables: progress.variables
+    });
   }
 
   async getUserEggplants(userId: string): Promise<number> {
@@ -71,32 +70,69 @@ export class DatabaseStoryProvider implements StoryDataProvider {
     }
   }
 
-  async deductEggplants(userId: string, amount: number): Promise<void> {
-    try {
-      await storage.addEggplantsToUser(userId, -amount);
-    } catch (error) {
-      throw error;
-    }
+  async purchaseChoice(
+    userId: string,
+    storyId: string,
+    choice: StoryChoice
+  ): Promise<'purchased' | 'already_owned' | 'insufficient_eggplants'> {
+    const result = await transactionManager.purchasePremiumChoice({
+      userId,
+      storyId,
+      choiceId: choice.id,
+      pageId: choice.fromPageId,
+      eggplantCost: choice.eggplantCost
+    });
+
+    if (result.success) return 'purchased';
+    // Lost a race with a concurrent request that bought it first
+    if (result.error === 'Choice already purchased') return 'already_owned';
+    if (result.error === 'Insufficient eggplants') return 'insufficient_eggplants';
+    throw new Error(result.error || 'Purchase failed');
   }
 
-  async getPage(pageId: string): Promise<StoryPage> {
-    try {
-      const page = await storage.getStoryPage(pageId);
-      if (!page) {
-        throw new Error(`Page not found: ${pageId}`);
-      }
+  async recordChoice(userId: string, storyId: string, choiceId: string, slot?: string): Promise<void> {
+    await storage.saveUserChoice({ userId, storyId, choiceId, slot });
+  }
 
-      // Convert database format to engine format
-      return {
-        id: page.id,
-        storyId: page.storyId,
-        pageNumber: page.order,
-        content: page.content,
-        isEnding: !page.nextPageId && page.pageType !== 'choice' // No next page = ending
-      };
-    } catch (error) {
-      throw error;
+  async getChoiceHistory(userId: string, storyId: string, slot?: string): Promise<ChoiceHistoryEntry[]> {
+    const history = await storage.getUserChoiceHistory(userId, storyId, slot);
+    const entries: ChoiceHistoryEntry[] = [];
+    for (const row of history) {
+      const choice = await this.getChoice(row.choiceId);
+      if (choice) {
+        entries.push({ id: row.id, choice, chosenAt: row.createdAt || new Date() });
+      }
     }
+    return entries;
+  }
+
+  async removeChoiceHistory(userId: string, storyId: string, historyIds: string[]): Promise<void> {
+    await storage.deleteUserChoices(userId, storyId, historyIds);
+  }
+
+  async getPage(pageId: string): Promise<StoryPage | null> {
+    const page = await storage.getStoryPage(pageId);
+    if (!page) return null;
+
+    const pages = await storage.getStoryPages(page.storyId);
+    const index = pages.findIndex(p => p.id === page.id);
+    const choices = await storage.getPageChoices(page.id);
+    const isLastPage = index === pages.length - 1;
+
+    // Convert database format to engine format
+    return {
+      id: page.id,
+      storyId: page.storyId,
+      pageNumber: page.order,
+      title: page.title,
+      content: page.content,
+      pageType: page.pageType || 'story',
+      chatMessages: page.chatMessages || undefined,
+      // Pages without choices continue to their next page; the last one ends the story
+      isEnding: choices.length === 0 && !page.nextPageId && isLastPage,
+      nextPageId: choices.length > 0 ? null : page.nextPageId || (isLastPage ? null : pages[index + 1].id),
+      previousPageId: index > 0 ? pages[index - 1].id : null
+    };
   }
 
   async getChoice(choiceId: string): Promise<StoryChoice | null> {
@@ -112,7 +148,9 @@ export class DatabaseStoryProvider implements StoryDataProvider {
         choiceText: choice.choiceText,
         isPremium: choice.isPremium || false,
         eggplantCost: choice.eggplantCost || 0,
-        description: choice.choiceText // Use choiceText as description
+        description: choice.choiceText, // Use choiceText as description
+        effects: choice.effects || undefined,
+        conditions: choice.conditions || undefined
       };
     } catch (error) {
       return null;
@@ -121,11 +159,7 @@ export class DatabaseStoryProvider implements StoryDataProvider {
 
   async getChoicesFromPage(pageId: string): Promise<StoryChoice[]> {
     try {
-      // First get the page to find its story and order
-      const page = await storage.getStoryPage(pageId);
-      if (!page) return [];
-      
-      const choices = await storage.getChoicesForPage(page.order, page.storyId);
+      const choices = await storage.getPageChoices(pageId);
       
       // Convert database format to engine format
       return choices.map(choice => ({
@@ -135,56 +169,55 @@ export class DatabaseStoryProvider implements StoryDataProvider {
         choiceText: choice.choiceText,
         isPremium: choice.isPremium || false,
         eggplantCost: choice.eggplantCost || 0,
-        description: choice.choiceText // Use choiceText as description
+        description: choice.choiceText, // Use choiceText as description
+        effects: choice.effects || undefined,
+        conditions: choice.conditions || undefined
       }));
     } catch (error) {
       return [];
     }
   }
 
-  async getFirstPageId(storyId: string): Promise<string> {
-    try {
-      const story = await storage.getStory(storyId);
-      if (!story) {
-        throw new Error(`Story not found: ${storyId}`);
-      }
-
-      // Get first page (order = 1)
-      const pages = await storage.getStoryPages(storyId);
-      const firstPage = pages.find(p => p.order === 1);
-      
-      if (!firstPage) {
-        throw new Error(`No first page found for story: ${storyId}`);
-      }
-
-      return firstPage.id;
-    } catch (error) {
-      throw error;
-    }
+  async getFirstPageId(storyId: string): Promise<string | null> {
+    // Get first page (order = 1)
+    const pages = await storage.getStoryPages(storyId);
+    const firstPage = pages.find(p => p.order === 1);
+    return firstPage?.id || null;
   }
 
-  async getStoryMetadata(storyId: string): Promise<StoryMetadata> {
+  async getStoryVariables(storyId: string): Promise<StoryVariableDefinition[]> {
     try {
-      const story = await storage.getStory(storyId);
-      if (!story) {
-        throw new Error(`Story not found: ${storyId}`);
-      }
-
-      const pages = await storage.getStoryPages(storyId);
+      const variables = await storage.getStoryVariables(storyId);
 
       // Convert database format to engine format
-      return {
-        id: story.id,
-        title: story.title,
-        description: story.description || '',
-        category: story.category || 'general',
-        spiceLevel: story.spiceLevel || 1,
-        totalPages: pages.length,
-        author: 'WildBranch', // Default author since not in schema
-        coverImage: story.imageUrl
-      };
+      return variables.map(variable => ({
+        name: variable.name,
+        type: variable.type,
+        defaultValue: variable.defaultValue,
+        description: variable.description || undefined
+      }));
     } catch (error) {
-      throw error;
+      return [];
     }
   }
+
+  async getStoryMetadata(storyId: string): Promise<StoryMetadata | null> {
+    const story = await storage.getStory(storyId);
+    if (!story) return null;
+
+    const pages = await storage.getStoryPages(storyId);
+    const authorName = await storage.getStoryAuthorName(storyId);
+
+    // Convert database format to engine format
+    return {
+      id: story.id,
+      title: story.title,
+      description: story.description || '',
+      category: story.category || 'general',
+      spiceLevel: story.spiceLevel || 1,
+      totalPages: pages.length,
+      author: authorName || 'WildBranch', // Legacy stories have no owner
+      coverImage: story.imageUrl
+    };
+  }
 }
\ No newline at end of file
@@ -1,4 +1,5 @@
 import type { AnalyticsEvent } from '../../shared/story-engine/types/EngineTypes';
+import { storage } from '../storage';
 
 /**
  * Analytics event tracking system
@@ -6,7 +7,11 @@ import type { AnalyticsEvent } from '../../shared/story-engine/types/EngineTypes
  */
 export class EventTracker {
   private events: AnalyticsEvent[] = [];
+  private pendingEvents: AnalyticsEvent[] = []; // Not yet written to analytics_events
   private maxEvents = 1000; // In-memory limit before flushing
+  private maxPendingEvents = 50; // Persist in small batches
+  private flushIntervalMs = 30 * 1000;
+  private flushTimer?: NodeJS.Timeout;
 
   /**
    * Record an analytics event
@@ -19,13 +24,16 @@ export class EventTracker {
     };
 
     this.events.push(enrichedEvent);
+    this.pendingEvents.push(enrichedEvent);
 
     // Log important events
     this.logEvent(enrichedEvent);
 
     // Flush to persistent storage if needed
-    if (this.events.length >= this.maxEvents) {
-      this.flush();
+    if (this.pendingEvents.length >= this.maxPendingEvents || this.events.length >= this.maxEvents) {
+      void this.flush();
+    } else {
+      this.scheduleFlush();
     }
   }
 
@@ -128,13 +136,38 @@ export class EventTracker {
     // Analytics events tracked in memory for development
   }
 
-  private async flush(): Promise<void> {
-    // In a production system, this would save to database
-    // For now, we keep events in memory but limit the size
-    console.log(`[Analytics] Flushing ${this.events.length} events`);
-    
-    // Keep only recent events
-    this.events = this.events.slice(-500);
+  /**
+   * Persist pending events to the analytics_events table
+   * Failed batches are re-queued so a DB blip doesn't drop data
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const batch = this.pendingEvents;
+    this.pendingEvents = [];
+
+    if (batch.length > 0) {
+      try {
+        await storage.logAnalyticsEvents(batch.map(event => ({ eventType: event.type, data: event })));
+      } catch (error) {
+        console.error(`[Analytics] Failed to persist ${batch.length} events:`, error);
+        this.pendingEvents = [...batch, ...this.pendingEvents].slice(-this.maxEvents);
+      }
+    }
+
+    // Keep only recent events in memory
+    if (this.events.length >= this.maxEvents) {
+      this.events = this.events.slice(-500);
+    }
+  }
+
+  private scheduleFlush(): void {
+    if (this.flushTimer) return;
+    this.flushTimer = setTimeout(() => void this.flush(), this.flushIntervalMs);
+    this.flushTimer.unref?.(); // Don't keep the process alive just for analytics
   }
 }
 
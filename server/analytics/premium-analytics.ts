@@ -97,7 +97,7 @@ class PremiumAnalyticsService {
     });
   }
 
-  // Track purchase attempt (Stripe payment intent created)
+  // Track purchase attempt (eggplant spend or Stripe payment intent created)
   async trackPurchaseAttempt(params: {
     userId: string;
     sessionId?: string;
@@ -106,7 +106,7 @@ class PremiumAnalyticsService {
     choiceId: string;
     userEggplants: number;
     choiceCost: number;
-    paymentIntentId: string;
+    paymentIntentId?: string;
   }): Promise<void> {
     await this.logPremiumEvent({
       ...params,
@@ -172,7 +172,11 @@ class PremiumAnalyticsService {
   // A/B Testing: Set user's initial eggplant balance
   async setTestUserBalance(userId: string, balance: number, testGroup: string): Promise<void> {
     try {
-      await storage.updateUserEggplants(userId, balance);
+      await storage.updateUserEggplants(userId, balance, {
+        reason: 'ab_test',
+        referenceId: testGroup,
+        description: `A/B test balance (${testGroup})`,
+      });
       await storage.logAnalyticsEvent('ab_test_assignment', {
         userId,
         testGroup,
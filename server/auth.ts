@@ -6,8 +6,15 @@ import type { Express, RequestHandler } from "express";
 import memoize from "memoizee";
 import connectPg from "connect-pg-simple";
 import { storage } from "./storage";
+import { getGuestReading, mergeGuestReading } from "./guest-reading";
+import { AuthProviderFactory } from "./auth/providers";
 
-if (!process.env.REPLIT_DOMAINS) {
+// AUTH_PROVIDER=fake swaps Replit login for FakeAuth (API tests, offline development)
+const fakeAuth = process.env.AUTH_PROVIDER === "fake"
+  ? AuthProviderFactory.create("fake", { sessionSecret: process.env.SESSION_SECRET || "fake-auth-secret" })
+  : undefined;
+
+if (!fakeAuth && !process.env.REPLIT_DOMAINS) {
   throw new Error("Environment variable REPLIT_DOMAINS not provided");
 }
 
@@ -24,7 +31,8 @@ const getOidcConfig = memoize(
 export function getSession() {
   const sessionTtl = 7 * 24 * 60 * 60 * 1000; // 1 week
   const pgStore = connectPg(session);
-  const sessionStore = new pgStore({
+  // STORAGE=memory has no sessions table; express-session's own MemoryStore is used instead
+  const sessionStore = process.env.STORAGE === "memory" ? undefined : new pgStore({
     conString: process.env.DATABASE_URL,
     createTableIfMissing: false,
     ttl: sessionTtl,
@@ -64,6 +72,11 @@ async function upsertUser(claims: any) {
 }
 
 export async function setupAuth(app: Express) {
+  if (fakeAuth) {
+    await fakeAuth.setup(app);
+    return;
+  }
+
   app.set("trust proxy", 1);
   app.use(getSession());
   app.use(passport.initialize());
@@ -109,9 +122,24 @@ export async function setupAuth(app: Express) {
   });
 
   app.get("/api/callback", (req, res, next) => {
-    passport.authenticate(`replitauth:${req.hostname}`, {
-      successRedirect: (req.session as any).returnTo || "/",
-      failureRedirect: "/api/login",
+    // Logging in replaces the session, so take what the reader did as a guest first
+    const returnTo = (req.session as any).returnTo || "/";
+    const guestReading = getGuestReading(req);
+
+    passport.authenticate(`replitauth:${req.hostname}`, (error: any, user: any) => {
+      if (error) return next(error);
+      if (!user) return res.redirect("/api/login");
+
+      req.logIn(user, async (loginError) => {
+        if (loginError) return next(loginError);
+        try {
+          await mergeGuestReading(user.claims.sub, guestReading);
+        } catch (mergeError) {
+          // Their guest progress is lost, but the login itself went through
+          console.error("Error merging guest reading:", mergeError);
+        }
+        res.redirect(returnTo);
+      });
     })(req, res, next);
   });
 
@@ -128,6 +156,10 @@ export async function setupAuth(app: Express) {
 }
 
 export const isAuthenticated: RequestHandler = async (req, res, next) => {
+  if (fakeAuth) {
+    return fakeAuth.isAuthenticated(req, res, next);
+  }
+
   const user = req.user as any;
 
   if (!req.isAuthenticated() || !user.expires_at) {
@@ -78,9 +78,9 @@ export interface AuthConfig {
  * Factory for creating auth providers
  */
 export class AuthProviderFactory {
-  private static providers = new Map<string, typeof AuthProvider>();
+  private static providers = new Map<string, new (config: AuthConfig) => AuthProvider>();
 
-  static register(name: string, provider: typeof AuthProvider) {
+  static register(name: string, provider: new (config: AuthConfig) => AuthProvider) {
     this.providers.set(name, provider);
   }
 
@@ -89,14 +89,10 @@ export class AuthProviderFactory {
     if (!ProviderClass) {
       throw new Error(`Auth provider '${name}' not found`);
     }
-    return new (ProviderClass as any)(config);
+    return new ProviderClass(config);
   }
 
   static getAvailable(): string[] {
     return Array.from(this.providers.keys());
   }
 }
-
-// Register available providers
-import { ReplitAuth } from './providers/ReplitAuth';
-AuthProviderFactory.register('replit', ReplitAuth);
\ No newline at end of file
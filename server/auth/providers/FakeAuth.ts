@@ -0,0 +1,102 @@
+import { AuthProvider, type AuthUser, type AuthConfig } from '../AuthProvider';
+import type { Express, Request, Response, NextFunction, RequestHandler } from 'express';
+import passport from "passport";
+import session from "express-session";
+import { getGuestReading, mergeGuestReading } from '../../guest-reading';
+
+/**
+ * Fake authentication provider for the API tests and offline development
+ * Signs the request in as whichever user id it asks for; never available in production
+ */
+export class FakeAuth extends AuthProvider {
+  name = 'fake';
+  private config: AuthConfig;
+
+  constructor(config: AuthConfig) {
+    super();
+    if (process.env.NODE_ENV === 'production') {
+      throw new Error("The fake auth provider cannot be used in production");
+    }
+    this.config = config;
+  }
+
+  async setup(app: Express): Promise<void> {
+    // Plain-HTTP cookies in the in-process MemoryStore, so test clients can hold a session
+    app.use(session({
+      secret: this.config.sessionSecret,
+      resave: false,
+      saveUninitialized: false,
+      cookie: {
+        httpOnly: true,
+        maxAge: this.config.sessionTtl || 7 * 24 * 60 * 60 * 1000,
+      },
+    }));
+    app.use(passport.initialize());
+    app.use(passport.session());
+
+    passport.serializeUser((user: Express.User, cb) => cb(null, user));
+    passport.deserializeUser((user: Express.User, cb) => cb(null, user));
+
+    app.get("/api/login", this.handleLogin);
+    app.get("/api/logout", this.handleLogout);
+  }
+
+  isAuthenticated: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    if (!req.isAuthenticated() || !(req.user as any)?.claims?.sub) {
+      return res.status(401).json({ message: "Unauthorized" });
+    }
+    return next();
+  };
+
+  getUser(req: Request): AuthUser | null {
+    if (!req.isAuthenticated() || !req.user) {
+      return null;
+    }
+
+    const user = req.user as any;
+    return {
+      id: user.claims.sub,
+      email: user.claims.email,
+      claims: user.claims
+    };
+  }
+
+  getUserId(req: Request): string | null {
+    return this.getUser(req)?.id || null;
+  }
+
+  // GET /api/login?userId=... signs in as that user; the user row itself is up to the caller
+  handleLogin: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    const userId = req.query.userId;
+    if (typeof userId !== 'string' || !userId) {
+      return res.status(400).json({ message: "userId is required" });
+    }
+
+    // Same shape as a Replit session, so routes can keep reading req.user.claims.sub
+    const user = {
+      claims: { sub: userId, email: `${userId}@example.com` },
+      expires_at: Math.floor(Date.now() / 1000) + 24 * 60 * 60,
+    };
+    // Logging in replaces the session, so take what the reader did as a guest first
+    const guestReading = getGuestReading(req);
+    req.login(user, (error) => {
+      if (error) return next(error);
+      mergeGuestReading(userId, guestReading)
+        .then(() => res.json({ userId }))
+        .catch(next);
+    });
+  };
+
+  handleLogout: RequestHandler = (req: Request, res: Response, next: NextFunction) => {
+    req.logout((error) => {
+      if (error) return next(error);
+      res.json({ success: true });
+    });
+  };
+
+  handleCallback?: RequestHandler;
+
+  async refreshSession(_req: Request): Promise<boolean> {
+    return true;
+  }
+}
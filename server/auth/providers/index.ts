@@ -0,0 +1,9 @@
+import { AuthProviderFactory } from '../AuthProvider';
+import { ReplitAuth } from './ReplitAuth';
+import { FakeAuth } from './FakeAuth';
+
+// Register available providers (kept out of AuthProvider.ts, which the providers import)
+AuthProviderFactory.register('replit', ReplitAuth);
+AuthProviderFactory.register('fake', FakeAuth);
+
+export { AuthProviderFactory };
@@ -1,9 +1,13 @@
 import { StoryEngine } from '../../shared/story-engine/StoryEngine';
 import { DatabaseStoryProvider } from '../adapters/DatabaseStoryProvider';
 import { analytics } from '../analytics/EventTracker';
+import { premiumAnalytics } from '../analytics/premium-analytics';
 import type { 
   NavigationRequest,
   NavigationResult,
+  StoryChoice,
+  StoryPage,
+  RewindRequest,
   EngineConfig 
 } from '../../shared/story-engine/types/EngineTypes';
 
@@ -29,8 +33,9 @@ export class StoryEngineService {
 
   /**
    * Navigate through story with analytics tracking
+   * sessionId ties premium funnel events for guests to their browser session
    */
-  async navigate(request: NavigationRequest): Promise<NavigationResult> {
+  async navigate(request: NavigationRequest, context: { sessionId?: string } = {}): Promise<NavigationResult> {
     try {
       const result = await this.engine.navigate(request, this.dataProvider);
 
@@ -39,17 +44,90 @@ export class StoryEngineService {
         analytics.track(result.analyticsEvent);
       }
 
+      this.trackPremiumFunnel(request, result, context.sessionId);
+
       return result;
     } catch (error) {
       console.error('Story engine navigation error:', error);
       return {
         success: false,
-        session: null as any,
+        session: null,
         error: error instanceof Error ? error.message : 'Navigation failed'
       };
     }
   }
 
+  /**
+   * Rewind the reader to an earlier choice on their path
+   */
+  async rewind(request: RewindRequest, context: { sessionId?: string } = {}): Promise<NavigationResult> {
+    const result = await this.engine.rewind(request, this.dataProvider);
+
+    if (result.success && result.analyticsEvent) {
+      analytics.track(result.analyticsEvent);
+    }
+    this.trackPremiumFunnel(request, result, context.sessionId);
+
+    return result;
+  }
+
+  /**
+   * Pages the reader can get to without premium choices they don't own; guests own none
+   */
+  async reachablePages(storyId: string, userId?: string): Promise<{ pages: StoryPage[]; choices: StoryChoice[] }> {
+    const owned = userId ? await this.dataProvider.getPurchasedChoiceIds(userId, storyId) : [];
+    return this.engine.reachablePages(storyId, owned, this.dataProvider);
+  }
+
+  // Premium views for the page's unowned premium choices, taps and purchases for the choice taken.
+  // Navigation doesn't wait on any of it.
+  private trackPremiumFunnel(request: Pick<NavigationRequest, 'userId' | 'storyId'>, result: NavigationResult, sessionId?: string) {
+    const { userId, storyId } = request;
+    const choice = result.choice;
+
+    if (choice?.isPremium && choice.eggplantCost > 0) {
+      this.trackPremiumChoice(choice, request, result, sessionId)
+        .catch((error) => console.error('Error tracking premium choice:', error));
+    }
+
+    if (!result.session) return;
+    for (const evaluation of result.session.availableChoices) {
+      if (evaluation.requiresPurchase) {
+        premiumAnalytics.trackPremiumView({
+          userId,
+          sessionId,
+          storyId,
+          pageId: result.session.currentPage.id,
+          choiceId: evaluation.choice.id,
+          userEggplants: result.session.userEggplants,
+          choiceCost: evaluation.choice.eggplantCost
+        });
+      }
+    }
+  }
+
+  // Tap, then attempt and success when bought, in that order
+  private async trackPremiumChoice(choice: StoryChoice, request: Pick<NavigationRequest, 'userId' | 'storyId'>, result: NavigationResult, sessionId?: string) {
+    const { userId, storyId } = request;
+    const balance = result.session?.userEggplants ?? (userId ? await this.dataProvider.getUserEggplants(userId) : 0);
+    const purchased = result.premiumOutcome === 'purchased';
+    const event = {
+      userId,
+      sessionId,
+      storyId,
+      pageId: choice.fromPageId,
+      choiceId: choice.id,
+      userEggplants: purchased ? balance + choice.eggplantCost : balance,
+      choiceCost: choice.eggplantCost
+    };
+
+    await premiumAnalytics.trackPremiumTap(event);
+    if (purchased && userId) {
+      await premiumAnalytics.trackPurchaseAttempt({ ...event, userId });
+      await premiumAnalytics.trackPurchaseSuccess({ ...event, userId, userEggplants: balance });
+    }
+  }
+
   /**
    * Get tension metrics for enhanced UX
    */
@@ -0,0 +1,226 @@
+import type { StorySnapshot } from "@shared/schema";
+import type { MemorySeed } from "../memory-storage";
+
+// Seed data for STORAGE=memory. Ids are fixed so tests and local links can rely on them.
+
+export const FIXTURE_AUTHOR_ID = "fixture-author";
+export const FIXTURE_READER_ID = "fixture-reader";
+
+type FixturePage = StorySnapshot["pages"][number];
+type FixtureChoice = StorySnapshot["choices"][number];
+
+function page(id: string, order: number, title: string, content: string, extra: Partial<FixturePage> = {}): FixturePage {
+  return {
+    id,
+    title,
+    content,
+    order,
+    pageType: "story",
+    isStarting: order === 1,
+    chatMessages: null,
+    nextPageId: null,
+    ...extra,
+  };
+}
+
+function choice(
+  id: string,
+  from: FixturePage,
+  to: FixturePage,
+  order: number,
+  choiceText: string,
+  extra: Partial<FixtureChoice> = {}
+): FixtureChoice {
+  return {
+    id,
+    fromPageId: from.id,
+    toPageId: to.id,
+    choiceText,
+    isPremium: false,
+    eggplantCost: 0,
+    order,
+    targetPage: to.order,
+    targetPageId: to.id,
+    effects: null,
+    conditions: null,
+    ...extra,
+  };
+}
+
+const library = {
+  start: page("fixture-library-p1", 1, "Closing Time",
+    "The last lamp in the reading room still burns. Someone has left a note tucked inside the book you came back for."),
+  note: page("fixture-library-p2", 2, "The Note",
+    "The handwriting is careful and a little shy: meet me in the rare books room at midnight. You hear footsteps upstairs.", {
+      pageType: "choice",
+    }),
+  stairs: page("fixture-library-p3", 3, "The Stairs",
+    "You climb toward the sound. A librarian with ink on their fingers turns, startled, then smiles like they hoped it would be you."),
+  secret: page("fixture-library-p4", 4, "The Rare Books Room",
+    "Behind the locked door the air smells of old paper and candle wax. They have been waiting, and they have saved you a seat."),
+  ending: page("fixture-library-p5", 5, "Between the Stacks",
+    "You talk until the windows turn grey. When they walk you out, they press a library card into your hand with a number on the back."),
+};
+
+const harbor = {
+  start: page("fixture-harbor-p1", 1, "Last Ferry",
+    "You miss the last ferry by a minute. The woman closing the ticket booth says there is one more boat, if you don't mind sailing with her."),
+  chat: page("fixture-harbor-p2", 2, "On Deck", "", {
+    pageType: "chat",
+    chatMessages: [
+      { id: "fixture-harbor-m1", sender: "Mara", message: "First time crossing at night?", isUser: false },
+      { id: "fixture-harbor-m2", sender: "You", message: "First time crossing with a stranger.", isUser: true },
+      { id: "fixture-harbor-m3", sender: "Mara", message: "Then we should fix the stranger part.", isUser: false },
+    ],
+  }),
+  choice: page("fixture-harbor-p3", 3, "The Lighthouse",
+    "The harbor lights come into view. Mara asks whether you want to go straight home or see the lighthouse she keeps.", {
+      pageType: "choice",
+    }),
+  lighthouse: page("fixture-harbor-p4", 4, "Lamp Room",
+    "The lamp turns slowly above you both. From up here the whole town is small and warm, and so is her hand in yours."),
+  home: page("fixture-harbor-p5", 5, "Home Port",
+    "She walks you to your door and asks for your number. You give it to her before she has finished asking."),
+};
+
+const draft = {
+  start: page("fixture-draft-p1", 1, "Untitled Opening", "A story that hasn't been published yet."),
+  next: page("fixture-draft-p2", 2, "Untitled Ending", "The end, for now."),
+};
+
+export const fixtureSeed: MemorySeed = {
+  users: [
+    {
+      id: FIXTURE_AUTHOR_ID,
+      email: "author@example.com",
+      firstName: "Ada",
+      lastName: "Writer",
+      role: "admin",
+      eggplants: 50,
+    },
+    {
+      id: FIXTURE_READER_ID,
+      email: "reader@example.com",
+      firstName: "Robin",
+      lastName: "Reader",
+      role: "registered",
+      eggplants: 20,
+    },
+  ],
+  stories: [
+    {
+      id: "fixture-midnight-library",
+      authorId: FIXTURE_AUTHOR_ID,
+      isPublished: true,
+      isFeatured: true,
+      tags: ["slow-burn", "bookish"],
+      snapshot: {
+        story: {
+          title: "The Midnight Library",
+          description: "A note left in a returned book leads to a meeting after hours.",
+          imageUrl: "https://images.unsplash.com/photo-1507842217343-583bb7270b66",
+          spiceLevel: 1,
+          category: "straight",
+        },
+        pages: Object.values(library),
+        choices: [
+          choice("fixture-library-c1", library.note, library.stairs, 0, "Follow the footsteps", {
+            effects: [{ variable: "courage", operation: "increment", value: 1 }],
+          }),
+          choice("fixture-library-c2", library.note, library.secret, 1, "Find the rare books room", {
+            isPremium: true,
+            eggplantCost: 3,
+          }),
+          choice("fixture-library-c3", library.stairs, library.ending, 0, "Stay and talk"),
+          choice("fixture-library-c4", library.secret, library.ending, 0, "Stay until dawn"),
+        ],
+        endingCards: [
+          {
+            id: "fixture-library-card-1",
+            pageId: library.ending.id,
+            cardTitle: "Overdue",
+            cardSubtitle: "A first date among the stacks",
+            cardDescription: "Some books are worth the late fee.",
+            cardImageUrl: null,
+            rarity: "ember",
+            emotionTag: "tender",
+            unlockCondition: "Reach the ending",
+            isSecret: false,
+            sortOrder: 0,
+          },
+          {
+            id: "fixture-library-card-2",
+            pageId: library.ending.id,
+            cardTitle: "Special Collections",
+            cardSubtitle: null,
+            cardDescription: "Not every room is in the catalogue.",
+            cardImageUrl: null,
+            rarity: "flame",
+            emotionTag: "passionate",
+            unlockCondition: "A rare draw at the ending",
+            isSecret: true,
+            sortOrder: 1,
+          },
+        ],
+        variables: [
+          { name: "courage", type: "number", defaultValue: 0, description: "Grows each time the reader takes a chance" },
+        ],
+      },
+    },
+    {
+      id: "fixture-harbor-lights",
+      authorId: FIXTURE_AUTHOR_ID,
+      isPublished: true,
+      tags: ["sapphic", "seaside"],
+      snapshot: {
+        story: {
+          title: "Harbor Lights",
+          description: "One missed ferry, one night crossing and a lighthouse keeper who talks to strangers.",
+          imageUrl: "https://images.unsplash.com/photo-1500530855697-b586d89ba3ee",
+          spiceLevel: 2,
+          category: "lgbt",
+        },
+        pages: Object.values(harbor),
+        choices: [
+          choice("fixture-harbor-c1", harbor.choice, harbor.home, 0, "Ask her to take you home"),
+          choice("fixture-harbor-c2", harbor.choice, harbor.lighthouse, 1, "Climb the lighthouse together"),
+          choice("fixture-harbor-c3", harbor.lighthouse, harbor.home, 0, "Walk home together"),
+        ],
+        endingCards: [
+          {
+            id: "fixture-harbor-card-1",
+            pageId: harbor.home.id,
+            cardTitle: "Keeper of the Light",
+            cardSubtitle: null,
+            cardDescription: "The lamp never goes out while someone is watching it.",
+            cardImageUrl: null,
+            rarity: "inferno",
+            emotionTag: "wild",
+            unlockCondition: "Reach the ending",
+            isSecret: false,
+            sortOrder: 0,
+          },
+        ],
+        variables: [],
+      },
+    },
+    {
+      id: "fixture-unpublished-draft",
+      authorId: FIXTURE_AUTHOR_ID,
+      isPublished: false,
+      snapshot: {
+        story: {
+          title: "Work in Progress",
+          description: "An unpublished story for trying out the builder.",
+          imageUrl: "https://images.unsplash.com/photo-1455390582262-044cdead277a",
+          spiceLevel: 1,
+          category: "all",
+        },
+        pages: Object.values(draft),
+        choices: [],
+        endingCards: [],
+        variables: [],
+      },
+    },
+  ],
+};
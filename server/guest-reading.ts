@@ -0,0 +1,182 @@
+import type { Request } from "express";
+import { DEFAULT_SAVE_SLOT } from "@shared/schema";
+import type { StorySession, StoryVariableValues, UserProgress } from "@shared/story-engine/types/EngineTypes";
+import { storage } from "./storage";
+
+// Readers who aren't signed in keep their place in their browser session until they log in
+export interface GuestStoryReading {
+  currentPageId: string;
+  completedPages: string[];
+  variables: StoryVariableValues;
+  choices: Array<{ choiceId: string; chosenAt: string }>; // Oldest first
+  isBookmarked: boolean;
+  bookmarks: GuestBookmark[];
+  lastReadAt: string;
+}
+
+export interface GuestBookmark {
+  storyId: string;
+  pageId: string;
+  title: string;
+  notes?: string;
+  createdAt: string;
+}
+
+export type GuestReading = Record<string, GuestStoryReading>; // By story id
+
+// Merged reading goes into its own slot when the account has already started the story
+export const GUEST_SAVE_SLOT = "Guest reading";
+
+declare module "express-session" {
+  interface SessionData {
+    guestReading?: GuestReading;
+  }
+}
+
+export function getGuestReading(req: Request): GuestReading {
+  return req.session?.guestReading ?? {};
+}
+
+// The guest's progress in the shape the story engine reads, or undefined if they haven't opened the story
+export function getGuestProgress(req: Request, storyId: string): UserProgress | undefined {
+  const reading = getGuestReading(req)[storyId];
+  if (!reading?.currentPageId) return undefined;
+
+  return {
+    userId: '',
+    storyId,
+    currentPageId: reading.currentPageId,
+    completedPages: reading.completedPages,
+    purchasedChoices: [],
+    variables: reading.variables,
+    lastReadAt: new Date(reading.lastReadAt),
+  };
+}
+
+// Stores where a guest's navigation left them, plus the choice they took to get there
+export function recordGuestSession(req: Request, session: StorySession, choiceId?: string) {
+  const reading = storyReading(req, session.storyId);
+  const now = new Date().toISOString();
+
+  reading.currentPageId = session.currentPage.id;
+  reading.completedPages = session.progress.completedPages;
+  reading.variables = session.progress.variables;
+  reading.lastReadAt = now;
+  if (choiceId) {
+    reading.choices.push({ choiceId, chosenAt: now });
+  }
+}
+
+// Starting over forgets the place and choices, but not the bookmarks
+export function resetGuestReading(req: Request, storyId: string) {
+  const reading = getGuestReading(req)[storyId];
+  if (!reading) return;
+
+  reading.currentPageId = '';
+  reading.completedPages = [];
+  reading.variables = {};
+  reading.choices = [];
+}
+
+export function toggleGuestStoryBookmark(req: Request, storyId: string, firstPageId: string): boolean {
+  const reading = storyReading(req, storyId);
+  reading.currentPageId ||= firstPageId;
+  reading.isBookmarked = !reading.isBookmarked;
+  return reading.isBookmarked;
+}
+
+export function addGuestBookmark(req: Request, bookmark: Omit<GuestBookmark, 'createdAt'>): GuestBookmark {
+  const saved = { ...bookmark, createdAt: new Date().toISOString() };
+  storyReading(req, bookmark.storyId).bookmarks.push(saved);
+  return saved;
+}
+
+export function getGuestBookmarks(req: Request, storyId?: string): GuestBookmark[] {
+  return Object.entries(getGuestReading(req))
+    .filter(([id]) => !storyId || id === storyId)
+    .flatMap(([, reading]) => reading.bookmarks);
+}
+
+function storyReading(req: Request, storyId: string): GuestStoryReading {
+  const guestReading = req.session.guestReading ??= {};
+  return guestReading[storyId] ??= {
+    currentPageId: '',
+    completedPages: [],
+    variables: {},
+    choices: [],
+    isBookmarked: false,
+    bookmarks: [],
+    lastReadAt: new Date().toISOString(),
+  };
+}
+
+/**
+ * Moves what a guest read into the account they just signed in to: their place, story variables
+ * and choice history become a save slot, and their bookmarks are added to the account's.
+ * Stories the account hasn't started use the default slot; otherwise the guest's playthrough gets
+ * a slot of its own, so neither is overwritten. It's the most recently read, so the reader resumes there.
+ * Guests who only opened a story the account has already started don't get a slot.
+ */
+export async function mergeGuestReading(userId: string, guestReading: GuestReading): Promise<void> {
+  for (const [storyId, reading] of Object.entries(guestReading)) {
+    const story = await storage.getStory(storyId);
+    if (!story) continue; // Deleted while the guest was reading
+
+    await storage.transaction(async (tx) => {
+      const pages = await tx.getStoryPages(storyId);
+      const pageIds = new Set(pages.map((page) => page.id));
+
+      const existing = await tx.getReadingProgress(userId, storyId);
+      // A guest who only opened the story has nothing worth a slot of its own
+      const startedReading = pageIds.has(reading.currentPageId)
+        && (reading.choices.length > 0 || reading.currentPageId !== pages[0]?.id);
+
+      if (existing && !startedReading) {
+        if (reading.isBookmarked && !existing.isBookmarked) {
+          await tx.saveReadingProgress({ userId, storyId, slot: existing.slot, currentPageId: existing.currentPageId, isBookmarked: true });
+        }
+      } else if (pageIds.has(reading.currentPageId) || reading.isBookmarked) {
+        const slot = existing ? freeSlotName((await tx.getReadingSlots(userId, storyId)).map((progress) => progress.slot)) : DEFAULT_SAVE_SLOT;
+        const currentPageId = pageIds.has(reading.currentPageId) ? reading.currentPageId : pages[0]?.id;
+        const completedOrders = pages.filter((page) => reading.completedPages.includes(page.id)).map((page) => page.order);
+
+        await tx.saveReadingProgress({
+          userId,
+          storyId,
+          slot,
+          currentPageId,
+          pagesRead: Math.max(0, ...completedOrders),
+          variables: reading.variables,
+          isBookmarked: reading.isBookmarked,
+          lastReadAt: new Date(),
+        });
+
+        for (const { choiceId, chosenAt } of reading.choices) {
+          if (await tx.getChoice(choiceId)) {
+            await tx.saveUserChoice({ userId, storyId, choiceId, slot, createdAt: new Date(chosenAt) });
+          }
+        }
+      }
+
+      for (const bookmark of reading.bookmarks) {
+        if (pageIds.has(bookmark.pageId)) {
+          await tx.createPersonalBookmark({
+            userId,
+            storyId,
+            pageId: bookmark.pageId,
+            title: bookmark.title,
+            notes: bookmark.notes,
+          });
+        }
+      }
+    });
+  }
+}
+
+function freeSlotName(existingSlots: string[]): string {
+  let name = GUEST_SAVE_SLOT;
+  for (let n = 2; existingSlots.includes(name); n++) {
+    name = `${GUEST_SAVE_SLOT} ${n}`;
+  }
+  return name;
+}
@@ -0,0 +1,168 @@
+import { promises as fs } from "fs";
+import path from "path";
+import { randomUUID } from "crypto";
+import express, { type Express } from "express";
+import sharp from "sharp";
+import type { MediaAsset, MediaVariant } from "@shared/schema";
+import type { IStorage } from "./storage";
+
+// Where uploaded files end up. Local disk for now; anything that can put, remove and serve
+// files by key (a bucket, a CDN) can stand in for it.
+export interface MediaStore {
+  put(key: string, data: Buffer, contentType: string): Promise<string>; // Returns the public URL
+  remove(key: string): Promise<void>; // Everything under the key
+  mount(app: Express): void;
+}
+
+const MEDIA_URL_PREFIX = "/media";
+
+class LocalDiskMediaStore implements MediaStore {
+  constructor(private readonly root: string) {}
+
+  async put(key: string, data: Buffer, _contentType: string): Promise<string> {
+    const file = this.resolve(key);
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, data);
+    return `${MEDIA_URL_PREFIX}/${key}`;
+  }
+
+  async remove(key: string): Promise<void> {
+    await fs.rm(this.resolve(key), { recursive: true, force: true });
+  }
+
+  mount(app: Express) {
+    // Keys are never reused, so a file at a URL never changes
+    app.use(MEDIA_URL_PREFIX, express.static(this.root, {
+      immutable: true,
+      maxAge: "365d",
+      index: false,
+      // Express's type table predates AVIF, so name the upload types ourselves
+      setHeaders: (res, file) => {
+        const contentType = UPLOAD_CONTENT_TYPES.find((type) => fileExtensionOf(type) === path.extname(file).slice(1));
+        if (contentType) res.setHeader("Content-Type", contentType);
+      },
+    }));
+  }
+
+  // Keys are ids we generate, but keep them inside the media folder regardless
+  private resolve(key: string): string {
+    const file = path.resolve(this.root, key);
+    if (!file.startsWith(path.resolve(this.root) + path.sep)) {
+      throw new Error(`Media key ${key} is outside the media folder`);
+    }
+    return file;
+  }
+}
+
+export const mediaStore: MediaStore = new LocalDiskMediaStore(
+  path.resolve(process.env.MEDIA_DIR || path.join(process.cwd(), "uploads", "media"))
+);
+
+export const MAX_UPLOAD_BYTES = 15 * 1024 * 1024;
+export const UPLOAD_CONTENT_TYPES = ["image/jpeg", "image/png", "image/webp", "image/gif", "image/avif"];
+
+// "image/avif" is saved as .avif, "image/jpeg" as .jpeg
+function fileExtensionOf(mimeType: string): string {
+  return mimeType.split("/")[1];
+}
+
+const SUPPORTED_FORMATS: Record<string, string> = {
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  gif: "image/gif",
+};
+
+// Sharp reports AVIF as HEIF; other HEIF images, such as HEIC photos, aren't taken
+function mimeTypeOf({ format, compression }: sharp.Metadata): string | undefined {
+  if (format === "heif") return compression === "av1" ? "image/avif" : undefined;
+  return format ? SUPPORTED_FORMATS[format] : undefined;
+}
+
+// Widths of the webp copies; smaller images aren't enlarged
+const RESIZED_VARIANTS: Array<{ name: MediaVariant["name"]; width: number }> = [
+  { name: "large", width: 1600 },
+  { name: "medium", width: 800 },
+  { name: "thumb", width: 320 },
+];
+const WEBP_QUALITY = 80;
+
+export interface MediaUpload {
+  ownerId: string;
+  filename: string;
+  altText: string;
+  data: Buffer;
+}
+
+/**
+ * Whether the bytes are an image we can take, judged by decoding them rather than trusting the
+ * declared type
+ */
+export async function isSupportedImage(data: Buffer): Promise<boolean> {
+  try {
+    const metadata = await sharp(data).metadata();
+    return !!mimeTypeOf(metadata) && !!metadata.width && !!metadata.height;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Stores an upload in the media library: the original (turned upright, with its metadata such as
+ * location stripped) and webp copies for each display size. The large copy is the asset's `url`.
+ */
+export async function addToMediaLibrary(storage: IStorage, upload: MediaUpload): Promise<MediaAsset> {
+  const id = randomUUID();
+  const source = sharp(upload.data).rotate();
+  const mimeType = mimeTypeOf(await sharp(upload.data).metadata())!;
+  const original = await source.clone().toBuffer({ resolveWithObject: true });
+
+  try {
+    const variants: MediaVariant[] = [{
+      name: "original",
+      url: await mediaStore.put(`${id}/original.${fileExtensionOf(mimeType)}`, original.data, mimeType),
+      width: original.info.width,
+      height: original.info.height,
+      format: fileExtensionOf(mimeType),
+      sizeBytes: original.data.length,
+    }];
+
+    for (const { name, width } of RESIZED_VARIANTS) {
+      const resized = await source
+        .clone()
+        .resize({ width, withoutEnlargement: true })
+        .webp({ quality: WEBP_QUALITY })
+        .toBuffer({ resolveWithObject: true });
+      variants.push({
+        name,
+        url: await mediaStore.put(`${id}/${name}.webp`, resized.data, "image/webp"),
+        width: resized.info.width,
+        height: resized.info.height,
+        format: "webp",
+        sizeBytes: resized.data.length,
+      });
+    }
+
+    return await storage.createMediaAsset({
+      id,
+      ownerId: upload.ownerId,
+      filename: upload.filename,
+      altText: upload.altText,
+      mimeType,
+      width: original.info.width,
+      height: original.info.height,
+      sizeBytes: original.data.length,
+      url: variants.find((variant) => variant.name === "large")!.url,
+      variants,
+    });
+  } catch (error) {
+    await mediaStore.remove(id);
+    throw error;
+  }
+}
+
+// Stories that already use the image keep their URL, which stops working once it's removed
+export async function removeFromMediaLibrary(storage: IStorage, asset: MediaAsset): Promise<void> {
+  await storage.deleteMediaAsset(asset.id);
+  await mediaStore.remove(asset.id);
+}
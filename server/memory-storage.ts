@@ -0,0 +1,1718 @@
+import { randomUUID } from "crypto";
+import type {
+  purchasedPremiumPaths,
+  User,
+  UpsertUser,
+  UserPreferences,
+  ReaderPreferences,
+  Story,
+  StoryPage,
+  StoryChoice,
+  StoryVariable,
+  StoryCharacter,
+  MediaAsset,
+  InsertMediaAsset,
+  StoryCoAuthor,
+  StoryRevision,
+  StoryDraft,
+  StorySnapshot,
+  ReadingProgress,
+  InsertReadingProgress,
+  UserChoice,
+  InsertUserChoice,
+  PersonalBookmark,
+  InsertPersonalBookmark,
+  ReadingSession,
+  InsertReadingSession,
+  EndingCard,
+  UserEndingCard,
+  EggplantTransaction,
+  AnalyticsEventRecord,
+  StoryVariableValues,
+} from "@shared/schema";
+import type { StoryVariableDefinition } from "@shared/story-engine/types/StoryTypes";
+import { DEFAULT_SAVE_SLOT } from "@shared/schema";
+import { DEFAULT_READER_PREFERENCES } from "@shared/readerPreferences";
+import { VariableEvaluator } from "@shared/story-engine/VariableEvaluator";
+import { planPageRemap } from "./story-snapshots";
+import {
+  canonicalJson,
+  toAnalyticsEventRow,
+  buildStoryMapData,
+  loadStoryMapLayout,
+  loadStoryMapReaderPath,
+  createStoryFromTimeline,
+  pickEndingCard,
+  progressPagePosition,
+  summarizeCollection,
+  toReaderPreferences,
+  type StoryMapData,
+} from "./storage-shared";
+import type {
+  IStorage,
+  EggplantLedgerEntry,
+  StoryCollaborator,
+  AuthorStorySummary,
+  StorySearchFilters,
+  StorySearchResult,
+  UserStats,
+  ReadingStats,
+  CollectionStats,
+  StoryMapReader,
+  CreateStoryData,
+  CreateStoryChoiceData,
+  CreateEndingCardData,
+  TimelineData,
+  StoryCharacterDefinition,
+} from "./storage";
+import type { PremiumAnalytics } from "./analytics/premium-analytics";
+
+type PurchasedPremiumPath = typeof purchasedPremiumPaths.$inferSelect;
+
+type MemoryTables = {
+  users: User[];
+  userPreferences: UserPreferences[];
+  stories: Story[];
+  storyPages: StoryPage[];
+  storyChoices: StoryChoice[];
+  storyVariables: StoryVariable[];
+  storyCharacters: StoryCharacter[];
+  mediaAssets: MediaAsset[];
+  storyCoAuthors: StoryCoAuthor[];
+  storyRevisions: StoryRevision[];
+  storyDrafts: StoryDraft[];
+  readingProgress: ReadingProgress[];
+  userChoices: UserChoice[];
+  personalBookmarks: PersonalBookmark[];
+  readingSessions: ReadingSession[];
+  purchasedPremiumPaths: PurchasedPremiumPath[];
+  endingCards: EndingCard[];
+  userEndingCards: UserEndingCard[];
+  eggplantTransactions: EggplantTransaction[];
+  analyticsEvents: AnalyticsEventRecord[];
+};
+
+export type MemorySeed = {
+  users: UpsertUser[];
+  stories: Array<{
+    id: string;
+    authorId: string | null;
+    isPublished: boolean;
+    isFeatured?: boolean;
+    tags?: string[];
+    snapshot: StorySnapshot;
+  }>;
+};
+
+function emptyTables(): MemoryTables {
+  return {
+    users: [],
+    userPreferences: [],
+    stories: [],
+    storyPages: [],
+    storyChoices: [],
+    storyVariables: [],
+    storyCharacters: [],
+    mediaAssets: [],
+    storyCoAuthors: [],
+    storyRevisions: [],
+    storyDrafts: [],
+    readingProgress: [],
+    userChoices: [],
+    personalBookmarks: [],
+    readingSessions: [],
+    purchasedPremiumPaths: [],
+    endingCards: [],
+    userEndingCards: [],
+    eggplantTransactions: [],
+    analyticsEvents: [],
+  };
+}
+
+// Transactions and writes made outside one take turns here, like a single table lock
+class WriteLock {
+  private tail: Promise<unknown> = Promise.resolve();
+
+  run<T>(work: () => Promise<T>): Promise<T> {
+    const result = this.tail.then(work);
+    this.tail = result.catch(() => undefined);
+    return result;
+  }
+}
+
+// Rows are handed out as copies so callers can't change stored data without going through a write
+const copy = <T>(value: T): T => structuredClone(value);
+
+// drizzle skips undefined values in .set(), so they don't overwrite columns here either
+function definedOnly<T extends object>(changes: Partial<T>): Partial<T> {
+  return Object.fromEntries(Object.entries(changes).filter(([, value]) => value !== undefined)) as Partial<T>;
+}
+
+function updateRow<T extends object>(rows: T[], matches: (row: T) => boolean, changes: Partial<T>): T {
+  const row = rows.find(matches);
+  if (row) Object.assign(row, definedOnly(changes));
+  return copy(row) as T;
+}
+
+const time = (date: Date | null | undefined) => date?.getTime() ?? 0;
+const countWords = (content: string) => content.split(' ').filter((word) => word.length > 0).length;
+
+/**
+ * IStorage kept in process memory, for running the app and its tests without Postgres.
+ * Writes run one at a time; a transaction holds the write lock until it finishes and
+ * puts every table back the way it found it if `work` throws.
+ */
+export class MemoryStorage implements IStorage {
+  private state = { tables: emptyTables(), lock: new WriteLock(), lastTimestamp: 0 };
+  private inTransaction = false;
+
+  constructor(seed?: MemorySeed) {
+    if (seed) this.seed(seed);
+  }
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    const run = async () => {
+      const savepoint = copy(this.state.tables);
+      const tx = new MemoryStorage();
+      tx.state = this.state;
+      tx.inTransaction = true;
+      try {
+        return await work(tx);
+      } catch (error) {
+        this.state.tables = savepoint;
+        throw error;
+      }
+    };
+    // Nested transactions behave like savepoints: the outer one already holds the lock
+    return this.inTransaction ? await run() : await this.state.lock.run(run);
+  }
+
+  private get tables(): MemoryTables {
+    return this.state.tables;
+  }
+
+  private async write<T>(change: () => T): Promise<T> {
+    if (this.inTransaction) return this.atomic(change);
+    return await this.state.lock.run(async () => this.atomic(change));
+  }
+
+  // Multi-row changes either finish or leave no trace, like a statement inside a transaction
+  private atomic<T>(change: () => T): T {
+    const savepoint = copy(this.state.tables);
+    try {
+      return change();
+    } catch (error) {
+      this.state.tables = savepoint;
+      throw error;
+    }
+  }
+
+  // Strictly increasing, so "newest first" is well defined even within one millisecond
+  private now(): Date {
+    this.state.lastTimestamp = Math.max(Date.now(), this.state.lastTimestamp + 1);
+    return new Date(this.state.lastTimestamp);
+  }
+
+  private seed(seed: MemorySeed): void {
+    seed.users.forEach((user) => this.insertUser(user));
+    seed.stories.forEach(({ id, authorId, isPublished, isFeatured, tags, snapshot }) => {
+      const createdAt = this.now();
+      this.tables.stories.push({
+        ...snapshot.story,
+        id,
+        wordCount: snapshot.pages.reduce((total, page) => total + countWords(page.content), 0),
+        pathCount: snapshot.choices.length,
+        tags: tags || [],
+        isFeatured: isFeatured || false,
+        isPublished,
+        publishedAt: isPublished ? createdAt : null,
+        authorId,
+        createdAt,
+        updatedAt: createdAt,
+      });
+      this.applySnapshot(id, copy(snapshot));
+      this.insertRevision(id, authorId, "Seeded from fixtures", copy(snapshot));
+    });
+  }
+
+  // === USER OPERATIONS ===
+  async getUser(id: string): Promise<User | undefined> {
+    return copy(this.tables.users.find((user) => user.id === id));
+  }
+
+  async upsertUser(userData: UpsertUser): Promise<User> {
+    return await this.write(() => {
+      const existing = userData.id ? this.tables.users.find((user) => user.id === userData.id) : undefined;
+      if (!existing) return copy(this.insertUser(userData));
+
+      this.assertEmailAvailable(userData.email, existing.id);
+      Object.assign(existing, definedOnly(userData), { updatedAt: this.now() });
+      return copy(existing);
+    });
+  }
+
+  private insertUser(userData: UpsertUser): User {
+    this.assertEmailAvailable(userData.email);
+    const createdAt = this.now();
+    const user: User = {
+      email: null,
+      firstName: null,
+      lastName: null,
+      profileImageUrl: null,
+      stripeCustomerId: null,
+      stripeSubscriptionId: null,
+      ...definedOnly(userData),
+      id: userData.id || randomUUID(),
+      role: userData.role || "registered",
+      eggplants: userData.eggplants ?? (userData.role === 'mega-admin' ? 999 : 20),
+      createdAt,
+      updatedAt: createdAt,
+    };
+    this.tables.users.push(user);
+
+    // Opening balance is the first ledger row for every new account
+    if (user.eggplants) {
+      this.insertLedgerRow({
+        userId: user.id,
+        amount: user.eggplants,
+        balanceAfter: user.eggplants,
+        reason: 'signup_bonus',
+        referenceId: null,
+        description: 'Welcome eggplants',
+      });
+    }
+    return user;
+  }
+
+  private assertEmailAvailable(email: string | null | undefined, exceptUserId?: string): void {
+    if (email && this.tables.users.some((user) => user.email === email && user.id !== exceptUserId)) {
+      throw new Error(`A user with email ${email} already exists`);
+    }
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    return copy(this.tables.users.find((user) => user.email === email));
+  }
+
+  async getAllUsers(): Promise<User[]> {
+    return copy(this.tables.users.slice().sort((a, b) => time(a.createdAt) - time(b.createdAt)));
+  }
+
+  async updateUserEggplants(userId: string, eggplants: number, entry: EggplantLedgerEntry): Promise<User> {
+    return await this.changeUserEggplants(userId, (current) => eggplants - current, entry);
+  }
+
+  async addEggplantsToUser(userId: string, eggplantsToAdd: number, entry: EggplantLedgerEntry): Promise<User> {
+    return await this.changeUserEggplants(userId, () => eggplantsToAdd, entry);
+  }
+
+  private async changeUserEggplants(
+    userId: string,
+    computeDelta: (currentBalance: number) => number,
+    entry: EggplantLedgerEntry
+  ): Promise<User> {
+    return await this.write(() => {
+      const user = this.tables.users.find((row) => row.id === userId);
+      if (!user) {
+        throw new Error('User not found');
+      }
+
+      const currentBalance = user.eggplants || 0;
+      const amount = computeDelta(currentBalance);
+      const balanceAfter = currentBalance + amount;
+      if (balanceAfter < 0) {
+        throw new Error('Insufficient eggplants');
+      }
+
+      user.eggplants = balanceAfter;
+      user.updatedAt = this.now();
+      if (amount !== 0) {
+        this.insertLedgerRow({
+          referenceId: null,
+          description: null,
+          ...definedOnly(entry),
+          reason: entry.reason,
+          userId,
+          amount,
+          balanceAfter,
+        });
+      }
+      return copy(user);
+    });
+  }
+
+  async updateUserRole(userId: string, role: "guest" | "registered" | "admin" | "mega-admin"): Promise<User> {
+    return await this.write(() =>
+      updateRow(this.tables.users, (user) => user.id === userId, { role, updatedAt: this.now() })
+    );
+  }
+
+  // === READER PREFERENCE OPERATIONS ===
+  async getReaderPreferences(userId: string): Promise<ReaderPreferences> {
+    const row = this.tables.userPreferences.find((preferences) => preferences.userId === userId);
+    return row ? toReaderPreferences(copy(row)) : { ...DEFAULT_READER_PREFERENCES };
+  }
+
+  async updateReaderPreferences(userId: string, updates: Partial<ReaderPreferences>): Promise<ReaderPreferences> {
+    return await this.write(() => {
+      let row = this.tables.userPreferences.find((preferences) => preferences.userId === userId);
+      if (!row) {
+        row = { ...DEFAULT_READER_PREFERENCES, userId, updatedAt: null };
+        this.tables.userPreferences.push(row);
+      }
+      Object.assign(row, definedOnly(updates), { updatedAt: this.now() });
+      return toReaderPreferences(copy(row));
+    });
+  }
+
+  // === EGGPLANT LEDGER OPERATIONS ===
+  private insertLedgerRow(row: Omit<EggplantTransaction, "id" | "createdAt">): void {
+    if (row.reason === "stripe_purchase" && this.tables.eggplantTransactions.some(
+      (existing) => existing.reason === "stripe_purchase" && existing.referenceId === row.referenceId
+    )) {
+      throw new Error('Payment already credited');
+    }
+    this.tables.eggplantTransactions.push({ ...row, id: randomUUID(), createdAt: this.now() });
+  }
+
+  async getEggplantHistory(userId: string, limit: number = 50, offset: number = 0): Promise<EggplantTransaction[]> {
+    return copy(
+      this.tables.eggplantTransactions
+        .filter((row) => row.userId === userId)
+        .sort((a, b) => time(b.createdAt) - time(a.createdAt))
+        .slice(offset, offset + limit)
+    );
+  }
+
+  async hasEggplantTransaction(reason: EggplantTransaction["reason"], referenceId: string): Promise<boolean> {
+    return this.tables.eggplantTransactions.some((row) => row.reason === reason && row.referenceId === referenceId);
+  }
+
+  // === STORY OPERATIONS ===
+  async getAllStories(): Promise<Story[]> {
+    return copy(
+      this.tables.stories
+        .filter((story) => story.isPublished)
+        .sort((a, b) => Number(b.isFeatured) - Number(a.isFeatured) || time(a.createdAt) - time(b.createdAt))
+    );
+  }
+
+  /**
+   * Word matching stands in for Postgres full-text search: every query word must appear in the
+   * title and description, in one page, or as a tag. Ranking keeps the same order of importance.
+   */
+  async searchStories(filters: StorySearchFilters): Promise<StorySearchResult> {
+    const words = (filters.query || "").toLowerCase().split(/\s+/).filter(Boolean);
+    const tagTerms = words.length > 1 ? words.concat(words.join("-")) : words;
+    const containsAll = (text: string) => words.every((word) => text.toLowerCase().includes(word));
+
+    const ranked = this.tables.stories
+      .filter((story) => story.isPublished)
+      .filter((story) => !filters.category || filters.category === "all" || [filters.category, "all"].includes(story.category))
+      .filter((story) => !filters.spiceLevels?.length || filters.spiceLevels.includes(story.spiceLevel))
+      .filter((story) => filters.minWords === undefined || story.wordCount >= filters.minWords)
+      .filter((story) => filters.maxWords === undefined || story.wordCount <= filters.maxWords)
+      .filter((story) => filters.minPaths === undefined || story.pathCount >= filters.minPaths)
+      .filter((story) => filters.maxPaths === undefined || story.pathCount <= filters.maxPaths)
+      .filter((story) => !filters.userId || !filters.status || this.matchesReadingStatus(story.id, filters.userId, filters.status))
+      .filter((story) => !filters.userId || !filters.hasUnownedPremium || this.hasUnownedPremium(story.id, filters.userId))
+      .map((story) => {
+        if (words.length === 0) return { story, rank: 0 };
+        const titleMatch = containsAll(story.title);
+        const storyMatch = titleMatch || containsAll(`${story.title} ${story.description}`);
+        const pageMatch = this.pagesOf(story.id).some((page) => containsAll(page.content));
+        const tagMatch = story.tags.some((tag) => tagTerms.includes(tag));
+        if (!storyMatch && !pageMatch && !tagMatch) return undefined;
+        return {
+          story,
+          rank: (titleMatch ? 1 : storyMatch ? 0.4 : 0) + (pageMatch ? 0.05 : 0) + (tagMatch ? 0.5 : 0),
+        };
+      })
+      .filter((row): row is { story: Story; rank: number } => row !== undefined)
+      .sort((a, b) =>
+        b.rank - a.rank ||
+        Number(b.story.isFeatured) - Number(a.story.isFeatured) ||
+        time(b.story.createdAt) - time(a.story.createdAt)
+      );
+
+    const start = (filters.page - 1) * filters.pageSize;
+    return {
+      stories: copy(ranked.slice(start, start + filters.pageSize).map((row) => ({ ...row.story, rank: row.rank }))),
+      total: ranked.length,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      hasMore: filters.page * filters.pageSize < ranked.length,
+    };
+  }
+
+  private matchesReadingStatus(storyId: string, userId: string, status: "unread" | "in_progress" | "completed"): boolean {
+    const slots = this.tables.readingProgress.filter((row) => row.storyId === storyId && row.userId === userId);
+    if (status === "unread") return slots.length === 0;
+    return slots.some((progress) => status === "completed" ? progress.isCompleted === true : progress.isCompleted !== true);
+  }
+
+  private hasUnownedPremium(storyId: string, userId: string): boolean {
+    return this.choicesOf(storyId).some((choice) =>
+      choice.isPremium &&
+      !this.tables.purchasedPremiumPaths.some((path) => path.choiceId === choice.id && path.userId === userId)
+    );
+  }
+
+  async getAllStoriesForAdmin(): Promise<Story[]> {
+    return copy(
+      this.tables.stories
+        .slice()
+        .sort((a, b) => Number(b.isFeatured) - Number(a.isFeatured) || time(b.createdAt) - time(a.createdAt))
+    );
+  }
+
+  async getFeaturedStory(): Promise<Story | undefined> {
+    return copy(this.tables.stories.find((story) => story.isFeatured && story.isPublished));
+  }
+
+  async getStory(id: string): Promise<Story | undefined> {
+    return copy(this.tables.stories.find((story) => story.id === id));
+  }
+
+  async getStoriesByTitle(title: string): Promise<Story[]> {
+    return copy(this.tables.stories.filter((story) => story.title === title));
+  }
+
+  async createStory(storyData: CreateStoryData): Promise<Story> {
+    return await this.write(() => {
+      const createdAt = this.now();
+      const story: Story = {
+        ...storyData,
+        id: randomUUID(),
+        wordCount: storyData.wordCount || 0,
+        pathCount: storyData.pathCount || 1,
+        tags: [],
+        isPublished: false, // Start as draft
+        isFeatured: false,
+        publishedAt: null,
+        authorId: storyData.authorId || null,
+        createdAt,
+        updatedAt: createdAt,
+      };
+      this.tables.stories.push(story);
+      return copy(story);
+    });
+  }
+
+  async createStoryFromTimeline(timelineData: TimelineData): Promise<Story> {
+    return await createStoryFromTimeline(this, timelineData);
+  }
+
+  async updateStory(storyId: string, updates: Partial<Story>): Promise<Story> {
+    return await this.write(() =>
+      updateRow(this.tables.stories, (story) => story.id === storyId, { ...updates, updatedAt: this.now() })
+    );
+  }
+
+  async deleteStory(storyId: string): Promise<void> {
+    await this.write(() => {
+      this.deletePages(this.pagesOf(storyId).map((page) => page.id));
+      const t = this.tables;
+      t.stories = t.stories.filter((story) => story.id !== storyId);
+      t.storyVariables = t.storyVariables.filter((row) => row.storyId !== storyId);
+      t.storyCharacters = t.storyCharacters.filter((row) => row.storyId !== storyId);
+      t.storyCoAuthors = t.storyCoAuthors.filter((row) => row.storyId !== storyId);
+      t.storyRevisions = t.storyRevisions.filter((row) => row.storyId !== storyId);
+      t.storyDrafts = t.storyDrafts.filter((row) => row.storyId !== storyId);
+      t.readingProgress = t.readingProgress.filter((row) => row.storyId !== storyId);
+      t.userChoices = t.userChoices.filter((row) => row.storyId !== storyId);
+      t.personalBookmarks = t.personalBookmarks.filter((row) => row.storyId !== storyId);
+      t.readingSessions = t.readingSessions.filter((row) => row.storyId !== storyId);
+      t.purchasedPremiumPaths = t.purchasedPremiumPaths.filter((row) => row.storyId !== storyId);
+    });
+  }
+
+  // === STORY PAGE AND CHOICE OPERATIONS ===
+  private pagesOf(storyId: string): StoryPage[] {
+    return this.tables.storyPages.filter((page) => page.storyId === storyId).sort((a, b) => a.order - b.order);
+  }
+
+  // In page order, then choice order
+  private choicesOf(storyId: string): StoryChoice[] {
+    return this.pagesOf(storyId).flatMap((page) =>
+      this.tables.storyChoices.filter((choice) => choice.fromPageId === page.id).sort((a, b) => a.order - b.order)
+    );
+  }
+
+  // Removes pages along with the rows that cascade from them in Postgres
+  private deletePages(pageIds: string[]): void {
+    if (pageIds.length === 0) return;
+    const t = this.tables;
+    const removed = new Set(pageIds);
+    this.deleteChoices(
+      t.storyChoices.filter((choice) => removed.has(choice.fromPageId) || removed.has(choice.toPageId)).map((choice) => choice.id)
+    );
+    this.deleteEndingCards(t.endingCards.filter((card) => removed.has(card.pageId)).map((card) => card.id));
+    t.personalBookmarks = t.personalBookmarks.filter((bookmark) => !removed.has(bookmark.pageId));
+    t.readingProgress
+      .filter((progress) => progress.currentPageId && removed.has(progress.currentPageId))
+      .forEach((progress) => {
+        progress.currentPageId = null;
+      });
+    t.storyPages = t.storyPages.filter((page) => !removed.has(page.id));
+  }
+
+  private deleteChoices(choiceIds: string[]): void {
+    if (choiceIds.length === 0) return;
+    const t = this.tables;
+    const removed = new Set(choiceIds);
+    t.storyChoices = t.storyChoices.filter((choice) => !removed.has(choice.id));
+    t.userChoices = t.userChoices.filter((row) => !removed.has(row.choiceId));
+    t.purchasedPremiumPaths = t.purchasedPremiumPaths.filter((row) => !removed.has(row.choiceId));
+  }
+
+  private deleteEndingCards(cardIds: string[]): void {
+    if (cardIds.length === 0) return;
+    const t = this.tables;
+    const removed = new Set(cardIds);
+    t.endingCards = t.endingCards.filter((card) => !removed.has(card.id));
+    t.userEndingCards = t.userEndingCards.filter((row) => !removed.has(row.cardId));
+  }
+
+  async getStoryPages(storyId: string): Promise<StoryPage[]> {
+    return copy(this.pagesOf(storyId));
+  }
+
+  async getStoryPage(pageId: string): Promise<StoryPage | undefined> {
+    return copy(this.tables.storyPages.find((page) => page.id === pageId));
+  }
+
+  async getFirstStoryPage(storyId: string): Promise<StoryPage | undefined> {
+    return copy(this.pagesOf(storyId)[0]);
+  }
+
+  async getStoryStartingPage(storyId: string): Promise<StoryPage | undefined> {
+    return copy(this.tables.storyPages.find((page) => page.storyId === storyId && page.isStarting));
+  }
+
+  async getFirstChoicePageNumber(storyId: string): Promise<number | null> {
+    const page = this.pagesOf(storyId).find((candidate) =>
+      this.tables.storyChoices.some((choice) => choice.fromPageId === candidate.id)
+    );
+    return page ? page.order : null;
+  }
+
+  async createStoryPage(pageData: {
+    storyId: string;
+    title: string;
+    content: string;
+    order: number;
+    isStarting?: boolean;
+  }): Promise<StoryPage> {
+    return await this.write(() => {
+      const page: StoryPage = {
+        ...pageData,
+        id: randomUUID(),
+        isStarting: pageData.isStarting || false,
+        pageType: "story",
+        chatMessages: null,
+        nextPageId: null,
+        createdAt: this.now(),
+      };
+      this.tables.storyPages.push(page);
+      return copy(page);
+    });
+  }
+
+  async updateStoryPage(pageId: string, updates: Partial<StoryPage>): Promise<StoryPage> {
+    return await this.write(() => updateRow(this.tables.storyPages, (page) => page.id === pageId, updates));
+  }
+
+  async deleteStoryPage(pageId: string): Promise<void> {
+    await this.write(() => this.deletePages([pageId]));
+  }
+
+  async getChoicesForPage(pageNumber: number, storyId: string): Promise<StoryChoice[]> {
+    const currentPage = this.pagesOf(storyId)[pageNumber - 1];
+    if (!currentPage) return [];
+    return copy(
+      this.tables.storyChoices
+        .filter((choice) => choice.fromPageId === currentPage.id)
+        .sort((a, b) => a.order - b.order)
+    );
+  }
+
+  async getPageChoices(pageId: string): Promise<StoryChoice[]> {
+    return copy(
+      this.tables.storyChoices
+        .filter((choice) => choice.fromPageId === pageId)
+        .sort((a, b) => a.order - b.order)
+    );
+  }
+
+  async getChoice(choiceId: string): Promise<StoryChoice | undefined> {
+    return copy(this.tables.storyChoices.find((choice) => choice.id === choiceId));
+  }
+
+  async createStoryChoice(choiceData: CreateStoryChoiceData): Promise<StoryChoice> {
+    return await this.write(() => {
+      const choice: StoryChoice = {
+        id: randomUUID(),
+        fromPageId: choiceData.fromPageId,
+        toPageId: choiceData.toPageId,
+        choiceText: choiceData.choiceText,
+        order: choiceData.order || 0,
+        isPremium: choiceData.isPremium || false,
+        eggplantCost: choiceData.eggplantCost || 0,
+        targetPage: choiceData.targetPage ?? null,
+        targetPageId: choiceData.targetPageId ?? null,
+        effects: choiceData.effects?.length ? choiceData.effects : null,
+        conditions: choiceData.conditions?.length ? choiceData.conditions : null,
+        createdAt: this.now(),
+      };
+      this.tables.storyChoices.push(choice);
+      return copy(choice);
+    });
+  }
+
+  async updateStoryChoice(choiceId: string, updates: Partial<StoryChoice>): Promise<StoryChoice> {
+    return await this.write(() => updateRow(this.tables.storyChoices, (choice) => choice.id === choiceId, updates));
+  }
+
+  async deleteStoryChoice(choiceId: string): Promise<void> {
+    await this.write(() => this.deleteChoices([choiceId]));
+  }
+
+  // === AUTHORSHIP OPERATIONS ===
+  async canEditStory(user: User, storyId: string): Promise<boolean> {
+    if (user.role === 'mega-admin') return true;
+    if (user.role !== 'admin') return false;
+
+    const story = this.tables.stories.find((row) => row.id === storyId);
+    if (!story) return false;
+    if (story.authorId === user.id) return true;
+    return this.tables.storyCoAuthors.some((row) => row.storyId === storyId && row.userId === user.id);
+  }
+
+  async isStoryOwner(user: User, storyId: string): Promise<boolean> {
+    if (user.role === 'mega-admin') return true;
+    const story = this.tables.stories.find((row) => row.id === storyId);
+    return !!story && story.authorId === user.id;
+  }
+
+  async getStoryCoAuthors(storyId: string): Promise<StoryCollaborator[]> {
+    return this.tables.storyCoAuthors
+      .filter((row) => row.storyId === storyId)
+      .sort((a, b) => time(a.createdAt) - time(b.createdAt))
+      .flatMap((row) => {
+        const user = this.tables.users.find((candidate) => candidate.id === row.userId);
+        return user
+          ? [{ userId: user.id, email: user.email, firstName: user.firstName, lastName: user.lastName, addedAt: row.createdAt }]
+          : [];
+      })
+      .map(copy);
+  }
+
+  async addStoryCoAuthor(storyId: string, userId: string): Promise<void> {
+    await this.write(() => {
+      if (this.tables.storyCoAuthors.some((row) => row.storyId === storyId && row.userId === userId)) return;
+      this.tables.storyCoAuthors.push({ id: randomUUID(), storyId, userId, createdAt: this.now() });
+    });
+  }
+
+  async removeStoryCoAuthor(storyId: string, userId: string): Promise<void> {
+    await this.write(() => {
+      this.tables.storyCoAuthors = this.tables.storyCoAuthors.filter(
+        (row) => !(row.storyId === storyId && row.userId === userId)
+      );
+    });
+  }
+
+  async getStoryAuthorName(storyId: string): Promise<string | null> {
+    const story = this.tables.stories.find((row) => row.id === storyId);
+    const author = story && this.tables.users.find((user) => user.id === story.authorId);
+    if (!author) return null;
+    const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+    return name || author.email;
+  }
+
+  async getAuthorStories(userId: string): Promise<AuthorStorySummary[]> {
+    const coAuthoredIds = new Set(
+      this.tables.storyCoAuthors.filter((row) => row.userId === userId).map((row) => row.storyId)
+    );
+    return this.tables.stories
+      .filter((story) => story.authorId === userId || coAuthoredIds.has(story.id))
+      .sort((a, b) => time(b.updatedAt) - time(a.updatedAt))
+      .map((story) => {
+        const slots = this.tables.readingProgress.filter((row) => row.storyId === story.id);
+        const purchases = this.tables.purchasedPremiumPaths.filter((row) => row.storyId === story.id);
+        return copy({
+          ...story,
+          authorRole: story.authorId === userId ? "owner" as const : "co-author" as const,
+          // Readers with several save slots count once
+          readers: new Set(slots.map((row) => row.userId)).size,
+          completions: new Set(slots.filter((row) => row.isCompleted).map((row) => row.userId)).size,
+          premiumPurchases: purchases.length,
+          eggplantsEarned: purchases.reduce((total, row) => total + row.eggplantCost, 0),
+          hasUnpublishedChanges: this.tables.storyDrafts.some((draft) => draft.storyId === story.id),
+        });
+      });
+  }
+
+  // === STORY REVISION OPERATIONS ===
+  async buildStorySnapshot(storyId: string): Promise<StorySnapshot | undefined> {
+    return copy(this.snapshotOf(storyId));
+  }
+
+  private snapshotOf(storyId: string): StorySnapshot | undefined {
+    const story = this.tables.stories.find((row) => row.id === storyId);
+    if (!story) return undefined;
+
+    const pages = this.pagesOf(storyId);
+    const pageIds = new Set(pages.map((page) => page.id));
+    return {
+      story: {
+        title: story.title,
+        description: story.description,
+        imageUrl: story.imageUrl,
+        spiceLevel: story.spiceLevel,
+        category: story.category,
+      },
+      pages: pages.map(({ storyId: _storyId, createdAt: _createdAt, ...page }) => page),
+      choices: this.tables.storyChoices
+        .filter((choice) => pageIds.has(choice.fromPageId))
+        .sort((a, b) => a.fromPageId.localeCompare(b.fromPageId) || a.order - b.order)
+        .map(({ createdAt: _createdAt, ...choice }) => choice),
+      endingCards: this.tables.endingCards
+        .filter((card) => card.storyId === storyId)
+        .map(({ storyId: _storyId, createdAt: _createdAt, ...card }) => card),
+      variables: this.variablesOf(storyId).map((variable) => ({
+        name: variable.name,
+        type: variable.type,
+        defaultValue: variable.defaultValue,
+        description: variable.description || undefined,
+      })),
+      characters: this.charactersOf(storyId).map(({ storyId: _storyId, createdAt: _createdAt, ...character }) => character),
+    };
+  }
+
+  async recordStoryRevision(storyId: string, authorId: string | null, message?: string): Promise<StoryRevision | undefined> {
+    return await this.write(() => {
+      const snapshot = this.loadWorkingCopy(storyId);
+      return snapshot && copy(this.insertRevision(storyId, authorId, message, snapshot));
+    });
+  }
+
+  // Saves that changed nothing return the latest revision instead
+  private insertRevision(
+    storyId: string,
+    authorId: string | null,
+    message: string | undefined,
+    snapshot: StorySnapshot
+  ): StoryRevision {
+    const latest = this.tables.storyRevisions
+      .filter((revision) => revision.storyId === storyId)
+      .sort((a, b) => b.revisionNumber - a.revisionNumber)[0];
+
+    if (latest && canonicalJson(latest.snapshot) === canonicalJson(snapshot)) {
+      return latest;
+    }
+
+    const revision: StoryRevision = {
+      id: randomUUID(),
+      storyId,
+      revisionNumber: (latest?.revisionNumber || 0) + 1,
+      authorId,
+      message: message ?? null,
+      snapshot: copy(snapshot),
+      createdAt: this.now(),
+    };
+    this.tables.storyRevisions.push(revision);
+    return revision;
+  }
+
+  async getStoryRevisions(storyId: string): Promise<Array<Omit<StoryRevision, "snapshot">>> {
+    return copy(
+      this.tables.storyRevisions
+        .filter((revision) => revision.storyId === storyId)
+        .sort((a, b) => b.revisionNumber - a.revisionNumber)
+        .map(({ snapshot: _snapshot, ...revision }) => revision)
+    );
+  }
+
+  async getStoryRevision(storyId: string, revisionNumber: number): Promise<StoryRevision | undefined> {
+    return copy(
+      this.tables.storyRevisions.find(
+        (revision) => revision.storyId === storyId && revision.revisionNumber === revisionNumber
+      )
+    );
+  }
+
+  async restoreStoryRevision(storyId: string, revisionNumber: number, userId: string): Promise<StoryRevision | undefined> {
+    const revision = await this.getStoryRevision(storyId, revisionNumber);
+    if (!revision) return undefined;
+
+    const result = await this.editWorkingCopy(storyId, userId, `Restored revision ${revisionNumber}`, (workingCopy) => {
+      Object.assign(workingCopy, revision.snapshot);
+      return true;
+    });
+    return result?.revision;
+  }
+
+  // === DRAFT / PUBLISH OPERATIONS ===
+  private loadWorkingCopy(storyId: string): StorySnapshot | undefined {
+    const draft = this.tables.storyDrafts.find((row) => row.storyId === storyId);
+    return draft ? copy(draft.snapshot) : this.snapshotOf(storyId);
+  }
+
+  async getWorkingCopy(storyId: string): Promise<{ snapshot: StorySnapshot; hasUnpublishedChanges: boolean } | undefined> {
+    const draft = this.tables.storyDrafts.find((row) => row.storyId === storyId);
+    if (draft) {
+      return { snapshot: copy(draft.snapshot), hasUnpublishedChanges: true };
+    }
+    const snapshot = this.snapshotOf(storyId);
+    return snapshot && { snapshot, hasUnpublishedChanges: false };
+  }
+
+  async getStoryIdForPage(pageId: string): Promise<string | undefined> {
+    const page = this.tables.storyPages.find((row) => row.id === pageId);
+    if (page) return page.storyId;
+    return this.tables.storyDrafts.find((draft) => draft.snapshot.pages.some((draftPage) => draftPage.id === pageId))?.storyId;
+  }
+
+  async editWorkingCopy<T>(
+    storyId: string,
+    userId: string,
+    message: string,
+    edit: (workingCopy: StorySnapshot) => T | undefined
+  ): Promise<{ result: T; revision: StoryRevision } | undefined> {
+    return await this.write(() => {
+      const story = this.tables.stories.find((row) => row.id === storyId);
+      if (!story) return undefined;
+
+      const workingCopy = this.loadWorkingCopy(storyId)!;
+      const result = edit(workingCopy);
+      if (result === undefined) return undefined;
+
+      if (story.isPublished) {
+        const draft = this.tables.storyDrafts.find((row) => row.storyId === storyId);
+        if (draft) {
+          Object.assign(draft, { snapshot: copy(workingCopy), updatedBy: userId, updatedAt: this.now() });
+        } else {
+          const createdAt = this.now();
+          this.tables.storyDrafts.push({ storyId, snapshot: copy(workingCopy), updatedBy: userId, createdAt, updatedAt: createdAt });
+        }
+      } else {
+        this.applySnapshot(storyId, workingCopy);
+        this.tables.storyDrafts = this.tables.storyDrafts.filter((row) => row.storyId !== storyId);
+      }
+
+      const revision = this.insertRevision(storyId, userId, message, workingCopy);
+      return { result, revision: copy(revision) };
+    });
+  }
+
+  async publishStory(storyId: string, userId: string): Promise<Story | undefined> {
+    return await this.write(() => {
+      const story = this.tables.stories.find((row) => row.id === storyId);
+      if (!story) return undefined;
+
+      const draft = this.tables.storyDrafts.find((row) => row.storyId === storyId);
+      if (draft) {
+        this.applySnapshot(storyId, copy(draft.snapshot));
+        this.tables.storyDrafts = this.tables.storyDrafts.filter((row) => row.storyId !== storyId);
+      }
+
+      const publishedAt = this.now();
+      Object.assign(story, { isPublished: true, publishedAt, updatedAt: publishedAt });
+
+      this.insertRevision(storyId, userId, "Published", draft ? draft.snapshot : this.snapshotOf(storyId)!);
+      return copy(story);
+    });
+  }
+
+  async unpublishStory(storyId: string): Promise<Story | undefined> {
+    return await this.write(() =>
+      copy(updateRow(this.tables.stories, (story) => story.id === storyId, { isPublished: false, updatedAt: this.now() }))
+    );
+  }
+
+  async discardStoryDraft(storyId: string): Promise<void> {
+    await this.write(() => {
+      this.tables.storyDrafts = this.tables.storyDrafts.filter((row) => row.storyId !== storyId);
+    });
+  }
+
+  async createStoryFromSnapshot(snapshot: StorySnapshot, authorId: string, message: string): Promise<Story> {
+    return await this.write(() => {
+      const createdAt = this.now();
+      const story: Story = {
+        ...snapshot.story,
+        id: randomUUID(),
+        wordCount: snapshot.pages.reduce((total, page) => total + countWords(page.content), 0),
+        pathCount: snapshot.choices.length,
+        tags: [],
+        isFeatured: false,
+        isPublished: false,
+        publishedAt: null,
+        authorId,
+        createdAt,
+        updatedAt: createdAt,
+      };
+      this.tables.stories.push(story);
+      this.applySnapshot(story.id, copy(snapshot));
+      this.insertRevision(story.id, authorId, message, snapshot);
+      return copy(story);
+    });
+  }
+
+  // Same contract as DatabaseStorage.applySnapshot: rows are updated in place and readers on removed pages move back
+  private applySnapshot(storyId: string, snapshot: StorySnapshot): void {
+    const t = this.tables;
+    const previousPages = this.pagesOf(storyId).map((page) => ({ id: page.id, order: page.order }));
+    const { orderMap, pageFallbacks } = planPageRemap(previousPages, snapshot.pages);
+
+    const story = t.stories.find((row) => row.id === storyId)!;
+    Object.assign(story, snapshot.story, { updatedAt: this.now() });
+
+    snapshot.pages.forEach((page) => {
+      const existing = t.storyPages.find((row) => row.id === page.id);
+      if (existing) Object.assign(existing, page, { storyId });
+      else t.storyPages.push({ ...page, storyId, createdAt: this.now() } as StoryPage);
+    });
+
+    const previousPageIds = new Set(previousPages.map((page) => page.id));
+    const keptChoiceIds = new Set(snapshot.choices.map((choice) => choice.id));
+    this.deleteChoices(
+      t.storyChoices
+        .filter((choice) => previousPageIds.has(choice.fromPageId) && !keptChoiceIds.has(choice.id))
+        .map((choice) => choice.id)
+    );
+    snapshot.choices.forEach((choice) => {
+      const existing = t.storyChoices.find((row) => row.id === choice.id);
+      if (existing) Object.assign(existing, choice);
+      else t.storyChoices.push({ ...choice, createdAt: this.now() });
+    });
+
+    const keptCardIds = new Set(snapshot.endingCards.map((card) => card.id));
+    this.deleteEndingCards(
+      t.endingCards.filter((card) => card.storyId === storyId && !keptCardIds.has(card.id)).map((card) => card.id)
+    );
+    snapshot.endingCards.forEach((card) => {
+      const existing = t.endingCards.find((row) => row.id === card.id);
+      if (existing) Object.assign(existing, card, { storyId });
+      else t.endingCards.push({ ...card, storyId, createdAt: this.now() });
+    });
+
+    pageFallbacks.forEach((fallbackPageId, stalePageId) => {
+      t.readingProgress
+        .filter((progress) => progress.currentPageId === stalePageId)
+        .forEach((progress) => {
+          progress.currentPageId = fallbackPageId;
+        });
+      t.personalBookmarks
+        .filter((bookmark) => bookmark.pageId === stalePageId)
+        .forEach((bookmark) => Object.assign(bookmark, { pageId: fallbackPageId, updatedAt: this.now() }));
+      t.readingSessions.forEach((session) => {
+        if (session.startPageId === stalePageId) session.startPageId = fallbackPageId;
+        if (session.endPageId === stalePageId) session.endPageId = fallbackPageId;
+      });
+    });
+    this.deletePages(Array.from(pageFallbacks.keys()));
+
+    t.readingProgress
+      .filter((progress) => progress.storyId === storyId && orderMap.has(progress.currentPage))
+      .forEach((progress) => {
+        progress.currentPage = orderMap.get(progress.currentPage)!;
+      });
+
+    t.storyVariables = t.storyVariables.filter((variable) => variable.storyId !== storyId);
+    this.insertVariables(storyId, snapshot.variables);
+
+    t.storyCharacters = t.storyCharacters.filter((character) => character.storyId !== storyId);
+    t.storyCharacters.push(...(snapshot.characters ?? []).map((character) => ({ ...character, storyId, createdAt: this.now() })));
+  }
+
+  // === STORY CHARACTER OPERATIONS ===
+  private charactersOf(storyId: string): StoryCharacter[] {
+    return this.tables.storyCharacters
+      .filter((character) => character.storyId === storyId)
+      .sort((a, b) => a.sortOrder - b.sortOrder);
+  }
+
+  async getStoryCharacters(storyId: string): Promise<StoryCharacter[]> {
+    return copy(this.charactersOf(storyId));
+  }
+
+  async setStoryCharacters(storyId: string, characters: StoryCharacterDefinition[]): Promise<StoryCharacter[]> {
+    return await this.write(() => {
+      this.tables.storyCharacters = this.tables.storyCharacters.filter((character) => character.storyId !== storyId);
+      const rows = characters.map((character, sortOrder) => ({ ...character, storyId, sortOrder, createdAt: this.now() }));
+      this.tables.storyCharacters.push(...rows);
+      return copy(rows);
+    });
+  }
+
+  // === MEDIA LIBRARY OPERATIONS ===
+  async createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    return await this.write(() => {
+      const row: MediaAsset = {
+        altText: "",
+        ...definedOnly(asset),
+        ownerId: asset.ownerId,
+        filename: asset.filename,
+        mimeType: asset.mimeType,
+        width: asset.width,
+        height: asset.height,
+        sizeBytes: asset.sizeBytes,
+        url: asset.url,
+        variants: asset.variants,
+        id: asset.id ?? randomUUID(),
+        createdAt: this.now(),
+      };
+      this.tables.mediaAssets.push(row);
+      return copy(row);
+    });
+  }
+
+  async getMediaAssets(ownerId: string): Promise<MediaAsset[]> {
+    return copy(
+      this.tables.mediaAssets
+        .filter((asset) => asset.ownerId === ownerId)
+        .sort((a, b) => b.createdAt!.getTime() - a.createdAt!.getTime())
+    );
+  }
+
+  async getMediaAsset(id: string): Promise<MediaAsset | undefined> {
+    const asset = this.tables.mediaAssets.find((candidate) => candidate.id === id);
+    return asset && copy(asset);
+  }
+
+  async updateMediaAsset(id: string, updates: Pick<MediaAsset, "altText">): Promise<MediaAsset | undefined> {
+    return await this.write(() => {
+      const asset = this.tables.mediaAssets.find((candidate) => candidate.id === id);
+      if (!asset) return undefined;
+      Object.assign(asset, updates);
+      return copy(asset);
+    });
+  }
+
+  async deleteMediaAsset(id: string): Promise<void> {
+    await this.write(() => {
+      this.tables.mediaAssets = this.tables.mediaAssets.filter((asset) => asset.id !== id);
+    });
+  }
+
+  // === STORY VARIABLE OPERATIONS ===
+  private variablesOf(storyId: string): StoryVariable[] {
+    return this.tables.storyVariables
+      .filter((variable) => variable.storyId === storyId)
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }
+
+  private insertVariables(storyId: string, definitions: StoryVariableDefinition[]): StoryVariable[] {
+    const rows = definitions.map((definition) => ({
+      id: randomUUID(),
+      storyId,
+      name: definition.name,
+      type: definition.type,
+      defaultValue: definition.defaultValue,
+      description: definition.description ?? null,
+      createdAt: this.now(),
+    }));
+    this.tables.storyVariables.push(...rows);
+    return rows;
+  }
+
+  async getStoryVariables(storyId: string): Promise<StoryVariable[]> {
+    return copy(this.variablesOf(storyId));
+  }
+
+  async setStoryVariables(storyId: string, definitions: StoryVariableDefinition[]): Promise<StoryVariable[]> {
+    return await this.write(() => {
+      this.tables.storyVariables = this.tables.storyVariables.filter((variable) => variable.storyId !== storyId);
+      return copy(this.insertVariables(storyId, definitions));
+    });
+  }
+
+  async getStoryVariableValues(userId: string | undefined, storyId: string): Promise<StoryVariableValues> {
+    const progress = userId ? await this.getReadingProgress(userId, storyId) : undefined;
+    return VariableEvaluator.initialize(
+      this.variablesOf(storyId).map((definition) => ({
+        name: definition.name,
+        type: definition.type,
+        defaultValue: definition.defaultValue,
+      })),
+      progress?.variables || {}
+    );
+  }
+
+  async saveStoryVariableValues(userId: string, storyId: string, values: StoryVariableValues): Promise<void> {
+    await this.write(() => {
+      this.upsertProgress({ userId, storyId, variables: values }, { variables: values });
+    });
+  }
+
+  // === READING PROGRESS OPERATIONS ===
+  // The named slot, or else the slot the reader read last (the default slot if they have none yet)
+  private resolveSlot(userId: string, storyId: string, slot?: string | null): string {
+    return slot || this.latestProgress(userId, storyId)?.slot || DEFAULT_SAVE_SLOT;
+  }
+
+  private latestProgress(userId: string, storyId: string): ReadingProgress | undefined {
+    return this.tables.readingProgress
+      .filter((row) => row.userId === userId && row.storyId === storyId)
+      .sort((a, b) => time(b.lastReadAt) - time(a.lastReadAt))[0];
+  }
+
+  // INSERT ... ON CONFLICT (user_id, story_id, slot) DO UPDATE
+  private upsertProgress(insert: InsertReadingProgress, update: Partial<ReadingProgress>): ReadingProgress {
+    const slot = this.resolveSlot(insert.userId, insert.storyId, insert.slot);
+    const existing = this.tables.readingProgress.find(
+      (row) => row.userId === insert.userId && row.storyId === insert.storyId && row.slot === slot
+    );
+    if (existing) {
+      return Object.assign(existing, definedOnly(update));
+    }
+
+    const createdAt = this.now();
+    const progress: ReadingProgress = {
+      currentPageId: null,
+      currentPage: 1,
+      isBookmarked: false,
+      isCompleted: false,
+      completedAt: null,
+      totalReadingTimeMinutes: 0,
+      pagesRead: 0,
+      choicesMade: 0,
+      variables: {},
+      ...definedOnly(insert),
+      userId: insert.userId,
+      storyId: insert.storyId,
+      slot,
+      id: randomUUID(),
+      lastReadAt: insert.lastReadAt ?? createdAt,
+      createdAt,
+    };
+    this.tables.readingProgress.push(progress);
+    return progress;
+  }
+
+  async getReadingProgress(userId: string, storyId: string, slot?: string): Promise<ReadingProgress | undefined> {
+    return copy(slot ? this.slotProgress(userId, storyId, slot) : this.latestProgress(userId, storyId));
+  }
+
+  async saveReadingProgress(progressData: InsertReadingProgress): Promise<ReadingProgress> {
+    return await this.write(() => {
+      const position = progressPagePosition(this.pagesOf(progressData.storyId), progressData);
+      return copy(this.upsertProgress({ ...progressData, ...position }, {
+        ...position,
+        isBookmarked: progressData.isBookmarked,
+        isCompleted: progressData.isCompleted,
+        completedAt: progressData.completedAt,
+        pagesRead: progressData.pagesRead,
+        choicesMade: progressData.choicesMade,
+        variables: progressData.variables,
+        lastReadAt: progressData.lastReadAt ?? this.now(),
+      }));
+    });
+  }
+
+  async markStoryCompleted(userId: string, storyId: string, slot?: string): Promise<ReadingProgress> {
+    return await this.write(() => {
+      const completedAt = this.now();
+      return copy(this.upsertProgress(
+        { userId, storyId, slot, currentPage: 1, isCompleted: true, completedAt },
+        { isCompleted: true, completedAt }
+      ));
+    });
+  }
+
+  async deleteReadingProgress(userId: string, storyId: string, slot?: string): Promise<void> {
+    await this.write(() => {
+      const deleted = this.resolveSlot(userId, storyId, slot);
+      this.tables.readingProgress = this.tables.readingProgress.filter(
+        (row) => !(row.userId === userId && row.storyId === storyId && row.slot === deleted)
+      );
+    });
+  }
+
+  async getUserStats(userId: string): Promise<UserStats> {
+    const progress = this.tables.readingProgress.filter((row) => row.userId === userId);
+    const choices = this.tables.userChoices.filter((row) => row.userId === userId);
+    const premiumChoiceIds = new Set(this.tables.storyChoices.filter((choice) => choice.isPremium).map((choice) => choice.id));
+    const debits = this.tables.eggplantTransactions.filter((row) => row.userId === userId && row.amount < 0);
+
+    // A story read in several save slots counts once
+    const storyCount = (rows: ReadingProgress[]) => new Set(rows.map((row) => row.storyId)).size;
+
+    return {
+      storiesStarted: storyCount(progress),
+      storiesCompleted: storyCount(progress.filter((row) => row.isCompleted)),
+      totalChoicesMade: choices.length,
+      bookmarkedStories: storyCount(progress.filter((row) => row.isBookmarked)),
+      premiumChoicesUnlocked: choices.filter((row) => premiumChoiceIds.has(row.choiceId)).length,
+      eggplantsSpent: -debits.reduce((total, row) => total + row.amount, 0),
+    };
+  }
+
+  async getUserReadingProgressWithStories(userId: string): Promise<Array<ReadingProgress & { story: Story }>> {
+    return copy(
+      this.tables.readingProgress
+        .filter((row) => row.userId === userId)
+        .sort((a, b) => time(b.lastReadAt) - time(a.lastReadAt))
+        .flatMap((row) => {
+          const story = this.tables.stories.find((candidate) => candidate.id === row.storyId);
+          return story ? [{ ...row, story }] : [];
+        })
+    );
+  }
+
+  async getReadingStats(userId: string): Promise<ReadingStats> {
+    const progress = this.tables.readingProgress
+      .filter((row) => row.userId === userId)
+      .sort((a, b) => time(b.lastReadAt) - time(a.lastReadAt));
+    const storyFor = (row: ReadingProgress) => this.tables.stories.find((story) => story.id === row.storyId);
+
+    const genreCounts = new Map<string, number>();
+    progress.forEach((row) => {
+      const category = storyFor(row)?.category;
+      if (category) genreCounts.set(category, (genreCounts.get(category) || 0) + 1);
+    });
+
+    return {
+      totalReadingTimeMinutes: progress.reduce((total, row) => total + (row.totalReadingTimeMinutes || 0), 0),
+      totalStoriesRead: new Set(progress.map((row) => row.storyId)).size,
+      totalChoicesMade: progress.reduce((total, row) => total + (row.choicesMade || 0), 0),
+      favoriteGenres: Array.from(genreCounts.entries())
+        .sort((a, b) => b[1] - a[1])
+        .slice(0, 3)
+        .map(([category]) => category),
+      recentActivity: copy(progress.slice(0, 5).map((row) => ({
+        storyTitle: storyFor(row)?.title ?? null,
+        lastReadAt: row.lastReadAt,
+        isCompleted: row.isCompleted,
+      }))),
+    };
+  }
+
+  // === SAVE SLOT OPERATIONS ===
+  async getReadingSlots(userId: string, storyId: string): Promise<ReadingProgress[]> {
+    return copy(
+      this.tables.readingProgress
+        .filter((row) => row.userId === userId && row.storyId === storyId)
+        .sort((a, b) => time(b.lastReadAt) - time(a.lastReadAt))
+    );
+  }
+
+  async copyReadingSlot(userId: string, storyId: string, fromSlot: string, toSlot: string): Promise<ReadingProgress | undefined> {
+    return await this.write(() => {
+      const source = this.slotProgress(userId, storyId, fromSlot);
+      if (!source) return undefined;
+      if (this.slotProgress(userId, storyId, toSlot)) {
+        throw new Error(`Save slot ${toSlot} already exists`);
+      }
+
+      const createdAt = this.now();
+      const progress: ReadingProgress = { ...source, id: randomUUID(), slot: toSlot, lastReadAt: createdAt, createdAt };
+      this.tables.readingProgress.push(progress);
+
+      // History keeps its timestamps so the copy replays in the same order
+      const history = this.slotHistory(userId, storyId, fromSlot);
+      this.tables.userChoices.push(...history.map((row) => ({ ...row, id: randomUUID(), slot: toSlot })));
+      return copy(progress);
+    });
+  }
+
+  private slotProgress(userId: string, storyId: string, slot: string): ReadingProgress | undefined {
+    return this.tables.readingProgress.find((row) => row.userId === userId && row.storyId === storyId && row.slot === slot);
+  }
+
+  private slotHistory(userId: string, storyId: string, slot: string): UserChoice[] {
+    return this.tables.userChoices.filter((row) => row.userId === userId && row.storyId === storyId && row.slot === slot);
+  }
+
+  // === USER CHOICE OPERATIONS ===
+  async saveUserChoice(choiceData: InsertUserChoice): Promise<{ success: boolean }> {
+    await this.write(() => {
+      this.tables.userChoices.push({
+        ...choiceData,
+        id: choiceData.id || randomUUID(),
+        slot: choiceData.slot || DEFAULT_SAVE_SLOT,
+        createdAt: choiceData.createdAt ?? this.now(),
+      });
+    });
+    return { success: true };
+  }
+
+  async getUserChoiceHistory(userId: string, storyId: string, slot?: string): Promise<any[]> {
+    return copy(
+      this.slotHistory(userId, storyId, this.resolveSlot(userId, storyId, slot))
+        .sort((a, b) => time(a.createdAt) - time(b.createdAt))
+    );
+  }
+
+  async clearUserChoiceHistory(userId: string, storyId: string, slot?: string): Promise<void> {
+    await this.write(() => {
+      const cleared = this.resolveSlot(userId, storyId, slot);
+      this.tables.userChoices = this.tables.userChoices.filter(
+        (row) => !(row.userId === userId && row.storyId === storyId && row.slot === cleared)
+      );
+    });
+  }
+
+  async deleteUserChoices(userId: string, storyId: string, historyIds: string[]): Promise<void> {
+    const removed = new Set(historyIds);
+    await this.write(() => {
+      this.tables.userChoices = this.tables.userChoices.filter(
+        (row) => !(row.userId === userId && row.storyId === storyId && removed.has(row.id))
+      );
+    });
+  }
+
+  // === PERSONAL BOOKMARK OPERATIONS ===
+  async createPersonalBookmark(bookmarkData: InsertPersonalBookmark): Promise<PersonalBookmark> {
+    return await this.write(() => {
+      const createdAt = this.now();
+      const bookmark: PersonalBookmark = {
+        notes: null,
+        isPrivate: true,
+        ...definedOnly(bookmarkData),
+        userId: bookmarkData.userId,
+        storyId: bookmarkData.storyId,
+        pageId: bookmarkData.pageId,
+        title: bookmarkData.title,
+        id: bookmarkData.id || randomUUID(),
+        createdAt,
+        updatedAt: createdAt,
+      };
+      this.tables.personalBookmarks.push(bookmark);
+      return copy(bookmark);
+    });
+  }
+
+  async getPersonalBookmarks(userId: string, storyId?: string): Promise<PersonalBookmark[]> {
+    return copy(
+      this.tables.personalBookmarks
+        .filter((bookmark) => bookmark.userId === userId && (!storyId || bookmark.storyId === storyId))
+        .sort((a, b) => time(b.createdAt) - time(a.createdAt))
+        .map((bookmark) => ({
+          ...bookmark,
+          // Include story and page details
+          storyTitle: this.tables.stories.find((story) => story.id === bookmark.storyId)?.title ?? null,
+          pageTitle: this.tables.storyPages.find((page) => page.id === bookmark.pageId)?.title ?? null,
+        }))
+    );
+  }
+
+  async updatePersonalBookmark(bookmarkId: string, updates: Partial<PersonalBookmark>): Promise<PersonalBookmark> {
+    return await this.write(() =>
+      updateRow(this.tables.personalBookmarks, (bookmark) => bookmark.id === bookmarkId, { ...updates, updatedAt: this.now() })
+    );
+  }
+
+  async deletePersonalBookmark(bookmarkId: string): Promise<void> {
+    await this.write(() => {
+      this.tables.personalBookmarks = this.tables.personalBookmarks.filter((bookmark) => bookmark.id !== bookmarkId);
+    });
+  }
+
+  // === READING SESSION OPERATIONS ===
+  async startReadingSession(sessionData: InsertReadingSession): Promise<ReadingSession> {
+    return await this.write(() => {
+      // End any existing active sessions for this user/story
+      const endTime = this.now();
+      this.tables.readingSessions
+        .filter((session) => session.userId === sessionData.userId && session.storyId === sessionData.storyId && session.isActive)
+        .forEach((session) => Object.assign(session, { isActive: false, endTime }));
+
+      const createdAt = this.now();
+      const session: ReadingSession = {
+        endPageId: null,
+        startTime: createdAt,
+        endTime: null,
+        pagesRead: 0,
+        choicesMade: 0,
+        isActive: true,
+        ...definedOnly(sessionData),
+        userId: sessionData.userId,
+        storyId: sessionData.storyId,
+        startPageId: sessionData.startPageId,
+        id: sessionData.id || randomUUID(),
+        createdAt,
+      };
+      this.tables.readingSessions.push(session);
+      return copy(session);
+    });
+  }
+
+  async updateReadingSession(sessionId: string, updates: Partial<ReadingSession>): Promise<ReadingSession> {
+    return await this.write(() => updateRow(this.tables.readingSessions, (session) => session.id === sessionId, updates));
+  }
+
+  async endReadingSession(sessionId: string, _endPageNumber?: number): Promise<ReadingSession> {
+    return await this.write(() =>
+      updateRow(this.tables.readingSessions, (session) => session.id === sessionId, { isActive: false, endTime: this.now() })
+    );
+  }
+
+  async getUserReadingSessions(userId: string, limit: number = 10): Promise<ReadingSession[]> {
+    return copy(
+      this.tables.readingSessions
+        .filter((session) => session.userId === userId)
+        .sort((a, b) => time(b.createdAt) - time(a.createdAt))
+        .slice(0, limit)
+    );
+  }
+
+  async getActiveReadingSession(userId: string, storyId: string): Promise<ReadingSession | undefined> {
+    return copy(
+      this.tables.readingSessions.find(
+        (session) => session.userId === userId && session.storyId === storyId && session.isActive
+      )
+    );
+  }
+
+  // === PREMIUM PATH OPERATIONS ===
+  async purchasePremiumPath(pathData: {
+    userId: string;
+    storyId: string;
+    choiceId: string;
+    eggplantCost: number;
+  }): Promise<{ success: boolean }> {
+    await this.write(() => {
+      this.tables.purchasedPremiumPaths.push({ ...pathData, id: randomUUID(), createdAt: this.now() });
+    });
+    return { success: true };
+  }
+
+  async hasPurchasedPremiumPath(userId: string, choiceId: string): Promise<boolean> {
+    return this.tables.purchasedPremiumPaths.some((path) => path.userId === userId && path.choiceId === choiceId);
+  }
+
+  async getUserPurchasedPaths(userId: string, storyId?: string): Promise<any[]> {
+    return copy(
+      this.tables.purchasedPremiumPaths
+        .filter((path) => path.userId === userId && (!storyId || path.storyId === storyId))
+        .sort((a, b) => time(b.createdAt) - time(a.createdAt))
+        .map((path) => ({
+          ...path,
+          // Include choice and story details
+          choiceText: this.tables.storyChoices.find((choice) => choice.id === path.choiceId)?.choiceText ?? null,
+          storyTitle: this.tables.stories.find((story) => story.id === path.storyId)?.title ?? null,
+        }))
+    );
+  }
+
+  // === STORY MAP GENERATION ===
+  async getStoryMapData(storyId: string, ownedChoiceIds: Set<string>, reader?: StoryMapReader): Promise<StoryMapData> {
+    const pages = copy(this.pagesOf(storyId));
+    const allChoices = copy(this.choicesOf(storyId));
+    const layout = loadStoryMapLayout(storyId, pages, allChoices);
+    const readerPath = reader && await loadStoryMapReaderPath(this, reader.userId, storyId, reader.slot);
+    return buildStoryMapData(storyId, pages, allChoices, ownedChoiceIds, layout, readerPath);
+  }
+
+  // === ANALYTICS EVENT OPERATIONS ===
+  async logAnalyticsEvent(eventType: string, data: any): Promise<void> {
+    await this.logAnalyticsEvents([{ eventType, data }]);
+  }
+
+  async logAnalyticsEvents(events: Array<{ eventType: string; data: any }>): Promise<void> {
+    if (events.length === 0) return;
+    await this.write(() => {
+      events.forEach((event) => {
+        const row = toAnalyticsEventRow(event.eventType, event.data);
+        this.tables.analyticsEvents.push({
+          action: null,
+          userId: null,
+          sessionId: null,
+          storyId: null,
+          pageId: null,
+          choiceId: null,
+          userEggplants: null,
+          choiceCost: null,
+          hasEnoughFunds: null,
+          metadata: null,
+          ...definedOnly(row),
+          eventType: row.eventType,
+          id: randomUUID(),
+          createdAt: row.createdAt ?? this.now(),
+        });
+      });
+    });
+  }
+
+  async getPremiumChoiceAnalytics(storyId: string, choiceId?: string): Promise<PremiumAnalytics[]> {
+    const funnels = new Map<string, AnalyticsEventRecord[]>();
+    this.tables.analyticsEvents
+      .filter((event) =>
+        event.eventType === 'premium_choice' &&
+        event.storyId === storyId &&
+        (!choiceId || event.choiceId === choiceId) &&
+        event.pageId && event.choiceId
+      )
+      .forEach((event) => {
+        const key = `${event.pageId}:${event.choiceId}`;
+        funnels.set(key, (funnels.get(key) || []).concat(event));
+      });
+
+    return Array.from(funnels.values())
+      .map((events) => {
+        const count = (action: string, extra: (event: AnalyticsEventRecord) => boolean = () => true) =>
+          events.filter((event) => event.action === action && extra(event)).length;
+        const readers = new Set(events.map((event) => event.userId ?? event.sessionId).filter(Boolean));
+        const balances = events
+          .filter((event) => (event.action === 'view' || event.action === 'tap') && event.userEggplants !== null)
+          .map((event) => event.userEggplants!);
+
+        const premiumViews = count('view');
+        const premiumTaps = count('tap');
+        const purchaseSuccesses = count('purchase_success');
+        return {
+          storyId,
+          pageId: events[0].pageId!,
+          choiceId: events[0].choiceId!,
+          totalReaders: readers.size,
+          premiumViews,
+          premiumTaps,
+          purchaseAttempts: count('purchase_attempt'),
+          purchaseSuccesses,
+          premiumInterestRate: premiumViews > 0 ? premiumTaps / premiumViews : 0,
+          purchaseCompletionRate: premiumTaps > 0 ? purchaseSuccesses / premiumTaps : 0,
+          averageEggplantsAtFork: balances.length > 0 ? balances.reduce((total, value) => total + value, 0) / balances.length : 0,
+          fundedUserTaps: count('tap', (event) => event.hasEnoughFunds === true),
+          unfundedUserTaps: count('tap', (event) => event.hasEnoughFunds === false),
+        };
+      })
+      .sort((a, b) => b.premiumTaps - a.premiumTaps);
+  }
+
+  // === ENDING CARDS SYSTEM ===
+  async createEndingCard(cardData: CreateEndingCardData): Promise<any> {
+    return await this.write(() => {
+      const card: EndingCard = {
+        cardSubtitle: null,
+        cardImageUrl: null,
+        rarity: "whisper",
+        emotionTag: null,
+        unlockCondition: null,
+        isSecret: false,
+        sortOrder: 0,
+        ...definedOnly(cardData),
+        storyId: cardData.storyId,
+        pageId: cardData.pageId,
+        cardTitle: cardData.cardTitle,
+        cardDescription: cardData.cardDescription,
+        id: randomUUID(),
+        createdAt: this.now(),
+      };
+      this.tables.endingCards.push(card);
+      return copy(card);
+    });
+  }
+
+  async getStoryEndingCards(storyId: string): Promise<any[]> {
+    return copy(
+      this.tables.endingCards
+        .filter((card) => card.storyId === storyId)
+        .sort((a, b) => (a.sortOrder ?? 0) - (b.sortOrder ?? 0) || a.cardTitle.localeCompare(b.cardTitle))
+    );
+  }
+
+  async getEndingCardForPage(pageId: string): Promise<any> {
+    return copy(this.tables.endingCards.find((card) => card.pageId === pageId));
+  }
+
+  async hasCollectedCard(userId: string, cardId: string): Promise<boolean> {
+    return this.tables.userEndingCards.some((row) => row.userId === userId && row.cardId === cardId);
+  }
+
+  // user_ending_cards is unique on (user_id, card_id), so a second copy fails like it does in Postgres
+  private insertUserEndingCard(userId: string, cardId: string): UserEndingCard {
+    if (this.tables.userEndingCards.some((row) => row.userId === userId && row.cardId === cardId)) {
+      throw new Error('Card already collected');
+    }
+    const userCard: UserEndingCard = { id: randomUUID(), userId, cardId, unlockedAt: this.now(), isNewCard: true };
+    this.tables.userEndingCards.push(userCard);
+    return userCard;
+  }
+
+  async awardRandomEndingCard(userId: string, pageId: string): Promise<any> {
+    try {
+      const availableCards = this.tables.endingCards.filter((card) => card.pageId === pageId);
+      if (availableCards.length === 0) {
+        return { success: false, reason: 'no_cards_available' };
+      }
+
+      const ownedCardIds = availableCards
+        .filter((card) => this.tables.userEndingCards.some((row) => row.userId === userId && row.cardId === card.id))
+        .map((card) => card.id);
+      const unownedCards = availableCards.filter((card) => !ownedCardIds.includes(card.id));
+
+      // If user has all cards, give them a random one anyway (for sharing)
+      const selectedCard = pickEndingCard(unownedCards.length > 0 ? unownedCards : availableCards);
+      const userCard = await this.write(() => this.insertUserEndingCard(userId, selectedCard.id));
+
+      return {
+        success: true,
+        userCard: copy(userCard),
+        card: copy(selectedCard),
+        isDuplicate: ownedCardIds.includes(selectedCard.id)
+      };
+    } catch (error) {
+      console.error('Error awarding random ending card:', error);
+      return { success: false, reason: 'database_error' };
+    }
+  }
+
+  async awardEndingCard(userId: string, cardId: string): Promise<any> {
+    try {
+      if (await this.hasCollectedCard(userId, cardId)) {
+        return { success: false, reason: 'already_collected' };
+      }
+      const userCard = await this.write(() => this.insertUserEndingCard(userId, cardId));
+      return { success: true, userCard: copy(userCard) };
+    } catch (error) {
+      return { success: false, reason: 'database_error' };
+    }
+  }
+
+  async getUserEndingCards(userId: string, storyId?: string): Promise<any[]> {
+    return copy(
+      this.tables.userEndingCards
+        .filter((row) => row.userId === userId)
+        .sort((a, b) => time(b.unlockedAt) - time(a.unlockedAt))
+        .flatMap((row) => {
+          const card = this.tables.endingCards.find((candidate) => candidate.id === row.cardId);
+          const story = card && this.tables.stories.find((candidate) => candidate.id === card.storyId);
+          if (!card || !story || (storyId && card.storyId !== storyId)) return [];
+          return [{
+            id: row.id,
+            cardId: row.cardId,
+            unlockedAt: row.unlockedAt,
+            isNewCard: row.isNewCard,
+            cardTitle: card.cardTitle,
+            cardSubtitle: card.cardSubtitle,
+            cardDescription: card.cardDescription,
+            cardImageUrl: card.cardImageUrl,
+            rarity: card.rarity,
+            emotionTag: card.emotionTag,
+            unlockCondition: card.unlockCondition,
+            storyId: card.storyId,
+            storyTitle: story.title,
+          }];
+        })
+    );
+  }
+
+  async markCardsAsViewed(userId: string, cardIds: string[]): Promise<void> {
+    if (cardIds.length === 0) return;
+    await this.write(() => {
+      this.tables.userEndingCards
+        .filter((row) => row.userId === userId && cardIds.includes(row.cardId))
+        .forEach((row) => {
+          row.isNewCard = false;
+        });
+    });
+  }
+
+  async getUserCollectionStats(userId: string): Promise<CollectionStats> {
+    return summarizeCollection(await this.getUserEndingCards(userId));
+  }
+}
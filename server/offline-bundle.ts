@@ -0,0 +1,52 @@
+import type { OfflineStoryBundle, StoryCharacter, StoryPage } from "@shared/story-engine/types/EngineTypes";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import { DatabaseStoryProvider } from "./adapters/DatabaseStoryProvider";
+import { storyEngineService } from "./engines/StoryEngineService";
+import { storage } from "./storage";
+
+const provider = new DatabaseStoryProvider();
+
+/**
+ * Builds the download for reading a story offline. Only pages the reader can get to are included, so
+ * paths they haven't bought are never sent to the device.
+ * Returns null if the story doesn't exist or has no pages.
+ */
+export async function buildOfflineBundle(storyId: string, userId?: string, slot?: string): Promise<OfflineStoryBundle | null> {
+  const metadata = await provider.getStoryMetadata(storyId);
+  const firstPageId = await provider.getFirstPageId(storyId);
+  if (!metadata || !firstPageId) return null;
+
+  const progress = userId ? await provider.getUserProgress(userId, storyId, slot) : null;
+  const { pages, choices } = await storyEngineService.reachablePages(storyId, userId);
+
+  const characters: StoryCharacter[] = (await storage.getStoryCharacters(storyId)).map(
+    ({ storyId: _storyId, createdAt: _createdAt, sortOrder: _sortOrder, ...character }) => character
+  );
+
+  return {
+    storyId,
+    downloadedAt: new Date().toISOString(),
+    metadata,
+    firstPageId,
+    pages: pages.sort((a, b) => a.pageNumber - b.pageNumber),
+    choices,
+    variables: await provider.getStoryVariables(storyId),
+    characters,
+    progress,
+    userEggplants: userId ? await provider.getUserEggplants(userId) : 0,
+    assets: collectAssets(metadata.coverImage, pages, characters),
+  };
+}
+
+function collectAssets(coverImage: string | undefined, pages: StoryPage[], characters: StoryCharacter[]): string[] {
+  const assets = new Set<string>();
+  if (coverImage) assets.add(coverImage);
+  characters.forEach((character) => character.avatarUrl && assets.add(character.avatarUrl));
+  for (const page of pages) {
+    StoryMarkdown.imageUrls(page.content).forEach((url) => assets.add(url));
+    for (const chatMessage of page.chatMessages ?? []) {
+      if (chatMessage.attachment?.url) assets.add(chatMessage.attachment.url);
+    }
+  }
+  return Array.from(assets);
+}
@@ -0,0 +1,25 @@
+import { sql } from "drizzle-orm";
+import { db } from "./db";
+
+/**
+ * Reading progress used to be stored only as a page order number, which pointed readers at
+ * the wrong page once pages were reordered. Fills current_page_id for rows saved before the
+ * column existed, from the page that had that order. Rows that already have an id are left
+ * alone, so this is safe to run on every startup after `npm run db:push`.
+ */
+export async function migrateProgressToPageIds(): Promise<number> {
+  const result = await db.execute(sql`
+    UPDATE reading_progress
+    SET current_page_id = story_pages.id
+    FROM story_pages
+    WHERE reading_progress.current_page_id IS NULL
+      AND story_pages.story_id = reading_progress.story_id
+      AND story_pages."order" = reading_progress.current_page;
+  `);
+
+  const migrated = result.rowCount ?? 0;
+  if (migrated > 0) {
+    console.log(`Moved ${migrated} reading progress rows onto page ids`);
+  }
+  return migrated;
+}
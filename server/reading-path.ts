@@ -0,0 +1,53 @@
+import type { StoryChoice, StoryPage, UserChoice } from "@shared/schema";
+
+export interface ReadingPathStep {
+  historyId: string;
+  choiceId: string;
+  choiceText: string;
+  isPremium: boolean;
+  fromPageId: string;
+  fromPageTitle: string;
+  fromPageNumber: number;
+  toPageId: string;
+  toPageTitle: string;
+  toPageNumber: number;
+  chosenAt: Date | null;
+}
+
+/**
+ * Turns a reader's choice history (oldest first) into the trail of forks they passed through.
+ * Choices or pages that no longer exist are left out rather than shown as broken steps.
+ */
+export function buildReadingPath(
+  history: UserChoice[],
+  pages: StoryPage[],
+  choices: Array<StoryChoice | undefined>
+): ReadingPathStep[] {
+  const pagesById = new Map(pages.map((page) => [page.id, page]));
+  const choicesById = new Map(
+    choices.filter((choice): choice is StoryChoice => !!choice).map((choice) => [choice.id, choice])
+  );
+
+  const steps: ReadingPathStep[] = [];
+  for (const row of history) {
+    const choice = choicesById.get(row.choiceId);
+    const fromPage = choice && pagesById.get(choice.fromPageId);
+    const toPage = choice && pagesById.get(choice.toPageId);
+    if (!choice || !fromPage || !toPage) continue;
+
+    steps.push({
+      historyId: row.id,
+      choiceId: choice.id,
+      choiceText: choice.choiceText,
+      isPremium: !!choice.isPremium,
+      fromPageId: fromPage.id,
+      fromPageTitle: fromPage.title,
+      fromPageNumber: fromPage.order,
+      toPageId: toPage.id,
+      toPageTitle: toPage.title,
+      toPageNumber: toPage.order,
+      chosenAt: row.createdAt,
+    });
+  }
+  return steps;
+}
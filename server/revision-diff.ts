@@ -0,0 +1,193 @@
+import type { StorySnapshot } from "@shared/schema";
+
+type SnapshotPage = StorySnapshot["pages"][number];
+type SnapshotChoice = StorySnapshot["choices"][number];
+type SnapshotEndingCard = StorySnapshot["endingCards"][number];
+
+export type ChangeStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface ContentLine {
+  type: "same" | "added" | "removed";
+  text: string;
+}
+
+export interface PageDiff {
+  pageId: string;
+  title: string;
+  status: ChangeStatus;
+  fieldChanges: FieldChange[];
+  contentDiff?: ContentLine[];
+  choices: Array<{ choiceId: string; choiceText: string; status: ChangeStatus; fieldChanges: FieldChange[] }>;
+  endingCard?: { status: ChangeStatus; fieldChanges: FieldChange[] };
+}
+
+export interface RevisionDiff {
+  storyChanges: FieldChange[];
+  variableChanges: FieldChange[];
+  characterChanges: FieldChange[];
+  pages: PageDiff[];
+  summary: { added: number; removed: number; changed: number; unchanged: number };
+}
+
+const PAGE_FIELDS = ["title", "order", "pageType", "isStarting", "nextPageId", "chatMessages"] as const;
+const CHOICE_FIELDS = [
+  "choiceText", "toPageId", "isPremium", "eggplantCost", "order", "targetPage", "effects", "conditions",
+] as const;
+const ENDING_CARD_FIELDS = [
+  "cardTitle", "cardSubtitle", "cardDescription", "cardImageUrl", "rarity", "emotionTag", "unlockCondition", "isSecret",
+] as const;
+const STORY_FIELDS = ["title", "description", "imageUrl", "spiceLevel", "category"] as const;
+
+function isEqual(a: unknown, b: unknown): boolean {
+  return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+}
+
+function compareFields<T extends object>(before: T, after: T, fields: readonly (keyof T)[]): FieldChange[] {
+  return fields
+    .filter((field) => !isEqual(before[field], after[field]))
+    .map((field) => ({ field: String(field), before: before[field] ?? null, after: after[field] ?? null }));
+}
+
+// Line-level LCS diff; page content is capped at 20k characters so the table stays small
+export function diffLines(before: string, after: string): ContentLine[] {
+  const a = before.split("\n");
+  const b = after.split("\n");
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0));
+
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: ContentLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: "same", text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: "removed", text: a[i++] });
+    } else {
+      lines.push({ type: "added", text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: "removed", text: a[i++] });
+  while (j < b.length) lines.push({ type: "added", text: b[j++] });
+  return lines;
+}
+
+function diffChoices(before: SnapshotChoice[], after: SnapshotChoice[]): PageDiff["choices"] {
+  const beforeById = new Map(before.map((choice) => [choice.id, choice]));
+  const afterById = new Map(after.map((choice) => [choice.id, choice]));
+  const ids = Array.from(new Set(before.map((choice) => choice.id).concat(after.map((choice) => choice.id))));
+
+  return ids.map((choiceId) => {
+    const previous = beforeById.get(choiceId);
+    const current = afterById.get(choiceId);
+    if (!previous) return { choiceId, choiceText: current!.choiceText, status: "added" as const, fieldChanges: [] };
+    if (!current) return { choiceId, choiceText: previous.choiceText, status: "removed" as const, fieldChanges: [] };
+
+    const fieldChanges = compareFields(previous, current, CHOICE_FIELDS);
+    return {
+      choiceId,
+      choiceText: current.choiceText,
+      status: fieldChanges.length > 0 ? "changed" as const : "unchanged" as const,
+      fieldChanges,
+    };
+  });
+}
+
+function diffEndingCard(
+  before: SnapshotEndingCard | undefined,
+  after: SnapshotEndingCard | undefined
+): PageDiff["endingCard"] {
+  if (!before && !after) return undefined;
+  if (!before) return { status: "added", fieldChanges: [] };
+  if (!after) return { status: "removed", fieldChanges: [] };
+  const fieldChanges = compareFields(before, after, ENDING_CARD_FIELDS);
+  return { status: fieldChanges.length > 0 ? "changed" : "unchanged", fieldChanges };
+}
+
+/**
+ * Compares two story snapshots page by page
+ * Pages are matched by id, so a retitled page shows as changed rather than removed + added
+ */
+export function diffStorySnapshots(from: StorySnapshot, to: StorySnapshot): RevisionDiff {
+  const fromPages = new Map(from.pages.map((page) => [page.id, page]));
+  const toPages = new Map(to.pages.map((page) => [page.id, page]));
+  const choicesByPage = (snapshot: StorySnapshot, pageId: string) =>
+    snapshot.choices.filter((choice) => choice.fromPageId === pageId);
+  const cardForPage = (snapshot: StorySnapshot, pageId: string) =>
+    snapshot.endingCards.find((card) => card.pageId === pageId);
+
+  // Keep the newer revision's reading order, then append pages that were removed
+  const orderedPages: SnapshotPage[] = [
+    ...to.pages.slice().sort((a, b) => a.order - b.order),
+    ...from.pages.filter((page) => !toPages.has(page.id)).sort((a, b) => a.order - b.order),
+  ];
+
+  const pages: PageDiff[] = orderedPages.map((page) => {
+    const previous = fromPages.get(page.id);
+    const current = toPages.get(page.id);
+    const choices = diffChoices(
+      previous ? choicesByPage(from, page.id) : [],
+      current ? choicesByPage(to, page.id) : []
+    );
+    const endingCard = diffEndingCard(
+      previous ? cardForPage(from, page.id) : undefined,
+      current ? cardForPage(to, page.id) : undefined
+    );
+
+    if (!previous || !current) {
+      return {
+        pageId: page.id,
+        title: page.title,
+        status: previous ? "removed" : "added",
+        fieldChanges: [],
+        contentDiff: diffLines(previous?.content ?? "", current?.content ?? ""),
+        choices,
+        endingCard,
+      };
+    }
+
+    const fieldChanges = compareFields(previous, current, PAGE_FIELDS);
+    const contentChanged = previous.content !== current.content;
+    const nestedChanged =
+      choices.some((choice) => choice.status !== "unchanged") ||
+      (endingCard !== undefined && endingCard.status !== "unchanged");
+
+    return {
+      pageId: page.id,
+      title: current.title,
+      status: fieldChanges.length > 0 || contentChanged || nestedChanged ? "changed" : "unchanged",
+      fieldChanges,
+      contentDiff: contentChanged ? diffLines(previous.content, current.content) : undefined,
+      choices,
+      endingCard,
+    };
+  });
+
+  const summary = { added: 0, removed: 0, changed: 0, unchanged: 0 };
+  pages.forEach((page) => summary[page.status]++);
+
+  return {
+    storyChanges: compareFields(from.story, to.story, STORY_FIELDS),
+    variableChanges: isEqual(from.variables, to.variables)
+      ? []
+      : [{ field: "variables", before: from.variables, after: to.variables }],
+    characterChanges: isEqual(from.characters ?? [], to.characters ?? [])
+      ? []
+      : [{ field: "characters", before: from.characters ?? [], after: to.characters ?? [] }],
+    pages,
+    summary,
+  };
+}
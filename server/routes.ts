@@ -1,17 +1,28 @@
-import type { Express } from "express";
+import express, { type Express, type Response } from "express";
 import { createServer, type Server } from "http";
 import Stripe from "stripe";
-import { storage } from "./storage";
+import { randomUUID } from "crypto";
+import { storage, type StoryMapReader } from "./storage";
+import { addToMediaLibrary, isSupportedImage, mediaStore, removeFromMediaLibrary, MAX_UPLOAD_BYTES, UPLOAD_CONTENT_TYPES } from "./media-library";
 import { setupAuth, isAuthenticated } from "./auth";
 import { analytics } from "./analytics/EventTracker";
 import { premiumAnalytics } from './analytics/premium-analytics';
-import { generalLimiter, premiumChoiceLimiter, authLimiter, sanitizeInput, premiumChoiceSchema } from "./security";
-import { transactionManager } from "./transaction-manager";
+import { generalLimiter, premiumChoiceLimiter, authLimiter, sanitizeInput, premiumChoiceSchema, storyVariablesSchema, normalizeStoryTags, saveSlotSchema, saveSlotNameSchema, offlineChoiceIdsSchema, chatMessagesSchema, storyCharactersSchema, pageContentSchema, mediaAssetUpdateSchema, readerPreferencesSchema } from "./security";
 import { advancedAnalytics } from "./analytics/advanced-analytics";
+import { DEFAULT_SAVE_SLOT } from "@shared/schema";
+import { VariableEvaluator } from "@shared/story-engine/VariableEvaluator";
+import type { NavigationErrorCode, NavigationResult } from "@shared/story-engine/types/EngineTypes";
+import { storyEngineService } from "./engines/StoryEngineService";
+import { buildReadingPath } from "./reading-path";
+import { buildOfflineBundle } from "./offline-bundle";
+import { addGuestBookmark, getGuestBookmarks, getGuestProgress, recordGuestSession, resetGuestReading, toggleGuestStoryBookmark } from "./guest-reading";
+import { diffStorySnapshots } from "./revision-diff";
+import { snapshotToTimeline, timelineToSnapshot } from "./story-snapshots";
+import { validateStorySnapshot } from "./story-validator";
+import { buildStoryMapData, loadStoryMapLayout } from "./storage-shared";
+import { parseInk, parseTwee, storyToTwee } from "./story-formats";
+import { buildStoryPackage, checkStoryPackage, remapStoryPackage, storyPackageSchema, STORY_PACKAGE_FORMAT, STORY_PACKAGE_VERSION } from "./story-package";
 
-import { db } from "./db";
-import { and, eq, gt, sql } from "drizzle-orm";
-import { storyPages, storyChoices, users } from "@shared/schema";
 
 if (!process.env.STRIPE_SECRET_KEY) {
   throw new Error('Missing required Stripe secret: STRIPE_SECRET_KEY');
@@ -20,6 +31,60 @@ const stripe = new Stripe(process.env.STRIPE_SECRET_KEY, {
   apiVersion: "2025-06-30.basil",
 });
 
+const NAVIGATION_ERROR_STATUS: Record<NavigationErrorCode, number> = {
+  story_not_found: 404,
+  page_not_found: 404,
+  choice_not_found: 404,
+  choice_unavailable: 403,
+  login_required: 401,
+  insufficient_eggplants: 400,
+  page_locked: 403,
+  history_not_found: 404,
+};
+
+// Reading queued offline this long ago is too old to replay
+const MAX_OFFLINE_PROGRESS_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Maps a refused story engine navigation onto the responses the reader already handles
+function sendNavigationError(res: Response, result: NavigationResult) {
+  if (!result.errorCode) {
+    return res.status(500).json({ message: result.error || "Navigation failed" });
+  }
+
+  const cost = result.choice?.eggplantCost || 0;
+  const body: Record<string, unknown> = { message: result.error, code: result.errorCode };
+  if (result.errorCode === 'login_required') {
+    Object.assign(body, { requiresAuth: true, isPremium: true, eggplantCost: cost });
+  }
+  if (result.errorCode === 'insufficient_eggplants') {
+    Object.assign(body, { message: "Not enough eggplants for this premium choice", required: cost, canPurchase: false });
+  }
+  return res.status(NAVIGATION_ERROR_STATUS[result.errorCode]).json(body);
+}
+
+// Optional save slot name from a request: undefined when absent, null when it isn't a valid name
+function parseSlot(value: unknown): string | undefined | null {
+  if (value === undefined || value === '') return undefined;
+  const parsed = saveSlotNameSchema.safeParse(value);
+  return parsed.success ? parsed.data : null;
+}
+
+// The builder sends page text and chat messages inline in its pages, and the cast alongside them; any
+// that are set must be well formed. Returns what's wrong, if anything. Text is cleaned when it's saved.
+function checkTimelineBody(body: any): string | undefined {
+  const pages: any[] = Array.isArray(body.pages) ? body.pages : [];
+  if (pages.some((page) => page?.content != null && !pageContentSchema.safeParse(page.content).success)) {
+    return "Invalid page content";
+  }
+  if (pages.some((page) => page?.chatMessages != null && !chatMessagesSchema.safeParse(page.chatMessages).success)) {
+    return "Invalid chat messages";
+  }
+  if (body.characters !== undefined && !storyCharactersSchema.safeParse(body.characters).success) {
+    return "Invalid characters";
+  }
+  return undefined;
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth setup
   await setupAuth(app);
@@ -30,11 +95,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
     app.use('/api/auth', authLimiter);
   }
   
-  // Initialize database optimization on startup
-  import('./database-optimization').then(({ dbOptimizer }) => {
-    dbOptimizer.createPerformanceIndexes().catch(console.error);
-  });
+  // Initialize database optimization on startup (there is no database with STORAGE=memory)
+  if (process.env.STORAGE !== 'memory') {
+    import('./database-optimization').then(({ dbOptimizer }) => {
+      dbOptimizer.createPerformanceIndexes().catch(console.error);
+    });
+    import('./progress-migration').then(({ migrateProgressToPageIds }) => {
+      migrateProgressToPageIds().catch(console.error);
+    });
+  }
   
+  // Uploaded images
+  mediaStore.mount(app);
+
   // Register analytics routes
   import('./analytics/analytics-routes').then(({ registerAnalyticsRoutes }) => {
     registerAnalyticsRoutes(app);
@@ -55,6 +128,38 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(stories);
   });
 
+  // Full-text search with filters; completion status and unowned premium paths need a signed-in reader
+  app.get('/api/stories/search', async (req, res) => {
+    try {
+      const userId = req.isAuthenticated() ? (req as any).user.claims.sub : undefined;
+      const param = (name: string) => (typeof req.query[name] === "string" ? (req.query[name] as string) : undefined);
+      const numberParam = (name: string) => {
+        const value = param(name);
+        return value !== undefined && value !== "" && !isNaN(Number(value)) ? Number(value) : undefined;
+      };
+      const status = param("status");
+
+      const results = await storage.searchStories({
+        query: param("q")?.slice(0, 200),
+        category: param("category"),
+        spiceLevels: param("spice")?.split(",").map(Number).filter((level) => level >= 1 && level <= 3),
+        minWords: numberParam("minWords"),
+        maxWords: numberParam("maxWords"),
+        minPaths: numberParam("minPaths"),
+        maxPaths: numberParam("maxPaths"),
+        userId,
+        status: status === "unread" || status === "in_progress" || status === "completed" ? status : undefined,
+        hasUnownedPremium: param("hasUnownedPremium") === "true",
+        page: Math.max(1, Math.floor(numberParam("page") || 1)),
+        pageSize: Math.min(50, Math.max(1, Math.floor(numberParam("pageSize") || 20))),
+      });
+      res.json(results);
+    } catch (error) {
+      console.error("Error searching stories:", error);
+      res.status(500).json({ message: "Failed to search stories" });
+    }
+  });
+
   app.get('/api/stories/featured', async (req, res) => {
     const story = await storage.getFeaturedStory();
     res.json(story);
@@ -84,59 +189,73 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json(story);
   });
 
-  // === PAGE-BASED CHOICES ROUTE (NO MORE NODES!) ===
-  app.get('/api/pages/:pageNumber/choices', async (req, res) => {
+  // === PAGE CHOICES ROUTE ===
+  // Keyed by page id; old page-number URLs (/api/pages/3/choices?storyId=...) redirect to it
+  app.get('/api/pages/:pageId/choices', async (req, res) => {
     try {
-      const { pageNumber } = req.params;
-      const { storyId } = req.query;
-      
-      if (!storyId) {
-        return res.status(400).json({ message: "storyId is required" });
+      const { pageId } = req.params;
+
+      if (/^\d+$/.test(pageId)) {
+        const { storyId } = req.query;
+        if (!storyId) {
+          return res.status(400).json({ message: "storyId is required" });
+        }
+        const pages = await storage.getStoryPages(storyId as string);
+        const page = pages.find(p => p.order === parseInt(pageId));
+        if (!page) {
+          return res.json([]); // No choices for invalid page
+        }
+        return res.redirect(301, `/api/pages/${page.id}/choices`);
       }
-      
-      // Get all pages for this story to find the page at the given position
-      const allPages = await db
-        .select()
-        .from(storyPages)
-        .where(eq(storyPages.storyId, storyId as string))
-        .orderBy(storyPages.order);
-      
-      const pageIndex = parseInt(pageNumber as string) - 1; // Convert to 0-based index
-      if (pageIndex < 0 || pageIndex >= allPages.length) {
-        return res.json([]); // No choices for invalid page
+
+      const currentPageNode = await storage.getStoryPage(pageId);
+      if (!currentPageNode) {
+        return res.status(404).json({ message: "Page not found" });
       }
-      
-      const currentPageNode = allPages[pageIndex];
-      
-      // Get choices for this page using pure page-based logic
-      const pageChoices = await db
-        .select({
-          id: storyChoices.id,
-          choiceText: storyChoices.choiceText,
-          isPremium: storyChoices.isPremium,
-          eggplantCost: storyChoices.eggplantCost,
-          targetPage: storyChoices.targetPage,
-        })
-        .from(storyChoices)
-        .where(eq(storyChoices.fromPageId, currentPageNode.id))
-        .orderBy(storyChoices.order);
+      const storyId = currentPageNode.storyId;
+      const pageChoices = await storage.getPageChoices(pageId);
+      const pageOrderById = new Map((await storage.getStoryPages(storyId)).map(p => [p.id, p.order]));
       
       // Check which premium choices are already owned (if user is authenticated)
       let ownedChoices = new Set<string>();
-      if (req.isAuthenticated()) {
-        const userId = (req as any).user.claims.sub;
-        const purchasedPaths = await storage.getUserPurchasedPaths(userId, storyId as string);
+      let userEggplants = 0;
+      const userId = req.isAuthenticated() ? (req as any).user.claims.sub : undefined;
+
+      // Hide choices whose conditions the reader's story state doesn't satisfy
+      const variableValues = await storage.getStoryVariableValues(userId, storyId);
+      const visibleChoices = pageChoices.filter((choice) =>
+        VariableEvaluator.meetsConditions(choice.conditions || undefined, variableValues)
+      );
+      if (userId) {
+        const purchasedPaths = await storage.getUserPurchasedPaths(userId, storyId);
         ownedChoices = new Set(purchasedPaths.map(p => p.choiceId));
+        userEggplants = (await storage.getUser(userId))?.eggplants || 0;
+      }
+
+      // Record premium views (top of the premium funnel) for unowned premium choices; the choices don't wait on it
+      for (const choice of visibleChoices) {
+        if (choice.isPremium && !ownedChoices.has(choice.id)) {
+          premiumAnalytics.trackPremiumView({
+            userId,
+            sessionId: req.sessionID,
+            storyId,
+            pageId: currentPageNode.id,
+            choiceId: choice.id,
+            userEggplants,
+            choiceCost: choice.eggplantCost || 0,
+          });
+        }
       }
 
-      // Return pure page-based choices with ownership status
-      const pageBased = pageChoices.map((choice) => {
+      // Return choices with ownership status; target page numbers follow the target page's current position
+      const pageBased = visibleChoices.map((choice) => {
         return {
           id: choice.id,
           choiceText: choice.choiceText,
           isPremium: choice.isPremium,
           eggplantCost: choice.eggplantCost,
-          targetPage: choice.targetPage || (parseInt(pageNumber as string) + 1), // Default to next page
+          targetPageId: choice.toPageId,
+          targetPage: pageOrderById.get(choice.toPageId) ?? null,
           isOwned: choice.isPremium && ownedChoices.has(choice.id), // Show ownership status
         };
       });
@@ -162,10 +281,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const { storyId } = req.params;
       const firstChoicePage = await storage.getFirstChoicePageNumber(storyId);
+      const pages = await storage.getStoryPages(storyId);
       
       res.json({
         storyId,
         firstChoicePageNumber: firstChoicePage || 5, // Fallback to page 5
+        firstChoicePageId: pages.find(page => page.order === firstChoicePage)?.id || null, // For session navigation
         success: true
       });
     } catch (error) {
@@ -174,28 +295,28 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // === STORY MAP ROUTE ===
+  // Signed-in readers get their discoveries marked ("fog of war"), in the save slot given by ?slot
   app.get('/api/stories/:storyId/map', async (req: any, res) => {
     try {
       const { storyId } = req.params;
-      const useOptimizedLayout = req.query.optimized === 'true';
+      const slot = parseSlot(req.query.slot);
+      if (slot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
+      }
       
       // Get user's purchased paths if authenticated
       let ownedChoiceIds = new Set<string>();
+      let reader: StoryMapReader | undefined;
       if (req.isAuthenticated()) {
         const userId = req.user.claims.sub;
         const purchasedPaths = await storage.getUserPurchasedPaths(userId, storyId);
         ownedChoiceIds = new Set(purchasedPaths.map(p => p.choiceId));
+        reader = { userId, slot };
       }
       
       console.log('Calling getStoryMapData with:', { storyId, ownedChoiceIds: ownedChoiceIds.size });
-      let mapData = await storage.getStoryMapData(storyId, ownedChoiceIds);
+      const mapData = await storage.getStoryMapData(storyId, ownedChoiceIds, reader);
       console.log('Map data result:', { bubbleCount: mapData?.pageBubbles?.length, choiceCount: mapData?.choices?.length });
-
-      // Apply AI layout optimization if requested
-      if (useOptimizedLayout && mapData) {
-        const { storyLayoutGenerator } = await import('./services/storyLayoutGenerator');
-        mapData = storyLayoutGenerator.generateOptimizedLayout(mapData);
-      }
       
       res.json(mapData);
     } catch (error) {
@@ -243,26 +364,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // === READING PROGRESS ROUTES ===
   app.get('/api/reading-progress/:storyId', isAuthenticated, async (req: any, res) => {
     const userId = req.user.claims.sub;
-    const progress = await storage.getReadingProgress(userId, req.params.storyId);
+    const slot = parseSlot(req.query.slot);
+    if (slot === null) {
+      return res.status(400).json({ message: "Invalid save slot name" });
+    }
+    const progress = await storage.getReadingProgress(userId, req.params.storyId, slot);
     res.json(progress);
   });
 
+  // Story variables are never taken from the client: choices made offline come as { choiceIds } and are
+  // replayed through the story engine, which applies their effects and adds them to the reader's path
   app.post('/api/reading-progress', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { storyId, currentPage, pagesRead, isBookmarked = false } = req.body;
+      const { storyId, currentPageId, currentPage, pagesRead, isBookmarked } = req.body;
+      const slot = parseSlot(req.body.slot);
+      const choiceIds = offlineChoiceIdsSchema.safeParse(req.body.choiceIds ?? []);
+      const sentReadAt = req.body.lastReadAt === undefined ? undefined : new Date(req.body.lastReadAt);
+      // A device clock running fast mustn't make its progress win over everything read after it
+      const lastReadAt = sentReadAt && new Date(Math.min(sentReadAt.getTime(), Date.now()));
+      
+      // Progress is saved by page id; a bare page number is still accepted from older clients
+      if (!storyId || (!currentPageId && !currentPage)) {
+        return res.status(400).json({ message: "storyId and currentPageId are required" });
+      }
+      if (slot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
+      }
+      if (!choiceIds.success) {
+        return res.status(400).json({ message: "Invalid choiceIds" });
+      }
+      if (lastReadAt && (isNaN(lastReadAt.getTime()) || lastReadAt.getTime() < Date.now() - MAX_OFFLINE_PROGRESS_AGE_MS)) {
+        return res.status(400).json({ message: "Invalid lastReadAt" });
+      }
+      
+      const page = currentPageId
+        ? await storage.getStoryPage(currentPageId)
+        : (await storage.getStoryPages(storyId)).find(p => p.order === currentPage);
+      if (!page || page.storyId !== storyId) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+      const { pages: reachable } = await storyEngineService.reachablePages(storyId, userId);
+      if (!reachable.some(p => p.id === page.id)) {
+        return res.status(403).json({ message: "That page is behind a premium choice you have not unlocked", code: "page_locked" });
+      }
       
-      // Validate required fields (page-based only)
-      if (!storyId || !currentPage) {
-        return res.status(400).json({ message: "storyId and currentPage are required" });
+      // Progress read offline is replayed later with the time it was read; newer progress wins
+      const existing = lastReadAt && await storage.getReadingProgress(userId, storyId, slot);
+      if (existing && existing.lastReadAt && existing.lastReadAt > lastReadAt) {
+        return res.json(existing);
+      }
+      
+      for (const choiceId of choiceIds.data) {
+        const result = await storyEngineService.navigate({ userId, storyId, slot, choiceId }, { sessionId: req.sessionID });
+        if (!result.success || !result.session) {
+          return sendNavigationError(res, result);
+        }
       }
       
       const progress = await storage.saveReadingProgress({
         userId,
         storyId,
-        currentPage,
-        pagesRead: pagesRead || currentPage,
+        slot,
+        currentPageId: page.id,
+        pagesRead: pagesRead || page.order,
         isBookmarked,
+        lastReadAt,
       });
       res.json(progress);
     } catch (error) {
@@ -316,6 +483,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // === READER PREFERENCE ROUTES ===
+  app.get('/api/user/preferences', isAuthenticated, async (req: any, res) => {
+    try {
+      res.json(await storage.getReaderPreferences(req.user.claims.sub));
+    } catch (error) {
+      console.error("Error fetching reader preferences:", error);
+      res.status(500).json({ message: "Failed to fetch preferences" });
+    }
+  });
+
+  app.put('/api/user/preferences', isAuthenticated, sanitizeInput(readerPreferencesSchema), async (req: any, res) => {
+    try {
+      res.json(await storage.updateReaderPreferences(req.user.claims.sub, req.body));
+    } catch (error) {
+      console.error("Error saving reader preferences:", error);
+      res.status(500).json({ message: "Failed to save preferences" });
+    }
+  });
+
   // === READING PROGRESS WITH STORY DATA ===
   app.get('/api/reading-progress', isAuthenticated, async (req: any, res) => {
     try {
@@ -328,23 +514,29 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // === PERSONAL BOOKMARK ROUTES ===
-  app.post('/api/bookmarks', isAuthenticated, async (req: any, res) => {
+  // Guests' bookmarks are kept in their session and move to their account when they sign in
+  app.post('/api/bookmarks', async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
-      const { storyId, pageNumber, title, notes } = req.body;
+      const userId = req.isAuthenticated() ? req.user.claims.sub : undefined;
+      const { storyId, pageId, pageNumber, title, notes } = req.body;
       
-      if (!storyId || !pageNumber || !title) {
-        return res.status(400).json({ message: "storyId, pageNumber, and title are required" });
+      if (!storyId || (!pageId && !pageNumber) || !title) {
+        return res.status(400).json({ message: "storyId, pageId, and title are required" });
       }
       
-      // Get the current page for this page - simplified approach
-      const pages = await storage.getStoryPages(storyId);
-      const currentPage = pages.find(p => p.order === pageNumber);
+      // Bookmarks point at a page id; a page number is still accepted from older clients
+      const currentPage = pageId
+        ? await storage.getStoryPage(pageId)
+        : (await storage.getStoryPages(storyId)).find(p => p.order === pageNumber);
       
-      if (!currentPage) {
+      if (!currentPage || currentPage.storyId !== storyId) {
         return res.status(404).json({ message: "Page not found" });
       }
       
+      if (!userId) {
+        return res.json(addGuestBookmark(req, { storyId, pageId: currentPage.id, title, notes }));
+      }
+
       const bookmark = await storage.createPersonalBookmark({
         userId,
         storyId,
@@ -359,10 +551,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  app.get('/api/bookmarks', isAuthenticated, async (req: any, res) => {
+  app.get('/api/bookmarks', async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
       const { storyId } = req.query;
+      if (!req.isAuthenticated()) {
+        return res.json(getGuestBookmarks(req, storyId as string | undefined));
+      }
+
+      const userId = req.user.claims.sub;
       const bookmarks = await storage.getPersonalBookmarks(userId, storyId as string);
       res.json(bookmarks);
     } catch (error) {
@@ -519,216 +715,200 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // === CHOICE SELECTION ROUTES ===
-  app.post('/api/choices/:choiceId/select', async (req, res) => {
+  // === STORY SESSION ROUTE ===
+  // One engine-backed step through a story: resume (empty body), jump to { pageId } or take { choiceId }.
+  // Signed-in readers can pass { slot } to read in a save slot; reading in a slot that doesn't exist yet starts it.
+  // Guests' progress lives in their session until they sign in (see guest-reading.ts).
+  app.post('/api/stories/:storyId/session', async (req, res) => {
     try {
-      const { choiceId } = req.params;
-      const { storyId, currentPage } = req.body;
-      
-      // Get the choice details
-      const choice = await storage.getChoice(choiceId);
-      if (!choice) {
-        return res.status(404).json({ message: "Choice not found" });
+      const { choiceId, pageId } = req.body || {};
+      const { storyId } = req.params;
+      const userId = req.isAuthenticated() ? (req as any).user.claims.sub : undefined;
+      const slot = parseSlot(req.body?.slot);
+      if (slot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
+      }
+
+      const result = await storyEngineService.navigate(
+        userId
+          ? { userId, storyId, slot, choiceId, targetPageId: pageId }
+          : { storyId, guestProgress: getGuestProgress(req, storyId), choiceId, targetPageId: pageId },
+        { sessionId: req.sessionID }
+      );
+
+      if (!result.success || !result.session) {
+        return sendNavigationError(res, result);
       }
+      if (!userId) {
+        recordGuestSession(req, result.session, result.choice?.id);
+      }
+      res.json(result.session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to load story session" });
+    }
+  });
 
+  // Pages, choices and images for reading the story offline; premium paths the reader doesn't own are left out
+  app.get('/api/stories/:storyId/offline', async (req, res) => {
+    try {
       const userId = req.isAuthenticated() ? (req as any).user.claims.sub : undefined;
-      const sessionId = req.sessionID;
+      const slot = parseSlot(req.query.slot);
+      if (slot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
+      }
 
-      // Track premium choice analytics if this is a premium choice
-      if (choice.isPremium && (choice.eggplantCost || 0) > 0) {
-        const user = userId ? await storage.getUser(userId) : null;
-        const userEggplants = user?.eggplants || 0;
-        
-        // Log premium choice tap event
-        await premiumAnalytics.trackPremiumTap({
-          userId,
-          sessionId,
-          storyId,
-          pageId: choice.fromPageId,
-          choiceId,
-          userEggplants,
-          choiceCost: choice.eggplantCost || 0
-        });
+      const bundle = await buildOfflineBundle(req.params.storyId, userId, slot);
+      if (!bundle) {
+        return res.status(404).json({ message: "Story not found" });
       }
-      
-      // Track if this was already owned for the response
-      let alreadyPurchased = false;
-      
-      // Check if this is a premium choice and handle payment/access
-      if (choice.isPremium && (choice.eggplantCost || 0) > 0) {
-        // Check if user is authenticated for premium content
-        if (!req.isAuthenticated()) {
-          return res.status(401).json({ 
-            message: "Login required for premium choices",
-            requiresAuth: true,
-            isPremium: true,
-            eggplantCost: choice.eggplantCost || 0
-          });
-        }
+      res.json(bundle);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to prepare offline download" });
+    }
+  });
 
-        const userId = (req as any).user.claims.sub;
-        
-        // Check if user has already purchased this premium path
-        alreadyPurchased = await storage.hasPurchasedPremiumPath(userId, choiceId);
-        
+  // === READING PATH ROUTES ===
+  // The choices the reader has made in this story, oldest first, with the pages they led between
+  app.get('/api/stories/:storyId/path', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { storyId } = req.params;
+      const slot = parseSlot(req.query.slot);
+      if (slot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
+      }
 
-        
-        if (!alreadyPurchased) {
-          // User hasn't purchased this path yet, check if they have enough eggplants
-          const user = await storage.getUser(userId);
-          const cost = choice.eggplantCost || 0;
-          const userEggplants = user?.eggplants || 0;
-          
-          // Enhanced server-side safety checks
-          if (!user) {
-            return res.status(404).json({ message: "User not found" });
-          }
-          
-          if (cost < 0) {
-            return res.status(400).json({ message: "Invalid eggplant cost" });
-          }
-          
-          if (userEggplants < cost) {
-            // Track insufficient funds attempts for fraud prevention  
-            analytics.track({
-              type: 'purchase_attempt',
-              userId,
-              storyId,
-              pageId: choice.fromPageId,
-              choiceId,
-              timestamp: new Date(),
-              metadata: {
-                required: cost,
-                available: userEggplants,
-                deficit: cost - userEggplants
-              }
-            });
-            
-            return res.status(400).json({ 
-              message: "Not enough eggplants for this premium choice",
-              required: cost,
-              available: userEggplants,
-              canPurchase: false
-            });
-          }
-          
-          // Double-check for race conditions (double-spending protection)
-          const doubleCheckPurchase = await storage.hasPurchasedPremiumPath(userId, choiceId);
-          if (doubleCheckPurchase) {
-            return res.status(409).json({ 
-              message: "Choice already purchased",
-              alreadyOwned: true
-            });
-          }
-          
-          // Track purchase attempt with modular analytics
-          analytics.track({
-            type: 'purchase_attempt',
-            userId,
-            storyId,
-            pageId: choice.fromPageId,
-            choiceId,
-            timestamp: new Date(),
-            metadata: {
-              eggplantCost: cost,
-              userEggplantsBefore: userEggplants
-            }
-          });
-          
-          // Use atomic transaction for the purchase
-          const transactionResult = await transactionManager.purchasePremiumChoice({
-            userId,
-            storyId,
-            choiceId,
-            pageId: choice.fromPageId,
-            eggplantCost: cost
-          });
-          
-          if (!transactionResult.success) {
-            return res.status(500).json({ 
-              message: "Transaction failed",
-              error: transactionResult.error
-            });
-          }
+      const history = await storage.getUserChoiceHistory(userId, storyId, slot);
+      const pages = await storage.getStoryPages(storyId);
+      const choices = await Promise.all(
+        Array.from(new Set(history.map((row) => row.choiceId))).map((choiceId) => storage.getChoice(choiceId))
+      );
 
-          // Track successful purchase
-          await premiumAnalytics.trackPurchaseSuccess({
-            userId,
-            sessionId,
-            storyId,
-            pageId: choice.fromPageId,
-            choiceId,
-            userEggplants: transactionResult.newEggplantBalance || 0,
-            choiceCost: cost
-          });
-        }
-        // If already purchased, user can access it for free forever
+      res.json({ storyId, steps: buildReadingPath(history, pages, choices) });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch reading path" });
+    }
+  });
+
+  // Takes the reader back to the page of an earlier choice so they can choose differently
+  app.post('/api/stories/:storyId/path/rewind', isAuthenticated, async (req: any, res) => {
+    try {
+      const { historyId } = req.body;
+      const slot = parseSlot(req.body.slot);
+      if (typeof historyId !== 'string' || !historyId) {
+        return res.status(400).json({ message: "historyId is required" });
       }
-      
-      // For page-based navigation, we don't need to fetch target pages
-      // The choice simply moves to the next page
-      
-      // Save user choice if authenticated
-      if (req.isAuthenticated()) {
-        const userId = (req as any).user.claims.sub;
-        
-        // Track choice made with modular analytics
-        analytics.track({
-          type: 'choice_made',
-          userId,
-          storyId,
-          pageId: choice.fromPageId,
-          choiceId,
-          timestamp: new Date(),
-          metadata: {
-            isPremium: choice.isPremium,
-            alreadyOwned: alreadyPurchased,
-            targetPage: choice.targetPage || (currentPage + 1)
-          }
-        });
-        
-        await storage.saveUserChoice({
-          userId,
-          storyId,
-          choiceId,
-        });
-        
-        // Save reading progress (PAGE-BASED: We need to convert this to page navigation)
-        // For now, this choice endpoint shouldn't directly save progress
-        // Progress should only be saved through the page-based story reader
+      if (slot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
       }
-      
-      // For page-based stories, use the choice's target_page if available
-      // If no targetPage, try to get it from the to_page_id's order, or fallback to current+1
-      let targetPage = choice.targetPage;
-      
-      if (!targetPage && choice.toPageId) {
-        // Try to get the target page order from the database
-        try {
-          const targetPageData = await storage.getStoryPage(choice.toPageId);
-          if (targetPageData) {
-            targetPage = targetPageData.order;
-          }
-        } catch (error) {
-          // Silently fallback to next page if target page data unavailable
+
+      const result = await storyEngineService.rewind(
+        { userId: req.user.claims.sub, storyId: req.params.storyId, slot, historyId },
+        { sessionId: req.sessionID }
+      );
+
+      if (!result.success || !result.session) {
+        return sendNavigationError(res, result);
+      }
+      res.json(result.session);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to rewind" });
+    }
+  });
+
+  // === SAVE SLOT ROUTES ===
+  // A reader's named playthroughs of a story, most recently read first
+  app.get('/api/stories/:storyId/slots', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { storyId } = req.params;
+
+      const slots = await storage.getReadingSlots(userId, storyId);
+      const pages = await storage.getStoryPages(storyId);
+      res.json(slots.map((slot) => ({
+        ...slot,
+        currentPageTitle: pages.find((page) => page.id === slot.currentPageId)?.title ?? null,
+      })));
+    } catch (error) {
+      res.status(500).json({ message: "Failed to fetch save slots" });
+    }
+  });
+
+  // New slot at the first page, or a copy of { copyFrom } to branch off an existing playthrough
+  app.post('/api/stories/:storyId/slots', isAuthenticated, sanitizeInput(saveSlotSchema), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { storyId } = req.params;
+      const { name, copyFrom } = req.body;
+
+      if (await storage.getReadingProgress(userId, storyId, name)) {
+        return res.status(409).json({ message: "A save slot with that name already exists" });
+      }
+
+      if (copyFrom) {
+        const slot = await storage.copyReadingSlot(userId, storyId, copyFrom, name);
+        if (!slot) {
+          return res.status(404).json({ message: "Save slot not found" });
         }
+        return res.status(201).json(slot);
       }
-      
-      // Final fallback
-      if (!targetPage) {
-        targetPage = currentPage + 1;
+
+      const firstPage = await storage.getFirstStoryPage(storyId);
+      if (!firstPage) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+      const slot = await storage.saveReadingProgress({ userId, storyId, slot: name, currentPageId: firstPage.id });
+      res.status(201).json(slot);
+    } catch (error) {
+      res.status(500).json({ message: "Failed to create save slot" });
+    }
+  });
+
+  // Deletes the slot's progress and choice history; purchases belong to the reader and are kept
+  app.delete('/api/stories/:storyId/slots/:slot', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { storyId, slot } = req.params;
+
+      if (!await storage.getReadingProgress(userId, storyId, slot)) {
+        return res.status(404).json({ message: "Save slot not found" });
+      }
+
+      await storage.transaction(async (tx) => {
+        await tx.deleteReadingProgress(userId, storyId, slot);
+        await tx.clearUserChoiceHistory(userId, storyId, slot);
+      });
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Failed to delete save slot" });
+    }
+  });
+
+  // === CHOICE SELECTION ROUTES ===
+  // Kept for older clients; takes the choice through the story engine from the reader's current page and reports the target page number
+  app.post('/api/choices/:choiceId/select', async (req, res) => {
+    try {
+      const { choiceId } = req.params;
+      const { storyId } = req.body;
+      const userId = req.isAuthenticated() ? (req as any).user.claims.sub : undefined;
+
+      const result = await storyEngineService.navigate(
+        userId ? { userId, storyId, choiceId } : { storyId, guestProgress: getGuestProgress(req, storyId), choiceId },
+        { sessionId: req.sessionID }
+      );
+
+      if (!result.success || !result.session) {
+        return sendNavigationError(res, result);
+      }
+      if (!userId) {
+        recordGuestSession(req, result.session, result.choice?.id);
       }
-      
-      // Return info about whether this was already owned BEFORE the purchase
-      const wasAlreadyOwned = choice.isPremium && req.isAuthenticated() ? alreadyPurchased : false;
-      
 
-      
       res.json({
-        targetPage: targetPage,
-        choice,
+        targetPage: result.session.currentPage.pageNumber,
+        choice: result.choice,
         success: true,
-        alreadyOwned: wasAlreadyOwned
+        alreadyOwned: result.premiumOutcome === 'owned'
       });
     } catch (error) {
       res.status(500).json({ message: "Failed to process your choice" });
@@ -736,19 +916,34 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // === START FROM BEGINNING ROUTE ===
+  // Restarts the save slot in { slot }, or the one the reader read last; their other slots are kept
   app.post('/api/stories/:storyId/start-from-beginning', async (req, res) => {
     try {
       const { storyId } = req.params;
+      const requestedSlot = parseSlot(req.body?.slot);
+      if (requestedSlot === null) {
+        return res.status(400).json({ message: "Invalid save slot name" });
+      }
+      
+      // Get the starting page
+      const startingPage = await storage.getStoryStartingPage(storyId);
+      if (!startingPage) {
+        return res.status(404).json({ message: "Story starting page not found" });
+      }
       
-      // Clear reading progress for authenticated users
-      if (req.isAuthenticated?.()) {
+      // Clear the reader's progress; guests keep theirs in the session
+      if (!req.isAuthenticated?.()) {
+        resetGuestReading(req, storyId);
+      } else {
         const userId = (req as any).user.claims.sub;
+        const slot = requestedSlot ?? (await storage.getReadingProgress(userId, storyId))?.slot ?? DEFAULT_SAVE_SLOT;
         
-        // Delete existing reading progress to start fresh
-        await storage.deleteReadingProgress(userId, storyId);
-        
-        // Clear choice history for this story
-        await storage.clearUserChoiceHistory(userId, storyId);
+        // Empty the slot's progress and choice history, keeping the slot itself at the first page
+        await storage.transaction(async (tx) => {
+          await tx.deleteReadingProgress(userId, storyId, slot);
+          await tx.clearUserChoiceHistory(userId, storyId, slot);
+          await tx.saveReadingProgress({ userId, storyId, slot, currentPageId: startingPage.id });
+        });
         
         // End any active reading sessions
         const activeSession = await storage.getActiveReadingSession(userId, storyId);
@@ -757,12 +952,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Get the starting page
-      const startingPage = await storage.getStoryStartingPage(storyId);
-      if (!startingPage) {
-        return res.status(404).json({ message: "Story starting page not found" });
-      }
-      
       res.json({
         success: true,
         startingPage,
@@ -774,10 +963,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // === BOOKMARK ROUTES ===
-  app.post('/api/stories/:storyId/bookmark', isAuthenticated, async (req: any, res) => {
+  app.post('/api/stories/:storyId/bookmark', async (req: any, res) => {
     try {
-      const userId = req.user.claims.sub;
       const { storyId } = req.params;
+      if (!req.isAuthenticated()) {
+        const firstPage = await storage.getFirstStoryPage(storyId);
+        if (!firstPage) {
+          return res.status(404).json({ message: "Story not found" });
+        }
+        return res.json({ isBookmarked: toggleGuestStoryBookmark(req, storyId, firstPage.id) });
+      }
+
+      const userId = req.user.claims.sub;
       
       // Get current reading progress
       const progress = await storage.getReadingProgress(userId, storyId);
@@ -787,6 +984,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const updatedProgress = await storage.saveReadingProgress({
           userId,
           storyId,
+          currentPageId: progress.currentPageId,
           currentPage: progress.currentPage,
           isBookmarked: !progress.isBookmarked,
         });
@@ -806,7 +1004,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         const newProgress = await storage.saveReadingProgress({
           userId,
           storyId,
-          currentPage: 1, // Start at first page
+          currentPageId: startingPage.id, // Start at first page
           isBookmarked: true,
         });
         res.json({ isBookmarked: newProgress.isBookmarked });
@@ -820,20 +1018,50 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/eggplants/spend', isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
-      const { amount } = req.body;
+      const { amount, reason } = req.body;
+      
+      if (typeof amount !== 'number' || !Number.isInteger(amount) || amount <= 0) {
+        return res.status(400).json({ message: "amount must be a positive integer" });
+      }
       
       const user = await storage.getUser(userId);
       if (!user || (user.eggplants || 0) < amount) {
         return res.status(400).json({ message: "Insufficient eggplants" });
       }
       
-      const updatedUser = await storage.updateUserEggplants(userId, (user.eggplants || 0) - amount);
+      const updatedUser = await storage.addEggplantsToUser(userId, -amount, {
+        reason: 'spend',
+        description: typeof reason === 'string' ? reason.slice(0, 200) : 'Eggplants spent',
+      });
       res.json(updatedUser);
     } catch (error) {
       res.status(500).json({ message: "Failed to spend eggplants" });
     }
   });
 
+  app.get('/api/eggplants/history', isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+      const offset = Math.max(parseInt(req.query.offset as string) || 0, 0);
+
+      const [user, transactions] = await Promise.all([
+        storage.getUser(userId),
+        storage.getEggplantHistory(userId, limit, offset),
+      ]);
+
+      res.json({
+        balance: user?.eggplants || 0,
+        transactions,
+        limit,
+        offset,
+      });
+    } catch (error) {
+      console.error("Error fetching eggplant history:", error);
+      res.status(500).json({ message: "Failed to fetch eggplant history" });
+    }
+  });
+
   // === ADMIN STORY ROUTES ===
   app.get('/api/admin/stories', isAuthenticated, async (req: any, res) => {
     try {
@@ -866,71 +1094,663 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // === STORY CREATION ROUTES (ADMIN ONLY) ===
-  app.post('/api/stories/draft', isAuthenticated, async (req: any, res) => {
+  // === AUTHOR ROUTES ===
+  app.get('/api/author/stories', isAuthenticated, async (req: any, res) => {
     try {
       const currentUser = await storage.getUser(req.user.claims.sub);
       if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
         return res.status(403).json({ message: "Admin access required" });
       }
 
-      const { title, description, imageUrl, spiceLevel, category, pages } = req.body;
+      const authorStories = await storage.getAuthorStories(currentUser.id);
+      res.json(authorStories);
+    } catch (error) {
+      console.error("Error fetching author stories:", error);
+      res.status(500).json({ message: "Failed to fetch your stories" });
+    }
+  });
 
-      // Create story as draft (not published)
+  app.get('/api/stories/:storyId/co-authors', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can view its co-authors" });
+      }
+
+      const coAuthors = await storage.getStoryCoAuthors(req.params.storyId);
+      res.json(coAuthors);
+    } catch (error) {
+      console.error("Error fetching co-authors:", error);
+      res.status(500).json({ message: "Failed to fetch co-authors" });
+    }
+  });
+
+  app.post('/api/stories/:storyId/co-authors', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.isStoryOwner(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only the story's owner can manage co-authors" });
+      }
+
+      const { email } = req.body;
+      if (!email || typeof email !== 'string') {
+        return res.status(400).json({ message: "email is required" });
+      }
+
+      const coAuthor = await storage.getUserByEmail(email.trim());
+      if (!coAuthor) {
+        return res.status(404).json({ message: "No user with that email" });
+      }
+      if (coAuthor.role !== 'admin' && coAuthor.role !== 'mega-admin') {
+        return res.status(400).json({ message: "Co-authors must be writers" });
+      }
+
+      await storage.addStoryCoAuthor(req.params.storyId, coAuthor.id);
+      res.status(201).json(await storage.getStoryCoAuthors(req.params.storyId));
+    } catch (error) {
+      console.error("Error adding co-author:", error);
+      res.status(500).json({ message: "Failed to add co-author" });
+    }
+  });
+
+  app.delete('/api/stories/:storyId/co-authors/:userId', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.isStoryOwner(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only the story's owner can manage co-authors" });
+      }
+
+      await storage.removeStoryCoAuthor(req.params.storyId, req.params.userId);
+      res.json({ message: "Co-author removed" });
+    } catch (error) {
+      console.error("Error removing co-author:", error);
+      res.status(500).json({ message: "Failed to remove co-author" });
+    }
+  });
+
+  // === STORY REVISION ROUTES ===
+  app.get('/api/stories/:storyId/revisions', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can view its history" });
+      }
+
+      const revisions = await storage.getStoryRevisions(req.params.storyId);
+      res.json(revisions);
+    } catch (error) {
+      console.error("Error fetching story revisions:", error);
+      res.status(500).json({ message: "Failed to fetch story revisions" });
+    }
+  });
+
+  app.get('/api/stories/:storyId/revisions/diff', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can view its history" });
+      }
+
+      const from = parseInt(req.query.from as string);
+      const to = parseInt(req.query.to as string);
+      if (!Number.isInteger(from) || !Number.isInteger(to)) {
+        return res.status(400).json({ message: "from and to revision numbers are required" });
+      }
+
+      const [fromRevision, toRevision] = await Promise.all([
+        storage.getStoryRevision(req.params.storyId, from),
+        storage.getStoryRevision(req.params.storyId, to),
+      ]);
+      if (!fromRevision || !toRevision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      res.json({ from, to, ...diffStorySnapshots(fromRevision.snapshot, toRevision.snapshot) });
+    } catch (error) {
+      console.error("Error diffing story revisions:", error);
+      res.status(500).json({ message: "Failed to compare revisions" });
+    }
+  });
+
+  app.get('/api/stories/:storyId/revisions/:revisionNumber', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can view its history" });
+      }
+
+      const revision = await storage.getStoryRevision(req.params.storyId, parseInt(req.params.revisionNumber));
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+      res.json(revision);
+    } catch (error) {
+      console.error("Error fetching story revision:", error);
+      res.status(500).json({ message: "Failed to fetch story revision" });
+    }
+  });
+
+  app.post('/api/stories/:storyId/revisions/:revisionNumber/restore', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      const revision = await storage.restoreStoryRevision(
+        req.params.storyId,
+        parseInt(req.params.revisionNumber),
+        currentUser.id
+      );
+      if (!revision) {
+        return res.status(404).json({ message: "Revision not found" });
+      }
+
+      const { snapshot, ...summary } = revision;
+      res.json({ message: `Restored revision ${req.params.revisionNumber}`, revision: summary });
+    } catch (error) {
+      console.error("Error restoring story revision:", error);
+      res.status(500).json({ message: "Failed to restore revision" });
+    }
+  });
+
+  // === IMPORT / EXPORT ROUTES ===
+  // JSON story packages are the default; Twine and Ink sources are sent as plain text with ?format=twee|ink
+  app.post('/api/stories/import', isAuthenticated, express.text({ type: "text/*", limit: "2mb" }), async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const format = req.query.format || "package";
+      if (format === "package") {
+        if (req.body?.format !== STORY_PACKAGE_FORMAT) {
+          return res.status(400).json({ message: "This is not a WildBranch story package" });
+        }
+        if (req.body.version !== STORY_PACKAGE_VERSION) {
+          return res.status(400).json({ message: `Unsupported package version ${req.body.version}` });
+        }
+
+        const parsed = storyPackageSchema.safeParse(req.body);
+        if (!parsed.success) {
+          return res.status(400).json({
+            message: "Invalid story package",
+            errors: parsed.error.issues.map((issue) => `${issue.path.join(".")}: ${issue.message}`),
+          });
+        }
+
+        const storyPackage = parsed.data;
+        const conflicts = checkStoryPackage(storyPackage);
+        if (await storage.getStory(storyPackage.sourceStoryId)) {
+          conflicts.push({
+            severity: "warning",
+            code: "story_exists",
+            message: "This story already exists here; importing creates a separate copy",
+          });
+        }
+        if ((await storage.getStoriesByTitle(storyPackage.story.title)).length > 0) {
+          conflicts.push({
+            severity: "warning",
+            code: "title_exists",
+            message: `A story titled "${storyPackage.story.title}" already exists`,
+          });
+        }
+
+        const canImport = conflicts.every((conflict) => conflict.severity !== "error");
+        const summary = {
+          title: storyPackage.story.title,
+          pages: storyPackage.pages.length,
+          choices: storyPackage.choices.length,
+          endingCards: storyPackage.endingCards.length,
+          variables: storyPackage.variables.length,
+          images: storyPackage.images.length,
+        };
+
+        if (req.query.dryRun === "true") {
+          return res.json({ dryRun: true, canImport, conflicts, summary });
+        }
+        if (!canImport) {
+          return res.status(409).json({ message: "The package has conflicts that block importing", conflicts, summary });
+        }
+
+        // Imports always arrive unpublished so they can be checked before readers see them
+        const story = await storage.createStoryFromSnapshot(
+          remapStoryPackage(storyPackage),
+          currentUser.id,
+          "Imported from package"
+        );
+        return res.status(201).json({ story, conflicts, summary });
+      }
+
+      if (format !== "twee" && format !== "ink") {
+        return res.status(400).json({ message: "format must be package, twee or ink" });
+      }
+      if (typeof req.body !== "string" || !req.body.trim()) {
+        return res.status(400).json({ message: "The file is empty" });
+      }
+
+      const { story: imported, warnings } = format === "twee" ? parseTwee(req.body) : parseInk(req.body);
+      if (imported.pages.length === 0) {
+        return res.status(400).json({ message: "No pages could be imported", warnings });
+      }
+
+      const sourceName = format === "twee" ? "Twine" : "Ink";
+      const title = typeof req.query.title === "string" && req.query.title.trim() ? req.query.title.trim() : imported.title;
+      const story = await storage.createStoryFromTimeline({
+        story: {
+          title,
+          description: `Imported from ${sourceName}`,
+          imageUrl: "",
+          spiceLevel: 1,
+          category: "straight",
+          isPublished: false,
+          authorId: currentUser.id,
+        },
+        pages: imported.pages,
+        variables: imported.variables,
+      });
+      await storage.recordStoryRevision(story.id, currentUser.id, `Imported from ${sourceName}`);
+
+      res.status(201).json({ story, warnings });
+    } catch (error) {
+      console.error("Error importing story:", error);
+      res.status(500).json({ message: "Failed to import story" });
+    }
+  });
+
+  app.get('/api/stories/:storyId/export', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can export it" });
+      }
+
+      // The working copy, so unpublished edits are part of the backup
+      const story = await storage.getStory(req.params.storyId);
+      const workingCopy = await storage.getWorkingCopy(req.params.storyId);
+      if (!story || !workingCopy) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      const fileName = story.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "story";
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.wildbranch.json"`);
+      res.json(buildStoryPackage(story.id, !!story.isPublished, workingCopy.snapshot));
+    } catch (error) {
+      console.error("Error exporting story package:", error);
+      res.status(500).json({ message: "Failed to export story" });
+    }
+  });
+
+  app.get('/api/stories/:storyId/export/twee', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can export it" });
+      }
+
+      const workingCopy = await storage.getWorkingCopy(req.params.storyId);
+      if (!workingCopy) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      const fileName = workingCopy.snapshot.story.title.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-|-$/g, "") || "story";
+      res.setHeader("Content-Type", "text/plain; charset=utf-8");
+      res.setHeader("Content-Disposition", `attachment; filename="${fileName}.twee"`);
+      res.send(storyToTwee(workingCopy.snapshot, req.params.storyId));
+    } catch (error) {
+      console.error("Error exporting story:", error);
+      res.status(500).json({ message: "Failed to export story" });
+    }
+  });
+
+  // === DRAFT / PUBLISH ROUTES ===
+  // Edits to a published story collect in a draft; readers see them only after publish
+  app.get('/api/stories/:storyId/draft', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      const story = await storage.getStory(req.params.storyId);
+      const workingCopy = await storage.getWorkingCopy(req.params.storyId);
+      if (!story || !workingCopy) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      res.json({
+        storyId: story.id,
+        isPublished: story.isPublished,
+        hasUnpublishedChanges: workingCopy.hasUnpublishedChanges,
+        tags: story.tags,
+        ...snapshotToTimeline(workingCopy.snapshot),
+      });
+    } catch (error) {
+      console.error("Error fetching story draft:", error);
+      res.status(500).json({ message: "Failed to fetch story draft" });
+    }
+  });
+
+  app.put('/api/stories/:storyId/draft', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      if (!Array.isArray(req.body.pages)) {
+        return res.status(400).json({ message: "pages are required" });
+      }
+      const invalidTimeline = checkTimelineBody(req.body);
+      if (invalidTimeline) {
+        return res.status(400).json({ message: invalidTimeline });
+      }
+
+      const tags = normalizeStoryTags(req.body.tags);
+      if (tags) {
+        await storage.updateStory(req.params.storyId, { tags });
+      }
+
+      const edit = await storage.editWorkingCopy(req.params.storyId, currentUser.id, "Saved draft", (workingCopy) => {
+        Object.assign(workingCopy, timelineToSnapshot(req.body, workingCopy));
+        return true;
+      });
+      if (!edit) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      const story = await storage.getStory(req.params.storyId);
+      res.json({
+        message: "Draft saved successfully",
+        revisionNumber: edit.revision.revisionNumber,
+        hasUnpublishedChanges: !!story?.isPublished,
+      });
+    } catch (error) {
+      console.error("Error saving story draft:", error);
+      res.status(500).json({ message: "Failed to save story draft" });
+    }
+  });
+
+  app.delete('/api/stories/:storyId/draft', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      await storage.discardStoryDraft(req.params.storyId);
+      res.json({ message: "Unpublished changes discarded" });
+    } catch (error) {
+      console.error("Error discarding story draft:", error);
+      res.status(500).json({ message: "Failed to discard draft" });
+    }
+  });
+
+  app.post('/api/stories/:storyId/publish', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can publish it" });
+      }
+
+      const workingCopy = await storage.getWorkingCopy(req.params.storyId);
+      if (!workingCopy) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+      const validation = validateStorySnapshot(workingCopy.snapshot);
+      if (!validation.isValid) {
+        return res.status(400).json({ message: "Fix the story's errors before publishing", validation });
+      }
+
+      const story = await storage.publishStory(req.params.storyId, currentUser.id);
+      res.json(story);
+    } catch (error) {
+      console.error("Error publishing story:", error);
+      res.status(500).json({ message: "Failed to publish story" });
+    }
+  });
+
+  app.get('/api/stories/:storyId/validate', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      // Validates what publishing would release, so pending draft edits are included
+      const workingCopy = await storage.getWorkingCopy(req.params.storyId);
+      if (!workingCopy) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      res.json(validateStorySnapshot(workingCopy.snapshot));
+    } catch (error) {
+      console.error("Error validating story:", error);
+      res.status(500).json({ message: "Failed to validate story" });
+    }
+  });
+
+  // The story map of the working copy, so authors can see unpublished changes laid out
+  app.get('/api/stories/:storyId/draft/map', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      const workingCopy = await storage.getWorkingCopy(req.params.storyId);
+      if (!workingCopy) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      const pages = [...workingCopy.snapshot.pages].sort((a, b) => a.order - b.order);
+      const pageOrder = new Map(pages.map((page) => [page.id, page.order]));
+      const choices = [...workingCopy.snapshot.choices].sort((a, b) =>
+        (pageOrder.get(a.fromPageId) ?? 0) - (pageOrder.get(b.fromPageId) ?? 0) || a.order - b.order
+      );
+      const layout = loadStoryMapLayout(req.params.storyId, pages, choices);
+      // Authors see every path, premium ones included
+      res.json(buildStoryMapData(req.params.storyId, pages, choices, new Set(choices.map((choice) => choice.id)), layout));
+    } catch (error) {
+      console.error("Error fetching draft story map:", error);
+      res.status(500).json({ message: "Failed to fetch story map" });
+    }
+  });
+
+  app.post('/api/stories/:storyId/unpublish', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can unpublish it" });
+      }
+
+      const story = await storage.unpublishStory(req.params.storyId);
+      if (!story) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+      res.json(story);
+    } catch (error) {
+      console.error("Error unpublishing story:", error);
+      res.status(500).json({ message: "Failed to unpublish story" });
+    }
+  });
+
+  // === STORY VARIABLE ROUTES (ADMIN ONLY) ===
+  app.get('/api/stories/:storyId/variables', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const variables = await storage.getStoryVariables(req.params.storyId);
+      res.json(variables);
+    } catch (error) {
+      console.error("Error fetching story variables:", error);
+      res.status(500).json({ message: "Failed to fetch story variables" });
+    }
+  });
+
+  app.put('/api/stories/:storyId/variables', isAuthenticated, sanitizeInput(storyVariablesSchema), async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      const edit = await storage.editWorkingCopy(req.params.storyId, currentUser.id, "Updated story variables", (workingCopy) => {
+        workingCopy.variables = req.body.variables;
+        return workingCopy.variables;
+      });
+      if (!edit) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      res.json(edit.result);
+    } catch (error) {
+      console.error("Error updating story variables:", error);
+      res.status(500).json({ message: "Failed to update story variables" });
+    }
+  });
+
+  // === STORY CHARACTER ROUTES ===
+  // The published cast, for the reader's cast sheet and for rendering chat senders and mentions
+  app.get('/api/stories/:storyId/characters', async (req, res) => {
+    try {
+      const story = await storage.getStory(req.params.storyId);
+      if (!story) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      const characters = await storage.getStoryCharacters(story.id);
+      res.json(characters.map(({ storyId: _storyId, createdAt: _createdAt, sortOrder: _sortOrder, ...character }) => character));
+    } catch (error) {
+      console.error("Error fetching story characters:", error);
+      res.status(500).json({ message: "Failed to fetch story characters" });
+    }
+  });
+
+  // === MEDIA LIBRARY ROUTES (ADMIN ONLY) ===
+  // The image is the request body; its name and alt text come in the query string
+  app.post('/api/media', isAuthenticated, express.raw({ type: UPLOAD_CONTENT_TYPES, limit: MAX_UPLOAD_BYTES }), async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({ message: "Upload a JPEG, PNG, WebP, GIF or AVIF image" });
+      }
+      const details = mediaAssetUpdateSchema.safeParse({ altText: typeof req.query.alt === "string" ? req.query.alt : "" });
+      if (!details.success) {
+        return res.status(400).json({ message: "Alt text is too long" });
+      }
+      if (!(await isSupportedImage(req.body))) {
+        return res.status(400).json({ message: "This file isn't an image we can use" });
+      }
+
+      const filename = typeof req.query.filename === "string" && req.query.filename.trim()
+        ? req.query.filename.trim().slice(0, 255)
+        : "image";
+      const asset = await addToMediaLibrary(storage, {
+        ownerId: currentUser.id,
+        filename,
+        altText: details.data.altText,
+        data: req.body,
+      });
+      res.status(201).json(asset);
+    } catch (error) {
+      console.error("Error uploading media:", error);
+      res.status(500).json({ message: "Failed to upload image" });
+    }
+  });
+
+  app.get('/api/media', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+      res.json(await storage.getMediaAssets(currentUser.id));
+    } catch (error) {
+      console.error("Error fetching media library:", error);
+      res.status(500).json({ message: "Failed to fetch media library" });
+    }
+  });
+
+  app.patch('/api/media/:assetId', isAuthenticated, sanitizeInput(mediaAssetUpdateSchema), async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      const asset = await storage.getMediaAsset(req.params.assetId);
+      if (!asset) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (asset.ownerId !== currentUser?.id && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Only the person who uploaded this image can change it" });
+      }
+      res.json(await storage.updateMediaAsset(asset.id, req.body));
+    } catch (error) {
+      console.error("Error updating media:", error);
+      res.status(500).json({ message: "Failed to update image" });
+    }
+  });
+
+  app.delete('/api/media/:assetId', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      const asset = await storage.getMediaAsset(req.params.assetId);
+      if (!asset) {
+        return res.status(404).json({ message: "Image not found" });
+      }
+      if (asset.ownerId !== currentUser?.id && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Only the person who uploaded this image can delete it" });
+      }
+      await removeFromMediaLibrary(storage, asset);
+      res.json({ message: "Image deleted" });
+    } catch (error) {
+      console.error("Error deleting media:", error);
+      res.status(500).json({ message: "Failed to delete image" });
+    }
+  });
+
+  // === STORY CREATION ROUTES (ADMIN ONLY) ===
+  app.post('/api/stories/draft', isAuthenticated, async (req: any, res) => {
+    try {
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
+        return res.status(403).json({ message: "Admin access required" });
+      }
+
+      const { title, description, imageUrl, spiceLevel, category, pages } = req.body;
+      const invalidTimeline = checkTimelineBody(req.body);
+      if (invalidTimeline) {
+        return res.status(400).json({ message: invalidTimeline });
+      }
+
+      // Create story as draft (not published)
       const story = await storage.createStory({
         title: title || "Untitled Draft",
         description: description || "Draft story",
         imageUrl: imageUrl || "",
         spiceLevel: spiceLevel || 1,
         category: category || "straight",
+        authorId: currentUser.id,
       });
 
       // Update story to set as draft (not published)
       await storage.updateStory(story.id, {
         isPublished: false,
         isFeatured: false,
+        tags: normalizeStoryTags(req.body.tags) || [],
       });
 
-      // Create pages and choices if pages exist
-      if (pages && pages.length > 0) {
-        const pageMap: Record<string, string> = {};
-        
-        // First pass: create all pages
-        for (const page of pages) {
-          const newPage = await storage.createStoryPage({
-            storyId: story.id,
-            title: page.title || `Page ${page.order}`,
-            content: page.content || "",
-            order: page.order,
-            isStarting: page.order === 1,
-          });
-          pageMap[page.id] = newPage.id;
-        }
-
-        // Second pass: create choices with PAGE-BASED targeting
-        for (const page of pages) {
-          if (page.choices && page.choices.length > 0) {
-            for (let i = 0; i < page.choices.length; i++) {
-              const choice = page.choices[i];
-              if (choice.text.trim() && choice.targetPageId) {
-                // Find target page number from the targetPageId
-                const targetPage = pages.find((p: any) => p.id === choice.targetPageId);
-                const targetPageNumber = targetPage ? targetPage.order : (page.order + 1);
-                
-                await storage.createStoryChoice({
-                  fromPageId: pageMap[page.id],
-                  toPageId: pageMap[choice.targetPageId] || pageMap[page.id], // Fallback to same page
-                  choiceText: choice.text,
-                  order: i,
-                  isPremium: choice.isPremium || false,
-                  eggplantCost: choice.eggplantCost || 0,
-                  targetPage: targetPageNumber, // CRITICAL: Add page-based targeting
-                });
-              }
-            }
-          }
-        }
-      }
+      // The story isn't published, so its pages, choices and cast are written straight to the live rows
+      await storage.editWorkingCopy(story.id, currentUser.id, "Saved draft", (workingCopy) => {
+        Object.assign(workingCopy, timelineToSnapshot({ ...req.body, pages: pages || [] }, workingCopy));
+        return true;
+      });
 
       res.status(201).json({ 
         message: "Draft saved successfully",
@@ -954,32 +1774,61 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Admin access required" });
       }
 
-      const { title, description, imageUrl, spiceLevel, category, pages, isPublished, isFeatured } = req.body;
+      const { title, description, imageUrl, spiceLevel, category, pages, isPublished, isFeatured, variables, characters } = req.body;
       
+      const invalidTimeline = checkTimelineBody(req.body);
+      if (invalidTimeline) {
+        return res.status(400).json({ message: invalidTimeline });
+      }
+
       // If pages are provided, use the new timeline creation method
       if (pages && pages.length > 0) {
         const story = await storage.createStoryFromTimeline({
           story: {
             title: title || "New Story",
             description: description || "Story description",
-            imageUrl: imageUrl || "https://images.unsplash.com/photo-1506905925346-21bda4d32df4",
+            imageUrl: imageUrl || "",
             spiceLevel: spiceLevel || 1,
             category: category || "straight",
             isPublished: isPublished || false,
             isFeatured: isFeatured || false,
+            authorId: currentUser.id,
           },
-          pages
+          pages,
+          variables,
+          characters,
         });
+        const tags = normalizeStoryTags(req.body.tags);
+        if (tags) {
+          await storage.updateStory(story.id, { tags });
+        }
+        await storage.recordStoryRevision(story.id, currentUser.id, "Created story");
+
+        // New stories have no readers yet, so publishing straight away is safe once the graph checks out
+        if (isPublished) {
+          const workingCopy = await storage.getWorkingCopy(story.id);
+          const validation = validateStorySnapshot(workingCopy!.snapshot);
+          if (!validation.isValid) {
+            return res.status(400).json({
+              message: "Story saved as a draft. Fix its errors before publishing",
+              storyId: story.id,
+              validation,
+            });
+          }
+          return res.json(await storage.publishStory(story.id, currentUser.id));
+        }
         res.json(story);
       } else {
         // Fallback to simple story creation (legacy)
         const story = await storage.createStory({
           title: title || "New Story",
           description: description || "Story description",
-          imageUrl: imageUrl || "https://images.unsplash.com/photo-1506905925346-21bda4d32df4",
+          imageUrl: imageUrl || "",
           spiceLevel: spiceLevel || 1,
           category: category || "straight",
+          authorId: currentUser.id,
         });
+        await storage.recordStoryRevision(story.id, currentUser.id, "Created story");
         res.json(story);
       }
     } catch (error) {
@@ -990,7 +1839,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   // REMOVED: Duplicate route - functionality moved to main /api/stories/draft route above
 
-  // Create complete story with pages and choices
+  // Create complete story with pages and choices; it goes through the same draft and publish checks as POST /api/stories
   app.post('/api/stories/complete', isAuthenticated, async (req: any, res) => {
     try {
       const currentUser = await storage.getUser(req.user.claims.sub);
@@ -998,63 +1847,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "Admin access required" });
       }
 
-      const { title, description, imageUrl, spiceLevel, category, isPublished, isFeatured, pages, wordCount, pathCount } = req.body;
+      const { title, description, imageUrl, spiceLevel, category, isPublished, isFeatured, pages } = req.body;
       
       if (!title || !description || !pages || pages.length === 0) {
         return res.status(400).json({ message: "Missing required fields" });
       }
+      const invalidTimeline = checkTimelineBody(req.body);
+      if (invalidTimeline) {
+        return res.status(400).json({ message: invalidTimeline });
+      }
 
-      // Create the story
-      const story = await storage.createStory({
-        title,
-        description,
-        imageUrl: imageUrl || '',
-        spiceLevel,
-        category,
-        wordCount: wordCount || 0,
-        pathCount: pathCount || 1,
+      const created = await storage.createStoryFromTimeline({
+        story: {
+          title,
+          description,
+          imageUrl: imageUrl || '',
+          spiceLevel,
+          category,
+          authorId: currentUser.id,
+        },
+        pages,
       });
-
-      // Create all pages
-      const pageMap: { [key: string]: string } = {}; // Map old IDs to new IDs
-      
-      for (const page of pages) {
-        const newPage = await storage.createStoryPage({
-          storyId: story.id,
-          title: page.title,
-          content: page.content,
-          order: page.order,
-          isStarting: page.order === 1,
-        });
-        pageMap[page.id] = newPage.id;
-      }
-
-      // Create all choices
-      for (const page of pages) {
-        if (page.choices && page.choices.length > 0) {
-          for (let i = 0; i < page.choices.length; i++) {
-            const choice = page.choices[i];
-            if (choice.text && choice.targetPageId && pageMap[choice.targetPageId]) {
-              await storage.createStoryChoice({
-                fromPageId: pageMap[page.id],
-                toPageId: pageMap[choice.targetPageId],
-                choiceText: choice.text,
-                order: i,
-                isPremium: choice.isPremium || false,
-                eggplantCost: choice.eggplantCost || 0,
-              });
-            }
-          }
+      await storage.recordStoryRevision(created.id, currentUser.id, "Created story");
+
+      if (isPublished) {
+        const workingCopy = await storage.getWorkingCopy(created.id);
+        const validation = validateStorySnapshot(workingCopy!.snapshot);
+        if (!validation.isValid) {
+          return res.status(400).json({
+            message: "Story saved as a draft. Fix its errors before publishing",
+            storyId: created.id,
+            validation,
+          });
         }
+        await storage.publishStory(created.id, currentUser.id);
       }
-
-      // Update story publish status if needed
-      if (isPublished || isFeatured) {
-        await storage.updateStory(story.id, {
-          isPublished: isPublished || false,
-          isFeatured: isFeatured || false,
-        });
-      }
+      const story = isFeatured
+        ? await storage.updateStory(created.id, { isFeatured: true })
+        : await storage.getStory(created.id);
 
       res.status(201).json({
         story,
@@ -1069,15 +1899,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.put('/api/stories/:storyId', isAuthenticated, async (req: any, res) => {
     try {
       const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
       }
 
       const { storyId } = req.params;
-      const updates = req.body;
-      
-      const story = await storage.updateStory(storyId, updates);
-      res.json(story);
+      // Ownership isn't editable here, and visibility changes go through publish/unpublish
+      const { title, description, imageUrl, spiceLevel, category, isFeatured } = req.body;
+      const detailUpdates = Object.fromEntries(
+        Object.entries({ title, description, imageUrl, spiceLevel, category }).filter(([, value]) => value !== undefined)
+      );
+
+      // Featuring and tags are discovery settings, so they apply right away rather than waiting for publish
+      const tags = normalizeStoryTags(req.body.tags);
+      if (isFeatured !== undefined || tags) {
+        await storage.updateStory(storyId, {
+          ...(isFeatured !== undefined ? { isFeatured } : {}),
+          ...(tags ? { tags } : {}),
+        });
+      }
+
+      const edit = await storage.editWorkingCopy(storyId, currentUser.id, "Updated story details", (workingCopy) => {
+        Object.assign(workingCopy.story, detailUpdates);
+        return workingCopy.story;
+      });
+      if (!edit) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      res.json(edit.result);
     } catch (error) {
       console.error("Error updating story:", error);
       res.status(500).json({ message: "Failed to update story" });
@@ -1087,8 +1937,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.delete('/api/stories/:storyId', isAuthenticated, async (req: any, res) => {
     try {
       const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Mega-admin access required" });
+      if (!currentUser || !(await storage.isStoryOwner(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only the story's owner can delete it" });
       }
 
       const { storyId } = req.params;
@@ -1103,26 +1953,40 @@ export async function registerRoutes(app: Express): Promise<Server> {
   app.post('/api/stories/:storyId/pages', isAuthenticated, async (req: any, res) => {
     try {
       const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!currentUser || !(await storage.canEditStory(currentUser, req.params.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
       }
 
       const { storyId } = req.params;
-      const { title, content, order, isStarting } = req.body;
+      const { title, content, order, isStarting, pageType } = req.body;
       
       if (!title || !content || order === undefined) {
         return res.status(400).json({ message: "Missing required fields" });
       }
+      const cleanContent = pageContentSchema.safeParse(content);
+      if (!cleanContent.success) {
+        return res.status(400).json({ message: "Invalid page content" });
+      }
 
-      const page = await storage.createStoryPage({
-        storyId,
-        title,
-        content,
-        order,
-        isStarting,
+      const edit = await storage.editWorkingCopy(storyId, currentUser.id, `Added page "${title}"`, (workingCopy) => {
+        const page = {
+          id: randomUUID(),
+          title,
+          content: cleanContent.data,
+          order,
+          pageType: pageType || "story",
+          isStarting: isStarting || false,
+          chatMessages: null,
+          nextPageId: null,
+        };
+        workingCopy.pages.push(page);
+        return page;
       });
+      if (!edit) {
+        return res.status(404).json({ message: "Story not found" });
+      }
 
-      res.status(201).json(page);
+      res.status(201).json({ ...edit.result, storyId });
     } catch (error) {
       console.error("Error creating story page:", error);
       res.status(500).json({ message: "Failed to create story page" });
@@ -1131,16 +1995,44 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.put('/api/pages/:pageId', isAuthenticated, async (req: any, res) => {
     try {
+      const { pageId } = req.params;
+      const storyId = await storage.getStoryIdForPage(pageId);
+      if (!storyId) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
       const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!currentUser || !(await storage.canEditStory(currentUser, storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
       }
 
-      const { pageId } = req.params;
-      const updates = req.body;
-      
-      const page = await storage.updateStoryPage(pageId, updates);
-      res.json(page);
+      // Pages can't be moved between stories, so storyId isn't accepted here
+      const { title, content, order, pageType, isStarting, nextPageId } = req.body;
+      // null clears a page's messages
+      const chatMessages = req.body.chatMessages == null ? undefined : chatMessagesSchema.safeParse(req.body.chatMessages);
+      if (chatMessages && !chatMessages.success) {
+        return res.status(400).json({ message: "Invalid chat messages" });
+      }
+      const cleanContent = content === undefined ? undefined : pageContentSchema.safeParse(content);
+      if (cleanContent && !cleanContent.success) {
+        return res.status(400).json({ message: "Invalid page content" });
+      }
+      const updates = Object.fromEntries(
+        Object.entries({ title, content: cleanContent?.data, order, pageType, isStarting, chatMessages: chatMessages?.data ?? req.body.chatMessages, nextPageId })
+          .filter(([, value]) => value !== undefined)
+      );
+
+      const edit = await storage.editWorkingCopy(storyId, currentUser.id, `Edited page "${title || pageId}"`, (workingCopy) => {
+        const page = workingCopy.pages.find((candidate) => candidate.id === pageId);
+        if (!page) return undefined;
+        Object.assign(page, updates);
+        return page;
+      });
+      if (!edit) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      res.json({ ...edit.result, storyId });
     } catch (error) {
       console.error("Error updating story page:", error);
       res.status(500).json({ message: "Failed to update story page" });
@@ -1149,13 +2041,32 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.delete('/api/pages/:pageId', isAuthenticated, async (req: any, res) => {
     try {
+      const { pageId } = req.params;
+      const storyId = await storage.getStoryIdForPage(pageId);
+      if (!storyId) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
       const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Mega-admin access required" });
+      if (!currentUser || !(await storage.canEditStory(currentUser, storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      // Choices into or out of the page and its ending card go with it
+      const edit = await storage.editWorkingCopy(storyId, currentUser.id, "Deleted a page", (workingCopy) => {
+        const page = workingCopy.pages.find((candidate) => candidate.id === pageId);
+        if (!page) return undefined;
+        workingCopy.pages = workingCopy.pages.filter((candidate) => candidate.id !== pageId);
+        workingCopy.choices = workingCopy.choices.filter(
+          (choice) => choice.fromPageId !== pageId && choice.toPageId !== pageId
+        );
+        workingCopy.endingCards = workingCopy.endingCards.filter((card) => card.pageId !== pageId);
+        return page;
+      });
+      if (!edit) {
+        return res.status(404).json({ message: "Page not found" });
       }
 
-      const { pageId } = req.params;
-      await storage.deleteStoryPage(pageId);
       res.json({ message: "Story page deleted successfully" });
     } catch (error) {
       console.error("Error deleting story page:", error);
@@ -1165,11 +2076,6 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
   app.post('/api/pages/:fromPageId/choices', isAuthenticated, async (req: any, res) => {
     try {
-      const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Admin access required" });
-      }
-
       const { fromPageId } = req.params;
       const { toPageId, choiceText, isPremium, eggplantCost } = req.body;
       
@@ -1177,15 +2083,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Missing required fields" });
       }
 
-      const choice = await storage.createStoryChoice({
-        fromPageId,
-        toPageId,
-        choiceText,
-        isPremium,
-        eggplantCost,
+      const storyId = await storage.getStoryIdForPage(fromPageId);
+      if (!storyId) {
+        return res.status(404).json({ message: "Page not found" });
+      }
+
+      const currentUser = await storage.getUser(req.user.claims.sub);
+      if (!currentUser || !(await storage.canEditStory(currentUser, storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
+      }
+
+      const edit = await storage.editWorkingCopy(storyId, currentUser.id, `Added choice "${choiceText}"`, (workingCopy) => {
+        const toPage = workingCopy.pages.find((page) => page.id === toPageId);
+        if (!toPage || !workingCopy.pages.some((page) => page.id === fromPageId)) return undefined;
+
+        const choice = {
+          id: randomUUID(),
+          fromPageId,
+          toPageId,
+          choiceText,
+          isPremium: isPremium || false,
+          eggplantCost: eggplantCost || 0,
+          order: workingCopy.choices.filter((existing) => existing.fromPageId === fromPageId).length,
+          targetPage: toPage.order,
+          targetPageId: toPageId,
+          effects: null,
+          conditions: null,
+        };
+        workingCopy.choices.push(choice);
+        return choice;
       });
+      if (!edit) {
+        return res.status(400).json({ message: "Choices must connect two pages of the same story" });
+      }
 
-      res.status(201).json(choice);
+      res.status(201).json(edit.result);
     } catch (error) {
       console.error("Error creating story choice:", error);
       res.status(500).json({ message: "Failed to create story choice" });
@@ -1201,15 +2133,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
 
       // Grant 20 eggplants to all users who have null or 0 eggplants
-      const result = await db
-        .update(users)
-        .set({ eggplants: 20, updatedAt: new Date() })
-        .where(sql`${users.eggplants} IS NULL OR ${users.eggplants} = 0`)
-        .returning();
+      const recipients = (await storage.getAllUsers()).filter(user => !user.eggplants);
+      for (const recipient of recipients) {
+        await storage.updateUserEggplants(recipient.id, 20, {
+          reason: 'admin_grant',
+          referenceId: currentUser.id,
+          description: 'Starting eggplants',
+        });
+      }
 
       res.json({ 
         message: "Starting eggplants (20) granted to all users without eggplants",
-        usersUpdated: result.length 
+        usersUpdated: recipients.length 
       });
     } catch (error) {
       console.error("Error granting starting eggplants:", error);
@@ -1239,12 +2174,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // For demo purposes, add eggplants directly (in production, this would be triggered by Stripe webhook)
       if (selectedPackage.eggplants === "∞") {
         // Set to 9999 for VIP package
-        await storage.updateUserEggplants(userId, 9999);
+        await storage.updateUserEggplants(userId, 9999, {
+          reason: 'package_purchase',
+          referenceId: selectedPackage.id,
+          description: 'VIP package',
+        });
       } else {
         const totalEggplants = (selectedPackage.eggplants as number) + (selectedPackage.bonus || 0);
-        const user = await storage.getUser(userId);
-        const currentEggplants = user?.eggplants || 0;
-        await storage.updateUserEggplants(userId, currentEggplants + totalEggplants);
+        await storage.addEggplantsToUser(userId, totalEggplants, {
+          reason: 'package_purchase',
+          referenceId: selectedPackage.id,
+          description: `${selectedPackage.id} package`,
+        });
       }
       
       res.json({ success: true, message: "Eggplants added successfully" });
@@ -1388,14 +2329,39 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Admin: Create ending card for a story
   app.post('/api/ending-cards', isAuthenticated, async (req: any, res) => {
     try {
+      const cardData = req.body;
+      const pageStoryId = cardData.pageId ? await storage.getStoryIdForPage(cardData.pageId) : undefined;
+      if (!cardData.storyId || !cardData.cardTitle || pageStoryId !== cardData.storyId) {
+        return res.status(400).json({ message: "Ending cards need a title and a page from the same story" });
+      }
+
       const currentUser = await storage.getUser(req.user.claims.sub);
-      if (currentUser?.role !== 'admin' && currentUser?.role !== 'mega-admin') {
-        return res.status(403).json({ message: "Admin access required" });
+      if (!currentUser || !(await storage.canEditStory(currentUser, cardData.storyId))) {
+        return res.status(403).json({ message: "Only this story's authors can edit it" });
       }
 
-      const cardData = req.body;
-      const card = await storage.createEndingCard(cardData);
-      res.json(card);
+      const edit = await storage.editWorkingCopy(cardData.storyId, currentUser.id, `Added ending card "${cardData.cardTitle}"`, (workingCopy) => {
+        const card = {
+          id: randomUUID(),
+          pageId: cardData.pageId,
+          cardTitle: cardData.cardTitle,
+          cardSubtitle: cardData.cardSubtitle ?? null,
+          cardDescription: cardData.cardDescription || "",
+          cardImageUrl: cardData.cardImageUrl ?? null,
+          rarity: cardData.rarity || "whisper",
+          emotionTag: cardData.emotionTag ?? null,
+          unlockCondition: cardData.unlockCondition ?? null,
+          isSecret: cardData.isSecret || false,
+          sortOrder: cardData.sortOrder || 0,
+        };
+        workingCopy.endingCards.push(card);
+        return card;
+      });
+      if (!edit) {
+        return res.status(404).json({ message: "Story not found" });
+      }
+
+      res.json({ ...edit.result, storyId: cardData.storyId });
     } catch (error) {
       console.error("Error creating ending card:", error);
       res.status(500).json({ message: "Failed to create ending card" });
@@ -1481,11 +2447,21 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       if (userId && eggplants) {
         try {
-          // Add eggplants to user account
-          await storage.addEggplantsToUser(userId, parseInt(eggplants));
-          // Eggplants added successfully
+          // Stripe retries webhooks - only credit each payment intent once
+          await storage.transaction(async (tx) => {
+            if (await tx.hasEggplantTransaction('stripe_purchase', paymentIntent.id)) return;
+            await tx.addEggplantsToUser(userId, parseInt(eggplants), {
+              reason: 'stripe_purchase',
+              referenceId: paymentIntent.id,
+              description: `Purchased ${eggplants} eggplants`,
+            });
+          });
         } catch (error) {
-          // Log error in production monitoring system
+          // A delivery running at the same time credited it first and the unique index turned this one away
+          const creditedElsewhere = await storage.hasEggplantTransaction('stripe_purchase', paymentIntent.id).catch(() => false);
+          if (!creditedElsewhere) {
+            console.error("Error crediting eggplants from webhook:", error);
+          }
         }
       }
     }
@@ -1493,6 +2469,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
     res.json({ received: true });
   });
 
+  // Reader URLs are keyed by page id (/story/:storyId/page/:pageId); old page-number links redirect
+  const redirectToReaderPage = async (res: Response, storyId: string, page: string) => {
+    const target = /^\d+$/.test(page)
+      ? (await storage.getStoryPages(storyId)).find(p => p.order === parseInt(page))
+      : await storage.getStoryPage(page);
+    if (!target || target.storyId !== storyId) {
+      return res.redirect(301, `/story/${storyId}`);
+    }
+    return res.redirect(301, `/story/${storyId}/page/${target.id}`);
+  };
+
+  app.get('/story/:storyId/page/:pageNumber(\\d+)', async (req, res) => {
+    try {
+      await redirectToReaderPage(res, req.params.storyId, req.params.pageNumber);
+    } catch (error) {
+      console.error("Error redirecting to reader page:", error);
+      res.status(500).json({ message: "Failed to open page" });
+    }
+  });
+
+  app.get('/story/:storyId', async (req, res, next) => {
+    if (typeof req.query.page !== 'string') return next();
+    try {
+      await redirectToReaderPage(res, req.params.storyId, req.query.page);
+    } catch (error) {
+      console.error("Error redirecting to reader page:", error);
+      res.status(500).json({ message: "Failed to open page" });
+    }
+  });
+
   // Story-specific typeable routes (e.g., /desert, /campus, /wife)
   const storyRouteMap: Record<string, string> = {
     'desert': 'desert-seduction',
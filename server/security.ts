@@ -1,6 +1,15 @@
 import { rateLimit, ipKeyGenerator } from "express-rate-limit";
 import { Request, Response, NextFunction } from "express";
 import { z } from "zod";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import {
+  FONT_SIZE_RANGE,
+  LINE_HEIGHT_RANGE,
+  PAGE_TURN_ANIMATIONS,
+  READER_FONT_FAMILIES,
+  READER_TEXT_WIDTHS,
+  READER_THEMES,
+} from "@shared/readerPreferences";
 
 // Rate limiting configurations
 export const generalLimiter = rateLimit({
@@ -90,9 +99,13 @@ export const sessionConfig = {
 };
 
 // Input validation schemas
+
+// Page text in the markdown StoryMarkdown reads, cleaned of anything else before it's stored
+export const pageContentSchema = z.string().max(20000).transform((content) => StoryMarkdown.sanitize(content));
+
 export const storyContentSchema = z.object({
-  title: z.string().min(1).max(200).regex(/^[a-zA-Z0-9\s\-.,!?'"]+$/),
-  content: z.string().min(1).max(10000),
+  title: z.string().trim().min(1).max(200),
+  content: pageContentSchema.pipe(z.string().min(1)),
   choiceText: z.string().min(1).max(500).optional(),
 });
 
@@ -100,4 +113,82 @@ export const premiumChoiceSchema = z.object({
   choiceId: z.string().uuid(),
   storyId: z.string().uuid(),
   pageId: z.string().uuid(),
-});
\ No newline at end of file
+});
+export const storyVariablesSchema = z.object({
+  variables: z.array(z.object({
+    name: z.string().min(1).max(64).regex(/^[a-zA-Z_][a-zA-Z0-9_]*$/),
+    type: z.enum(["number", "boolean"]),
+    defaultValue: z.union([z.number(), z.boolean()]),
+    description: z.string().max(500).optional(),
+  }).refine((variable) => typeof variable.defaultValue === variable.type, {
+    message: "defaultValue must match the variable type",
+  })).max(100),
+});
+
+// Choices a reader took while offline, oldest first; they're replayed through the story engine on sync
+export const offlineChoiceIdsSchema = z.array(z.string().min(1).max(64)).max(500);
+
+// Save slot names are chosen by readers and shown back to them in slot pickers
+export const saveSlotNameSchema = z.string().trim().min(1).max(40);
+
+export const saveSlotSchema = z.object({
+  name: saveSlotNameSchema,
+  copyFrom: saveSlotNameSchema.optional(), // Start as a copy of this slot rather than from the beginning
+});
+
+// Chat page messages; pacing is capped so one message can't stall playback for long
+export const chatMessageSchema = z.object({
+  id: z.string(),
+  characterId: z.string().max(200).optional(),
+  sender: z.string(),
+  message: z.string(),
+  timestamp: z.string().optional(),
+  isUser: z.boolean(),
+  delayMs: z.number().int().min(0).max(60000).optional(),
+  typingMs: z.number().int().min(0).max(60000).optional(),
+  attachment: z.object({
+    type: z.enum(["image", "voice"]),
+    url: z.string().max(2048), // Blank while the author is still choosing one
+    caption: z.string().max(500).optional(),
+    durationSeconds: z.number().min(0).max(3600).optional(),
+  }).optional(),
+  readReceipt: z.boolean().optional(),
+});
+
+export const chatMessagesSchema = z.array(chatMessageSchema).max(500);
+
+// A story's cast, as the builder sends it; ids the story doesn't have yet are replaced on save
+export const storyCharactersSchema = z.array(z.object({
+  id: z.string().min(1).max(200),
+  name: z.string().trim().min(1).max(80),
+  avatarUrl: z.string().max(2048).nullish(),
+  color: z.string().regex(/^#[0-9a-fA-F]{6}$/).nullish(),
+  pronouns: z.string().max(40).nullish(),
+  bio: z.string().max(2000).nullish(),
+})).max(100);
+
+// Reader settings; any left out keep their saved value
+export const readerPreferencesSchema = z.object({
+  fontFamily: z.enum(READER_FONT_FAMILIES),
+  fontSize: z.number().min(FONT_SIZE_RANGE.min).max(FONT_SIZE_RANGE.max),
+  lineHeight: z.number().min(LINE_HEIGHT_RANGE.min).max(LINE_HEIGHT_RANGE.max),
+  theme: z.enum(READER_THEMES),
+  pageTurnAnimation: z.enum(PAGE_TURN_ANIMATIONS),
+  textWidth: z.enum(READER_TEXT_WIDTHS),
+}).partial().strict();
+
+// Alt text is read aloud by screen readers wherever the image is used
+export const mediaAssetUpdateSchema = z.object({
+  altText: z.string().trim().max(500),
+});
+
+// Story tags arrive as an array or a comma-separated string; stored lowercase for search
+export function normalizeStoryTags(tags: unknown): string[] | undefined {
+  const raw = typeof tags === "string" ? tags.split(",") : Array.isArray(tags) ? tags : undefined;
+  if (!raw) return undefined;
+  const normalized = raw
+    .filter((tag): tag is string => typeof tag === "string")
+    .map((tag) => tag.trim().toLowerCase().replace(/\s+/g, "-").slice(0, 40))
+    .filter(Boolean);
+  return Array.from(new Set(normalized)).slice(0, 20);
+}
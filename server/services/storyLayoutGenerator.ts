@@ -1,28 +1,6 @@
-// Define types for story layout generation
-interface StoryMapData {
-  pageBubbles: Array<{
-    id: string;
-    pageNumber: number;
-    title: string;
-    type: 'story' | 'ending';
-    isPremium: boolean;
-    isOwned: boolean;
-    x: number;
-    y: number;
-    connections: string[];
-  }>;
-  choices: Array<{
-    id: string;
-    fromPageId: string;
-    toPageId: string | null;
-    text: string;
-    isPremium: boolean;
-    isOwned: boolean;
-    eggplantCost: number;
-    targetPage: number;
-  }>;
-}
+import type { StoryMapData } from "@shared/schema";
 
+// Define types for story layout generation
 interface MermaidPage {
   id: string;
   label: string;
@@ -71,20 +49,6 @@ export class StoryLayoutGenerator {
     return mermaidCode;
   }
 
-  /**
-   * Generate optimized layout positions using graph algorithms
-   */
-  generateOptimizedLayout(storyData: StoryMapData): StoryMapData {
-    // Create a hierarchical layout based on story flow
-    const levels = this.calculatePageLevels(storyData);
-    const positioned = this.positionPagesInLevels(storyData.pageBubbles, levels);
-    
-    return {
-      ...storyData,
-      pageBubbles: positioned
-    };
-  }
-
   private extractPages(pages: any[]): MermaidPage[] {
     return pages.map((page: any) => ({
       id: `page${page.pageNumber}`,
@@ -128,76 +92,6 @@ export class StoryLayoutGenerator {
     classDef ending fill:#fff7ed,stroke:#f59e0b,stroke-width:2px,color:#d97706
     `;
   }
-
-  private calculatePageLevels(storyData: StoryMapData): Map<string, number> {
-    const levels = new Map<string, number>();
-    const visited = new Set<string>();
-    
-    // Find starting pages (no incoming edges)
-    const incomingCount = new Map<string, number>();
-    storyData.choices.forEach(choice => {
-      if (choice.toPageId) {
-        incomingCount.set(choice.toPageId, (incomingCount.get(choice.toPageId) || 0) + 1);
-      }
-    });
-    
-    const startPages = storyData.pageBubbles
-      .filter((page: any) => !incomingCount.has(page.id))
-      .map((page: any) => page.id);
-    
-    // BFS to assign levels
-    const queue: Array<{id: string, level: number}> = startPages.map(id => ({id, level: 0}));
-    
-    while (queue.length > 0) {
-      const {id, level} = queue.shift()!;
-      
-      if (visited.has(id)) continue;
-      visited.add(id);
-      levels.set(id, level);
-      
-      // Add children to queue
-      const children = storyData.choices
-        .filter(choice => choice.fromPageId === id && choice.toPageId)
-        .map(choice => choice.toPageId!);
-      
-      children.forEach(childId => {
-        if (!visited.has(childId)) {
-          queue.push({id: childId, level: level + 1});
-        }
-      });
-    }
-    
-    return levels;
-  }
-
-  private positionPagesInLevels(pages: any[], levels: Map<string, number>): any[] {
-    const levelPages = new Map<number, any[]>();
-    
-    // Group pages by level
-    pages.forEach((page: any) => {
-      const level = levels.get(page.id) || 0;
-      if (!levelPages.has(level)) {
-        levelPages.set(level, []);
-      }
-      levelPages.get(level)!.push(page);
-    });
-    
-    // Position pages within each level
-    const positioned: any[] = [];
-    levelPages.forEach((levelPageList, level) => {
-      const yPos = level * 2; // Vertical spacing
-      levelPageList.forEach((page: any, index: number) => {
-        const xPos = (index - levelPageList.length / 2) * 2; // Center horizontally
-        positioned.push({
-          ...page,
-          x: xPos,
-          y: yPos
-        });
-      });
-    });
-    
-    return positioned;
-  }
 }
 
 export const storyLayoutGenerator = new StoryLayoutGenerator();
\ No newline at end of file
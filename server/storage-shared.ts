@@ -0,0 +1,468 @@
+import { randomUUID } from "crypto";
+import type { InsertAnalyticsEventRecord, ReaderPreferences, Story, StoryMapData, StoryPage, UserPreferences } from "@shared/schema";
+import type { CollectionStats, IStorage, TimelineData } from "./storage";
+import { cachedStoryLayout, type LayoutEdge, type StoryLayout } from "./story-layout";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import { remapCharacterReferences } from "./story-snapshots";
+
+// Row shaping shared by the database and in-memory storage backends
+
+export type StoryMapChoice = {
+  id: string;
+  fromPageId: string;
+  toPageId: string;
+  choiceText: string;
+  isPremium: boolean | null;
+  eggplantCost: number | null;
+  targetPage: number | null;
+  order: number;
+};
+
+export type { StoryMapData };
+
+// The reader's trail through a story: choices taken (oldest first) and where they are now
+export type StoryMapReaderPath = {
+  choiceIds: string[];
+  currentPageId: string | null;
+};
+
+// JSON with sorted keys, so snapshots compare equal after a jsonb round-trip
+export function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(",")}]`;
+  if (value instanceof Date) return JSON.stringify(value.toISOString());
+  if (value && typeof value === "object") {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, entry]) => entry !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+    return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalJson(entry)}`).join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// A stored preferences row without its bookkeeping, as the reader's settings see it
+export function toReaderPreferences({ userId: _userId, updatedAt: _updatedAt, ...preferences }: UserPreferences): ReaderPreferences {
+  return preferences;
+}
+
+// Map loosely-shaped event payloads onto the indexed columns, keeping the rest as metadata
+export function toAnalyticsEventRow(eventType: string, data: any): InsertAnalyticsEventRecord {
+  const {
+    type: _type,
+    eventType: action,
+    userId,
+    sessionId,
+    storyId,
+    pageId,
+    choiceId,
+    userEggplants,
+    choiceCost,
+    hasEnoughFunds,
+    timestamp,
+    metadata,
+    ...rest
+  } = data || {};
+
+  const extra = { ...(metadata || {}), ...rest };
+
+  return {
+    eventType,
+    action: typeof action === 'string' ? action : null,
+    userId: userId || null,
+    sessionId: sessionId || null,
+    storyId: storyId || null,
+    pageId: pageId || null,
+    choiceId: choiceId || null,
+    userEggplants: typeof userEggplants === 'number' ? userEggplants : null,
+    choiceCost: typeof choiceCost === 'number' ? choiceCost : null,
+    hasEnoughFunds: typeof hasEnoughFunds === 'boolean' ? hasEnoughFunds : null,
+    metadata: Object.keys(extra).length > 0 ? extra : null,
+    createdAt: timestamp instanceof Date ? timestamp : new Date(),
+  };
+}
+
+/**
+ * Reading progress is keyed by page id, with the page's order stored alongside for older clients.
+ * Fills in whichever of the two the caller left out; the id wins when both are given.
+ */
+export function progressPagePosition(
+  pages: Array<Pick<StoryPage, "id" | "order">>,
+  progress: { currentPageId?: string | null; currentPage?: number }
+): { currentPageId?: string | null; currentPage?: number } {
+  if (progress.currentPageId) {
+    const page = pages.find((candidate) => candidate.id === progress.currentPageId);
+    return { currentPageId: progress.currentPageId, currentPage: page?.order ?? progress.currentPage };
+  }
+  if (progress.currentPage !== undefined) {
+    const page = pages.find((candidate) => candidate.order === progress.currentPage);
+    return { currentPageId: page?.id ?? null, currentPage: progress.currentPage };
+  }
+  return {};
+}
+
+// Builds the reader's story map from a story's pages (in order), their choices (in page, then choice order)
+// and the story's layout (see loadStoryMapLayout). With a reader's path, pages and choices are marked with
+// what they've discovered so far.
+export function buildStoryMapData(
+  storyId: string,
+  pages: Array<Pick<StoryPage, "id" | "order" | "title" | "content" | "nextPageId">>,
+  allChoices: StoryMapChoice[],
+  ownedChoiceIds: Set<string>,
+  layout: StoryLayout,
+  readerPath?: StoryMapReaderPath
+): StoryMapData {
+  // Target page numbers follow the page a choice points at, so reordering pages can't misroute them
+  const orderByPageId = new Map(pages.map(page => [page.id, page.order]));
+
+  // Build accessible choice tree (only real branching choices, not navigation)
+  const accessibleChoices = allChoices.filter(choice => {
+    // Skip simple navigation choices
+    if (choice.choiceText === "Continue" || choice.choiceText === "Next") {
+      return false;
+    }
+    // Only include free choices or owned premium choices
+    return !choice.isPremium || ownedChoiceIds.has(choice.id);
+  }).map(choice => ({ ...choice, targetPage: orderByPageId.get(choice.toPageId) ?? null }));
+
+  // Create map page bubbles with positioning
+  const mapBubbles: StoryMapData["pageBubbles"] = [];
+  const visitedPageIds = readerPath ? traceReaderPath(pages, allChoices, readerPath) : new Set<string>();
+  const takenChoiceIds = new Set(readerPath?.choiceIds);
+  const endingPageIds = storyEndings(pages, allChoices);
+
+  // Use ALL pages to show complete story structure, not just accessible ones
+  pages.forEach(page => {
+    const pageChoices = accessibleChoices.filter(c => c.fromPageId === page.id);
+    const isChoicePage = pageChoices.length > 0;
+    const isEndingPage = pageChoices.length === 0 && page.order > 1;
+
+    // Generate two-word name based on content
+    let displayName = generateTwoWordName(page.title || '', page.content || '', isChoicePage, isEndingPage);
+
+    // Determine if this is a premium path
+    let hasPremiumPath = false;
+    let isOwned = true;
+    pageChoices.forEach(choice => {
+      if (choice.isPremium) {
+        hasPremiumPath = true;
+        if (!ownedChoiceIds.has(choice.id)) {
+          isOwned = false;
+        }
+      }
+    });
+
+    mapBubbles.push({
+      id: page.id,
+      type: isEndingPage ? 'ending' : isChoicePage ? 'choice' : 'page',
+      pageNumber: page.order,
+      title: displayName,
+      isPremium: hasPremiumPath,
+      isOwned: isOwned,
+      x: layout[page.id]?.x ?? 0,
+      y: layout[page.id]?.y ?? 0,
+      connections: pageChoices.map(c => c.id),
+      visited: visitedPageIds.has(page.id),
+      isCurrent: !!readerPath && readerPath.currentPageId === page.id,
+      isDiscoveredEnding: endingPageIds.has(page.id) && visitedPageIds.has(page.id),
+    });
+  });
+
+  return {
+    storyId,
+    pageBubbles: mapBubbles,
+    choices: accessibleChoices.map(choice => ({
+      id: choice.id,
+      fromPageId: choice.fromPageId,
+      toPageId: choice.toPageId,
+      text: choice.choiceText,
+      isPremium: choice.isPremium,
+      isOwned: ownedChoiceIds.has(choice.id),
+      eggplantCost: choice.eggplantCost || 0,
+      targetPage: choice.targetPage,
+      taken: takenChoiceIds.has(choice.id),
+    })),
+    reader: readerPath ? {
+      currentPageId: readerPath.currentPageId,
+      endingsFound: Array.from(endingPageIds).filter(pageId => visitedPageIds.has(pageId)).length,
+      totalEndings: endingPageIds.size,
+    } : null,
+  };
+}
+
+// Every link between pages, choices and reading on alike, for laying the story out
+function storyLinks(pages: Array<Pick<StoryPage, "id" | "order" | "nextPageId">>, allChoices: StoryMapChoice[]): LayoutEdge[] {
+  const choicePageIds = new Set(allChoices.map(choice => choice.fromPageId));
+  const orderedPages = [...pages].sort((a, b) => a.order - b.order);
+  const readOnLinks = orderedPages.flatMap(page => {
+    const nextPageId = linearNextPage(page, orderedPages, choicePageIds);
+    return nextPageId ? [{ fromPageId: page.id, toPageId: nextPageId }] : [];
+  });
+  return [...allChoices.map(choice => ({ fromPageId: choice.fromPageId, toPageId: choice.toPageId })), ...readOnLinks];
+}
+
+// The story's layout, shared by every reader (premium paths included). Pass the working copy's pages
+// and choices to lay out unpublished changes.
+export function loadStoryMapLayout(
+  storyId: string,
+  pages: Array<Pick<StoryPage, "id" | "order" | "nextPageId">>,
+  allChoices: StoryMapChoice[]
+): StoryLayout {
+  return cachedStoryLayout(storyId, pages, storyLinks(pages, allChoices));
+}
+
+// A signed-in reader's path for the story map, from their progress and choice history in a save slot
+export async function loadStoryMapReaderPath(
+  storage: Pick<IStorage, "getReadingProgress" | "getUserChoiceHistory">,
+  userId: string,
+  storyId: string,
+  slot?: string
+): Promise<StoryMapReaderPath> {
+  const progress = await storage.getReadingProgress(userId, storyId, slot);
+  const history = await storage.getUserChoiceHistory(userId, storyId, progress?.slot ?? slot);
+  return {
+    choiceIds: history.map(row => row.choiceId),
+    currentPageId: progress?.currentPageId ?? null,
+  };
+}
+
+// Where a page leads without a choice, as the story engine reads it: pages with choices stop there,
+// others go to their set next page or the next one in order
+function linearNextPage(
+  page: Pick<StoryPage, "id" | "order" | "nextPageId">,
+  pages: Array<Pick<StoryPage, "id" | "order" | "nextPageId">>,
+  choicePageIds: Set<string>
+): string | null {
+  if (choicePageIds.has(page.id)) return null;
+  if (page.nextPageId) return page.nextPageId;
+  return pages[pages.indexOf(page) + 1]?.id ?? null;
+}
+
+// The story's endings: pages with no choices and nothing after them
+function storyEndings(pages: Array<Pick<StoryPage, "id" | "order" | "nextPageId">>, allChoices: StoryMapChoice[]): Set<string> {
+  const choicePageIds = new Set(allChoices.map(choice => choice.fromPageId));
+  return new Set(pages.filter(page => !linearNextPage(page, pages, choicePageIds) && !choicePageIds.has(page.id)).map(page => page.id));
+}
+
+/**
+ * Pages the reader has been through: from the first page, each stretch of pages read in sequence up to
+ * the next choice they took, then on from where that choice led, ending at their current page.
+ * Jumps through the jump menu aren't in the history, so the current page is always counted.
+ */
+function traceReaderPath(
+  pages: Array<Pick<StoryPage, "id" | "order" | "nextPageId">>,
+  allChoices: StoryMapChoice[],
+  readerPath: StoryMapReaderPath
+): Set<string> {
+  const visited = new Set<string>();
+  if (readerPath.choiceIds.length === 0 && !readerPath.currentPageId) return visited;
+
+  const pagesById = new Map(pages.map(page => [page.id, page]));
+  const choicesById = new Map(allChoices.map(choice => [choice.id, choice]));
+  const choicePageIds = new Set(allChoices.map(choice => choice.fromPageId));
+
+  // Marks the pages read in sequence from `from` to `to`; if the sequence never gets there the
+  // reader must have jumped, so only `from` counts
+  const readOn = (from: string | undefined, to: string | null) => {
+    if (!from) return;
+    const stretch: string[] = [];
+    let page = pagesById.get(from);
+    while (page && !stretch.includes(page.id)) {
+      stretch.push(page.id);
+      if (page.id === to) {
+        stretch.forEach(pageId => visited.add(pageId));
+        return;
+      }
+      const next = linearNextPage(page, pages, choicePageIds);
+      page = next ? pagesById.get(next) : undefined;
+    }
+    visited.add(from);
+  };
+
+  let from = pages[0]?.id;
+  for (const choiceId of readerPath.choiceIds) {
+    const choice = choicesById.get(choiceId);
+    if (!choice) continue;
+    readOn(from, choice.fromPageId);
+    visited.add(choice.fromPageId);
+    from = choice.toPageId;
+  }
+  readOn(from, readerPath.currentPageId);
+  if (readerPath.currentPageId) visited.add(readerPath.currentPageId);
+
+  return visited;
+}
+
+// Generate two-word names based on content like in the sketch
+function generateTwoWordName(title: string, content: string, isChoicePage: boolean, isEndingPage: boolean): string {
+  // If it's an ending, use ending-specific words
+  if (isEndingPage) {
+    const endingWords = ['Back', 'Home', 'Away', 'Total', 'Submission', 'Dominated', 'Escape'];
+    const endings = ['Home', 'Away', 'Submission', 'Dominated', 'Escape', 'Complete'];
+    return `${endingWords[Math.floor(Math.random() * endingWords.length)]} ${endings[Math.floor(Math.random() * endings.length)]}`;
+  }
+
+  // For choice pages, extract meaningful words
+  const allText = `${title} ${content}`.toLowerCase();
+  
+  // Common two-word patterns from your sketch
+  const choicePatterns = [
+    'Look Hard', 'Sneak Around', 'Quick Peek', 'Subtle Flirting', 
+    'Making Work', 'The Choice', 'Back Wife', 'Away Go',
+    'Total Submission', 'Process Flow', 'Decision Point'
+  ];
+
+  // Try to match content to patterns
+  if (allText.includes('peek') || allText.includes('look')) return 'Quick Peek';
+  if (allText.includes('sneak') || allText.includes('around')) return 'Sneak Around';
+  if (allText.includes('hard') || allText.includes('difficult')) return 'Look Hard';
+  if (allText.includes('flirt') || allText.includes('subtle')) return 'Subtle Flirting';
+  if (allText.includes('work') || allText.includes('job')) return 'Making Work';
+  if (allText.includes('choice') || allText.includes('decide')) return 'The Choice';
+  if (allText.includes('wife') || allText.includes('home')) return 'Back Wife';
+  if (allText.includes('submit') || allText.includes('surrender')) return 'Total Submission';
+  if (allText.includes('dominate') || allText.includes('control')) return 'Dominated';
+  
+  // Default choice page name
+  return isChoicePage ? 'The Choice' : 'Process Flow';
+}
+
+// Goes through `storage` one row at a time, so both backends build a timeline story the same way
+export async function createStoryFromTimeline(storage: IStorage, timelineData: TimelineData): Promise<Story> {
+  // Calculate word and path counts
+  const wordCount = timelineData.pages.reduce((total, page) => {
+    return total + StoryMarkdown.toPlainText(page.content).split(/\s+/).filter(w => w.length > 0).length;
+  }, 0);
+  
+  const pathCount = timelineData.pages.reduce((total, page) => {
+    return total + (page.choices?.length || 0);
+  }, 0);
+
+  // Create the story
+  const story = await storage.createStory({
+    ...timelineData.story,
+    wordCount,
+    pathCount,
+  });
+
+  if (timelineData.variables && timelineData.variables.length > 0) {
+    await storage.setStoryVariables(story.id, timelineData.variables);
+  }
+
+  // Builder-local character ids are swapped for fresh ones, here and wherever pages refer to them
+  const characterIds = new Map((timelineData.characters ?? []).map((character) => [character.id, randomUUID()]));
+  if (characterIds.size > 0) {
+    await storage.setStoryCharacters(
+      story.id,
+      timelineData.characters!.map((character) => ({ ...character, id: characterIds.get(character.id)! }))
+    );
+  }
+
+  // Create all the pages as story pages
+  const pageMap = new Map<string, string>(); // pageId -> pageId mapping
+  
+  for (const page of timelineData.pages) {
+    const { content, chatMessages } = remapCharacterReferences(
+      { content: StoryMarkdown.sanitize(page.content), chatMessages: page.chatMessages ?? null },
+      characterIds
+    );
+    const newPage = await storage.createStoryPage({
+      storyId: story.id,
+      title: page.title,
+      content,
+      order: page.order,
+      isStarting: page.order === 1,
+    });
+    if (page.pageType === "chat") {
+      await storage.updateStoryPage(newPage.id, { pageType: "chat", chatMessages });
+    }
+    pageMap.set(page.id, newPage.id);
+  }
+
+  // Create all the choices with proper page references
+  for (const page of timelineData.pages) {
+    if (page.choices && page.choices.length > 0) {
+      const fromPageId = pageMap.get(page.id);
+      if (!fromPageId) continue;
+
+      for (let i = 0; i < page.choices.length; i++) {
+        const choice = page.choices[i];
+        const toPageId = pageMap.get(choice.targetPageId);
+        
+        if (toPageId) {
+          await storage.createStoryChoice({
+            fromPageId,
+            toPageId,
+            choiceText: choice.text,
+            order: i,
+            isPremium: choice.isPremium,
+            eggplantCost: choice.eggplantCost,
+            targetPageId: choice.targetPageId, // Store original page reference for new system
+            effects: choice.effects,
+            conditions: choice.conditions,
+          });
+        }
+      }
+    }
+  }
+
+  // Create ending cards for pages that have ending card data
+  for (const page of timelineData.pages) {
+    if (page.endingCard) {
+      const pageId = pageMap.get(page.id);
+      if (pageId) {
+        await storage.createEndingCard({
+          storyId: story.id,
+          pageId: pageId,
+          cardTitle: page.endingCard.cardTitle,
+          cardSubtitle: page.endingCard.cardSubtitle,
+          cardDescription: page.endingCard.cardDescription,
+          cardImageUrl: page.endingCard.cardImageUrl || '',
+          rarity: page.endingCard.rarity,
+          emotionTag: page.endingCard.emotionTag,
+          unlockCondition: page.endingCard.unlockCondition,
+        });
+      }
+    }
+  }
+
+  return story;
+}
+
+export function pickEndingCard<T extends { rarity: string | null }>(cards: T[]): T {
+  // Weighted random selection based on rarity (simplified three-tier system)
+  const rarityWeights = {
+    ember: 60,    // Common
+    flame: 30,    // Uncommon  
+    inferno: 10   // Rare
+  };
+  
+  const weightedCards: any[] = [];
+  cards.forEach(card => {
+    const weight = rarityWeights[card.rarity as keyof typeof rarityWeights] || 50;
+    for (let i = 0; i < weight; i++) {
+      weightedCards.push(card);
+    }
+  });
+  
+  return weightedCards[Math.floor(Math.random() * weightedCards.length)];
+}
+
+export function summarizeCollection(userCards: any[]): CollectionStats {
+  const stats = {
+    totalCards: userCards.length,
+    cardsByRarity: {
+      ember: 0,
+      flame: 0,
+      inferno: 0
+    },
+    completedStories: new Set(userCards.map(card => card.storyId)).size,
+    newCardsCount: userCards.filter(card => card.isNewCard).length
+  };
+
+  userCards.forEach(card => {
+    if (card.rarity && (card.rarity === 'ember' || card.rarity === 'flame' || card.rarity === 'inferno')) {
+      stats.cardsByRarity[card.rarity as keyof typeof stats.cardsByRarity]++;
+    }
+  });
+
+  return stats;
+}
@@ -1,7 +1,8 @@
 import { db } from "./db";
-import { eq, desc, and, sql, asc, inArray } from "drizzle-orm";
+import { eq, desc, and, or, sql, asc, inArray, gte, lte, exists, notExists, isNotNull, type SQL } from "drizzle-orm";
 import {
   users,
+  userPreferences,
   stories,
   storyPages,
   storyChoices,
@@ -12,8 +13,19 @@ import {
   purchasedPremiumPaths,
   endingCards,
   userEndingCards,
+  analyticsEvents,
+  eggplantTransactions,
+  storyVariables,
+  storyCharacters,
+  mediaAssets,
+  storyCoAuthors,
+  storyRevisions,
+  storyDrafts,
+  DEFAULT_SAVE_SLOT,
   type User,
   type UpsertUser,
+  type UserPreferences,
+  type ReaderPreferences,
   type Story,
   type StoryPage,
   type StoryChoice,
@@ -28,18 +40,402 @@ import {
   type InsertEndingCard,
   type UserEndingCard,
   type InsertUserEndingCard,
-
+  type InsertAnalyticsEventRecord,
+  type EggplantTransaction,
+  type InsertEggplantTransaction,
+  type StoryVariable,
+  type StoryCharacter,
+  type MediaAsset,
+  type InsertMediaAsset,
+  type StoryRevision,
+  type StorySnapshot,
+  type ChoiceEffect,
+  type ChoiceCondition,
+  type StoryVariableValues,
+  type ChatMessage,
 } from "@shared/schema";
+import type { StoryVariableDefinition } from "@shared/story-engine/types/StoryTypes";
+import { VariableEvaluator } from "@shared/story-engine/VariableEvaluator";
+import { DEFAULT_READER_PREFERENCES } from "@shared/readerPreferences";
+import { planPageRemap } from "./story-snapshots";
+import {
+  canonicalJson,
+  toAnalyticsEventRow,
+  buildStoryMapData,
+  loadStoryMapLayout,
+  loadStoryMapReaderPath,
+  createStoryFromTimeline,
+  pickEndingCard,
+  progressPagePosition,
+  summarizeCollection,
+  toReaderPreferences,
+  type StoryMapData,
+} from "./storage-shared";
+import { MemoryStorage } from "./memory-storage";
+import { fixtureSeed } from "./fixtures/stories";
+import type { PremiumAnalytics } from "./analytics/premium-analytics";
+
+// What a caller must say about a balance change; amount and balanceAfter are computed
+export type EggplantLedgerEntry = Pick<InsertEggplantTransaction, "reason" | "referenceId" | "description">;
+
+export type StoryCollaborator = {
+  userId: string;
+  email: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  addedAt: Date | null;
+};
+
+export type AuthorStorySummary = Story & {
+  authorRole: "owner" | "co-author";
+  readers: number;
+  completions: number;
+  premiumPurchases: number;
+  eggplantsEarned: number;
+  hasUnpublishedChanges: boolean;
+};
+
+export type StorySearchFilters = {
+  query?: string;
+  category?: string;
+  spiceLevels?: number[];
+  minWords?: number;
+  maxWords?: number;
+  minPaths?: number;
+  maxPaths?: number;
+  // The reader-specific filters only apply when userId is set
+  userId?: string;
+  status?: "unread" | "in_progress" | "completed";
+  hasUnownedPremium?: boolean;
+  page: number;
+  pageSize: number;
+};
+
+export type StorySearchResult = {
+  stories: Array<Story & { rank: number }>;
+  total: number;
+  page: number;
+  pageSize: number;
+  hasMore: boolean;
+};
+
+// Best page-content rank per story, for stories with at least one matching page
+function pageMatchesFor(tsQuery: SQL) {
+  return db
+    .select({
+      storyId: storyPages.storyId,
+      pageRank: sql<number>`max(ts_rank(to_tsvector('english', ${storyPages.content}), ${tsQuery}))`.as("page_rank"),
+    })
+    .from(storyPages)
+    .where(sql`to_tsvector('english', ${storyPages.content}) @@ ${tsQuery}`)
+    .groupBy(storyPages.storyId)
+    .as("page_matches");
+}
+
+// Either the pool or an open transaction, so helpers can run inside a caller's transaction
+type DbExecutor = Pick<typeof db, "select" | "insert" | "update" | "delete">;
+
+// What a DatabaseStorage queries: the pool, or the transaction it was opened inside
+type Database = Pick<typeof db, "select" | "insert" | "update" | "delete" | "transaction">;
+
+export type UserStats = {
+  storiesStarted: number;
+  storiesCompleted: number;
+  totalChoicesMade: number;
+  bookmarkedStories: number;
+  premiumChoicesUnlocked: number;
+  eggplantsSpent: number;
+};
+
+export type ReadingStats = {
+  totalReadingTimeMinutes: number;
+  totalStoriesRead: number;
+  totalChoicesMade: number;
+  favoriteGenres: string[];
+  recentActivity: any[];
+};
+
+// Whose discoveries a story map shows; without a slot, the one they read last
+export type StoryMapReader = {
+  userId: string;
+  slot?: string;
+};
+
+export type CollectionStats = {
+  totalCards: number;
+  cardsByRarity: Record<string, number>;
+  completedStories: number;
+  newCardsCount: number;
+};
+
+export type CreateStoryData = {
+  title: string;
+  description: string;
+  imageUrl: string;
+  spiceLevel: number;
+  category: string;
+  wordCount?: number;
+  pathCount?: number;
+  authorId?: string;
+};
+
+export type CreateStoryChoiceData = {
+  fromPageId: string;
+  toPageId: string;
+  choiceText: string;
+  order?: number;
+  isPremium?: boolean;
+  eggplantCost?: number;
+  targetPage?: number; // PAGE-BASED NAVIGATION SUPPORT
+  targetPageId?: string; // NEW VISUAL TIMELINE SUPPORT
+  effects?: ChoiceEffect[];
+  conditions?: ChoiceCondition[];
+};
+
+export type CreateEndingCardData = {
+  storyId: string;
+  pageId: string;
+  cardTitle: string;
+  cardSubtitle?: string;
+  cardDescription: string;
+  cardImageUrl?: string;
+  rarity?: "ember" | "flame" | "inferno";
+  emotionTag?: string;
+  unlockCondition?: string;
+  isSecret?: boolean;
+  sortOrder?: number;
+};
+
+export type TimelineData = {
+  story: {
+    title: string;
+    description: string;
+    imageUrl: string;
+    spiceLevel: number;
+    category: string;
+    isFeatured?: boolean;
+    isPublished?: boolean;
+    authorId?: string;
+  };
+  pages: Array<{
+    id: string;
+    title: string;
+    content: string;
+    order: number;
+    pageType: "story" | "choice" | "chat";
+    chatMessages?: ChatMessage[];
+    endingCard?: {
+      cardTitle: string;
+      cardSubtitle: string;
+      cardDescription: string;
+      cardImageUrl: string;
+      rarity: "ember" | "flame" | "inferno";
+      emotionTag: string;
+      unlockCondition: string;
+    };
+    choices?: Array<{
+      id: string;
+      text: string;
+      isPremium: boolean;
+      eggplantCost: number;
+      targetPageId: string;
+      effects?: ChoiceEffect[];
+      conditions?: ChoiceCondition[];
+    }>;
+  }>;
+  variables?: StoryVariableDefinition[];
+  characters?: StoryCharacterDefinition[];
+};
+
+// A cast member as authors edit it; the stored row adds the story and its place in the cast list
+export type StoryCharacterDefinition = Omit<StoryCharacter, "storyId" | "createdAt" | "sortOrder">;
+
+/**
+ * Everything the app reads and writes. DatabaseStorage is the Postgres implementation;
+ * MemoryStorage (STORAGE=memory) keeps the same data in process for local runs and tests.
+ */
+export interface IStorage {
+  /**
+   * Runs `work` atomically: if it throws, none of its writes are kept.
+   * Use the storage passed to `work`, not the outer one, for everything inside the transaction.
+   */
+  transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T>;
+
+  // === USER OPERATIONS ===
+  getUser(id: string): Promise<User | undefined>;
+  upsertUser(userData: UpsertUser): Promise<User>;
+  getUserByEmail(email: string): Promise<User | undefined>;
+  getAllUsers(): Promise<User[]>;
+  updateUserEggplants(userId: string, eggplants: number, entry: EggplantLedgerEntry): Promise<User>;
+  addEggplantsToUser(userId: string, eggplantsToAdd: number, entry: EggplantLedgerEntry): Promise<User>;
+  updateUserRole(userId: string, role: "guest" | "registered" | "admin" | "mega-admin"): Promise<User>;
+
+  // === READER PREFERENCE OPERATIONS ===
+  getReaderPreferences(userId: string): Promise<ReaderPreferences>; // Defaults until the reader saves any
+  updateReaderPreferences(userId: string, updates: Partial<ReaderPreferences>): Promise<ReaderPreferences>;
+
+  // === EGGPLANT LEDGER OPERATIONS ===
+  getEggplantHistory(userId: string, limit?: number, offset?: number): Promise<EggplantTransaction[]>;
+  hasEggplantTransaction(reason: EggplantTransaction["reason"], referenceId: string): Promise<boolean>;
+
+  // === STORY OPERATIONS ===
+  getAllStories(): Promise<Story[]>;
+  searchStories(filters: StorySearchFilters): Promise<StorySearchResult>;
+  getAllStoriesForAdmin(): Promise<Story[]>;
+  getFeaturedStory(): Promise<Story | undefined>;
+  getStory(id: string): Promise<Story | undefined>;
+  getStoriesByTitle(title: string): Promise<Story[]>;
+  createStory(storyData: CreateStoryData): Promise<Story>;
+  createStoryFromTimeline(timelineData: TimelineData): Promise<Story>;
+  updateStory(storyId: string, updates: Partial<Story>): Promise<Story>;
+  deleteStory(storyId: string): Promise<void>;
+
+  // === STORY PAGE AND CHOICE OPERATIONS ===
+  getStoryPages(storyId: string): Promise<StoryPage[]>;
+  getStoryPage(pageId: string): Promise<StoryPage | undefined>;
+  getFirstStoryPage(storyId: string): Promise<StoryPage | undefined>;
+  getStoryStartingPage(storyId: string): Promise<StoryPage | undefined>;
+  getFirstChoicePageNumber(storyId: string): Promise<number | null>;
+  createStoryPage(pageData: { storyId: string; title: string; content: string; order: number; isStarting?: boolean }): Promise<StoryPage>;
+  updateStoryPage(pageId: string, updates: Partial<StoryPage>): Promise<StoryPage>;
+  deleteStoryPage(pageId: string): Promise<void>;
+  getChoicesForPage(pageNumber: number, storyId: string): Promise<StoryChoice[]>;
+  getPageChoices(pageId: string): Promise<StoryChoice[]>;
+  getChoice(choiceId: string): Promise<StoryChoice | undefined>;
+  createStoryChoice(choiceData: CreateStoryChoiceData): Promise<StoryChoice>;
+  updateStoryChoice(choiceId: string, updates: Partial<StoryChoice>): Promise<StoryChoice>;
+  deleteStoryChoice(choiceId: string): Promise<void>;
+
+  // === AUTHORSHIP OPERATIONS ===
+  canEditStory(user: User, storyId: string): Promise<boolean>;
+  isStoryOwner(user: User, storyId: string): Promise<boolean>;
+  getStoryCoAuthors(storyId: string): Promise<StoryCollaborator[]>;
+  addStoryCoAuthor(storyId: string, userId: string): Promise<void>;
+  removeStoryCoAuthor(storyId: string, userId: string): Promise<void>;
+  getStoryAuthorName(storyId: string): Promise<string | null>;
+  getAuthorStories(userId: string): Promise<AuthorStorySummary[]>;
+
+  // === STORY REVISION OPERATIONS ===
+  buildStorySnapshot(storyId: string): Promise<StorySnapshot | undefined>;
+  recordStoryRevision(storyId: string, authorId: string | null, message?: string): Promise<StoryRevision | undefined>;
+  getStoryRevisions(storyId: string): Promise<Array<Omit<StoryRevision, "snapshot">>>;
+  getStoryRevision(storyId: string, revisionNumber: number): Promise<StoryRevision | undefined>;
+  restoreStoryRevision(storyId: string, revisionNumber: number, userId: string): Promise<StoryRevision | undefined>;
+
+  // === DRAFT / PUBLISH OPERATIONS ===
+  getWorkingCopy(storyId: string): Promise<{ snapshot: StorySnapshot; hasUnpublishedChanges: boolean } | undefined>;
+  getStoryIdForPage(pageId: string): Promise<string | undefined>;
+  editWorkingCopy<T>(
+    storyId: string,
+    userId: string,
+    message: string,
+    edit: (workingCopy: StorySnapshot) => T | undefined
+  ): Promise<{ result: T; revision: StoryRevision } | undefined>;
+  publishStory(storyId: string, userId: string): Promise<Story | undefined>;
+  unpublishStory(storyId: string): Promise<Story | undefined>;
+  discardStoryDraft(storyId: string): Promise<void>;
+  createStoryFromSnapshot(snapshot: StorySnapshot, authorId: string, message: string): Promise<Story>;
+
+  // === STORY VARIABLE OPERATIONS ===
+  getStoryVariables(storyId: string): Promise<StoryVariable[]>;
+  setStoryVariables(storyId: string, definitions: StoryVariableDefinition[]): Promise<StoryVariable[]>;
+  getStoryVariableValues(userId: string | undefined, storyId: string): Promise<StoryVariableValues>;
+  saveStoryVariableValues(userId: string, storyId: string, values: StoryVariableValues): Promise<void>;
+
+  // === STORY CHARACTER OPERATIONS ===
+  getStoryCharacters(storyId: string): Promise<StoryCharacter[]>; // In cast order
+  // Replaces the published cast wholesale, keeping the given ids and order
+  setStoryCharacters(storyId: string, characters: StoryCharacterDefinition[]): Promise<StoryCharacter[]>;
+
+  // === MEDIA LIBRARY OPERATIONS ===
+  // Rows only; the files themselves are kept by the media store
+  createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset>;
+  getMediaAssets(ownerId: string): Promise<MediaAsset[]>; // Newest first
+  getMediaAsset(id: string): Promise<MediaAsset | undefined>;
+  updateMediaAsset(id: string, updates: Pick<MediaAsset, "altText">): Promise<MediaAsset | undefined>;
+  deleteMediaAsset(id: string): Promise<void>;
+
+  // === READING PROGRESS OPERATIONS ===
+  // Progress is kept per save slot; when no slot is given these use the one the reader read last
+  getReadingProgress(userId: string, storyId: string, slot?: string): Promise<ReadingProgress | undefined>;
+  saveReadingProgress(progressData: InsertReadingProgress): Promise<ReadingProgress>;
+  markStoryCompleted(userId: string, storyId: string, slot?: string): Promise<ReadingProgress>;
+  deleteReadingProgress(userId: string, storyId: string, slot?: string): Promise<void>;
+  getUserStats(userId: string): Promise<UserStats>;
+  getUserReadingProgressWithStories(userId: string): Promise<Array<ReadingProgress & { story: Story }>>;
+  getReadingStats(userId: string): Promise<ReadingStats>;
+
+  // === SAVE SLOT OPERATIONS ===
+  getReadingSlots(userId: string, storyId: string): Promise<ReadingProgress[]>; // Most recently read first
+  // Copies a slot's progress and choice history into a new slot; undefined when the source doesn't exist
+  copyReadingSlot(userId: string, storyId: string, fromSlot: string, toSlot: string): Promise<ReadingProgress | undefined>;
+
+  // === USER CHOICE OPERATIONS ===
+  saveUserChoice(choiceData: InsertUserChoice): Promise<{ success: boolean }>;
+  getUserChoiceHistory(userId: string, storyId: string, slot?: string): Promise<any[]>;
+  clearUserChoiceHistory(userId: string, storyId: string, slot?: string): Promise<void>;
+  deleteUserChoices(userId: string, storyId: string, historyIds: string[]): Promise<void>;
+
+  // === PERSONAL BOOKMARK OPERATIONS ===
+  createPersonalBookmark(bookmarkData: InsertPersonalBookmark): Promise<PersonalBookmark>;
+  getPersonalBookmarks(userId: string, storyId?: string): Promise<PersonalBookmark[]>;
+  updatePersonalBookmark(bookmarkId: string, updates: Partial<PersonalBookmark>): Promise<PersonalBookmark>;
+  deletePersonalBookmark(bookmarkId: string): Promise<void>;
+
+  // === READING SESSION OPERATIONS ===
+  startReadingSession(sessionData: InsertReadingSession): Promise<ReadingSession>;
+  updateReadingSession(sessionId: string, updates: Partial<ReadingSession>): Promise<ReadingSession>;
+  endReadingSession(sessionId: string, endPageNumber?: number): Promise<ReadingSession>;
+  getUserReadingSessions(userId: string, limit?: number): Promise<ReadingSession[]>;
+  getActiveReadingSession(userId: string, storyId: string): Promise<ReadingSession | undefined>;
+
+  // === PREMIUM PATH OPERATIONS ===
+  purchasePremiumPath(pathData: { userId: string; storyId: string; choiceId: string; eggplantCost: number }): Promise<{ success: boolean }>;
+  hasPurchasedPremiumPath(userId: string, choiceId: string): Promise<boolean>;
+  getUserPurchasedPaths(userId: string, storyId?: string): Promise<any[]>;
+
+  // === STORY MAP GENERATION ===
+  // With a reader, marks the pages and endings they've discovered in their (latest, by default) save slot
+  getStoryMapData(storyId: string, ownedChoiceIds: Set<string>, reader?: StoryMapReader): Promise<StoryMapData>;
+
+  // === ANALYTICS EVENT OPERATIONS ===
+  logAnalyticsEvent(eventType: string, data: any): Promise<void>;
+  logAnalyticsEvents(events: Array<{ eventType: string; data: any }>): Promise<void>;
+  getPremiumChoiceAnalytics(storyId: string, choiceId?: string): Promise<PremiumAnalytics[]>;
+
+  // === ENDING CARDS SYSTEM ===
+  createEndingCard(cardData: CreateEndingCardData): Promise<any>;
+  getStoryEndingCards(storyId: string): Promise<any[]>;
+  getEndingCardForPage(pageId: string): Promise<any>;
+  hasCollectedCard(userId: string, cardId: string): Promise<boolean>;
+  awardRandomEndingCard(userId: string, pageId: string): Promise<any>;
+  awardEndingCard(userId: string, cardId: string): Promise<any>;
+  getUserEndingCards(userId: string, storyId?: string): Promise<any[]>;
+  markCardsAsViewed(userId: string, cardIds: string[]): Promise<void>;
+  getUserCollectionStats(userId: string): Promise<CollectionStats>;
+}
+
+export class DatabaseStorage implements IStorage {
+  private readonly db: Database;
+
+  constructor(executor: Database = db) {
+    this.db = executor;
+  }
+
+  async transaction<T>(work: (tx: IStorage) => Promise<T>): Promise<T> {
+    return await this.db.transaction(async (tx) => await work(new DatabaseStorage(tx)));
+  }
 
-export class Storage {
   // === USER OPERATIONS ===
   async getUser(id: string): Promise<User | undefined> {
-    const [user] = await db.select().from(users).where(eq(users.id, id));
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
     return user;
   }
 
   async upsertUser(userData: UpsertUser): Promise<User> {
-    const [user] = await db
+    const existing = userData.id ? await this.getUser(userData.id) : undefined;
+
+    const [user] = await this.db
       .insert(users)
       .values({
         ...userData,
@@ -55,36 +451,109 @@ export class Storage {
         },
       })
       .returning();
+
+    // Opening balance is the first ledger row for every new account
+    if (!existing && user.eggplants) {
+      await this.db.insert(eggplantTransactions).values({
+        userId: user.id,
+        amount: user.eggplants,
+        balanceAfter: user.eggplants,
+        reason: 'signup_bonus',
+        description: 'Welcome eggplants',
+      });
+    }
+    return user;
+  }
+
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.email, email));
     return user;
   }
 
   async getAllUsers(): Promise<User[]> {
-    return await db.select().from(users).orderBy(users.createdAt);
+    return await this.db.select().from(users).orderBy(users.createdAt);
   }
 
-  async updateUserEggplants(userId: string, eggplants: number): Promise<User> {
-    const [user] = await db
-      .update(users)
-      .set({ eggplants, updatedAt: new Date() })
-      .where(eq(users.id, userId))
-      .returning();
-    return user;
+  // Set an absolute balance (A/B tests, VIP package); the difference is written to the ledger
+  async updateUserEggplants(userId: string, eggplants: number, entry: EggplantLedgerEntry): Promise<User> {
+    return await this.changeUserEggplants(userId, (current) => eggplants - current, entry);
   }
 
-  async addEggplantsToUser(userId: string, eggplantsToAdd: number): Promise<User> {
-    const [user] = await db
-      .update(users)
-      .set({ 
-        eggplants: sql`COALESCE(${users.eggplants}, 0) + ${eggplantsToAdd}`,
-        updatedAt: new Date()
-      })
-      .where(eq(users.id, userId))
-      .returning();
-    return user;
+  // Credit (positive) or debit (negative) a balance and record it in the ledger
+  async addEggplantsToUser(userId: string, eggplantsToAdd: number, entry: EggplantLedgerEntry): Promise<User> {
+    return await this.changeUserEggplants(userId, () => eggplantsToAdd, entry);
+  }
+
+  private async changeUserEggplants(
+    userId: string,
+    computeDelta: (currentBalance: number) => number,
+    entry: EggplantLedgerEntry
+  ): Promise<User> {
+    return await this.db.transaction(async (tx) => {
+      // Row lock so concurrent changes serialize and balanceAfter stays consistent
+      const [current] = await tx
+        .select()
+        .from(users)
+        .where(eq(users.id, userId))
+        .for('update');
+
+      if (!current) {
+        throw new Error('User not found');
+      }
+
+      const currentBalance = current.eggplants || 0;
+      const amount = computeDelta(currentBalance);
+      const balanceAfter = currentBalance + amount;
+
+      if (balanceAfter < 0) {
+        throw new Error('Insufficient eggplants');
+      }
+
+      const [user] = await tx
+        .update(users)
+        .set({ eggplants: balanceAfter, updatedAt: new Date() })
+        .where(eq(users.id, userId))
+        .returning();
+
+      if (amount !== 0) {
+        await tx.insert(eggplantTransactions).values({
+          ...entry,
+          userId,
+          amount,
+          balanceAfter,
+        });
+      }
+
+      return user;
+    });
+  }
+
+  // === EGGPLANT LEDGER OPERATIONS ===
+  async getEggplantHistory(userId: string, limit: number = 50, offset: number = 0): Promise<EggplantTransaction[]> {
+    return await this.db
+      .select()
+      .from(eggplantTransactions)
+      .where(eq(eggplantTransactions.userId, userId))
+      .orderBy(desc(eggplantTransactions.createdAt))
+      .limit(limit)
+      .offset(offset);
+  }
+
+  // Used to make credits idempotent (e.g. Stripe retrying the same webhook)
+  async hasEggplantTransaction(reason: EggplantTransaction["reason"], referenceId: string): Promise<boolean> {
+    const [result] = await this.db
+      .select({ id: eggplantTransactions.id })
+      .from(eggplantTransactions)
+      .where(and(
+        eq(eggplantTransactions.reason, reason),
+        eq(eggplantTransactions.referenceId, referenceId)
+      ))
+      .limit(1);
+    return !!result;
   }
 
   async updateUserRole(userId: string, role: "guest" | "registered" | "admin" | "mega-admin"): Promise<User> {
-    const [user] = await db
+    const [user] = await this.db
       .update(users)
       .set({ role, updatedAt: new Date() })
       .where(eq(users.id, userId))
@@ -92,17 +561,126 @@ export class Storage {
     return user;
   }
 
+  // === READER PREFERENCE OPERATIONS ===
+  async getReaderPreferences(userId: string): Promise<ReaderPreferences> {
+    const [row] = await this.db.select().from(userPreferences).where(eq(userPreferences.userId, userId));
+    return row ? toReaderPreferences(row) : { ...DEFAULT_READER_PREFERENCES };
+  }
+
+  async updateReaderPreferences(userId: string, updates: Partial<ReaderPreferences>): Promise<ReaderPreferences> {
+    const [row] = await this.db
+      .insert(userPreferences)
+      .values({ ...updates, userId })
+      .onConflictDoUpdate({
+        target: userPreferences.userId,
+        set: { ...updates, updatedAt: new Date() },
+      })
+      .returning();
+    return toReaderPreferences(row);
+  }
+
   // === STORY OPERATIONS ===
   async getAllStories(): Promise<Story[]> {
-    return await db
+    return await this.db
       .select()
       .from(stories)
       .where(eq(stories.isPublished, true))
       .orderBy(desc(stories.isFeatured), stories.createdAt);
   }
 
+  /**
+   * Ranked full-text search over published stories.
+   * Title and description rank above page content; a matching tag counts like a title hit.
+   */
+  async searchStories(filters: StorySearchFilters): Promise<StorySearchResult> {
+    const conditions: SQL[] = [eq(stories.isPublished, true)];
+    const text = filters.query?.trim();
+    let rank: SQL<number> = sql<number>`0`;
+    let pageMatches: ReturnType<typeof pageMatchesFor> | undefined;
+
+    if (text) {
+      const tsQuery = sql`websearch_to_tsquery('english', ${text})`;
+      const storyVector = sql`(setweight(to_tsvector('english', ${stories.title}), 'A') || setweight(to_tsvector('english', ${stories.description}), 'B'))`;
+      // Multi-word tags are stored hyphenated, so "slow burn" also tries "slow-burn"
+      const words = text.toLowerCase().split(/\s+/).filter(Boolean);
+      const terms = words.length > 1 ? words.concat(words.join("-")) : words;
+      const tagMatch = sql`${stories.tags} && ARRAY[${sql.join(terms.map((term) => sql`${term}`), sql`, `)}]::text[]`;
+
+      pageMatches = pageMatchesFor(tsQuery);
+
+      conditions.push(or(sql`${storyVector} @@ ${tsQuery}`, isNotNull(pageMatches.storyId), tagMatch)!);
+      rank = sql<number>`(ts_rank(${storyVector}, ${tsQuery}) + COALESCE(${pageMatches.pageRank}, 0) * 0.5 + CASE WHEN ${tagMatch} THEN 0.5 ELSE 0 END)::float`;
+    }
+
+    // "all" stories suit every audience, so they show under either category
+    if (filters.category && filters.category !== "all") {
+      conditions.push(inArray(stories.category, [filters.category, "all"]));
+    }
+    if (filters.spiceLevels && filters.spiceLevels.length > 0) {
+      conditions.push(inArray(stories.spiceLevel, filters.spiceLevels));
+    }
+    if (filters.minWords !== undefined) conditions.push(gte(stories.wordCount, filters.minWords));
+    if (filters.maxWords !== undefined) conditions.push(lte(stories.wordCount, filters.maxWords));
+    if (filters.minPaths !== undefined) conditions.push(gte(stories.pathCount, filters.minPaths));
+    if (filters.maxPaths !== undefined) conditions.push(lte(stories.pathCount, filters.maxPaths));
+
+    if (filters.userId && filters.status) {
+      const progress = this.db
+        .select({ id: readingProgress.id })
+        .from(readingProgress)
+        .where(and(
+          eq(readingProgress.storyId, stories.id),
+          eq(readingProgress.userId, filters.userId),
+          filters.status === "completed" ? eq(readingProgress.isCompleted, true)
+            : filters.status === "in_progress" ? sql`${readingProgress.isCompleted} IS NOT TRUE`
+            : undefined
+        ));
+      conditions.push(filters.status === "unread" ? notExists(progress) : exists(progress));
+    }
+
+    if (filters.userId && filters.hasUnownedPremium) {
+      conditions.push(exists(
+        this.db
+          .select({ id: storyChoices.id })
+          .from(storyChoices)
+          .innerJoin(storyPages, eq(storyPages.id, storyChoices.fromPageId))
+          .where(and(
+            eq(storyPages.storyId, stories.id),
+            eq(storyChoices.isPremium, true),
+            notExists(
+              this.db
+                .select({ id: purchasedPremiumPaths.id })
+                .from(purchasedPremiumPaths)
+                .where(and(
+                  eq(purchasedPremiumPaths.choiceId, storyChoices.id),
+                  eq(purchasedPremiumPaths.userId, filters.userId)
+                ))
+            )
+          ))
+      ));
+    }
+
+    const baseQuery = this.db
+      .select({ story: stories, rank: rank.as("rank"), total: sql<number>`count(*) over()::int`.as("total") })
+      .from(stories);
+    const rows = await (pageMatches ? baseQuery.leftJoin(pageMatches, eq(pageMatches.storyId, stories.id)) : baseQuery)
+      .where(and(...conditions))
+      .orderBy(desc(sql`rank`), desc(stories.isFeatured), desc(stories.createdAt))
+      .limit(filters.pageSize)
+      .offset((filters.page - 1) * filters.pageSize);
+
+    const total = rows[0]?.total ?? 0;
+    return {
+      stories: rows.map((row) => ({ ...row.story, rank: Number(row.rank) })),
+      total,
+      page: filters.page,
+      pageSize: filters.pageSize,
+      hasMore: filters.page * filters.pageSize < total,
+    };
+  }
+
   async getStoryPages(storyId: string): Promise<StoryPage[]> {
-    return await db
+    return await this.db
       .select()
       .from(storyPages)
       .where(eq(storyPages.storyId, storyId))
@@ -111,7 +689,7 @@ export class Storage {
 
   async getFirstChoicePageNumber(storyId: string): Promise<number | null> {
     // Find the first page that has choices by joining with story_choices
-    const result = await db
+    const result = await this.db
       .select({ 
         pageOrder: storyPages.order 
       })
@@ -125,22 +703,14 @@ export class Storage {
   }
 
   async getAllStoriesForAdmin(): Promise<Story[]> {
-    return await db
+    return await this.db
       .select()
       .from(stories)
       .orderBy(desc(stories.isFeatured), desc(stories.createdAt));
   }
 
-  async createStory(storyData: {
-    title: string;
-    description: string;
-    imageUrl: string;
-    spiceLevel: number;
-    category: string;
-    wordCount?: number;
-    pathCount?: number;
-  }): Promise<Story> {
-    const [story] = await db
+  async createStory(storyData: CreateStoryData): Promise<Story> {
+    const [story] = await this.db
       .insert(stories)
       .values({
         ...storyData,
@@ -154,7 +724,7 @@ export class Storage {
   }
 
   async updateStory(storyId: string, updates: Partial<Story>): Promise<Story> {
-    const [story] = await db
+    const [story] = await this.db
       .update(stories)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(stories.id, storyId))
@@ -163,120 +733,12 @@ export class Storage {
   }
 
   async deleteStory(storyId: string): Promise<void> {
-    await db.delete(stories).where(eq(stories.id, storyId));
+    await this.db.delete(stories).where(eq(stories.id, storyId));
   }
 
   // NEW: Create complete story from visual timeline data
-  async createStoryFromTimeline(timelineData: {
-    story: {
-      title: string;
-      description: string;
-      imageUrl: string;
-      spiceLevel: number;
-      category: string;
-      isFeatured?: boolean;
-      isPublished?: boolean;
-    };
-    pages: Array<{
-      id: string;
-      title: string;
-      content: string;
-      order: number;
-      pageType: "story" | "choice";
-      endingCard?: {
-        cardTitle: string;
-        cardSubtitle: string;
-        cardDescription: string;
-        cardImageUrl: string;
-        rarity: "ember" | "flame" | "inferno";
-        emotionTag: string;
-        unlockCondition: string;
-      };
-      choices?: Array<{
-        id: string;
-        text: string;
-        isPremium: boolean;
-        eggplantCost: number;
-        targetPageId: string;
-      }>;
-    }>;
-  }): Promise<Story> {
-    // Calculate word and path counts
-    const wordCount = timelineData.pages.reduce((total, page) => {
-      return total + page.content.split(' ').filter(w => w.length > 0).length;
-    }, 0);
-    
-    const pathCount = timelineData.pages.reduce((total, page) => {
-      return total + (page.choices?.length || 0);
-    }, 0);
-
-    // Create the story
-    const story = await this.createStory({
-      ...timelineData.story,
-      wordCount,
-      pathCount,
-    });
-
-    // Create all the pages as story pages
-    const pageMap = new Map<string, string>(); // pageId -> pageId mapping
-    
-    for (const page of timelineData.pages) {
-      const newPage = await this.createStoryPage({
-        storyId: story.id,
-        title: page.title,
-        content: page.content,
-        order: page.order,
-        isStarting: page.order === 1,
-      });
-      pageMap.set(page.id, newPage.id);
-    }
-
-    // Create all the choices with proper page references
-    for (const page of timelineData.pages) {
-      if (page.choices && page.choices.length > 0) {
-        const fromPageId = pageMap.get(page.id);
-        if (!fromPageId) continue;
-
-        for (let i = 0; i < page.choices.length; i++) {
-          const choice = page.choices[i];
-          const toPageId = pageMap.get(choice.targetPageId);
-          
-          if (toPageId) {
-            await this.createStoryChoice({
-              fromPageId,
-              toPageId,
-              choiceText: choice.text,
-              order: i,
-              isPremium: choice.isPremium,
-              eggplantCost: choice.eggplantCost,
-              targetPageId: choice.targetPageId, // Store original page reference for new system
-            });
-          }
-        }
-      }
-    }
-
-    // Create ending cards for pages that have ending card data
-    for (const page of timelineData.pages) {
-      if (page.endingCard) {
-        const pageId = pageMap.get(page.id);
-        if (pageId) {
-          await this.createEndingCard({
-            storyId: story.id,
-            pageId: pageId,
-            cardTitle: page.endingCard.cardTitle,
-            cardSubtitle: page.endingCard.cardSubtitle,
-            cardDescription: page.endingCard.cardDescription,
-            cardImageUrl: page.endingCard.cardImageUrl || '',
-            rarity: page.endingCard.rarity,
-            emotionTag: page.endingCard.emotionTag,
-            unlockCondition: page.endingCard.unlockCondition,
-          });
-        }
-      }
-    }
-
-    return story;
+  async createStoryFromTimeline(timelineData: TimelineData): Promise<Story> {
+    return await createStoryFromTimeline(this, timelineData);
   }
 
   async createStoryPage(pageData: {
@@ -286,7 +748,7 @@ export class Storage {
     order: number;
     isStarting?: boolean;
   }): Promise<StoryPage> {
-    const [page] = await db
+    const [page] = await this.db
       .insert(storyPages)
       .values({
         ...pageData,
@@ -297,7 +759,7 @@ export class Storage {
   }
 
   async updateStoryPage(pageId: string, updates: Partial<StoryPage>): Promise<StoryPage> {
-    const [page] = await db
+    const [page] = await this.db
       .update(storyPages)
       .set(updates)
       .where(eq(storyPages.id, pageId))
@@ -306,20 +768,11 @@ export class Storage {
   }
 
   async deleteStoryPage(pageId: string): Promise<void> {
-    await db.delete(storyPages).where(eq(storyPages.id, pageId));
-  }
-
-  async createStoryChoice(choiceData: {
-    fromPageId: string;
-    toPageId: string;
-    choiceText: string;
-    order?: number;
-    isPremium?: boolean;
-    eggplantCost?: number;
-    targetPage?: number; // PAGE-BASED NAVIGATION SUPPORT
-    targetPageId?: string; // NEW VISUAL TIMELINE SUPPORT
-  }): Promise<StoryChoice> {
-    const [choice] = await db
+    await this.db.delete(storyPages).where(eq(storyPages.id, pageId));
+  }
+
+  async createStoryChoice(choiceData: CreateStoryChoiceData): Promise<StoryChoice> {
+    const [choice] = await this.db
       .insert(storyChoices)
       .values({
         fromPageId: choiceData.fromPageId,
@@ -330,13 +783,15 @@ export class Storage {
         eggplantCost: choiceData.eggplantCost || 0,
         targetPage: choiceData.targetPage, // PAGE-BASED NAVIGATION
         targetPageId: choiceData.targetPageId, // NEW VISUAL TIMELINE SUPPORT
+        effects: choiceData.effects?.length ? choiceData.effects : null,
+        conditions: choiceData.conditions?.length ? choiceData.conditions : null,
       })
       .returning();
     return choice;
   }
 
   async updateStoryChoice(choiceId: string, updates: Partial<StoryChoice>): Promise<StoryChoice> {
-    const [choice] = await db
+    const [choice] = await this.db
       .update(storyChoices)
       .set(updates)
       .where(eq(storyChoices.id, choiceId))
@@ -345,11 +800,11 @@ export class Storage {
   }
 
   async deleteStoryChoice(choiceId: string): Promise<void> {
-    await db.delete(storyChoices).where(eq(storyChoices.id, choiceId));
+    await this.db.delete(storyChoices).where(eq(storyChoices.id, choiceId));
   }
 
   async getFeaturedStory(): Promise<Story | undefined> {
-    const [story] = await db
+    const [story] = await this.db
       .select()
       .from(stories)
       .where(and(eq(stories.isFeatured, true), eq(stories.isPublished, true)))
@@ -358,14 +813,14 @@ export class Storage {
   }
 
   async getStory(id: string): Promise<Story | undefined> {
-    const [story] = await db.select().from(stories).where(eq(stories.id, id));
+    const [story] = await this.db.select().from(stories).where(eq(stories.id, id));
     return story;
   }
 
   // === STORY PAGE OPERATIONS ===
 
   async getFirstStoryPage(storyId: string): Promise<StoryPage | undefined> {
-    const [node] = await db
+    const [node] = await this.db
       .select()
       .from(storyPages)
       .where(eq(storyPages.storyId, storyId))
@@ -382,67 +837,687 @@ export class Storage {
     if (pageIndex < 0 || pageIndex >= allPages.length) return [];
     
     const currentPage = allPages[pageIndex];
-    return await db
+    return await this.db
       .select()
       .from(storyChoices)
       .where(eq(storyChoices.fromPageId, currentPage.id))
       .orderBy(storyChoices.order);
   }
 
+  async getPageChoices(pageId: string): Promise<StoryChoice[]> {
+    return await this.db
+      .select()
+      .from(storyChoices)
+      .where(eq(storyChoices.fromPageId, pageId))
+      .orderBy(storyChoices.order);
+  }
+
   async getChoice(choiceId: string): Promise<StoryChoice | undefined> {
-    const [choice] = await db.select().from(storyChoices).where(eq(storyChoices.id, choiceId));
+    const [choice] = await this.db.select().from(storyChoices).where(eq(storyChoices.id, choiceId));
     return choice;
   }
 
   async getStoryPage(pageId: string): Promise<StoryPage | undefined> {
-    const [page] = await db.select().from(storyPages).where(eq(storyPages.id, pageId));
+    const [page] = await this.db.select().from(storyPages).where(eq(storyPages.id, pageId));
     return page;
   }
 
+  // === AUTHORSHIP OPERATIONS ===
+  // Owners and co-authors may edit; mega-admins may edit anything, including legacy stories with no owner
+  async canEditStory(user: User, storyId: string): Promise<boolean> {
+    if (user.role === 'mega-admin') return true;
+    if (user.role !== 'admin') return false;
+
+    const story = await this.getStory(storyId);
+    if (!story) return false;
+    if (story.authorId === user.id) return true;
+
+    const [coAuthor] = await this.db
+      .select({ id: storyCoAuthors.id })
+      .from(storyCoAuthors)
+      .where(and(eq(storyCoAuthors.storyId, storyId), eq(storyCoAuthors.userId, user.id)));
+    return !!coAuthor;
+  }
+
+  // Only the owner (or a mega-admin) may delete a story or change who co-authors it
+  async isStoryOwner(user: User, storyId: string): Promise<boolean> {
+    if (user.role === 'mega-admin') return true;
+    const story = await this.getStory(storyId);
+    return !!story && story.authorId === user.id;
+  }
+
+  async getStoryCoAuthors(storyId: string): Promise<StoryCollaborator[]> {
+    return await this.db
+      .select({
+        userId: users.id,
+        email: users.email,
+        firstName: users.firstName,
+        lastName: users.lastName,
+        addedAt: storyCoAuthors.createdAt,
+      })
+      .from(storyCoAuthors)
+      .innerJoin(users, eq(storyCoAuthors.userId, users.id))
+      .where(eq(storyCoAuthors.storyId, storyId))
+      .orderBy(asc(storyCoAuthors.createdAt));
+  }
+
+  async addStoryCoAuthor(storyId: string, userId: string): Promise<void> {
+    await this.db
+      .insert(storyCoAuthors)
+      .values({ storyId, userId })
+      .onConflictDoNothing();
+  }
+
+  async removeStoryCoAuthor(storyId: string, userId: string): Promise<void> {
+    await this.db
+      .delete(storyCoAuthors)
+      .where(and(eq(storyCoAuthors.storyId, storyId), eq(storyCoAuthors.userId, userId)));
+  }
+
+  async getStoryAuthorName(storyId: string): Promise<string | null> {
+    const [author] = await this.db
+      .select({ firstName: users.firstName, lastName: users.lastName, email: users.email })
+      .from(stories)
+      .innerJoin(users, eq(stories.authorId, users.id))
+      .where(eq(stories.id, storyId));
+    if (!author) return null;
+    const name = [author.firstName, author.lastName].filter(Boolean).join(' ');
+    return name || author.email;
+  }
+
+  // Drafts and published stories the user owns or co-authors, with reader stats
+  async getAuthorStories(userId: string): Promise<AuthorStorySummary[]> {
+    const coAuthoredIds = this.db
+      .select({ storyId: storyCoAuthors.storyId })
+      .from(storyCoAuthors)
+      .where(eq(storyCoAuthors.userId, userId));
+
+    const authored = await this.db
+      .select()
+      .from(stories)
+      .where(or(eq(stories.authorId, userId), inArray(stories.id, coAuthoredIds)))
+      .orderBy(desc(stories.updatedAt));
+
+    if (authored.length === 0) return [];
+    const storyIds = authored.map((story) => story.id);
+
+    const readerStats = await this.db
+      .select({
+        storyId: readingProgress.storyId,
+        readers: sql<number>`count(distinct ${readingProgress.userId})::int`,
+        completions: sql<number>`count(distinct ${readingProgress.userId}) filter (where ${readingProgress.isCompleted})::int`,
+      })
+      .from(readingProgress)
+      .where(inArray(readingProgress.storyId, storyIds))
+      .groupBy(readingProgress.storyId);
+
+    const purchaseStats = await this.db
+      .select({
+        storyId: purchasedPremiumPaths.storyId,
+        purchases: sql<number>`count(*)::int`,
+        eggplants: sql<number>`COALESCE(SUM(${purchasedPremiumPaths.eggplantCost}), 0)::int`,
+      })
+      .from(purchasedPremiumPaths)
+      .where(inArray(purchasedPremiumPaths.storyId, storyIds))
+      .groupBy(purchasedPremiumPaths.storyId);
+
+    const draftRows = await this.db
+      .select({ storyId: storyDrafts.storyId })
+      .from(storyDrafts)
+      .where(inArray(storyDrafts.storyId, storyIds));
+
+    const readersByStory = new Map(readerStats.map((row) => [row.storyId, row]));
+    const draftStoryIds = new Set(draftRows.map((row) => row.storyId));
+    const purchasesByStory = new Map(purchaseStats.map((row) => [row.storyId, row]));
+
+    return authored.map((story) => ({
+      ...story,
+      authorRole: story.authorId === userId ? "owner" as const : "co-author" as const,
+      readers: readersByStory.get(story.id)?.readers || 0,
+      completions: readersByStory.get(story.id)?.completions || 0,
+      premiumPurchases: purchasesByStory.get(story.id)?.purchases || 0,
+      eggplantsEarned: purchasesByStory.get(story.id)?.eggplants || 0,
+      hasUnpublishedChanges: draftStoryIds.has(story.id),
+    }));
+  }
+
+  // === STORY REVISION OPERATIONS ===
+  async buildStorySnapshot(storyId: string, executor: DbExecutor = this.db): Promise<StorySnapshot | undefined> {
+    const [story] = await executor.select().from(stories).where(eq(stories.id, storyId));
+    if (!story) return undefined;
+
+    const pages = await executor
+      .select()
+      .from(storyPages)
+      .where(eq(storyPages.storyId, storyId))
+      .orderBy(storyPages.order);
+    const pageIds = pages.map((page) => page.id);
+    const choices = pageIds.length > 0
+      ? await executor
+          .select()
+          .from(storyChoices)
+          .where(inArray(storyChoices.fromPageId, pageIds))
+          .orderBy(asc(storyChoices.fromPageId), asc(storyChoices.order))
+      : [];
+    const cards = await executor.select().from(endingCards).where(eq(endingCards.storyId, storyId));
+    const variables = await executor
+      .select()
+      .from(storyVariables)
+      .where(eq(storyVariables.storyId, storyId))
+      .orderBy(asc(storyVariables.name));
+    const characters = await executor
+      .select()
+      .from(storyCharacters)
+      .where(eq(storyCharacters.storyId, storyId))
+      .orderBy(asc(storyCharacters.sortOrder));
+
+    return {
+      story: {
+        title: story.title,
+        description: story.description,
+        imageUrl: story.imageUrl,
+        spiceLevel: story.spiceLevel,
+        category: story.category,
+      },
+      pages: pages.map(({ storyId: _storyId, createdAt: _createdAt, ...page }) => page),
+      choices: choices.map(({ createdAt: _createdAt, ...choice }) => choice),
+      endingCards: cards.map(({ storyId: _storyId, createdAt: _createdAt, ...card }) => card),
+      variables: variables.map((variable) => ({
+        name: variable.name,
+        type: variable.type,
+        defaultValue: variable.defaultValue,
+        description: variable.description || undefined,
+      })),
+      characters: characters.map(({ storyId: _storyId, createdAt: _createdAt, ...character }) => character),
+    };
+  }
+
+  // Snapshots the story's working copy; numbers are allocated under a lock on the story row
+  async recordStoryRevision(storyId: string, authorId: string | null, message?: string): Promise<StoryRevision | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [story] = await tx.select({ id: stories.id }).from(stories).where(eq(stories.id, storyId)).for('update');
+      if (!story) return undefined;
+
+      const snapshot = await this.loadWorkingCopy(tx, storyId);
+      return await this.insertRevision(tx, storyId, authorId, message, snapshot!);
+    });
+  }
+
+  // Callers must hold the story row lock. Saves that changed nothing return the latest revision instead.
+  private async insertRevision(
+    tx: DbExecutor,
+    storyId: string,
+    authorId: string | null,
+    message: string | undefined,
+    snapshot: StorySnapshot
+  ): Promise<StoryRevision> {
+    const [latest] = await tx
+      .select()
+      .from(storyRevisions)
+      .where(eq(storyRevisions.storyId, storyId))
+      .orderBy(desc(storyRevisions.revisionNumber))
+      .limit(1);
+
+    if (latest && canonicalJson(latest.snapshot) === canonicalJson(snapshot)) {
+      return latest;
+    }
+
+    const [revision] = await tx
+      .insert(storyRevisions)
+      .values({
+        storyId,
+        revisionNumber: (latest?.revisionNumber || 0) + 1,
+        authorId,
+        message,
+        snapshot,
+      })
+      .returning();
+    return revision;
+  }
+
+  async getStoryRevisions(storyId: string): Promise<Array<Omit<StoryRevision, "snapshot">>> {
+    return await this.db
+      .select({
+        id: storyRevisions.id,
+        storyId: storyRevisions.storyId,
+        revisionNumber: storyRevisions.revisionNumber,
+        authorId: storyRevisions.authorId,
+        message: storyRevisions.message,
+        createdAt: storyRevisions.createdAt,
+      })
+      .from(storyRevisions)
+      .where(eq(storyRevisions.storyId, storyId))
+      .orderBy(desc(storyRevisions.revisionNumber));
+  }
+
+  async getStoryRevision(storyId: string, revisionNumber: number): Promise<StoryRevision | undefined> {
+    const [revision] = await this.db
+      .select()
+      .from(storyRevisions)
+      .where(and(
+        eq(storyRevisions.storyId, storyId),
+        eq(storyRevisions.revisionNumber, revisionNumber)
+      ));
+    return revision;
+  }
+
+  // Restoring makes the old revision the working copy; published stories still need a publish to go live
+  async restoreStoryRevision(storyId: string, revisionNumber: number, userId: string): Promise<StoryRevision | undefined> {
+    const revision = await this.getStoryRevision(storyId, revisionNumber);
+    if (!revision) return undefined;
+
+    const result = await this.editWorkingCopy(storyId, userId, `Restored revision ${revisionNumber}`, (workingCopy) => {
+      Object.assign(workingCopy, revision.snapshot);
+      return true;
+    });
+    return result?.revision;
+  }
+
+  // === DRAFT / PUBLISH OPERATIONS ===
+  async getWorkingCopy(storyId: string): Promise<{ snapshot: StorySnapshot; hasUnpublishedChanges: boolean } | undefined> {
+    const [draft] = await this.db.select().from(storyDrafts).where(eq(storyDrafts.storyId, storyId));
+    if (draft) {
+      return { snapshot: draft.snapshot, hasUnpublishedChanges: true };
+    }
+    const snapshot = await this.buildStorySnapshot(storyId);
+    return snapshot && { snapshot, hasUnpublishedChanges: false };
+  }
+
+  // Pages that only exist in a draft aren't in story_pages yet, so look in both places
+  async getStoryIdForPage(pageId: string): Promise<string | undefined> {
+    const page = await this.getStoryPage(pageId);
+    if (page) return page.storyId;
+
+    const [draft] = await this.db
+      .select({ storyId: storyDrafts.storyId })
+      .from(storyDrafts)
+      .where(sql`${storyDrafts.snapshot}->'pages' @> ${JSON.stringify([{ id: pageId }])}::jsonb`);
+    return draft?.storyId;
+  }
+
+  /**
+   * Read-modify-write on a story's working copy under the story row lock.
+   * Published stories get the result parked in story_drafts so readers are unaffected;
+   * stories that aren't live are written straight to their rows.
+   * `edit` mutates the snapshot in place and returns undefined to abort (e.g. unknown page).
+   */
+  async editWorkingCopy<T>(
+    storyId: string,
+    userId: string,
+    message: string,
+    edit: (workingCopy: StorySnapshot) => T | undefined
+  ): Promise<{ result: T; revision: StoryRevision } | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [story] = await tx.select().from(stories).where(eq(stories.id, storyId)).for('update');
+      if (!story) return undefined;
+
+      const workingCopy = (await this.loadWorkingCopy(tx, storyId))!;
+      const result = edit(workingCopy);
+      if (result === undefined) return undefined;
+
+      if (story.isPublished) {
+        await tx
+          .insert(storyDrafts)
+          .values({ storyId, snapshot: workingCopy, updatedBy: userId })
+          .onConflictDoUpdate({
+            target: storyDrafts.storyId,
+            set: { snapshot: workingCopy, updatedBy: userId, updatedAt: new Date() },
+          });
+      } else {
+        await this.applySnapshot(tx, storyId, workingCopy);
+        await tx.delete(storyDrafts).where(eq(storyDrafts.storyId, storyId));
+      }
+
+      const revision = await this.insertRevision(tx, storyId, userId, message, workingCopy);
+      return { result, revision };
+    });
+  }
+
+  // Swaps the draft in and makes the story visible, all in one transaction
+  async publishStory(storyId: string, userId: string): Promise<Story | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [story] = await tx.select().from(stories).where(eq(stories.id, storyId)).for('update');
+      if (!story) return undefined;
+
+      const [draft] = await tx.select().from(storyDrafts).where(eq(storyDrafts.storyId, storyId));
+      if (draft) {
+        await this.applySnapshot(tx, storyId, draft.snapshot);
+        await tx.delete(storyDrafts).where(eq(storyDrafts.storyId, storyId));
+      }
+
+      const [published] = await tx
+        .update(stories)
+        .set({ isPublished: true, publishedAt: new Date(), updatedAt: new Date() })
+        .where(eq(stories.id, storyId))
+        .returning();
+
+      const snapshot = draft?.snapshot ?? (await this.buildStorySnapshot(storyId, tx))!;
+      await this.insertRevision(tx, storyId, userId, "Published", snapshot);
+      return published;
+    });
+  }
+
+  // Creates an unpublished story from a snapshot whose ids are already fresh (see remapStoryPackage)
+  async createStoryFromSnapshot(snapshot: StorySnapshot, authorId: string, message: string): Promise<Story> {
+    return await this.db.transaction(async (tx) => {
+      const [story] = await tx
+        .insert(stories)
+        .values({
+          ...snapshot.story,
+          wordCount: snapshot.pages.reduce(
+            (total, page) => total + page.content.split(' ').filter((word) => word.length > 0).length,
+            0
+          ),
+          pathCount: snapshot.choices.length,
+          isPublished: false,
+          authorId,
+        })
+        .returning();
+
+      await this.applySnapshot(tx, story.id, snapshot);
+      await this.insertRevision(tx, story.id, authorId, message, snapshot);
+      return story;
+    });
+  }
+
+  async getStoriesByTitle(title: string): Promise<Story[]> {
+    return await this.db.select().from(stories).where(eq(stories.title, title));
+  }
+
+  async unpublishStory(storyId: string): Promise<Story | undefined> {
+    const [story] = await this.db
+      .update(stories)
+      .set({ isPublished: false, updatedAt: new Date() })
+      .where(eq(stories.id, storyId))
+      .returning();
+    return story;
+  }
+
+  async discardStoryDraft(storyId: string): Promise<void> {
+    await this.db.delete(storyDrafts).where(eq(storyDrafts.storyId, storyId));
+  }
+
+  private async loadWorkingCopy(tx: DbExecutor, storyId: string): Promise<StorySnapshot | undefined> {
+    const [draft] = await tx.select().from(storyDrafts).where(eq(storyDrafts.storyId, storyId));
+    return draft?.snapshot ?? await this.buildStorySnapshot(storyId, tx);
+  }
+
+  /**
+   * Makes a story's live rows match a snapshot.
+   * Rows are updated in place rather than recreated so purchases and collected ending
+   * cards that point at surviving pages and choices are kept. Readers, bookmarks and
+   * reading sessions on pages that disappear are moved to the closest earlier surviving page.
+   */
+  private async applySnapshot(tx: DbExecutor, storyId: string, snapshot: StorySnapshot): Promise<void> {
+    const previousPages = await tx
+      .select({ id: storyPages.id, order: storyPages.order })
+      .from(storyPages)
+      .where(eq(storyPages.storyId, storyId));
+    const { orderMap, pageFallbacks } = planPageRemap(previousPages, snapshot.pages);
+
+    await tx
+      .update(stories)
+      .set({ ...snapshot.story, updatedAt: new Date() })
+      .where(eq(stories.id, storyId));
+
+    for (const page of snapshot.pages) {
+      await tx
+        .insert(storyPages)
+        .values({ ...page, storyId })
+        .onConflictDoUpdate({ target: storyPages.id, set: { ...page, storyId } });
+    }
+
+    const previousPageIds = previousPages.map((page) => page.id);
+    const keptChoiceIds = new Set(snapshot.choices.map((choice) => choice.id));
+    const keptCardIds = new Set(snapshot.endingCards.map((card) => card.id));
+
+    // Drop choices that aren't in the snapshot before their pages go away
+    if (previousPageIds.length > 0) {
+      const currentChoices = await tx
+        .select({ id: storyChoices.id })
+        .from(storyChoices)
+        .where(inArray(storyChoices.fromPageId, previousPageIds));
+      const staleChoiceIds = currentChoices.map((choice) => choice.id).filter((id) => !keptChoiceIds.has(id));
+      if (staleChoiceIds.length > 0) {
+        await tx.delete(storyChoices).where(inArray(storyChoices.id, staleChoiceIds));
+      }
+    }
+
+    for (const choice of snapshot.choices) {
+      await tx
+        .insert(storyChoices)
+        .values(choice)
+        .onConflictDoUpdate({ target: storyChoices.id, set: choice });
+    }
+
+    const currentCards = await tx
+      .select({ id: endingCards.id })
+      .from(endingCards)
+      .where(eq(endingCards.storyId, storyId));
+    const staleCardIds = currentCards.map((card) => card.id).filter((id) => !keptCardIds.has(id));
+    if (staleCardIds.length > 0) {
+      await tx.delete(endingCards).where(inArray(endingCards.id, staleCardIds));
+    }
+
+    for (const card of snapshot.endingCards) {
+      await tx
+        .insert(endingCards)
+        .values({ ...card, storyId })
+        .onConflictDoUpdate({ target: endingCards.id, set: { ...card, storyId } });
+    }
+
+    for (const [stalePageId, fallbackPageId] of Array.from(pageFallbacks.entries())) {
+      await tx
+        .update(readingProgress)
+        .set({ currentPageId: fallbackPageId })
+        .where(eq(readingProgress.currentPageId, stalePageId));
+      await tx
+        .update(personalBookmarks)
+        .set({ pageId: fallbackPageId, updatedAt: new Date() })
+        .where(eq(personalBookmarks.pageId, stalePageId));
+      await tx
+        .update(readingSessions)
+        .set({ startPageId: fallbackPageId })
+        .where(eq(readingSessions.startPageId, stalePageId));
+      await tx
+        .update(readingSessions)
+        .set({ endPageId: fallbackPageId })
+        .where(eq(readingSessions.endPageId, stalePageId));
+    }
+
+    const stalePageIds = Array.from(pageFallbacks.keys());
+    if (stalePageIds.length > 0) {
+      await tx.delete(storyPages).where(inArray(storyPages.id, stalePageIds));
+    }
+
+    // One CASE update so a reader moved from page 2 to 3 isn't then moved again by the 3 -> 4 rule
+    const movedOrders = Array.from(orderMap.entries()).filter(([from, to]) => from !== to);
+    if (movedOrders.length > 0) {
+      await tx
+        .update(readingProgress)
+        .set({
+          currentPage: sql`CASE ${readingProgress.currentPage} ${sql.join(
+            movedOrders.map(([from, to]) => sql`WHEN ${from} THEN ${to}`),
+            sql` `
+          )} ELSE ${readingProgress.currentPage} END`,
+        })
+        .where(eq(readingProgress.storyId, storyId));
+    }
+
+    await tx.delete(storyVariables).where(eq(storyVariables.storyId, storyId));
+    if (snapshot.variables.length > 0) {
+      await tx.insert(storyVariables).values(snapshot.variables.map((variable) => ({ ...variable, storyId })));
+    }
+
+    // Characters have no rows pointing at them, so the cast is simply replaced
+    await tx.delete(storyCharacters).where(eq(storyCharacters.storyId, storyId));
+    if (snapshot.characters?.length) {
+      await tx.insert(storyCharacters).values(snapshot.characters.map((character) => ({ ...character, storyId })));
+    }
+  }
+
+  // === STORY VARIABLE OPERATIONS ===
+  async getStoryVariables(storyId: string): Promise<StoryVariable[]> {
+    return await this.db
+      .select()
+      .from(storyVariables)
+      .where(eq(storyVariables.storyId, storyId))
+      .orderBy(asc(storyVariables.name));
+  }
+
+  // Replaces the story's variable declarations wholesale, as the builder always sends the full set
+  async setStoryVariables(storyId: string, definitions: StoryVariableDefinition[]): Promise<StoryVariable[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(storyVariables).where(eq(storyVariables.storyId, storyId));
+      if (definitions.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(storyVariables)
+        .values(definitions.map((definition) => ({
+          storyId,
+          name: definition.name,
+          type: definition.type,
+          defaultValue: definition.defaultValue,
+          description: definition.description,
+        })))
+        .returning();
+    });
+  }
+
+  // === STORY CHARACTER OPERATIONS ===
+  async getStoryCharacters(storyId: string): Promise<StoryCharacter[]> {
+    return await this.db
+      .select()
+      .from(storyCharacters)
+      .where(eq(storyCharacters.storyId, storyId))
+      .orderBy(asc(storyCharacters.sortOrder));
+  }
+
+  async setStoryCharacters(storyId: string, characters: StoryCharacterDefinition[]): Promise<StoryCharacter[]> {
+    return await this.db.transaction(async (tx) => {
+      await tx.delete(storyCharacters).where(eq(storyCharacters.storyId, storyId));
+      if (characters.length === 0) {
+        return [];
+      }
+      return await tx
+        .insert(storyCharacters)
+        .values(characters.map((character, sortOrder) => ({ ...character, storyId, sortOrder })))
+        .returning();
+    });
+  }
+
+  // === MEDIA LIBRARY OPERATIONS ===
+  async createMediaAsset(asset: InsertMediaAsset): Promise<MediaAsset> {
+    const [created] = await this.db.insert(mediaAssets).values(asset).returning();
+    return created;
+  }
+
+  async getMediaAssets(ownerId: string): Promise<MediaAsset[]> {
+    return await this.db
+      .select()
+      .from(mediaAssets)
+      .where(eq(mediaAssets.ownerId, ownerId))
+      .orderBy(desc(mediaAssets.createdAt));
+  }
+
+  async getMediaAsset(id: string): Promise<MediaAsset | undefined> {
+    const [asset] = await this.db.select().from(mediaAssets).where(eq(mediaAssets.id, id));
+    return asset;
+  }
+
+  async updateMediaAsset(id: string, updates: Pick<MediaAsset, "altText">): Promise<MediaAsset | undefined> {
+    const [asset] = await this.db.update(mediaAssets).set(updates).where(eq(mediaAssets.id, id)).returning();
+    return asset;
+  }
+
+  async deleteMediaAsset(id: string): Promise<void> {
+    await this.db.delete(mediaAssets).where(eq(mediaAssets.id, id));
+  }
+
+  // Current variable state for a reader; guests always start from the story defaults
+  async getStoryVariableValues(userId: string | undefined, storyId: string): Promise<StoryVariableValues> {
+    const definitions = await this.getStoryVariables(storyId);
+    const progress = userId ? await this.getReadingProgress(userId, storyId) : undefined;
+    return VariableEvaluator.initialize(
+      definitions.map((definition) => ({
+        name: definition.name,
+        type: definition.type,
+        defaultValue: definition.defaultValue,
+      })),
+      progress?.variables || {}
+    );
+  }
+
+  async saveStoryVariableValues(userId: string, storyId: string, values: StoryVariableValues): Promise<void> {
+    const slot = await this.resolveSlot(userId, storyId);
+    await this.db
+      .insert(readingProgress)
+      .values({ userId, storyId, slot, variables: values })
+      .onConflictDoUpdate({
+        target: [readingProgress.userId, readingProgress.storyId, readingProgress.slot],
+        set: { variables: values },
+      });
+  }
+
   // === READING PROGRESS OPERATIONS ===
-  async getReadingProgress(userId: string, storyId: string): Promise<ReadingProgress | undefined> {
-    const [progress] = await db
+  // The named slot, or else the slot the reader read last (the default slot if they have none yet)
+  private async resolveSlot(userId: string, storyId: string, slot?: string | null): Promise<string> {
+    if (slot) return slot;
+    return (await this.getReadingProgress(userId, storyId))?.slot ?? DEFAULT_SAVE_SLOT;
+  }
+
+  async getReadingProgress(userId: string, storyId: string, slot?: string): Promise<ReadingProgress | undefined> {
+    const [progress] = await this.db
       .select()
       .from(readingProgress)
       .where(and(
         eq(readingProgress.userId, userId),
-        eq(readingProgress.storyId, storyId)
-      ));
+        eq(readingProgress.storyId, storyId),
+        slot ? eq(readingProgress.slot, slot) : undefined
+      ))
+      .orderBy(desc(readingProgress.lastReadAt))
+      .limit(1);
     return progress;
   }
 
   async saveReadingProgress(progressData: InsertReadingProgress): Promise<ReadingProgress> {
-    const [progress] = await db
+    const position = progressPagePosition(await this.getStoryPages(progressData.storyId), progressData);
+    const slot = await this.resolveSlot(progressData.userId, progressData.storyId, progressData.slot);
+    const [progress] = await this.db
       .insert(readingProgress)
-      .values(progressData)
+      .values({ ...progressData, ...position, slot })
       .onConflictDoUpdate({
-        target: [readingProgress.userId, readingProgress.storyId],
+        target: [readingProgress.userId, readingProgress.storyId, readingProgress.slot],
         set: {
-          currentPage: progressData.currentPage, // PAGE-BASED ONLY
+          currentPageId: position.currentPageId,
+          currentPage: position.currentPage,
           isBookmarked: progressData.isBookmarked,
           isCompleted: progressData.isCompleted,
           completedAt: progressData.completedAt,
           pagesRead: progressData.pagesRead,
           choicesMade: progressData.choicesMade,
-          lastReadAt: new Date(),
+          variables: progressData.variables,
+          lastReadAt: progressData.lastReadAt ?? new Date(),
         },
       })
       .returning();
     return progress;
   }
 
-  async markStoryCompleted(userId: string, storyId: string): Promise<ReadingProgress> {
-    const [progress] = await db
+  async markStoryCompleted(userId: string, storyId: string, slot?: string): Promise<ReadingProgress> {
+    const [progress] = await this.db
       .insert(readingProgress)
       .values({
         userId,
         storyId,
+        slot: await this.resolveSlot(userId, storyId, slot),
         currentPage: 1, // Will be overridden by conflict update
         isCompleted: true,
         completedAt: new Date(),
       })
       .onConflictDoUpdate({
-        target: [readingProgress.userId, readingProgress.storyId],
+        target: [readingProgress.userId, readingProgress.storyId, readingProgress.slot],
         set: {
           isCompleted: true,
           completedAt: new Date(),
@@ -452,23 +1527,16 @@ export class Storage {
     return progress;
   }
 
-  async getUserStats(userId: string): Promise<{
-    storiesStarted: number;
-    storiesCompleted: number;
-    totalChoicesMade: number;
-    bookmarkedStories: number;
-    premiumChoicesUnlocked: number;
-    eggplantsSpent: number;
-  }> {
-    // Count stories started (reading progress exists)
-    const [startedResult] = await db
-      .select({ count: sql<number>`count(*)` })
+  async getUserStats(userId: string): Promise<UserStats> {
+    // Count stories started (reading progress exists); a story read in several save slots counts once
+    const [startedResult] = await this.db
+      .select({ count: sql<number>`count(distinct ${readingProgress.storyId})` })
       .from(readingProgress)
       .where(eq(readingProgress.userId, userId));
     
     // Count stories completed  
-    const [completedResult] = await db
-      .select({ count: sql<number>`count(*)` })
+    const [completedResult] = await this.db
+      .select({ count: sql<number>`count(distinct ${readingProgress.storyId})` })
       .from(readingProgress)
       .where(and(
         eq(readingProgress.userId, userId),
@@ -476,8 +1544,8 @@ export class Storage {
       ));
 
     // Count bookmarked stories
-    const [bookmarkedResult] = await db
-      .select({ count: sql<number>`count(*)` })
+    const [bookmarkedResult] = await this.db
+      .select({ count: sql<number>`count(distinct ${readingProgress.storyId})` })
       .from(readingProgress)
       .where(and(
         eq(readingProgress.userId, userId),
@@ -485,13 +1553,13 @@ export class Storage {
       ));
 
     // Count total choices made
-    const [choicesResult] = await db
+    const [choicesResult] = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(userChoices)
       .where(eq(userChoices.userId, userId));
 
     // Count premium choices (join with story choices to check isPremium)
-    const [premiumResult] = await db
+    const [premiumResult] = await this.db
       .select({ count: sql<number>`count(*)` })
       .from(userChoices)
       .innerJoin(storyChoices, eq(userChoices.choiceId, storyChoices.id))
@@ -500,8 +1568,14 @@ export class Storage {
         eq(storyChoices.isPremium, true)
       ));
 
-    // Get user for eggplants spent (would need transaction history for real calculation)
-    const user = await this.getUser(userId);
+    // Eggplants spent = sum of all debits in the ledger
+    const [spentResult] = await this.db
+      .select({ total: sql<number>`COALESCE(-SUM(${eggplantTransactions.amount}), 0)::int` })
+      .from(eggplantTransactions)
+      .where(and(
+        eq(eggplantTransactions.userId, userId),
+        sql`${eggplantTransactions.amount} < 0`
+      ));
     
     return {
       storiesStarted: startedResult?.count || 0,
@@ -509,12 +1583,12 @@ export class Storage {
       totalChoicesMade: choicesResult?.count || 0,
       bookmarkedStories: bookmarkedResult?.count || 0,
       premiumChoicesUnlocked: premiumResult?.count || 0,
-      eggplantsSpent: 0, // Would need transaction history
+      eggplantsSpent: spentResult?.total || 0,
     };
   }
 
   async getUserReadingProgressWithStories(userId: string): Promise<Array<ReadingProgress & { story: Story }>> {
-    const progressData = await db
+    const progressData = await this.db
       .select()
       .from(readingProgress)
       .innerJoin(stories, eq(readingProgress.storyId, stories.id))
@@ -527,26 +1601,73 @@ export class Storage {
     }));
   }
 
+  // === SAVE SLOT OPERATIONS ===
+  async getReadingSlots(userId: string, storyId: string): Promise<ReadingProgress[]> {
+    return await this.db
+      .select()
+      .from(readingProgress)
+      .where(and(
+        eq(readingProgress.userId, userId),
+        eq(readingProgress.storyId, storyId)
+      ))
+      .orderBy(desc(readingProgress.lastReadAt));
+  }
+
+  async copyReadingSlot(userId: string, storyId: string, fromSlot: string, toSlot: string): Promise<ReadingProgress | undefined> {
+    return await this.db.transaction(async (tx) => {
+      const [source] = await tx
+        .select()
+        .from(readingProgress)
+        .where(and(
+          eq(readingProgress.userId, userId),
+          eq(readingProgress.storyId, storyId),
+          eq(readingProgress.slot, fromSlot)
+        ));
+      if (!source) return undefined;
+
+      const { id: _id, createdAt: _createdAt, ...fields } = source;
+      const [copy] = await tx
+        .insert(readingProgress)
+        .values({ ...fields, slot: toSlot, lastReadAt: new Date() })
+        .returning();
+
+      // History keeps its timestamps so the copy replays in the same order
+      const history = await tx
+        .select()
+        .from(userChoices)
+        .where(and(
+          eq(userChoices.userId, userId),
+          eq(userChoices.storyId, storyId),
+          eq(userChoices.slot, fromSlot)
+        ));
+      if (history.length > 0) {
+        await tx.insert(userChoices).values(history.map(({ id: _id, ...row }) => ({ ...row, slot: toSlot })));
+      }
+      return copy;
+    });
+  }
+
   // === USER CHOICE OPERATIONS ===
   async saveUserChoice(choiceData: InsertUserChoice): Promise<{ success: boolean }> {
-    await db.insert(userChoices).values(choiceData);
+    await this.db.insert(userChoices).values(choiceData);
     return { success: true };
   }
 
-  async getUserChoiceHistory(userId: string, storyId: string): Promise<any[]> {
-    return await db
+  async getUserChoiceHistory(userId: string, storyId: string, slot?: string): Promise<any[]> {
+    return await this.db
       .select()
       .from(userChoices)
       .where(and(
         eq(userChoices.userId, userId),
-        eq(userChoices.storyId, storyId)
+        eq(userChoices.storyId, storyId),
+        eq(userChoices.slot, await this.resolveSlot(userId, storyId, slot))
       ))
       .orderBy(userChoices.createdAt);
   }
 
   // === PERSONAL BOOKMARK OPERATIONS ===
   async createPersonalBookmark(bookmarkData: InsertPersonalBookmark): Promise<PersonalBookmark> {
-    const [bookmark] = await db
+    const [bookmark] = await this.db
       .insert(personalBookmarks)
       .values(bookmarkData)
       .returning();
@@ -559,7 +1680,7 @@ export class Storage {
       conditions.push(eq(personalBookmarks.storyId, storyId));
     }
     
-    return await db
+    return await this.db
       .select({
         id: personalBookmarks.id,
         userId: personalBookmarks.userId,
@@ -582,7 +1703,7 @@ export class Storage {
   }
 
   async updatePersonalBookmark(bookmarkId: string, updates: Partial<PersonalBookmark>): Promise<PersonalBookmark> {
-    const [bookmark] = await db
+    const [bookmark] = await this.db
       .update(personalBookmarks)
       .set({ ...updates, updatedAt: new Date() })
       .where(eq(personalBookmarks.id, bookmarkId))
@@ -591,13 +1712,13 @@ export class Storage {
   }
 
   async deletePersonalBookmark(bookmarkId: string): Promise<void> {
-    await db.delete(personalBookmarks).where(eq(personalBookmarks.id, bookmarkId));
+    await this.db.delete(personalBookmarks).where(eq(personalBookmarks.id, bookmarkId));
   }
 
   // === READING SESSION OPERATIONS ===
   async startReadingSession(sessionData: InsertReadingSession): Promise<ReadingSession> {
     // End any existing active sessions for this user/story
-    await db
+    await this.db
       .update(readingSessions)
       .set({ isActive: false, endTime: new Date() })
       .where(and(
@@ -607,7 +1728,7 @@ export class Storage {
       ));
 
     // Create new session
-    const [session] = await db
+    const [session] = await this.db
       .insert(readingSessions)
       .values(sessionData)
       .returning();
@@ -615,7 +1736,7 @@ export class Storage {
   }
 
   async updateReadingSession(sessionId: string, updates: Partial<ReadingSession>): Promise<ReadingSession> {
-    const [session] = await db
+    const [session] = await this.db
       .update(readingSessions)
       .set(updates)
       .where(eq(readingSessions.id, sessionId))
@@ -631,7 +1752,7 @@ export class Storage {
     // Note: endPageNumber is not part of ReadingSession schema, 
     // page tracking is handled by readingProgress table
 
-    const [session] = await db
+    const [session] = await this.db
       .update(readingSessions)
       .set(updates)
       .where(eq(readingSessions.id, sessionId))
@@ -640,7 +1761,7 @@ export class Storage {
   }
 
   async getUserReadingSessions(userId: string, limit: number = 10): Promise<ReadingSession[]> {
-    return await db
+    return await this.db
       .select()
       .from(readingSessions)
       .where(eq(readingSessions.userId, userId))
@@ -649,7 +1770,7 @@ export class Storage {
   }
 
   async getActiveReadingSession(userId: string, storyId: string): Promise<ReadingSession | undefined> {
-    const [session] = await db
+    const [session] = await this.db
       .select()
       .from(readingSessions)
       .where(and(
@@ -662,15 +1783,9 @@ export class Storage {
   }
 
   // === READING ANALYTICS ===
-  async getReadingStats(userId: string): Promise<{
-    totalReadingTimeMinutes: number;
-    totalStoriesRead: number;
-    totalChoicesMade: number;
-    favoriteGenres: string[];
-    recentActivity: any[];
-  }> {
+  async getReadingStats(userId: string): Promise<ReadingStats> {
     // Get total reading time and stats
-    const [stats] = await db
+    const [stats] = await this.db
       .select({
         totalReadingTime: sql<number>`COALESCE(SUM(${readingProgress.totalReadingTimeMinutes}), 0)`,
         totalStories: sql<number>`COUNT(DISTINCT ${readingProgress.storyId})`,
@@ -680,7 +1795,7 @@ export class Storage {
       .where(eq(readingProgress.userId, userId));
 
     // Get recent reading activity
-    const recentActivity = await db
+    const recentActivity = await this.db
       .select({
         storyTitle: stories.title,
         lastReadAt: readingProgress.lastReadAt,
@@ -693,7 +1808,7 @@ export class Storage {
       .limit(5);
 
     // Get favorite genres (most read categories)
-    const favoriteGenres = await db
+    const favoriteGenres = await this.db
       .select({
         category: stories.category,
         count: sql<number>`COUNT(*)`,
@@ -721,12 +1836,12 @@ export class Storage {
     choiceId: string;
     eggplantCost: number;
   }): Promise<{ success: boolean }> {
-    await db.insert(purchasedPremiumPaths).values(pathData);
+    await this.db.insert(purchasedPremiumPaths).values(pathData);
     return { success: true };
   }
 
   async hasPurchasedPremiumPath(userId: string, choiceId: string): Promise<boolean> {
-    const [result] = await db
+    const [result] = await this.db
       .select()
       .from(purchasedPremiumPaths)
       .where(and(
@@ -744,7 +1859,7 @@ export class Storage {
       conditions.push(eq(purchasedPremiumPaths.storyId, storyId));
     }
 
-    return await db
+    return await this.db
       .select({
         id: purchasedPremiumPaths.id,
         userId: purchasedPremiumPaths.userId,
@@ -764,24 +1879,35 @@ export class Storage {
   }
 
   // === START FROM BEGINNING HELPERS ===
-  async deleteReadingProgress(userId: string, storyId: string): Promise<void> {
-    await db.delete(readingProgress).where(and(
+  async deleteReadingProgress(userId: string, storyId: string, slot?: string): Promise<void> {
+    await this.db.delete(readingProgress).where(and(
       eq(readingProgress.userId, userId),
-      eq(readingProgress.storyId, storyId)
+      eq(readingProgress.storyId, storyId),
+      eq(readingProgress.slot, await this.resolveSlot(userId, storyId, slot))
     ));
   }
 
-  async clearUserChoiceHistory(userId: string, storyId: string): Promise<void> {
-    await db.delete(userChoices).where(and(
+  async clearUserChoiceHistory(userId: string, storyId: string, slot?: string): Promise<void> {
+    await this.db.delete(userChoices).where(and(
       eq(userChoices.userId, userId),
-      eq(userChoices.storyId, storyId)
+      eq(userChoices.storyId, storyId),
+      eq(userChoices.slot, await this.resolveSlot(userId, storyId, slot))
+    ));
+  }
+
+  async deleteUserChoices(userId: string, storyId: string, historyIds: string[]): Promise<void> {
+    if (historyIds.length === 0) return;
+    await this.db.delete(userChoices).where(and(
+      eq(userChoices.userId, userId),
+      eq(userChoices.storyId, storyId),
+      inArray(userChoices.id, historyIds)
     ));
   }
 
   // === STORY MAP GENERATION ===
-  async getStoryMapData(storyId: string, ownedChoiceIds: Set<string>) {
+  async getStoryMapData(storyId: string, ownedChoiceIds: Set<string>, reader?: StoryMapReader): Promise<StoryMapData> {
     // Get all pages and choices for the story
-    const pages = await db
+    const pages = await this.db
       .select()
       .from(storyPages)
       .where(eq(storyPages.storyId, storyId))
@@ -789,7 +1915,7 @@ export class Storage {
       
     console.log(`Found ${pages.length} pages for story ${storyId}`);
 
-    const allChoices = await db
+    const allChoices = await this.db
       .select({
         id: storyChoices.id,
         fromPageId: storyChoices.fromPageId,
@@ -805,208 +1931,13 @@ export class Storage {
       .where(eq(storyPages.storyId, storyId))
       .orderBy(storyPages.order, storyChoices.order);
 
-    // Build accessible choice tree (only real branching choices, not navigation)
-    const accessibleChoices = allChoices.filter(choice => {
-      // Skip simple navigation choices
-      if (choice.choiceText === "Continue" || choice.choiceText === "Next") {
-        return false;
-      }
-      // Only include free choices or owned premium choices
-      return !choice.isPremium || ownedChoiceIds.has(choice.id);
-    });
-
-
-
-    // Create map page bubbles with positioning
-    const mapBubbles: Array<{
-      id: string;
-      type: 'page' | 'choice' | 'ending';
-      pageNumber: number;
-      title: string;
-      isPremium: boolean;
-      isOwned: boolean;
-      x: number;
-      y: number;
-      connections: string[];
-    }> = [];
-
-    // Use ALL pages to show complete story structure, not just accessible ones
-    const accessiblePages = pages;
-    
-    // Create a hierarchical layout
-    const layoutBubbles = this.calculateStoryLayout(accessiblePages, accessibleChoices);
-    
-    layoutBubbles.forEach(layoutBubble => {
-      const page = layoutBubble.page;
-      const pageChoices = accessibleChoices.filter(c => c.fromPageId === page.id);
-      const isChoicePage = pageChoices.length > 0;
-      const isEndingPage = pageChoices.length === 0 && page.order > 1;
-
-      // Generate two-word name based on content
-      let displayName = this.generateTwoWordName(page.title || '', page.content || '', isChoicePage, isEndingPage);
-
-      // Determine if this is a premium path
-      let hasPremiumPath = false;
-      let isOwned = true;
-      pageChoices.forEach(choice => {
-        if (choice.isPremium) {
-          hasPremiumPath = true;
-          if (!ownedChoiceIds.has(choice.id)) {
-            isOwned = false;
-          }
-        }
-      });
-
-      mapBubbles.push({
-        id: page.id,
-        type: isEndingPage ? 'ending' : isChoicePage ? 'choice' : 'page',
-        pageNumber: page.order,
-        title: displayName,
-        isPremium: hasPremiumPath,
-        isOwned: isOwned,
-        x: layoutBubble.x,
-        y: layoutBubble.y,
-        connections: pageChoices.map(c => c.id),
-      });
-    });
-
-    return {
-      storyId,
-      pageBubbles: mapBubbles,
-      choices: accessibleChoices.map(choice => ({
-        id: choice.id,
-        fromPageId: choice.fromPageId,
-        toPageId: choice.toPageId,
-        text: choice.choiceText,
-        isPremium: choice.isPremium,
-        isOwned: ownedChoiceIds.has(choice.id),
-        eggplantCost: choice.eggplantCost || 0,
-        targetPage: choice.targetPage,
-      })),
-    };
-  }
-
-  // Calculate branching layout using page order numbers instead of IDs
-  private calculateStoryLayout(pages: any[], choices: any[]) {
-    const layoutBubbles: Array<{ page: any; x: number; y: number }> = [];
-    
-    // Sort pages by order
-    const sortedPages = [...pages].sort((a, b) => a.order - b.order);
-    
-    // Create a map of page order -> page connections using targetPage numbers
-    const pageConnections = new Map<number, number[]>();
-    
-    choices.forEach(choice => {
-      if (choice.targetPage) {
-        const fromPage = pages.find(p => p.id === choice.fromPageId);
-        if (fromPage) {
-          if (!pageConnections.has(fromPage.order)) {
-            pageConnections.set(fromPage.order, []);
-          }
-          pageConnections.get(fromPage.order)!.push(choice.targetPage);
-        }
-      }
-    });
-    
-    // Build tree structure using breadth-first search with page orders
-    const positioned = new Set<number>();
-    const queue: Array<{ pageOrder: number; x: number; y: number; level: number }> = [];
-    
-    // Position starting page at center top
-    queue.push({ pageOrder: 1, x: 0, y: 0, level: 0 });
-    
-    while (queue.length > 0) {
-      const current = queue.shift()!;
-      
-      if (positioned.has(current.pageOrder)) continue;
-      positioned.add(current.pageOrder);
-      
-      const page = sortedPages.find(p => p.order === current.pageOrder);
-      if (page) {
-        layoutBubbles.push({ page, x: current.x, y: current.y });
-        
-        // Get children using targetPage numbers
-        const childOrderNumbers = pageConnections.get(current.pageOrder) || [];
-        const childPages = childOrderNumbers.map(order => sortedPages.find(p => p.order === order)).filter(Boolean);
-        
-        if (childPages.length > 0) {
-          // Spread children horizontally based on number of branches
-          const startX = current.x - (childPages.length - 1) * 0.75;
-          childPages.forEach((childPage, index) => {
-            if (!positioned.has(childPage.order)) {
-              queue.push({
-                pageOrder: childPage.order,
-                x: startX + index * 1.5, // Spread branches horizontally
-                y: current.y + 1.5, // Move down vertically
-                level: current.level + 1
-              });
-            }
-          });
-        } else if (current.pageOrder < sortedPages.length) {
-          // For linear progression without choices, add the next page in order
-          const nextPage = sortedPages.find(p => p.order === current.pageOrder + 1);
-          if (nextPage && !positioned.has(nextPage.order)) {
-            queue.push({
-              pageOrder: nextPage.order,
-              x: current.x, // Keep same x position for linear flow
-              y: current.y + 1.5, // Move down vertically
-              level: current.level + 1
-            });
-          }
-        }
-      }
-    }
-    
-    // Add any remaining unpositioned pages (orphaned pages)
-    sortedPages.forEach((page, index) => {
-      if (!positioned.has(page.order)) {
-        layoutBubbles.push({ 
-          page, 
-          x: 3 + (index % 3), // Position orphaned pages to the right
-          y: Math.floor(index / 3) * 1.5,
-        });
-      }
-    });
-    
-    return layoutBubbles;
-  }
-
-  // Generate two-word names based on content like in the sketch
-  private generateTwoWordName(title: string, content: string, isChoicePage: boolean, isEndingPage: boolean): string {
-    // If it's an ending, use ending-specific words
-    if (isEndingPage) {
-      const endingWords = ['Back', 'Home', 'Away', 'Total', 'Submission', 'Dominated', 'Escape'];
-      const endings = ['Home', 'Away', 'Submission', 'Dominated', 'Escape', 'Complete'];
-      return `${endingWords[Math.floor(Math.random() * endingWords.length)]} ${endings[Math.floor(Math.random() * endings.length)]}`;
-    }
-
-    // For choice pages, extract meaningful words
-    const allText = `${title} ${content}`.toLowerCase();
-    
-    // Common two-word patterns from your sketch
-    const choicePatterns = [
-      'Look Hard', 'Sneak Around', 'Quick Peek', 'Subtle Flirting', 
-      'Making Work', 'The Choice', 'Back Wife', 'Away Go',
-      'Total Submission', 'Process Flow', 'Decision Point'
-    ];
-
-    // Try to match content to patterns
-    if (allText.includes('peek') || allText.includes('look')) return 'Quick Peek';
-    if (allText.includes('sneak') || allText.includes('around')) return 'Sneak Around';
-    if (allText.includes('hard') || allText.includes('difficult')) return 'Look Hard';
-    if (allText.includes('flirt') || allText.includes('subtle')) return 'Subtle Flirting';
-    if (allText.includes('work') || allText.includes('job')) return 'Making Work';
-    if (allText.includes('choice') || allText.includes('decide')) return 'The Choice';
-    if (allText.includes('wife') || allText.includes('home')) return 'Back Wife';
-    if (allText.includes('submit') || allText.includes('surrender')) return 'Total Submission';
-    if (allText.includes('dominate') || allText.includes('control')) return 'Dominated';
-    
-    // Default choice page name
-    return isChoicePage ? 'The Choice' : 'Process Flow';
+    const layout = loadStoryMapLayout(storyId, pages, allChoices);
+    const readerPath = reader && await loadStoryMapReaderPath(this, reader.userId, storyId, reader.slot);
+    return buildStoryMapData(storyId, pages, allChoices, ownedChoiceIds, layout, readerPath);
   }
 
   async getStoryStartingPage(storyId: string): Promise<StoryPage | undefined> {
-    const [node] = await db
+    const [node] = await this.db
       .select()
       .from(storyPages)
       .where(and(
@@ -1017,42 +1948,75 @@ export class Storage {
     return node;
   }
 
-  // Analytics event logging
+  // === ANALYTICS EVENT OPERATIONS ===
   async logAnalyticsEvent(eventType: string, data: any): Promise<void> {
-    // For now, log to console - could extend to dedicated analytics table
-    console.log(`[ANALYTICS] ${eventType}:`, JSON.stringify(data, null, 2));
+    await this.logAnalyticsEvents([{ eventType, data }]);
   }
 
-  // Get premium choice analytics
-  async getPremiumChoiceAnalytics(storyId: string, choiceId?: string): Promise<any[]> {
-    // This would query an analytics table in production
-    // For now, return empty array - extend when implementing analytics storage
-    return [];
+  // Batch insert used by EventTracker.flush() - one round trip per flush
+  async logAnalyticsEvents(events: Array<{ eventType: string; data: any }>): Promise<void> {
+    if (events.length === 0) return;
+    await this.db.insert(analyticsEvents).values(events.map(e => toAnalyticsEventRow(e.eventType, e.data)));
+  }
+
+  // Premium funnel (views -> taps -> attempts -> successes) per premium choice
+  async getPremiumChoiceAnalytics(storyId: string, choiceId?: string): Promise<PremiumAnalytics[]> {
+    const conditions = [
+      eq(analyticsEvents.eventType, 'premium_choice'),
+      eq(analyticsEvents.storyId, storyId),
+    ];
+    if (choiceId) {
+      conditions.push(eq(analyticsEvents.choiceId, choiceId));
+    }
+
+    const rows = await this.db
+      .select({
+        pageId: analyticsEvents.pageId,
+        choiceId: analyticsEvents.choiceId,
+        totalReaders: sql<number>`count(distinct coalesce(${analyticsEvents.userId}, ${analyticsEvents.sessionId}))::int`,
+        premiumViews: sql<number>`count(*) filter (where ${analyticsEvents.action} = 'view')::int`,
+        premiumTaps: sql<number>`count(*) filter (where ${analyticsEvents.action} = 'tap')::int`,
+        purchaseAttempts: sql<number>`count(*) filter (where ${analyticsEvents.action} = 'purchase_attempt')::int`,
+        purchaseSuccesses: sql<number>`count(*) filter (where ${analyticsEvents.action} = 'purchase_success')::int`,
+        averageEggplantsAtFork: sql<number>`coalesce(avg(${analyticsEvents.userEggplants}) filter (where ${analyticsEvents.action} in ('view', 'tap')), 0)::float`,
+        fundedUserTaps: sql<number>`count(*) filter (where ${analyticsEvents.action} = 'tap' and ${analyticsEvents.hasEnoughFunds})::int`,
+        unfundedUserTaps: sql<number>`count(*) filter (where ${analyticsEvents.action} = 'tap' and not ${analyticsEvents.hasEnoughFunds})::int`,
+      })
+      .from(analyticsEvents)
+      .where(and(...conditions))
+      .groupBy(analyticsEvents.pageId, analyticsEvents.choiceId)
+      .orderBy(desc(sql`count(*) filter (where ${analyticsEvents.action} = 'tap')`));
+
+    return rows
+      .filter((row): row is typeof row & { pageId: string; choiceId: string } => !!row.pageId && !!row.choiceId)
+      .map(row => ({
+        storyId,
+        pageId: row.pageId,
+        choiceId: row.choiceId,
+        totalReaders: row.totalReaders,
+        premiumViews: row.premiumViews,
+        premiumTaps: row.premiumTaps,
+        purchaseAttempts: row.purchaseAttempts,
+        purchaseSuccesses: row.purchaseSuccesses,
+        premiumInterestRate: row.premiumViews > 0 ? row.premiumTaps / row.premiumViews : 0,
+        purchaseCompletionRate: row.premiumTaps > 0 ? row.purchaseSuccesses / row.premiumTaps : 0,
+        averageEggplantsAtFork: row.averageEggplantsAtFork,
+        fundedUserTaps: row.fundedUserTaps,
+        unfundedUserTaps: row.unfundedUserTaps,
+      }));
   }
 
   // === ENDING CARDS SYSTEM ===
   
   // Create an ending card for a story
-  async createEndingCard(cardData: {
-    storyId: string;
-    pageId: string;
-    cardTitle: string;
-    cardSubtitle?: string;
-    cardDescription: string;
-    cardImageUrl?: string;
-    rarity?: "ember" | "flame" | "inferno";
-    emotionTag?: string;
-    unlockCondition?: string;
-    isSecret?: boolean;
-    sortOrder?: number;
-  }): Promise<any> {
-    const [card] = await db.insert(endingCards).values(cardData).returning();
+  async createEndingCard(cardData: CreateEndingCardData): Promise<any> {
+    const [card] = await this.db.insert(endingCards).values(cardData).returning();
     return card;
   }
 
   // Get all ending cards for a story
   async getStoryEndingCards(storyId: string): Promise<any[]> {
-    return await db
+    return await this.db
       .select()
       .from(endingCards)
       .where(eq(endingCards.storyId, storyId))
@@ -1061,7 +2025,7 @@ export class Storage {
 
   // Check if user has collected a specific ending card
   async hasCollectedCard(userId: string, cardId: string): Promise<boolean> {
-    const [result] = await db
+    const [result] = await this.db
       .select()
       .from(userEndingCards)
       .where(and(
@@ -1077,7 +2041,7 @@ export class Storage {
   async awardRandomEndingCard(userId: string, pageId: string): Promise<any> {
     try {
       // Get all possible cards for this ending page
-      const availableCards = await db
+      const availableCards = await this.db
         .select()
         .from(endingCards)
         .where(eq(endingCards.pageId, pageId));
@@ -1087,7 +2051,7 @@ export class Storage {
       }
 
       // Get user's existing cards for this page to avoid duplicates within the same session
-      const existingCards = await db
+      const existingCards = await this.db
         .select({ cardId: userEndingCards.cardId })
         .from(userEndingCards)
         .innerJoin(endingCards, eq(userEndingCards.cardId, endingCards.id))
@@ -1102,25 +2066,10 @@ export class Storage {
       // If user has all cards, give them a random one anyway (for sharing)
       const cardsToChooseFrom = unownedCards.length > 0 ? unownedCards : availableCards;
       
-      // Weighted random selection based on rarity (simplified three-tier system)
-      const rarityWeights = {
-        ember: 60,    // Common
-        flame: 30,    // Uncommon  
-        inferno: 10   // Rare
-      };
-      
-      const weightedCards: any[] = [];
-      cardsToChooseFrom.forEach(card => {
-        const weight = rarityWeights[card.rarity as keyof typeof rarityWeights] || 50;
-        for (let i = 0; i < weight; i++) {
-          weightedCards.push(card);
-        }
-      });
-      
-      const selectedCard = weightedCards[Math.floor(Math.random() * weightedCards.length)];
+      const selectedCard = pickEndingCard(cardsToChooseFrom);
       
       // Award the card (even if duplicate for sharing purposes)
-      const [userCard] = await db
+      const [userCard] = await this.db
         .insert(userEndingCards)
         .values({
           userId,
@@ -1150,7 +2099,7 @@ export class Storage {
         return { success: false, reason: 'already_collected' };
       }
 
-      const [userCard] = await db
+      const [userCard] = await this.db
         .insert(userEndingCards)
         .values({
           userId,
@@ -1167,7 +2116,7 @@ export class Storage {
 
   // Get user's collected ending cards
   async getUserEndingCards(userId: string, storyId?: string): Promise<any[]> {
-    let query = db
+    let query = this.db
       .select({
         id: userEndingCards.id,
         cardId: userEndingCards.cardId,
@@ -1199,7 +2148,7 @@ export class Storage {
   async markCardsAsViewed(userId: string, cardIds: string[]): Promise<void> {
     if (cardIds.length === 0) return;
     
-    await db
+    await this.db
       .update(userEndingCards)
       .set({ isNewCard: false })
       .where(and(
@@ -1210,7 +2159,7 @@ export class Storage {
 
   // Get ending card for a specific story page (for auto-awarding)
   async getEndingCardForPage(pageId: string): Promise<any> {
-    const [card] = await db
+    const [card] = await this.db
       .select()
       .from(endingCards)
       .where(eq(endingCards.pageId, pageId))
@@ -1220,33 +2169,13 @@ export class Storage {
   }
 
   // Get user's collection stats
-  async getUserCollectionStats(userId: string): Promise<{
-    totalCards: number;
-    cardsByRarity: Record<string, number>;
-    completedStories: number;
-    newCardsCount: number;
-  }> {
-    const userCards = await this.getUserEndingCards(userId);
-    
-    const stats = {
-      totalCards: userCards.length,
-      cardsByRarity: {
-        ember: 0,
-        flame: 0,
-        inferno: 0
-      },
-      completedStories: new Set(userCards.map(card => card.storyId)).size,
-      newCardsCount: userCards.filter(card => card.isNewCard).length
-    };
-
-    userCards.forEach(card => {
-      if (card.rarity && (card.rarity === 'ember' || card.rarity === 'flame' || card.rarity === 'inferno')) {
-        stats.cardsByRarity[card.rarity as keyof typeof stats.cardsByRarity]++;
-      }
-    });
-
-    return stats;
+  async getUserCollectionStats(userId: string): Promise<CollectionStats> {
+    return summarizeCollection(await this.getUserEndingCards(userId));
   }
+
 }
 
-export const storage = new Storage();
\ No newline at end of file
+// STORAGE=memory runs without Postgres, starting from the fixture stories
+export const storage: IStorage = process.env.STORAGE === "memory"
+  ? new MemoryStorage(fixtureSeed)
+  : new DatabaseStorage();
\ No newline at end of file
@@ -0,0 +1,555 @@
+import type { StorySnapshot, ChoiceEffect, ChoiceCondition } from "@shared/schema";
+import type { StoryVariableDefinition } from "@shared/story-engine/types/StoryTypes";
+
+export type StoryImportFormat = "twee" | "ink";
+
+// Same page/choice shape createStoryFromTimeline takes, so imports go through the normal creation path
+export interface ImportedStory {
+  title: string;
+  pages: Array<{
+    id: string;
+    title: string;
+    content: string;
+    order: number;
+    pageType: "story" | "choice";
+    choices: Array<{
+      id: string;
+      text: string;
+      isPremium: boolean;
+      eggplantCost: number;
+      targetPageId: string;
+      effects?: ChoiceEffect[];
+      conditions?: ChoiceCondition[];
+    }>;
+  }>;
+  variables: StoryVariableDefinition[];
+}
+
+export interface StoryImportResult {
+  story: ImportedStory;
+  warnings: string[];
+}
+
+// Premium choices travel as tags: "premium" plus "eggplants:25"
+const PREMIUM_TAG = "premium";
+const EGGPLANT_TAG_PREFIX = "eggplants:";
+
+interface RawLink {
+  text: string;
+  target: string;
+  isPremium: boolean;
+  eggplantCost: number;
+  effects: ChoiceEffect[];
+  conditions: ChoiceCondition[];
+}
+
+interface RawPassage {
+  name: string;
+  content: string;
+  links: RawLink[];
+}
+
+function readPremiumTags(tags: string[]): { isPremium: boolean; eggplantCost: number } {
+  const costTag = tags.find((tag) => tag.toLowerCase().startsWith(EGGPLANT_TAG_PREFIX));
+  const eggplantCost = costTag ? parseInt(costTag.slice(EGGPLANT_TAG_PREFIX.length), 10) || 0 : 0;
+  return {
+    isPremium: tags.some((tag) => tag.toLowerCase() === PREMIUM_TAG) || eggplantCost > 0,
+    eggplantCost,
+  };
+}
+
+/**
+ * Turns parsed passages into builder pages.
+ * The start passage becomes page 1, then pages follow the order readers can reach them;
+ * passages nothing links to keep their file order at the end.
+ */
+function buildImportedStory(
+  title: string,
+  passages: RawPassage[],
+  startName: string | undefined,
+  variables: StoryVariableDefinition[],
+  warnings: string[]
+): ImportedStory {
+  const byName = new Map(passages.map((passage) => [passage.name, passage]));
+  const start = (startName && byName.get(startName)) || passages[0];
+
+  const ordered: RawPassage[] = [];
+  const seen = new Set<string>();
+  const queue = start ? [start] : [];
+  while (queue.length > 0) {
+    const passage = queue.shift()!;
+    if (seen.has(passage.name)) continue;
+    seen.add(passage.name);
+    ordered.push(passage);
+    passage.links.forEach((link) => {
+      const target = byName.get(link.target);
+      if (target && !seen.has(target.name)) queue.push(target);
+    });
+  }
+  passages.forEach((passage) => {
+    if (!seen.has(passage.name)) ordered.push(passage);
+  });
+
+  const pageIds = new Map(ordered.map((passage, index) => [passage.name, `page-${index + 1}`]));
+  let choiceCount = 0;
+
+  return {
+    title,
+    pages: ordered.map((passage, index) => {
+      const choices = passage.links
+        .filter((link) => {
+          if (pageIds.has(link.target)) return true;
+          warnings.push(`"${passage.name}" links to missing passage "${link.target}"; the link was skipped`);
+          return false;
+        })
+        .map((link) => ({
+          id: `choice-${++choiceCount}`,
+          text: link.text,
+          isPremium: link.isPremium,
+          eggplantCost: link.eggplantCost,
+          targetPageId: pageIds.get(link.target)!,
+          effects: link.effects.length > 0 ? link.effects : undefined,
+          conditions: link.conditions.length > 0 ? link.conditions : undefined,
+        }));
+
+      return {
+        id: pageIds.get(passage.name)!,
+        title: passage.name,
+        content: passage.content,
+        order: index + 1,
+        pageType: choices.length > 0 ? "choice" as const : "story" as const,
+        choices,
+      };
+    }),
+    variables,
+  };
+}
+
+// === TWEE 3 ===
+
+// Passages Twine uses for story metadata or code rather than prose
+const TWEE_SPECIAL_PASSAGES = new Set(["StoryTitle", "StoryData", "StoryInit", "StoryMenu", "StoryCaption", "StoryBanner"]);
+const TWEE_CODE_TAGS = new Set(["script", "stylesheet", "widget", "Twine.private"]);
+
+function parseTweeHeader(line: string): { name: string; tags: string[] } {
+  let rest = line.slice(2).trim();
+  let name = "";
+  while (rest.length > 0 && rest[0] !== "[" && rest[0] !== "{") {
+    if (rest[0] === "\\" && rest.length > 1) {
+      name += rest[1];
+      rest = rest.slice(2);
+    } else {
+      name += rest[0];
+      rest = rest.slice(1);
+    }
+  }
+
+  const tagMatch = rest.match(/^\[([^\]]*)\]/);
+  return {
+    name: name.trim(),
+    tags: tagMatch ? tagMatch[1].split(/\s+/).filter(Boolean) : [],
+  };
+}
+
+// [[target]], [[text|target]], [[text->target]] and [[target<-text]], plus SugarCube's trailing [setter]
+function parseTweeLink(inner: string): { text: string; target: string } {
+  const pipe = inner.indexOf("|");
+  if (pipe !== -1) return { text: inner.slice(0, pipe).trim(), target: inner.slice(pipe + 1).trim() };
+  const right = inner.lastIndexOf("->");
+  if (right !== -1) return { text: inner.slice(0, right).trim(), target: inner.slice(right + 2).trim() };
+  const left = inner.indexOf("<-");
+  if (left !== -1) return { text: inner.slice(left + 2).trim(), target: inner.slice(0, left).trim() };
+  return { text: inner.trim(), target: inner.trim() };
+}
+
+/**
+ * Parses a Twee 3 file.
+ * Links become choices and their text is removed from the page; a passage tagged
+ * "premium" / "eggplants:N" makes every choice leading into it premium.
+ * Story-format macros are left in the text as written.
+ */
+export function parseTwee(source: string): StoryImportResult {
+  const warnings: string[] = [];
+  const sections: Array<{ name: string; tags: string[]; body: string[] }> = [];
+
+  source.replace(/\r\n?/g, "\n").split("\n").forEach((line) => {
+    if (line.startsWith("::")) {
+      sections.push({ ...parseTweeHeader(line), body: [] });
+    } else if (sections.length > 0) {
+      sections[sections.length - 1].body.push(line.startsWith("\\::") ? line.slice(1) : line);
+    }
+  });
+
+  let title = "Imported Twine Story";
+  let startName: string | undefined;
+  const passages: RawPassage[] = [];
+  const tagsByName = new Map<string, string[]>();
+
+  sections.forEach((section) => {
+    const body = section.body.join("\n").trim();
+    if (section.name === "StoryTitle") {
+      title = body || title;
+      return;
+    }
+    if (section.name === "StoryData") {
+      try {
+        startName = JSON.parse(body).start;
+      } catch {
+        warnings.push("StoryData is not valid JSON; the first passage is used as the start");
+      }
+      return;
+    }
+    if (TWEE_SPECIAL_PASSAGES.has(section.name) || section.tags.some((tag) => TWEE_CODE_TAGS.has(tag))) {
+      warnings.push(`Skipped special passage "${section.name}"`);
+      return;
+    }
+
+    const links: RawLink[] = [];
+    const content = body
+      .split("\n")
+      .map((line) => {
+        const linkPattern = /\[\[(.+?)\]\](?:\[[^\]]*\])?/g;
+        const text = line.replace(linkPattern, (_, inner: string) => {
+          const link = parseTweeLink(inner);
+          links.push({ ...link, isPremium: false, eggplantCost: 0, effects: [], conditions: [] });
+          return link.text;
+        });
+        // Lines that were only links disappear; inline links keep their words in the prose
+        const onlyLinks = line !== text && !line.replace(linkPattern, "").trim();
+        return onlyLinks ? null : text.replace(/\s+$/, "");
+      })
+      .filter((line): line is string => line !== null)
+      .join("\n")
+      .replace(/\n{3,}/g, "\n\n")
+      .trim();
+
+    if (tagsByName.has(section.name)) {
+      warnings.push(`Duplicate passage "${section.name}"; only the first was kept`);
+      return;
+    }
+    tagsByName.set(section.name, section.tags);
+    passages.push({ name: section.name, content, links });
+  });
+
+  passages.forEach((passage) => {
+    passage.links.forEach((link) => {
+      Object.assign(link, readPremiumTags(tagsByName.get(link.target) || []));
+    });
+  });
+
+  if (passages.length === 0) {
+    warnings.push("No story passages were found");
+  }
+
+  return { story: buildImportedStory(title, passages, startName, [], warnings), warnings };
+}
+
+// Twee link and header syntax can't carry these, so they're dropped from names and link text
+function tweeSafe(text: string): string {
+  return text.replace(/->|<-/g, "-").replace(/[\[\]{}|\\]/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Writes a story snapshot as Twee 3 (Harlowe) that parseTwee reads back.
+ * Choice variables and ending cards have no Twee equivalent and are not exported.
+ */
+export function storyToTwee(snapshot: StorySnapshot, ifid: string): string {
+  const pages = snapshot.pages.slice().sort((a, b) => a.order - b.order);
+  const names = new Map<string, string>();
+  const used = new Set<string>(Array.from(TWEE_SPECIAL_PASSAGES));
+  pages.forEach((page) => {
+    const base = tweeSafe(page.title) || `Page ${page.order}`;
+    let name = base;
+    for (let n = 2; used.has(name); n++) name = `${base} (${n})`;
+    used.add(name);
+    names.set(page.id, name);
+  });
+
+  const start = pages.find((page) => page.isStarting) || pages[0];
+  const storyData = {
+    ifid: ifid.toUpperCase(),
+    format: "Harlowe",
+    "format-version": "3.3.8",
+    ...(start ? { start: names.get(start.id) } : {}),
+  };
+
+  const passages = pages.map((page) => {
+    const incoming = snapshot.choices.filter((choice) => choice.toPageId === page.id && choice.isPremium);
+    const cost = Math.max(0, ...incoming.map((choice) => choice.eggplantCost || 0));
+    const tags = incoming.length > 0 ? [PREMIUM_TAG].concat(cost > 0 ? [`${EGGPLANT_TAG_PREFIX}${cost}`] : []) : [];
+
+    const links = snapshot.choices
+      .filter((choice) => choice.fromPageId === page.id && names.has(choice.toPageId))
+      .sort((a, b) => a.order - b.order)
+      .map((choice) => `[[${tweeSafe(choice.choiceText) || names.get(choice.toPageId)}->${names.get(choice.toPageId)}]]`);
+
+    const content = page.content.replace(/^::/gm, "\\::").trim();
+    const header = `:: ${names.get(page.id)}${tags.length > 0 ? ` [${tags.join(" ")}]` : ""}`;
+    return [header, [content, links.join("\n")].filter(Boolean).join("\n\n")].join("\n");
+  });
+
+  return [
+    `:: StoryTitle\n${snapshot.story.title}`,
+    `:: StoryData\n${JSON.stringify(storyData, null, 2)}`,
+    ...passages,
+  ].join("\n\n\n") + "\n";
+}
+
+// === INK ===
+
+const INK_OPERATORS: Record<string, ChoiceCondition["operator"]> = {
+  "==": "eq",
+  "!=": "neq",
+  ">": "gt",
+  ">=": "gte",
+  "<": "lt",
+  "<=": "lte",
+};
+
+function parseInkValue(raw: string): number | boolean | undefined {
+  const value = raw.trim();
+  if (value === "true" || value === "false") return value === "true";
+  return /^-?\d+(\.\d+)?$/.test(value) ? Number(value) : undefined;
+}
+
+// {trust > 2}, {metBefore}, {not metBefore}; "and" / "&&" split into separate conditions
+function parseInkConditions(expression: string): ChoiceCondition[] | undefined {
+  const conditions: ChoiceCondition[] = [];
+  for (const part of expression.split(/\s+and\s+|\s*&&\s*/)) {
+    const comparison = part.match(/^\s*(\w+)\s*(==|!=|>=|<=|>|<)\s*(\S+)\s*$/);
+    const flag = part.match(/^\s*(not\s+|!)?(\w+)\s*$/);
+    if (comparison && parseInkValue(comparison[3]) !== undefined) {
+      conditions.push({
+        variable: comparison[1],
+        operator: INK_OPERATORS[comparison[2]],
+        value: parseInkValue(comparison[3])!,
+      });
+    } else if (flag && flag[2] !== "not") {
+      conditions.push({ variable: flag[2], operator: "eq", value: !flag[1] });
+    } else {
+      return undefined;
+    }
+  }
+  return conditions;
+}
+
+// ~ trust += 1, ~ trust--, ~ metBefore = true
+function parseInkEffect(statement: string): ChoiceEffect | undefined {
+  const step = statement.match(/^(\w+)\s*(\+\+|--)$/);
+  if (step) return { variable: step[1], operation: "increment", value: step[2] === "++" ? 1 : -1 };
+
+  const assignment = statement.match(/^(\w+)\s*(=|\+=|-=)\s*(.+)$/);
+  const value = assignment ? parseInkValue(assignment[3]) : undefined;
+  if (!assignment || value === undefined) return undefined;
+  if (assignment[2] === "=") return { variable: assignment[1], operation: "set", value };
+  if (typeof value !== "number") return undefined;
+  return { variable: assignment[1], operation: "increment", value: assignment[2] === "-=" ? -value : value };
+}
+
+function stripInkComments(source: string): string {
+  return source
+    .replace(/\/\*[\s\S]*?\*\//g, "")
+    .split("\n")
+    .map((line) => line.replace(/(^|\s)\/\/.*$/, "").replace(/^\s*TODO:.*$/, ""))
+    .join("\n");
+}
+
+/**
+ * Parses an Ink script.
+ * Knots and stitches become pages, choices become choices, and a bare divert becomes a
+ * single "Continue" choice. VAR declarations, {conditions} on choices and ~ assignments
+ * under a choice map to story variables. Gathers, tunnels and threads have no page
+ * equivalent, so their content is reported as a warning instead of guessed at.
+ */
+export function parseInk(source: string, title = "Imported Ink Story"): StoryImportResult {
+  const warnings: string[] = [];
+  const variables: StoryVariableDefinition[] = [];
+  const passages: RawPassage[] = [];
+  const knotFirstStitch = new Map<string, string>();
+
+  let knot = "";
+  let current: RawPassage | undefined = { name: "Start", content: "", links: [] };
+  let currentLink: RawLink | undefined;
+  let pendingDivert: string | undefined;
+  let skippingGather = false;
+  let droppedChoiceText = false;
+  passages.push(current);
+
+  // Divert targets are resolved to page names after the whole file is read
+  const rawTargets = new Map<RawLink, { knot: string; target: string }>();
+
+  const endings = new Set(["END", "DONE"]);
+  const finishPassage = () => {
+    if (current && pendingDivert && !endings.has(pendingDivert) && current.links.length === 0) {
+      const link: RawLink = { text: "Continue", target: pendingDivert, isPremium: false, eggplantCost: 0, effects: [], conditions: [] };
+      current.links.push(link);
+      rawTargets.set(link, { knot, target: pendingDivert });
+    }
+    pendingDivert = undefined;
+    currentLink = undefined;
+    skippingGather = false;
+    droppedChoiceText = false;
+  };
+
+  stripInkComments(source.replace(/\r\n?/g, "\n")).split("\n").forEach((rawLine, index) => {
+    const line = rawLine.trim();
+    if (!line) return;
+
+    const knotMatch = line.match(/^={2,}\s*(function\s+)?(\w+)\s*(\([^)]*\))?\s*=*$/);
+    const stitchMatch = !knotMatch && line.match(/^=\s*(\w+)\s*(\([^)]*\))?$/);
+    if (knotMatch) {
+      finishPassage();
+      knot = knotMatch[2];
+      if (knotMatch[1]) {
+        warnings.push(`Skipped ink function "${knot}"`);
+        current = undefined;
+        return;
+      }
+      current = { name: knot, content: "", links: [] };
+      passages.push(current);
+      return;
+    }
+    if (stitchMatch) {
+      finishPassage();
+      const name = `${knot}.${stitchMatch[1]}`;
+      if (knot && !knotFirstStitch.has(knot)) knotFirstStitch.set(knot, name);
+      current = { name, content: "", links: [] };
+      passages.push(current);
+      return;
+    }
+
+    const varMatch = line.match(/^(VAR|CONST)\s+(\w+)\s*=\s*(.+)$/);
+    if (varMatch) {
+      const value = parseInkValue(varMatch[3]);
+      if (value === undefined) {
+        warnings.push(`Variable "${varMatch[2]}" isn't a number or true/false and was skipped`);
+      } else {
+        variables.push({ name: varMatch[2], type: typeof value === "boolean" ? "boolean" : "number", defaultValue: value });
+      }
+      return;
+    }
+    if (/^(INCLUDE|LIST|EXTERNAL)\b/.test(line)) {
+      warnings.push(`Line ${index + 1}: ${line.split(/\s/)[0]} is not supported and was skipped`);
+      return;
+    }
+    if (!current) return;
+
+    const [body, ...tagParts] = line.split("#");
+    const tags = tagParts.map((tag) => tag.trim()).filter(Boolean);
+
+    const choiceMatch = body.match(/^((?:[*+]\s*)+)(.*)$/);
+    if (choiceMatch) {
+      if (choiceMatch[1].replace(/\s/g, "").length > 1) {
+        warnings.push(`Line ${index + 1}: nested choice flattened onto "${current.name}"`);
+      }
+      skippingGather = false;
+      droppedChoiceText = false;
+
+      let text = choiceMatch[2].trim().replace(/^\(\w+\)\s*/, "");
+      const conditions: ChoiceCondition[] = [];
+      let conditionMatch: RegExpMatchArray | null;
+      while ((conditionMatch = text.match(/^\{([^}]*)\}\s*/))) {
+        const parsed = parseInkConditions(conditionMatch[1]);
+        if (parsed) conditions.push(...parsed);
+        else warnings.push(`Line ${index + 1}: condition {${conditionMatch[1]}} is too complex and was dropped`);
+        text = text.slice(conditionMatch[0].length);
+      }
+
+      const divert = text.match(/->\s*([\w.]+)\s*$/);
+      if (divert) text = text.slice(0, divert.index).trim();
+      const bracket = text.match(/^(.*?)\[(.*?)\](.*)$/);
+      const choiceText = (bracket ? bracket[1] + bracket[2] : text).replace(/\s+/g, " ").trim();
+
+      currentLink = { text: choiceText, target: "", ...readPremiumTags(tags), effects: [], conditions };
+      current.links.push(currentLink);
+      if (divert) rawTargets.set(currentLink, { knot, target: divert[1] });
+      return;
+    }
+
+    let statement = body.trim();
+    if (/^-(?!>)/.test(statement)) {
+      if (current.links.length > 0 && !skippingGather) {
+        warnings.push(`"${current.name}": content after a gather (-) has no page to go to and was skipped`);
+      }
+      skippingGather = current.links.length > 0;
+      currentLink = undefined;
+      statement = statement.replace(/^(-\s*)+/, "");
+    }
+    if (skippingGather || !statement) return;
+
+    const divertOnly = statement.match(/^->\s*([\w.]+)\s*$/);
+    if (statement.startsWith("~")) {
+      const effect = parseInkEffect(statement.slice(1).trim());
+      if (currentLink && effect) currentLink.effects.push(effect);
+      else warnings.push(`Line ${index + 1}: "${statement}" only carries over when it's a simple assignment under a choice`);
+      return;
+    }
+    if (divertOnly) {
+      if (currentLink) {
+        if (!rawTargets.has(currentLink)) rawTargets.set(currentLink, { knot, target: divertOnly[1] });
+      } else if (current.links.length === 0) {
+        pendingDivert = divertOnly[1];
+      }
+      return;
+    }
+
+    if (currentLink) {
+      if (!droppedChoiceText) {
+        warnings.push(`"${current.name}": text shown after choosing "${currentLink.text}" was skipped`);
+        droppedChoiceText = true;
+      }
+      return;
+    }
+
+    const trailingDivert = statement.match(/\s*->\s*([\w.]+)\s*$/);
+    if (trailingDivert && current.links.length === 0) pendingDivert = trailingDivert[1];
+    const text = statement.slice(0, trailingDivert ? trailingDivert.index : undefined).replace(/<>/g, "").trim();
+    if (text) current.content = current.content ? `${current.content}\n\n${text}` : text;
+  });
+  finishPassage();
+
+  // Inside a knot, a bare name can mean one of its stitches; an empty knot runs its first stitch
+  const names = new Set(passages.map((passage) => passage.name));
+  const resolve = (fromKnot: string, target: string): string => {
+    const local = `${fromKnot}.${target}`;
+    const name = names.has(local) ? local : target;
+    const passage = passages.find((candidate) => candidate.name === name);
+    if (passage && !passage.content && passage.links.length === 0 && knotFirstStitch.has(name)) {
+      return knotFirstStitch.get(name)!;
+    }
+    return name;
+  };
+
+  passages.forEach((passage) => {
+    passage.links = passage.links.filter((link) => {
+      const raw = rawTargets.get(link);
+      if (!raw) {
+        warnings.push(`Choice "${link.text}" in "${passage.name}" doesn't divert anywhere and was skipped`);
+        return false;
+      }
+      if (endings.has(raw.target)) {
+        warnings.push(`Choice "${link.text}" in "${passage.name}" ends the story; make its page an ending instead`);
+        return false;
+      }
+      link.target = resolve(raw.knot, raw.target);
+      return true;
+    });
+  });
+
+  // Drop the implicit opening section when it only diverts, and knots that only hold stitches
+  const start = passages[0];
+  const startName = !start.content && start.links.length === 1 && start.links[0].text === "Continue"
+    ? start.links[0].target
+    : start.name;
+  const kept = passages.filter((passage) => {
+    const isEmpty = !passage.content && passage.links.length === 0;
+    if (passage === start) return startName === start.name && !isEmpty;
+    return !(isEmpty && knotFirstStitch.has(passage.name));
+  });
+
+  if (kept.length === 0) {
+    warnings.push("No knots or story text were found");
+  }
+
+  return { story: buildImportedStory(title, kept, startName, variables, warnings), warnings };
+}
@@ -0,0 +1,287 @@
+import { createHash } from "crypto";
+import type { StoryPage } from "@shared/schema";
+
+type LayoutPage = Pick<StoryPage, "id" | "order">;
+
+// A link between two pages: a choice, or reading on to the next page
+export interface LayoutEdge {
+  fromPageId: string;
+  toPageId: string;
+}
+
+export interface PagePosition {
+  x: number;
+  y: number;
+  layer: number;
+}
+
+export type StoryLayout = Record<string, PagePosition>;
+
+// Map units between neighbouring pages and between layers
+const NODE_SPACING = 1.5;
+const LAYER_SPACING = 1.5;
+// Barycenter sweeps over the layers while ordering; more rarely finds fewer crossings
+const ORDERING_SWEEPS = 12;
+const POSITIONING_SWEEPS = 4;
+const LAYOUT_CACHE_SIZE = 200;
+
+interface LayoutNode {
+  id: string;
+  isDummy: boolean; // Stands in for a long edge where it crosses a layer
+  layer: number;
+  up: string[];
+  down: string[];
+}
+
+/**
+ * Lays a story out in layers (Sugiyama style): loops are broken by reversing the links that lead back
+ * up the story, pages are put one layer below the longest path into them, endings share the last
+ * layer, and each layer is ordered to keep links from crossing. Pages are ordered by `order` and
+ * the first one is where the story starts.
+ */
+export function layoutStoryGraph(pages: LayoutPage[], edges: LayoutEdge[]): StoryLayout {
+  const sortedPages = [...pages].sort((a, b) => a.order - b.order);
+  if (sortedPages.length === 0) return {};
+
+  const pageIds = new Set(sortedPages.map((page) => page.id));
+  const outgoing = new Map<string, string[]>(sortedPages.map((page) => [page.id, []]));
+  for (const edge of edges) {
+    const targets = outgoing.get(edge.fromPageId);
+    if (!targets || !pageIds.has(edge.toPageId) || edge.toPageId === edge.fromPageId) continue;
+    if (!targets.includes(edge.toPageId)) targets.push(edge.toPageId);
+  }
+
+  const forwardEdges = breakCycles(sortedPages, outgoing);
+  const layers = assignLayers(sortedPages, forwardEdges, outgoing);
+  const { nodes, rows } = buildLayerRows(sortedPages, forwardEdges, layers);
+  orderLayers(rows, nodes);
+  const xs = assignCoordinates(rows, nodes);
+
+  const layout: StoryLayout = {};
+  for (const page of sortedPages) {
+    const layer = nodes.get(page.id)!.layer;
+    layout[page.id] = { x: xs.get(page.id)!, y: layer * LAYER_SPACING, layer };
+  }
+  return layout;
+}
+
+// Depth-first from the start page (then any page it can't reach); links back to a page still being
+// explored close a loop and are turned around
+function breakCycles(pages: LayoutPage[], outgoing: Map<string, string[]>): LayoutEdge[] {
+  const forwardEdges: LayoutEdge[] = [];
+  const state = new Map<string, "open" | "done">();
+
+  const visit = (pageId: string) => {
+    state.set(pageId, "open");
+    for (const toPageId of outgoing.get(pageId)!) {
+      const targetState = state.get(toPageId);
+      if (targetState === "open") {
+        forwardEdges.push({ fromPageId: toPageId, toPageId: pageId });
+      } else {
+        forwardEdges.push({ fromPageId: pageId, toPageId });
+        if (!targetState) visit(toPageId);
+      }
+    }
+    state.set(pageId, "done");
+  };
+
+  for (const page of pages) {
+    if (!state.has(page.id)) visit(page.id);
+  }
+
+  const seen = new Set<string>();
+  return forwardEdges.filter((edge) => {
+    const key = `${edge.fromPageId}->${edge.toPageId}`;
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+}
+
+// Longest path from the top, so every link points down; endings then drop to the bottom layer
+function assignLayers(pages: LayoutPage[], forwardEdges: LayoutEdge[], outgoing: Map<string, string[]>): Map<string, number> {
+  const incoming = new Map<string, string[]>(pages.map((page) => [page.id, []]));
+  const children = new Map<string, string[]>(pages.map((page) => [page.id, []]));
+  for (const edge of forwardEdges) {
+    incoming.get(edge.toPageId)!.push(edge.fromPageId);
+    children.get(edge.fromPageId)!.push(edge.toPageId);
+  }
+
+  const layers = new Map<string, number>();
+  const remaining = new Map(pages.map((page) => [page.id, incoming.get(page.id)!.length]));
+  const queue = pages.filter((page) => remaining.get(page.id) === 0).map((page) => page.id);
+  while (queue.length > 0) {
+    const pageId = queue.shift()!;
+    layers.set(pageId, Math.max(0, ...incoming.get(pageId)!.map((parentId) => layers.get(parentId)! + 1)));
+    for (const childId of children.get(pageId)!) {
+      remaining.set(childId, remaining.get(childId)! - 1);
+      if (remaining.get(childId) === 0) queue.push(childId);
+    }
+  }
+
+  const lastLayer = Math.max(...Array.from(layers.values()));
+  for (const page of pages) {
+    const isEnding = outgoing.get(page.id)!.length === 0 && incoming.get(page.id)!.length > 0;
+    if (isEnding) layers.set(page.id, lastLayer);
+  }
+  return layers;
+}
+
+// One row of nodes per layer, with a dummy node wherever a link passes through a layer
+function buildLayerRows(pages: LayoutPage[], forwardEdges: LayoutEdge[], layers: Map<string, number>) {
+  const nodes = new Map<string, LayoutNode>();
+  for (const page of pages) {
+    nodes.set(page.id, { id: page.id, isDummy: false, layer: layers.get(page.id)!, up: [], down: [] });
+  }
+
+  for (const edge of forwardEdges) {
+    let from = nodes.get(edge.fromPageId)!;
+    const to = nodes.get(edge.toPageId)!;
+    for (let layer = from.layer + 1; layer < to.layer; layer++) {
+      const dummy: LayoutNode = { id: `${edge.fromPageId}->${edge.toPageId}#${layer}`, isDummy: true, layer, up: [], down: [] };
+      nodes.set(dummy.id, dummy);
+      from.down.push(dummy.id);
+      dummy.up.push(from.id);
+      from = dummy;
+    }
+    from.down.push(to.id);
+    to.up.push(from.id);
+  }
+
+  // Start in reading order: pages by `order`, each dummy right after the node it hangs from
+  const rows: string[][] = [];
+  const placed = new Set<string>();
+  const place = (node: LayoutNode) => {
+    if (placed.has(node.id)) return;
+    placed.add(node.id);
+    (rows[node.layer] ??= []).push(node.id);
+    node.down.forEach((childId) => {
+      const child = nodes.get(childId)!;
+      if (child.isDummy) place(child);
+    });
+  };
+  pages.forEach((page) => place(nodes.get(page.id)!));
+  return { nodes, rows: Array.from(rows, (row) => row ?? []) };
+}
+
+// Barycenter heuristic: sweep down and up, sorting each layer by the average position of its
+// neighbours in the layer just fixed, and keep the ordering with the fewest crossings
+function orderLayers(rows: string[][], nodes: Map<string, LayoutNode>) {
+  let best = rows.map((row) => [...row]);
+  let bestCrossings = countCrossings(rows, nodes);
+
+  for (let sweep = 0; sweep < ORDERING_SWEEPS && bestCrossings > 0; sweep++) {
+    const downward = sweep % 2 === 0;
+    const layerIndexes = rows.map((_, index) => index);
+    if (!downward) layerIndexes.reverse();
+
+    for (const layer of layerIndexes.slice(1)) {
+      const fixedRow = rows[downward ? layer - 1 : layer + 1];
+      const fixedPositions = new Map(fixedRow.map((id, index) => [id, index]));
+      const barycenters = new Map(rows[layer].map((id, index) => {
+        const neighbours = downward ? nodes.get(id)!.up : nodes.get(id)!.down;
+        const positions = neighbours.map((neighbourId) => fixedPositions.get(neighbourId)!);
+        return [id, positions.length > 0 ? positions.reduce((sum, value) => sum + value, 0) / positions.length : index];
+      }));
+      rows[layer] = [...rows[layer]].sort((a, b) => barycenters.get(a)! - barycenters.get(b)!);
+    }
+
+    const crossings = countCrossings(rows, nodes);
+    if (crossings < bestCrossings) {
+      best = rows.map((row) => [...row]);
+      bestCrossings = crossings;
+    }
+  }
+
+  best.forEach((row, index) => { rows[index] = row; });
+}
+
+// Two links cross when their ends are in opposite orders, so taking links left to right along the
+// upper layer, each one crosses the earlier links that land further right (counted with a Fenwick tree)
+function countCrossings(rows: string[][], nodes: Map<string, LayoutNode>): number {
+  let crossings = 0;
+  for (let layer = 0; layer < rows.length - 1; layer++) {
+    const lowerPositions = new Map(rows[layer + 1].map((id, index) => [id, index]));
+    const lowerEnds = rows[layer].flatMap((id) =>
+      nodes.get(id)!.down.map((childId) => lowerPositions.get(childId)!).sort((a, b) => a - b)
+    );
+
+    const tree = new Array(rows[layer + 1].length + 1).fill(0);
+    lowerEnds.forEach((position, seen) => {
+      let notFurtherRight = 0;
+      for (let i = position + 1; i > 0; i -= i & -i) notFurtherRight += tree[i];
+      crossings += seen - notFurtherRight;
+      for (let i = position + 1; i < tree.length; i += i & -i) tree[i]++;
+    });
+  }
+  return crossings;
+}
+
+// Nodes start evenly spaced, then each layer is pulled toward its neighbours in the layer above
+// (or below) without reordering or crowding; finally the map is shifted to start at x = 0
+function assignCoordinates(rows: string[][], nodes: Map<string, LayoutNode>): Map<string, number> {
+  const xs = new Map<string, number>();
+  const widest = Math.max(...rows.map((row) => row.length));
+  rows.forEach((row) => row.forEach((id, index) => {
+    xs.set(id, (index - (row.length - 1) / 2 + (widest - 1) / 2) * NODE_SPACING);
+  }));
+
+  for (let sweep = 0; sweep < POSITIONING_SWEEPS; sweep++) {
+    const downward = sweep % 2 === 0;
+    const layerIndexes = rows.map((_, index) => index);
+    if (!downward) layerIndexes.reverse();
+
+    for (const layer of layerIndexes.slice(1)) {
+      const row = rows[layer];
+      const desired = row.map((id) => {
+        const neighbours = downward ? nodes.get(id)!.up : nodes.get(id)!.down;
+        if (neighbours.length === 0) return xs.get(id)!;
+        return neighbours.reduce((sum, neighbourId) => sum + xs.get(neighbourId)!, 0) / neighbours.length;
+      });
+
+      // Push right from the left and left from the right, then meet in the middle
+      const fromLeft = [...desired];
+      for (let i = 1; i < row.length; i++) fromLeft[i] = Math.max(fromLeft[i], fromLeft[i - 1] + NODE_SPACING);
+      const fromRight = [...desired];
+      for (let i = row.length - 2; i >= 0; i--) fromRight[i] = Math.min(fromRight[i], fromRight[i + 1] - NODE_SPACING);
+
+      let previous = -Infinity;
+      row.forEach((id, i) => {
+        const x = Math.max((fromLeft[i] + fromRight[i]) / 2, previous + NODE_SPACING);
+        xs.set(id, x);
+        previous = x;
+      });
+    }
+  }
+
+  const minX = Math.min(...Array.from(xs.values()));
+  const result = new Map<string, number>();
+  xs.forEach((x, id) => {
+    if (!nodes.get(id)!.isDummy) result.set(id, Math.round((x - minX) * 100) / 100);
+  });
+  return result;
+}
+
+// Layouts are kept per story under a hash of the pages and links they were built from, so editing,
+// publishing or reading the working copy each find the layout that matches what they show
+const layoutCache = new Map<string, StoryLayout>();
+
+export function cachedStoryLayout(storyId: string, pages: LayoutPage[], edges: LayoutEdge[]): StoryLayout {
+  const graph = JSON.stringify([
+    pages.map((page) => [page.id, page.order]),
+    edges.map((edge) => [edge.fromPageId, edge.toPageId]),
+  ]);
+  const key = `${storyId}:${createHash("sha1").update(graph).digest("base64url")}`;
+  let layout = layoutCache.get(key);
+  if (layout) {
+    // Refresh its place so the least recently used layout is evicted first
+    layoutCache.delete(key);
+  } else {
+    layout = layoutStoryGraph(pages, edges);
+  }
+  layoutCache.set(key, layout);
+  if (layoutCache.size > LAYOUT_CACHE_SIZE) {
+    layoutCache.delete(layoutCache.keys().next().value!);
+  }
+  return layout;
+}
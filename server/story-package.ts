@@ -0,0 +1,250 @@
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import type { StorySnapshot } from "@shared/schema";
+import { CharacterMentions } from "@shared/story-engine/CharacterMentions";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import { chatMessageSchema, storyCharactersSchema, storyVariablesSchema } from "./security";
+import { remapCharacterReferences } from "./story-snapshots";
+
+export const STORY_PACKAGE_FORMAT = "wildbranch.story-package";
+export const STORY_PACKAGE_VERSION = 1;
+
+const choiceEffectSchema = z.object({
+  variable: z.string(),
+  operation: z.enum(["set", "increment"]),
+  value: z.union([z.number(), z.boolean()]),
+});
+
+const choiceConditionSchema = z.object({
+  variable: z.string(),
+  operator: z.enum(["eq", "neq", "gt", "gte", "lt", "lte"]),
+  value: z.union([z.number(), z.boolean()]),
+});
+
+// Version 1 of the package; bump STORY_PACKAGE_VERSION and keep reading old versions if this changes
+export const storyPackageSchema = z.object({
+  format: z.literal(STORY_PACKAGE_FORMAT),
+  version: z.literal(STORY_PACKAGE_VERSION),
+  exportedAt: z.string(),
+  sourceStoryId: z.string(),
+  story: z.object({
+    title: z.string().min(1).max(500),
+    description: z.string().max(5000),
+    imageUrl: z.string(),
+    spiceLevel: z.number().int().min(1).max(3),
+    category: z.string().min(1),
+    isPublished: z.boolean(),
+  }),
+  pages: z.array(z.object({
+    id: z.string().min(1),
+    title: z.string(),
+    content: z.string(),
+    order: z.number().int(),
+    pageType: z.string().nullable(),
+    isStarting: z.boolean().nullable(),
+    chatMessages: z.array(chatMessageSchema).nullable(),
+    nextPageId: z.string().nullable(),
+  })).min(1).max(2000),
+  choices: z.array(z.object({
+    id: z.string().min(1),
+    fromPageId: z.string(),
+    toPageId: z.string(),
+    choiceText: z.string().min(1),
+    isPremium: z.boolean().nullable(),
+    eggplantCost: z.number().int().min(0).nullable(),
+    order: z.number().int(),
+    targetPage: z.number().int().nullable(),
+    targetPageId: z.string().nullable(),
+    effects: z.array(choiceEffectSchema).nullable(),
+    conditions: z.array(choiceConditionSchema).nullable(),
+  })).max(10000),
+  endingCards: z.array(z.object({
+    id: z.string().min(1),
+    pageId: z.string(),
+    cardTitle: z.string().min(1),
+    cardSubtitle: z.string().nullable(),
+    cardDescription: z.string(),
+    cardImageUrl: z.string().nullable(),
+    rarity: z.enum(["whisper", "ember", "flame", "inferno"]).nullable(),
+    emotionTag: z.string().nullable(),
+    unlockCondition: z.string().nullable(),
+    isSecret: z.boolean().nullable(),
+    sortOrder: z.number().int().nullable(),
+  })).max(2000),
+  variables: storyVariablesSchema.shape.variables,
+  // Added after version 1 shipped; packages exported before then have no cast
+  characters: storyCharactersSchema.default([]),
+  // Images are referenced by URL, not embedded, so they must be reachable from the target environment
+  images: z.array(z.object({
+    url: z.string(),
+    usedBy: z.array(z.string()),
+  })),
+});
+
+export type StoryPackage = z.infer<typeof storyPackageSchema>;
+
+export interface PackageConflict {
+  severity: "error" | "warning";
+  code: string;
+  message: string;
+}
+
+function collectImages(snapshot: StorySnapshot): StoryPackage["images"] {
+  const usage = new Map<string, string[]>();
+  const addImage = (url: string | null | undefined, usedBy: string) => {
+    if (!url) return;
+    usage.set(url, (usage.get(url) || []).concat(usedBy));
+  };
+
+  addImage(snapshot.story.imageUrl, "story");
+  snapshot.endingCards.forEach((card) => addImage(card.cardImageUrl, `endingCard:${card.id}`));
+  (snapshot.characters ?? []).forEach((character) => addImage(character.avatarUrl, `character:${character.id}`));
+  snapshot.pages.forEach((page) => StoryMarkdown.imageUrls(page.content).forEach((url) => addImage(url, `page:${page.id}`)));
+  return Array.from(usage.entries()).map(([url, usedBy]) => ({ url, usedBy }));
+}
+
+export function buildStoryPackage(storyId: string, isPublished: boolean, snapshot: StorySnapshot): StoryPackage {
+  return {
+    format: STORY_PACKAGE_FORMAT,
+    version: STORY_PACKAGE_VERSION,
+    exportedAt: new Date().toISOString(),
+    sourceStoryId: storyId,
+    story: { ...snapshot.story, isPublished },
+    pages: snapshot.pages.map((page) => ({
+      ...page,
+      chatMessages: (page.chatMessages as StoryPackage["pages"][number]["chatMessages"]) ?? null,
+    })),
+    choices: snapshot.choices,
+    endingCards: snapshot.endingCards,
+    variables: snapshot.variables,
+    characters: (snapshot.characters ?? []).map(({ sortOrder: _sortOrder, ...character }) => character),
+    images: collectImages(snapshot),
+  };
+}
+
+/**
+ * Checks a package for problems that exist regardless of where it's imported.
+ * Errors would leave broken rows and block the import; warnings are reported only.
+ */
+export function checkStoryPackage(storyPackage: StoryPackage): PackageConflict[] {
+  const conflicts: PackageConflict[] = [];
+  const pageIds = new Set<string>();
+  storyPackage.pages.forEach((page) => {
+    if (pageIds.has(page.id)) {
+      conflicts.push({ severity: "error", code: "duplicate_id", message: `Page id ${page.id} appears more than once` });
+    }
+    pageIds.add(page.id);
+  });
+
+  const seenChoiceIds = new Set<string>();
+  storyPackage.choices.forEach((choice) => {
+    if (seenChoiceIds.has(choice.id)) {
+      conflicts.push({ severity: "error", code: "duplicate_id", message: `Choice id ${choice.id} appears more than once` });
+    }
+    seenChoiceIds.add(choice.id);
+    if (!pageIds.has(choice.fromPageId) || !pageIds.has(choice.toPageId)) {
+      conflicts.push({
+        severity: "error",
+        code: "missing_reference",
+        message: `Choice "${choice.choiceText}" references a page that isn't in the package`,
+      });
+    }
+  });
+
+  storyPackage.endingCards.forEach((card) => {
+    if (!pageIds.has(card.pageId)) {
+      conflicts.push({
+        severity: "error",
+        code: "missing_reference",
+        message: `Ending card "${card.cardTitle}" references a page that isn't in the package`,
+      });
+    }
+  });
+
+  storyPackage.pages.forEach((page) => {
+    if (page.nextPageId && !pageIds.has(page.nextPageId)) {
+      conflicts.push({
+        severity: "warning",
+        code: "missing_reference",
+        message: `Page "${page.title}" continues to a page that isn't in the package; that link will be cleared`,
+      });
+    }
+  });
+
+  const declared = new Set(storyPackage.variables.map((variable) => variable.name));
+  const undeclared = new Set<string>();
+  storyPackage.choices.forEach((choice) => {
+    (choice.effects || []).forEach((effect) => !declared.has(effect.variable) && undeclared.add(effect.variable));
+    (choice.conditions || []).forEach((condition) => !declared.has(condition.variable) && undeclared.add(condition.variable));
+  });
+  Array.from(undeclared).forEach((name) => {
+    conflicts.push({ severity: "warning", code: "unknown_variable", message: `Variable "${name}" is used by a choice but not declared` });
+  });
+
+  const cast = new Set(storyPackage.characters.map((character) => character.id));
+  storyPackage.pages.forEach((page) => {
+    const referenced = CharacterMentions.idsIn(page.content)
+      .concat((page.chatMessages || []).flatMap((message) => (message.characterId ? [message.characterId] : [])));
+    if (referenced.some((characterId) => !cast.has(characterId))) {
+      conflicts.push({
+        severity: "warning",
+        code: "unknown_character",
+        message: `Page "${page.title}" refers to a character who isn't in the package`,
+      });
+    }
+  });
+
+  storyPackage.images
+    .filter((image) => !/^https?:\/\//i.test(image.url))
+    .forEach((image) => {
+      conflicts.push({
+        severity: "warning",
+        code: "local_image",
+        message: `Image ${image.url} is stored on the source server; copy it over or it will be missing`,
+      });
+    });
+
+  return conflicts;
+}
+
+/**
+ * Gives every page, choice, ending card and character a fresh id so a package can be imported
+ * any number of times, into any environment, without colliding with existing rows.
+ */
+export function remapStoryPackage(storyPackage: StoryPackage): StorySnapshot {
+  const pageIds = new Map(storyPackage.pages.map((page) => [page.id, randomUUID()]));
+  const characterIds = new Map(storyPackage.characters.map((character) => [character.id, randomUUID()]));
+  const { isPublished, ...story } = storyPackage.story;
+
+  return {
+    story,
+    pages: storyPackage.pages.map((page) => remapCharacterReferences({
+      ...page,
+      id: pageIds.get(page.id)!,
+      content: StoryMarkdown.sanitize(page.content),
+      nextPageId: (page.nextPageId && pageIds.get(page.nextPageId)) || null,
+    }, characterIds)),
+    choices: storyPackage.choices.map((choice) => ({
+      ...choice,
+      id: randomUUID(),
+      fromPageId: pageIds.get(choice.fromPageId)!,
+      toPageId: pageIds.get(choice.toPageId)!,
+      targetPageId: pageIds.get(choice.toPageId)!,
+    })),
+    endingCards: storyPackage.endingCards.map((card) => ({
+      ...card,
+      id: randomUUID(),
+      pageId: pageIds.get(card.pageId)!,
+    })),
+    variables: storyPackage.variables,
+    characters: storyPackage.characters.map((character, index) => ({
+      id: characterIds.get(character.id)!,
+      name: character.name,
+      avatarUrl: character.avatarUrl ?? null,
+      color: character.color ?? null,
+      pronouns: character.pronouns ?? null,
+      bio: character.bio ?? null,
+      sortOrder: index,
+    })),
+  };
+}
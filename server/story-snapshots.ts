@@ -0,0 +1,251 @@
+import { randomUUID } from "crypto";
+import type { StorySnapshot, ChoiceEffect, ChoiceCondition, ChatMessage } from "@shared/schema";
+import type { StoryCharacter, StoryVariableDefinition } from "@shared/story-engine/types/StoryTypes";
+import { CharacterMentions } from "@shared/story-engine/CharacterMentions";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+
+type SnapshotCharacter = NonNullable<StorySnapshot["characters"]>[number];
+
+// The shape story-builder.tsx sends and edits: choices nested in pages, ending cards inline
+export interface TimelineStory {
+  title?: string;
+  description?: string;
+  imageUrl?: string;
+  spiceLevel?: number;
+  category?: string;
+  pages: Array<{
+    id: string;
+    title: string;
+    content: string;
+    order: number;
+    pageType?: string;
+    chatMessages?: ChatMessage[];
+    choices?: Array<{
+      id: string;
+      text: string;
+      isPremium?: boolean;
+      eggplantCost?: number;
+      targetPageId: string;
+      effects?: ChoiceEffect[];
+      conditions?: ChoiceCondition[];
+    }>;
+    endingCard?: {
+      cardTitle?: string;
+      cardSubtitle?: string;
+      cardDescription?: string;
+      cardImageUrl?: string;
+      rarity?: "ember" | "flame" | "inferno";
+      emotionTag?: string;
+      unlockCondition?: string;
+    };
+  }>;
+  variables?: StoryVariableDefinition[];
+  characters?: StoryCharacter[];
+}
+
+/**
+ * Converts a builder payload into a snapshot.
+ * Ids already present in the previous snapshot are kept so purchases, bookmarks and
+ * collected cards follow their rows; builder-local ids ("page-1712…") get fresh UUIDs.
+ */
+export function timelineToSnapshot(timeline: TimelineStory, previous: StorySnapshot): StorySnapshot {
+  const previousPages = new Map(previous.pages.map((page) => [page.id, page]));
+  const previousChoiceIds = new Set(previous.choices.map((choice) => choice.id));
+  const previousCards = new Map(previous.endingCards.map((card) => [card.pageId, card]));
+
+  const pageIds = new Map<string, string>();
+  timeline.pages.forEach((page) => {
+    pageIds.set(page.id, previousPages.has(page.id) ? page.id : randomUUID());
+  });
+  const orderByPageId = new Map(timeline.pages.map((page) => [pageIds.get(page.id)!, page.order]));
+
+  const previousCharacterIds = new Set((previous.characters ?? []).map((character) => character.id));
+  const characterIds = new Map<string, string>();
+  (timeline.characters ?? []).forEach((character) => {
+    characterIds.set(character.id, previousCharacterIds.has(character.id) ? character.id : randomUUID());
+  });
+  const characters: SnapshotCharacter[] = (timeline.characters ?? []).map((character, index) => ({
+    id: characterIds.get(character.id)!,
+    name: character.name,
+    avatarUrl: character.avatarUrl || null,
+    color: character.color || null,
+    pronouns: character.pronouns || null,
+    bio: character.bio || null,
+    sortOrder: index,
+  }));
+
+  const pages: StorySnapshot["pages"] = timeline.pages.map((page) => {
+    const id = pageIds.get(page.id)!;
+    return remapCharacterReferences({
+      id,
+      title: page.title || `Page ${page.order}`,
+      content: StoryMarkdown.sanitize(page.content || ""),
+      order: page.order,
+      pageType: page.pageType || "story",
+      isStarting: page.order === 1,
+      chatMessages: page.chatMessages?.map(withoutUnfinishedAttachment) ?? null,
+      nextPageId: previousPages.get(id)?.nextPageId ?? null,
+    }, characterIds);
+  });
+
+  const choices: StorySnapshot["choices"] = [];
+  timeline.pages.forEach((page) => {
+    (page.choices || []).forEach((choice, index) => {
+      const toPageId = pageIds.get(choice.targetPageId);
+      if (!choice.text?.trim() || !toPageId) return; // Unfinished choices aren't saved
+
+      choices.push({
+        id: previousChoiceIds.has(choice.id) ? choice.id : randomUUID(),
+        fromPageId: pageIds.get(page.id)!,
+        toPageId,
+        choiceText: choice.text,
+        isPremium: choice.isPremium || false,
+        eggplantCost: choice.eggplantCost || 0,
+        order: index,
+        targetPage: orderByPageId.get(toPageId) ?? null,
+        targetPageId: toPageId,
+        effects: choice.effects?.length ? choice.effects : null,
+        conditions: choice.conditions?.length ? choice.conditions : null,
+      });
+    });
+  });
+
+  const endingCards: StorySnapshot["endingCards"] = [];
+  timeline.pages.forEach((page) => {
+    if (!page.endingCard?.cardTitle) return;
+    const pageId = pageIds.get(page.id)!;
+    const existing = previousCards.get(pageId);
+
+    endingCards.push({
+      id: existing?.id || randomUUID(),
+      pageId,
+      cardTitle: page.endingCard.cardTitle,
+      cardSubtitle: page.endingCard.cardSubtitle ?? null,
+      cardDescription: page.endingCard.cardDescription || "",
+      cardImageUrl: page.endingCard.cardImageUrl ?? null,
+      rarity: page.endingCard.rarity || "ember",
+      emotionTag: page.endingCard.emotionTag ?? null,
+      unlockCondition: page.endingCard.unlockCondition ?? null,
+      isSecret: existing?.isSecret ?? false,
+      sortOrder: existing?.sortOrder ?? 0,
+    });
+  });
+
+  return {
+    story: {
+      title: timeline.title || previous.story.title,
+      description: timeline.description || previous.story.description,
+      imageUrl: timeline.imageUrl ?? previous.story.imageUrl,
+      spiceLevel: timeline.spiceLevel || previous.story.spiceLevel,
+      category: timeline.category || previous.story.category,
+    },
+    pages,
+    choices,
+    endingCards,
+    variables: timeline.variables ?? previous.variables,
+    characters: timeline.characters ? characters : previous.characters ?? [],
+  };
+}
+
+/**
+ * Points a page's chat messages and text mentions at new character ids.
+ * References to characters outside the map are kept as they are.
+ */
+export function remapCharacterReferences<T extends { content: string; chatMessages: ChatMessage[] | null }>(
+  page: T,
+  characterIds: Map<string, string>
+): T {
+  return {
+    ...page,
+    content: CharacterMentions.remap(page.content, characterIds),
+    chatMessages: page.chatMessages?.map((message) =>
+      message.characterId && characterIds.has(message.characterId)
+        ? { ...message, characterId: characterIds.get(message.characterId) }
+        : message
+    ) ?? null,
+  };
+}
+
+// Attachments picked in the builder but not given a file yet aren't saved
+function withoutUnfinishedAttachment(message: ChatMessage): ChatMessage {
+  if (!message.attachment || message.attachment.url.trim()) return message;
+  const { attachment, ...rest } = message;
+  return rest;
+}
+
+// The reverse of timelineToSnapshot, for loading a story back into the builder
+export function snapshotToTimeline(snapshot: StorySnapshot): TimelineStory {
+  return {
+    ...snapshot.story,
+    pages: snapshot.pages
+      .slice()
+      .sort((a, b) => a.order - b.order)
+      .map((page) => {
+        const card = snapshot.endingCards.find((endingCard) => endingCard.pageId === page.id);
+        return {
+          id: page.id,
+          title: page.title,
+          content: page.content,
+          order: page.order,
+          pageType: page.pageType || "story",
+          chatMessages: (page.chatMessages as ChatMessage[] | null) || undefined,
+          choices: snapshot.choices
+            .filter((choice) => choice.fromPageId === page.id)
+            .sort((a, b) => a.order - b.order)
+            .map((choice) => ({
+              id: choice.id,
+              text: choice.choiceText,
+              isPremium: choice.isPremium || false,
+              eggplantCost: choice.eggplantCost || 0,
+              targetPageId: choice.toPageId,
+              effects: choice.effects || undefined,
+              conditions: choice.conditions || undefined,
+            })),
+          endingCard: card
+            ? {
+                cardTitle: card.cardTitle,
+                cardSubtitle: card.cardSubtitle || undefined,
+                cardDescription: card.cardDescription,
+                cardImageUrl: card.cardImageUrl || undefined,
+                rarity: card.rarity === "whisper" ? undefined : card.rarity || undefined,
+                emotionTag: card.emotionTag || undefined,
+                unlockCondition: card.unlockCondition || undefined,
+              }
+            : undefined,
+        };
+      }),
+    variables: snapshot.variables,
+    characters: (snapshot.characters ?? []).map(({ sortOrder: _sortOrder, ...character }) => character),
+  };
+}
+
+/**
+ * Works out where readers on each old page number should land after a publish.
+ * A page that survives keeps its reader at its new position; readers on a removed
+ * page fall back to the closest earlier page that still exists, or the opening page.
+ */
+export function planPageRemap(
+  previousPages: Array<{ id: string; order: number }>,
+  nextPages: StorySnapshot["pages"]
+): { orderMap: Map<number, number>; pageFallbacks: Map<string, string> } {
+  const nextOrderById = new Map(nextPages.map((page) => [page.id, page.order]));
+  const openingPage = nextPages.slice().sort((a, b) => a.order - b.order)[0];
+  const orderMap = new Map<number, number>();
+  const pageFallbacks = new Map<string, string>();
+  if (!openingPage) return { orderMap, pageFallbacks };
+
+  let fallbackId = openingPage.id;
+  previousPages
+    .slice()
+    .sort((a, b) => a.order - b.order)
+    .forEach((page) => {
+      if (nextOrderById.has(page.id)) {
+        fallbackId = page.id;
+      } else {
+        pageFallbacks.set(page.id, fallbackId);
+      }
+      orderMap.set(page.order, nextOrderById.get(fallbackId)!);
+    });
+
+  return { orderMap, pageFallbacks };
+}
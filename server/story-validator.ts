@@ -0,0 +1,198 @@
+import type { StorySnapshot } from "@shared/schema";
+import { CharacterMentions } from "@shared/story-engine/CharacterMentions";
+
+type SnapshotPage = StorySnapshot["pages"][number];
+
+export type ValidationSeverity = "error" | "warning";
+
+export type ValidationCode =
+  | "no_pages"
+  | "missing_start"
+  | "multiple_starts"
+  | "self_loop"
+  | "missing_target"
+  | "unreachable_page"
+  | "dead_end"
+  | "conditional_dead_end"
+  | "ending_without_card"
+  | "card_on_non_ending"
+  | "unknown_character";
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  code: ValidationCode;
+  message: string;
+  pageId?: string;
+  choiceId?: string;
+}
+
+export interface StoryValidationReport {
+  isValid: boolean;
+  errorCount: number;
+  warningCount: number;
+  issues: ValidationIssue[];
+}
+
+/**
+ * Checks a story's page graph before it reaches readers.
+ * Navigation mirrors the reader: a page with choices goes where its choices point;
+ * a page without choices goes to nextPageId, or else the next page in order.
+ * Errors block publishing; warnings are shown to the author only.
+ */
+export function validateStorySnapshot(snapshot: StorySnapshot): StoryValidationReport {
+  const issues: ValidationIssue[] = [];
+  const pages = snapshot.pages.slice().sort((a, b) => a.order - b.order);
+  const pageIds = new Set(pages.map((page) => page.id));
+  const cardPageIds = new Set(snapshot.endingCards.map((card) => card.pageId));
+  const castIds = new Set((snapshot.characters ?? []).map((character) => character.id));
+
+  if (pages.length === 0) {
+    issues.push({ severity: "error", code: "no_pages", message: "The story has no pages" });
+    return buildReport(issues);
+  }
+
+  const startingPages = pages.filter((page) => page.isStarting);
+  if (startingPages.length === 0) {
+    issues.push({ severity: "error", code: "missing_start", message: "No page is marked as the starting page" });
+  } else if (startingPages.length > 1) {
+    startingPages.slice(1).forEach((page) => {
+      issues.push({
+        severity: "error",
+        code: "multiple_starts",
+        message: `"${page.title}" is also marked as a starting page`,
+        pageId: page.id,
+      });
+    });
+  }
+
+  const choicesByPage = new Map<string, StorySnapshot["choices"]>();
+  snapshot.choices.forEach((choice) => {
+    choicesByPage.set(choice.fromPageId, (choicesByPage.get(choice.fromPageId) || []).concat(choice));
+  });
+
+  snapshot.choices.forEach((choice) => {
+    if (choice.toPageId === choice.fromPageId) {
+      issues.push({
+        severity: "error",
+        code: "self_loop",
+        message: `Choice "${choice.choiceText}" leads back to its own page`,
+        pageId: choice.fromPageId,
+        choiceId: choice.id,
+      });
+    } else if (!pageIds.has(choice.toPageId)) {
+      issues.push({
+        severity: "error",
+        code: "missing_target",
+        message: `Choice "${choice.choiceText}" points to a page that no longer exists`,
+        pageId: choice.fromPageId,
+        choiceId: choice.id,
+      });
+    }
+  });
+
+  const nextPageFor = (page: SnapshotPage, index: number): string | undefined => {
+    if (page.nextPageId && pageIds.has(page.nextPageId)) return page.nextPageId;
+    return pages[index + 1]?.id;
+  };
+
+  const edges = new Map<string, string[]>();
+  pages.forEach((page, index) => {
+    const choices = choicesByPage.get(page.id) || [];
+    if (choices.length > 0) {
+      edges.set(page.id, choices.map((choice) => choice.toPageId).filter((id) => id !== page.id && pageIds.has(id)));
+    } else {
+      const next = nextPageFor(page, index);
+      edges.set(page.id, next ? [next] : []);
+    }
+  });
+
+  // Walk from the starting page; without one, the lowest page stands in so other checks still run
+  const reachable = new Set<string>();
+  const queue = [(startingPages[0] || pages[0]).id];
+  while (queue.length > 0) {
+    const pageId = queue.shift()!;
+    if (reachable.has(pageId)) continue;
+    reachable.add(pageId);
+    (edges.get(pageId) || []).forEach((nextId) => {
+      if (!reachable.has(nextId)) queue.push(nextId);
+    });
+  }
+
+  pages.forEach((page, index) => {
+    const choices = choicesByPage.get(page.id) || [];
+    const validChoices = choices.filter((choice) => choice.toPageId !== page.id && pageIds.has(choice.toPageId));
+    const isEnding = choices.length === 0 && !nextPageFor(page, index);
+
+    if (!reachable.has(page.id)) {
+      issues.push({
+        severity: "error",
+        code: "unreachable_page",
+        message: `"${page.title}" can't be reached from the starting page`,
+        pageId: page.id,
+      });
+    }
+
+    if (choices.length > 0 && validChoices.length === 0) {
+      issues.push({
+        severity: "error",
+        code: "dead_end",
+        message: `"${page.title}" has no choice that leads anywhere`,
+        pageId: page.id,
+      });
+    } else if (page.pageType === "choice" && choices.length === 0 && !isEnding) {
+      issues.push({
+        severity: "error",
+        code: "dead_end",
+        message: `Choice point "${page.title}" has no choices`,
+        pageId: page.id,
+      });
+    } else if (validChoices.length > 0 && validChoices.every((choice) => choice.conditions?.length)) {
+      issues.push({
+        severity: "warning",
+        code: "conditional_dead_end",
+        message: `Every choice on "${page.title}" has conditions, so some readers may get stuck`,
+        pageId: page.id,
+      });
+    }
+
+    const unknownCharacters = CharacterMentions.idsIn(page.content)
+      .concat((page.chatMessages || []).flatMap((message) => (message.characterId ? [message.characterId] : [])))
+      .filter((characterId) => !castIds.has(characterId));
+    if (unknownCharacters.length > 0) {
+      issues.push({
+        severity: "warning",
+        code: "unknown_character",
+        message: `"${page.title}" refers to a character who isn't in the cast`,
+        pageId: page.id,
+      });
+    }
+
+    if (isEnding && !cardPageIds.has(page.id)) {
+      issues.push({
+        severity: "warning",
+        code: "ending_without_card",
+        message: `Ending "${page.title}" has no ending card`,
+        pageId: page.id,
+      });
+    } else if (!isEnding && cardPageIds.has(page.id)) {
+      issues.push({
+        severity: "warning",
+        code: "card_on_non_ending",
+        message: `"${page.title}" has an ending card but readers continue past it`,
+        pageId: page.id,
+      });
+    }
+  });
+
+  return buildReport(issues);
+}
+
+function buildReport(issues: ValidationIssue[]): StoryValidationReport {
+  const errorCount = issues.filter((issue) => issue.severity === "error").length;
+  return {
+    isValid: errorCount === 0,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    issues,
+  };
+}
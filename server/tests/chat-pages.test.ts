@@ -0,0 +1,71 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUser, fixtureStory, loggedInAuthor, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+const conversation = [
+  { id: "msg-1", sender: "Ivy", message: "Are you still in the library?", isUser: false, typingMs: 1500 },
+  { id: "msg-2", sender: "You", message: "Hiding in the stacks.", isUser: true, delayMs: 400, readReceipt: true },
+  {
+    id: "msg-3",
+    sender: "Ivy",
+    message: "",
+    isUser: false,
+    attachment: { type: "voice", url: "/media/ivy-whisper.mp3", caption: "Don't move.", durationSeconds: 4 },
+  },
+];
+
+describe("chat pages", () => {
+  let server: TestServer;
+  let library: SeededStory;
+  let author: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    author = await loggedInAuthor(server, library);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("keeps message timing, attachments and read receipts through to readers", async () => {
+    const note = library.page("The Note");
+    const saved = await author.request("PUT", `/api/pages/${note.id}`, { pageType: "chat", chatMessages: conversation });
+    assert.equal(saved.status, 200);
+    assert.equal((await author.post(`/api/stories/${library.id}/publish`)).status, 200);
+
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+    const session = await reader.post(`/api/stories/${library.id}/session`, { pageId: note.id });
+    assert.equal(session.body.currentPage.pageType, "chat");
+    assert.deepEqual(session.body.currentPage.chatMessages, conversation);
+    // The reader's reply is still a choice they can take
+    assert.ok(session.body.availableChoices.some(({ choice }: any) => choice.id === library.choice("Follow the footsteps").id));
+
+    const download = await reader.get(`/api/stories/${library.id}/offline`);
+    assert.ok(download.body.assets.includes("/media/ivy-whisper.mp3"));
+  });
+
+  it("rejects malformed messages", async () => {
+    const stairs = library.page("The Stairs");
+    const tooSlow = await author.request("PUT", `/api/pages/${stairs.id}`, {
+      chatMessages: [{ id: "msg-1", sender: "Ivy", message: "…", isUser: false, typingMs: 10 * 60 * 1000 }],
+    });
+    assert.equal(tooSlow.status, 400);
+
+    const draft = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    draft.pages[0].chatMessages = [{ id: "msg-1", sender: "Ivy", message: "Hi", isUser: false, attachment: { type: "video", url: "/clip.mp4" } }];
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, draft)).status, 400);
+  });
+
+  it("drops attachments the builder never got a file for", async () => {
+    const draft = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    draft.pages[0].pageType = "chat";
+    draft.pages[0].chatMessages = [{ id: "msg-1", sender: "Ivy", message: "Look", isUser: false, attachment: { type: "image", url: "" } }];
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, draft)).status, 200);
+
+    const saved = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    assert.deepEqual(saved.pages[0].chatMessages, [{ id: "msg-1", sender: "Ivy", message: "Look", isUser: false }]);
+  });
+});
@@ -0,0 +1,105 @@
+import { after, before, describe, it, mock } from "node:test";
+import assert from "node:assert/strict";
+import { pickEndingCard } from "../storage-shared";
+import { createUser, fixtureStory, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("pickEndingCard", () => {
+  // Walks Math.random evenly across [0, 1) so every slot of the weighted pool is drawn once
+  function drawCounts(cards: Array<{ id: string; rarity: string | null }>, draws: number) {
+    let draw = 0;
+    const random = mock.method(Math, "random", () => draw++ / draws);
+    try {
+      const counts: Record<string, number> = {};
+      for (let i = 0; i < draws; i++) {
+        const card = pickEndingCard(cards);
+        counts[card.id] = (counts[card.id] || 0) + 1;
+      }
+      return counts;
+    } finally {
+      random.mock.restore();
+    }
+  }
+
+  it("weights ember, flame and inferno cards 60:30:10", () => {
+    const counts = drawCounts(
+      [
+        { id: "ember", rarity: "ember" },
+        { id: "flame", rarity: "flame" },
+        { id: "inferno", rarity: "inferno" },
+      ],
+      1000
+    );
+    assert.deepEqual(counts, { ember: 600, flame: 300, inferno: 100 });
+  });
+
+  it("gives unknown rarities a weight of 50", () => {
+    const counts = drawCounts(
+      [
+        { id: "inferno", rarity: "inferno" },
+        { id: "unknown", rarity: null },
+      ],
+      600
+    );
+    assert.deepEqual(counts, { inferno: 100, unknown: 500 });
+  });
+
+  it("returns the only card when there is one", () => {
+    const card = { id: "only", rarity: "inferno" };
+    assert.equal(pickEndingCard([card]), card);
+  });
+});
+
+describe("ending card awards", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("shows guests the ending card without awarding it", async () => {
+    const response = await new TestClient(server.baseUrl).get(`/api/pages/${library.page("Between the Stacks").id}/ending-card`);
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.awarded, false);
+    assert.equal(response.body.card.isNewCard, false);
+  });
+
+  it("returns no card for pages that are not endings", async () => {
+    const response = await new TestClient(server.baseUrl).get(`/api/pages/${library.page("The Note").id}/ending-card`);
+    assert.deepEqual(response.body, { card: null });
+  });
+
+  it("awards unowned cards first, then stops once the reader has them all", async (t) => {
+    const endingPageId = library.page("Between the Stacks").id;
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+
+    // Always draw the first slot of the weighted pool, i.e. the first unowned card
+    t.mock.method(Math, "random", () => 0);
+
+    const first = await reader.get(`/api/pages/${endingPageId}/ending-card`);
+    assert.equal(first.body.awarded, true);
+    assert.equal(first.body.card.cardTitle, "Overdue");
+    assert.equal(first.body.card.isNewCard, true);
+
+    const second = await reader.get(`/api/pages/${endingPageId}/ending-card`);
+    assert.equal(second.body.awarded, true);
+    assert.equal(second.body.card.cardTitle, "Special Collections");
+    assert.equal(second.body.card.isDuplicate, false);
+
+    // Duplicates are refused by the (user, card) uniqueness rule, so a full set earns nothing new
+    const third = await reader.get(`/api/pages/${endingPageId}/ending-card`);
+    assert.equal(third.status, 200);
+    assert.equal(third.body.awarded, false);
+
+    const collection = await server.storage.getUserEndingCards(readerId, library.id);
+    assert.deepEqual(collection.map((card) => card.cardTitle).sort(), ["Overdue", "Special Collections"]);
+  });
+});
@@ -0,0 +1,89 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUser, fixtureStory, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("guest reading", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function read(client: TestClient, body: { pageId?: string; choiceId?: string } = {}) {
+    return client.post(`/api/stories/${library.id}/session`, body);
+  }
+
+  it("keeps a guest's place and story state between requests", async () => {
+    const guest = new TestClient(server.baseUrl);
+    await read(guest, { pageId: library.page("The Note").id });
+    await read(guest, { choiceId: library.choice("Follow the footsteps").id });
+
+    const resumed = await read(guest);
+    assert.equal(resumed.body.currentPage.title, "The Stairs");
+    assert.deepEqual(resumed.body.progress.variables, { courage: 1 });
+
+    const restart = await guest.post(`/api/stories/${library.id}/start-from-beginning`, {});
+    assert.equal(restart.status, 200);
+    assert.equal((await read(guest)).body.currentPage.title, "Closing Time");
+  });
+
+  it("moves progress, choices and bookmarks into the account on login", async () => {
+    const userId = await createUser(server.storage, 5);
+    const guest = new TestClient(server.baseUrl);
+    await read(guest, { pageId: library.page("The Note").id });
+    await read(guest, { choiceId: library.choice("Follow the footsteps").id });
+    await guest.post(`/api/stories/${library.id}/bookmark`);
+    await guest.post("/api/bookmarks", { storyId: library.id, pageId: library.page("The Stairs").id, title: "Footsteps" });
+
+    // Signing in to buy a premium path picks up where the guest left off
+    await guest.login(userId);
+    const resumed = await read(guest);
+    assert.equal(resumed.body.currentPage.title, "The Stairs");
+    assert.deepEqual(resumed.body.progress.variables, { courage: 1 });
+    assert.equal(resumed.body.progress.slot, "Main");
+
+    const path = await guest.get(`/api/stories/${library.id}/path`);
+    assert.deepEqual(path.body.steps.map((step: any) => step.choiceText), ["Follow the footsteps"]);
+
+    assert.equal((await server.storage.getReadingProgress(userId, library.id))?.isBookmarked, true);
+    const bookmarks = await guest.get(`/api/bookmarks?storyId=${library.id}`);
+    assert.deepEqual(bookmarks.body.map((bookmark: any) => bookmark.title), ["Footsteps"]);
+  });
+
+  it("gives guest reading its own slot when the account already started the story", async () => {
+    const userId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(userId);
+    await read(reader, { pageId: library.page("The Note").id });
+
+    const guest = new TestClient(server.baseUrl);
+    await read(guest, { pageId: library.page("The Note").id });
+    await read(guest, { choiceId: library.choice("Follow the footsteps").id });
+    await guest.login(userId);
+
+    const slots = await guest.get(`/api/stories/${library.id}/slots`);
+    assert.deepEqual(
+      slots.body.map((slot: any) => [slot.slot, slot.currentPageTitle]),
+      [["Guest reading", "The Stairs"], ["Main", "The Note"]]
+    );
+    assert.equal((await read(guest)).body.currentPage.title, "The Stairs");
+  });
+
+  it("doesn't make a slot for a guest who only opened a story the account already started", async () => {
+    const userId = await createUser(server.storage, 0);
+    await server.storage.saveReadingProgress({ userId, storyId: library.id, currentPageId: library.page("The Stairs").id });
+
+    const guest = new TestClient(server.baseUrl);
+    await read(guest);
+    await guest.login(userId);
+
+    assert.deepEqual((await server.storage.getReadingSlots(userId, library.id)).map((slot) => slot.slot), ["Main"]);
+    assert.equal((await read(guest)).body.currentPage.title, "The Stairs");
+  });
+});
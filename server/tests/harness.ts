@@ -0,0 +1,166 @@
+import express from "express";
+import type { Server } from "http";
+import type { AddressInfo } from "net";
+import { randomUUID } from "crypto";
+import os from "os";
+import path from "path";
+import type { StoryChoice, StoryPage } from "@shared/schema";
+import type { IStorage } from "../storage";
+import type { MemorySeed } from "../memory-storage";
+import { buildStoryPackage, remapStoryPackage } from "../story-package";
+import { fixtureSeed } from "../fixtures/stories";
+
+// Boots registerRoutes in-process with FakeAuth. Uses the in-memory store unless TEST_DATABASE_URL
+// points at a local Postgres (with the schema pushed); tests create their own rows either way.
+
+export type FixtureStory = MemorySeed["stories"][number];
+
+export interface TestServer {
+  baseUrl: string;
+  storage: IStorage;
+  close(): Promise<void>;
+}
+
+export interface SeededStory {
+  id: string;
+  authorId: string;
+  page(title: string): StoryPage;
+  choice(choiceText: string): StoryChoice;
+}
+
+export interface TestResponse<T = any> {
+  status: number;
+  body: T;
+}
+
+function configureEnvironment() {
+  process.env.NODE_ENV ??= "test";
+  process.env.AUTH_PROVIDER = "fake";
+  process.env.STRIPE_SECRET_KEY ??= "sk_test_api_suite";
+
+  if (process.env.TEST_DATABASE_URL) {
+    process.env.DATABASE_URL = process.env.TEST_DATABASE_URL;
+    delete process.env.STORAGE;
+  } else {
+    process.env.STORAGE = "memory";
+  }
+  process.env.MEDIA_DIR ??= path.join(os.tmpdir(), `wildbranch-test-media-${randomUUID()}`);
+}
+
+export async function startTestServer(): Promise<TestServer> {
+  // The server modules read their configuration on import, so they are loaded only after it is set
+  configureEnvironment();
+  const { registerRoutes } = await import("../routes");
+  const { storage } = await import("../storage");
+
+  const app = express();
+  app.use(express.json());
+  const server: Server = await registerRoutes(app);
+  await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+
+  return {
+    baseUrl: `http://127.0.0.1:${port}`,
+    storage,
+    close: () => new Promise<void>((resolve, reject) => server.close((error) => (error ? reject(error) : resolve()))),
+  };
+}
+
+/**
+ * A cookie-holding API client, one per simulated browser
+ */
+export class TestClient {
+  private cookie: string | undefined;
+
+  constructor(private readonly baseUrl: string) {}
+
+  async login(userId: string): Promise<void> {
+    const response = await this.get(`/api/login?userId=${encodeURIComponent(userId)}`);
+    if (response.status !== 200) {
+      throw new Error(`Login as ${userId} failed with ${response.status}`);
+    }
+  }
+
+  get<T = any>(path: string): Promise<TestResponse<T>> {
+    return this.request<T>("GET", path);
+  }
+
+  post<T = any>(path: string, body?: unknown): Promise<TestResponse<T>> {
+    return this.request<T>("POST", path, body);
+  }
+
+  async request<T = any>(method: string, path: string, body?: unknown): Promise<TestResponse<T>> {
+    return body === undefined
+      ? this.send<T>(method, path)
+      : this.send<T>(method, path, JSON.stringify(body), "application/json");
+  }
+
+  // Posts raw bytes, the way the media library takes uploads
+  upload<T = any>(path: string, data: Buffer, contentType: string): Promise<TestResponse<T>> {
+    return this.send<T>("POST", path, data, contentType);
+  }
+
+  private async send<T>(method: string, path: string, body?: string | Buffer, contentType?: string): Promise<TestResponse<T>> {
+    const headers: Record<string, string> = {};
+    if (this.cookie) headers.cookie = this.cookie;
+    if (contentType) headers["content-type"] = contentType;
+
+    const response = await fetch(`${this.baseUrl}${path}`, { method, headers, body });
+
+    const setCookie = response.headers.getSetCookie()[0];
+    if (setCookie) this.cookie = setCookie.split(";")[0];
+
+    const text = await response.text();
+    return { status: response.status, body: text ? JSON.parse(text) : undefined };
+  }
+}
+
+export async function createUser(storage: IStorage, eggplants: number): Promise<string> {
+  const id = `test-${randomUUID()}`;
+  await storage.upsertUser({ id, email: `${id}@example.com`, firstName: "Test", eggplants });
+  return id;
+}
+
+// A new reader with this many eggplants, signed in on their own client
+export async function loggedInReader(server: TestServer, eggplants = 0): Promise<{ userId: string; client: TestClient }> {
+  const userId = await createUser(server.storage, eggplants);
+  const client = new TestClient(server.baseUrl);
+  await client.login(userId);
+  return { userId, client };
+}
+
+// The story's author, signed in on their own client; only admins can author stories
+export async function loggedInAuthor(server: TestServer, story: SeededStory): Promise<TestClient> {
+  await server.storage.updateUserRole(story.authorId, "admin");
+  const client = new TestClient(server.baseUrl);
+  await client.login(story.authorId);
+  return client;
+}
+
+export function fixtureStory(id: string): FixtureStory {
+  return findOrThrow(fixtureSeed.stories, (story) => story.id === id, `fixture story "${id}"`);
+}
+
+// Copies a fixture story under fresh ids and publishes it, so tests never share rows
+export async function seedStory(storage: IStorage, fixture: FixtureStory): Promise<SeededStory> {
+  const authorId = await createUser(storage, 0);
+  const snapshot = remapStoryPackage(buildStoryPackage(fixture.id, true, fixture.snapshot));
+  const story = await storage.createStoryFromSnapshot(snapshot, authorId, "API test fixture");
+  await storage.publishStory(story.id, authorId);
+
+  const pages = await storage.getStoryPages(story.id);
+  const choices = (await Promise.all(pages.map((page) => storage.getChoicesForPage(page.order, story.id)))).flat();
+
+  return {
+    id: story.id,
+    authorId,
+    page: (title) => findOrThrow(pages, (page) => page.title === title, `page "${title}"`),
+    choice: (choiceText) => findOrThrow(choices, (choice) => choice.choiceText === choiceText, `choice "${choiceText}"`),
+  };
+}
+
+function findOrThrow<T>(rows: T[], predicate: (row: T) => boolean, label: string): T {
+  const row = rows.find(predicate);
+  if (!row) throw new Error(`No ${label}`);
+  return row;
+}
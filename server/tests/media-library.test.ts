@@ -0,0 +1,88 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import sharp from "sharp";
+import type { MediaAsset } from "@shared/schema";
+import { createUser, startTestServer, TestClient, type TestServer } from "./harness";
+
+describe("media library", () => {
+  let server: TestServer;
+  let author: TestClient;
+  let otherAuthor: TestClient;
+  let photo: Buffer;
+
+  before(async () => {
+    server = await startTestServer();
+    author = new TestClient(server.baseUrl);
+    otherAuthor = new TestClient(server.baseUrl);
+    for (const client of [author, otherAuthor]) {
+      const userId = await createUser(server.storage, 0);
+      await server.storage.updateUserRole(userId, "admin");
+      await client.login(userId);
+    }
+    photo = await sharp({ create: { width: 2000, height: 1000, channels: 3, background: "#c33" } }).png().toBuffer();
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("stores an upload with resized webp copies and serves them", async () => {
+    const uploaded = await author.upload<MediaAsset>("/api/media?filename=cover.png&alt=A%20red%20door", photo, "image/png");
+    assert.equal(uploaded.status, 201);
+    const asset = uploaded.body;
+    assert.equal(asset.filename, "cover.png");
+    assert.equal(asset.altText, "A red door");
+    assert.equal(asset.mimeType, "image/png");
+    assert.deepEqual([asset.width, asset.height], [2000, 1000]);
+    assert.deepEqual(
+      asset.variants.map(({ name, width, format }) => [name, width, format]),
+      [["original", 2000, "png"], ["large", 1600, "webp"], ["medium", 800, "webp"], ["thumb", 320, "webp"]]
+    );
+    assert.equal(asset.url, asset.variants[1].url);
+
+    const served = await fetch(`${server.baseUrl}${asset.url}`);
+    assert.equal(served.status, 200);
+    const { format, width } = await sharp(Buffer.from(await served.arrayBuffer())).metadata();
+    assert.deepEqual([format, width], ["webp", 1600]);
+
+    const library = await author.get<MediaAsset[]>("/api/media");
+    assert.deepEqual(library.body.map((item) => item.id), [asset.id]);
+    assert.deepEqual((await otherAuthor.get<MediaAsset[]>("/api/media")).body, []);
+  });
+
+  it("takes AVIF images", async () => {
+    const avif = await sharp({ create: { width: 400, height: 300, channels: 3, background: "#36c" } }).avif().toBuffer();
+    const uploaded = await author.upload<MediaAsset>("/api/media?filename=sky.avif", avif, "image/avif");
+    assert.equal(uploaded.status, 201);
+    assert.equal(uploaded.body.mimeType, "image/avif");
+
+    const original = uploaded.body.variants.find((variant) => variant.name === "original")!;
+    assert.match(original.url, /\/original\.avif$/);
+    const served = await fetch(`${server.baseUrl}${original.url}`);
+    assert.equal(served.status, 200);
+    assert.equal(served.headers.get("content-type"), "image/avif");
+  });
+
+  it("rejects files that aren't images and readers who can't author", async () => {
+    const notAnImage = await author.upload("/api/media?filename=notes.png", Buffer.from("not really a png"), "image/png");
+    assert.equal(notAnImage.status, 400);
+
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+    assert.equal((await reader.upload("/api/media", photo, "image/png")).status, 403);
+  });
+
+  it("lets only the uploader edit alt text and delete", async () => {
+    const asset = (await author.upload<MediaAsset>("/api/media?filename=map.png", photo, "image/png")).body;
+
+    assert.equal((await otherAuthor.request("PATCH", `/api/media/${asset.id}`, { altText: "Mine now" })).status, 403);
+    const renamed = await author.request<MediaAsset>("PATCH", `/api/media/${asset.id}`, { altText: "  The old map  " });
+    assert.equal(renamed.status, 200);
+    assert.equal(renamed.body.altText, "The old map");
+
+    assert.equal((await otherAuthor.request("DELETE", `/api/media/${asset.id}`)).status, 403);
+    assert.equal((await author.request("DELETE", `/api/media/${asset.id}`)).status, 200);
+    assert.equal((await fetch(`${server.baseUrl}${asset.url}`)).status, 404);
+    assert.equal((await author.request("DELETE", `/api/media/${asset.id}`)).status, 404);
+  });
+});
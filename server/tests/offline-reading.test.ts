@@ -0,0 +1,160 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureStory, loggedInReader, seedStory, startTestServer, type SeededStory, type TestServer } from "./harness";
+
+describe("offline reading", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function pageTitles(bundle: any) {
+    return bundle.pages.map((page: any) => page.title);
+  }
+
+  it("leaves premium paths the reader doesn't own out of the download", async () => {
+    const { client } = await loggedInReader(server);
+    const download = await client.get(`/api/stories/${library.id}/offline`);
+    assert.equal(download.status, 200);
+    assert.equal(download.body.firstPageId, library.page("Closing Time").id);
+    assert.ok(!pageTitles(download.body).includes("The Rare Books Room"));
+    // The locked choice itself is still there, so it shows as locked
+    assert.ok(download.body.choices.some((choice: any) => choice.id === library.choice("Find the rare books room").id));
+    assert.deepEqual(download.body.variables.map((variable: any) => variable.name), ["courage"]);
+  });
+
+  it("includes premium paths once bought, with the reader's progress", async () => {
+    const { client } = await loggedInReader(server, 5);
+    await client.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+    await client.post(`/api/stories/${library.id}/session`, { choiceId: library.choice("Find the rare books room").id });
+
+    const download = await client.get(`/api/stories/${library.id}/offline`);
+    assert.ok(pageTitles(download.body).includes("The Rare Books Room"));
+    assert.equal(download.body.progress.currentPageId, library.page("The Rare Books Room").id);
+    assert.equal(download.body.userEggplants, 2);
+
+    assert.equal((await client.get(`/api/stories/missing-story/offline`)).status, 404);
+  });
+
+  it("won't save progress on a premium page the reader doesn't own", async () => {
+    const { userId, client } = await loggedInReader(server);
+    const locked = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Rare Books Room").id,
+    });
+    assert.equal(locked.status, 403);
+    assert.equal(locked.body.code, "page_locked");
+    assert.equal(await server.storage.getReadingProgress(userId, library.id), undefined);
+
+    const download = await client.get(`/api/stories/${library.id}/offline`);
+    assert.ok(!pageTitles(download.body).includes("The Rare Books Room"));
+  });
+
+  it("replays offline progress unless newer progress was saved since", async () => {
+    const { userId, client } = await loggedInReader(server);
+    await client.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+    const readOfflineAt = new Date().toISOString();
+
+    const replay = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Stairs").id,
+      pagesRead: 3,
+      choiceIds: [library.choice("Follow the footsteps").id],
+      lastReadAt: readOfflineAt,
+    });
+    assert.equal(replay.status, 200);
+    const progress = await server.storage.getReadingProgress(userId, library.id);
+    assert.equal(progress?.currentPageId, library.page("The Stairs").id);
+    assert.deepEqual(progress?.variables, { courage: 1 });
+    const path = await client.get(`/api/stories/${library.id}/path`);
+    assert.deepEqual(path.body.steps.map((step: any) => step.choiceText), ["Follow the footsteps"]);
+
+    // Queued before the reading above, so it's out of date
+    const stale = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("Closing Time").id,
+      lastReadAt: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+    });
+    assert.equal(stale.status, 200);
+    assert.equal(stale.body.currentPageId, library.page("The Stairs").id);
+
+    const invalid = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Stairs").id,
+      choiceIds: "Follow the footsteps",
+    });
+    assert.equal(invalid.status, 400);
+  });
+
+  it("works out story variables from the choices replayed, not from the client", async () => {
+    const { userId, client } = await loggedInReader(server);
+    const saved = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Note").id,
+      variables: { courage: 100 },
+    });
+    assert.equal(saved.status, 200);
+    const session = await client.post(`/api/stories/${library.id}/session`, {});
+    assert.deepEqual(session.body.progress.variables, { courage: 0 });
+
+    // Choices are replayed from where the reader is, so one from another page is refused
+    const skipped = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("Between the Stacks").id,
+      choiceIds: [library.choice("Stay and talk").id],
+    });
+    assert.equal(skipped.status, 403);
+    assert.equal(skipped.body.code, "choice_unavailable");
+    assert.deepEqual((await server.storage.getReadingProgress(userId, library.id))?.variables, { courage: 0 });
+  });
+
+  it("keeps the later of two offline updates whichever is replayed first", async () => {
+    const readEarlier = new Date(Date.now() - 20 * 60 * 1000).toISOString();
+    const readLater = new Date(Date.now() - 10 * 60 * 1000).toISOString();
+    const earlier = { storyId: library.id, currentPageId: library.page("The Note").id, lastReadAt: readEarlier };
+    const later = { storyId: library.id, currentPageId: library.page("The Stairs").id, lastReadAt: readLater };
+
+    for (const replays of [[earlier, later], [later, earlier]]) {
+      const { userId, client } = await loggedInReader(server);
+      for (const update of replays) {
+        assert.equal((await client.post("/api/reading-progress", update)).status, 200);
+      }
+      const progress = await server.storage.getReadingProgress(userId, library.id);
+      assert.equal(progress?.currentPageId, library.page("The Stairs").id);
+      assert.equal(progress?.lastReadAt?.toISOString(), readLater);
+    }
+  });
+
+  it("doesn't let a timestamp from the future or the distant past hold progress in place", async () => {
+    const { userId, client } = await loggedInReader(server);
+    const future = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Note").id,
+      lastReadAt: "2099-01-01T00:00:00.000Z",
+    });
+    assert.equal(future.status, 200);
+    assert.ok(new Date(future.body.lastReadAt).getTime() <= Date.now());
+
+    const next = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Stairs").id,
+      lastReadAt: new Date(Date.now() + 1000).toISOString(),
+    });
+    assert.equal(next.status, 200);
+    assert.equal((await server.storage.getReadingProgress(userId, library.id))?.currentPageId, library.page("The Stairs").id);
+
+    const ancient = await client.post("/api/reading-progress", {
+      storyId: library.id,
+      currentPageId: library.page("The Note").id,
+      lastReadAt: "1999-01-01T00:00:00.000Z",
+    });
+    assert.equal(ancient.status, 400);
+  });
+});
@@ -0,0 +1,170 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUser, fixtureStory, loggedInReader, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+const PREMIUM_CHOICE = "Find the rare books room";
+
+describe("premium purchases", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  // The premium choice is on The Note, so readers go there before taking it
+  function openNote(client: TestClient, story: SeededStory = library) {
+    return client.post(`/api/stories/${story.id}/session`, { pageId: story.page("The Note").id });
+  }
+
+  function selectPremium(client: TestClient, story: SeededStory = library) {
+    return client.post(`/api/choices/${story.choice(PREMIUM_CHOICE).id}/select`, { storyId: story.id, currentPage: 2 });
+  }
+
+  async function balanceOf(userId: string) {
+    return (await server.storage.getUser(userId))?.eggplants;
+  }
+
+  // New accounts also carry their signup bonus in the ledger
+  async function premiumDebits(userId: string) {
+    return (await server.storage.getEggplantHistory(userId)).filter((entry) => entry.reason === "premium_choice");
+  }
+
+  it("charges once and then lets the reader take the path for free", async () => {
+    const { userId, client } = await loggedInReader(server, 20);
+    await openNote(client);
+
+    const first = await selectPremium(client);
+    assert.equal(first.status, 200);
+    assert.equal(first.body.alreadyOwned, false);
+    assert.equal(first.body.targetPage, 4);
+    assert.equal(await balanceOf(userId), 17);
+
+    await openNote(client);
+    const second = await selectPremium(client);
+    assert.equal(second.status, 200);
+    assert.equal(second.body.alreadyOwned, true);
+    assert.equal(await balanceOf(userId), 17);
+
+    const ledger = await premiumDebits(userId);
+    assert.deepEqual(ledger.map((entry) => [entry.amount, entry.balanceAfter, entry.reason]), [[-3, 17, "premium_choice"]]);
+
+    const paths = await client.get(`/api/purchased-paths/${library.id}`);
+    assert.deepEqual(paths.body.map((path: any) => path.choiceId), [library.choice(PREMIUM_CHOICE).id]);
+  });
+
+  it("records a purchased choice once, in the save slot it was bought in", async () => {
+    const { client } = await loggedInReader(server, 20);
+    assert.equal((await client.post(`/api/stories/${library.id}/slots`, { name: "Splurge" })).status, 201);
+    await client.post(`/api/stories/${library.id}/session`, { slot: "Splurge", pageId: library.page("The Note").id });
+
+    const bought = await client.post(`/api/stories/${library.id}/session`, {
+      slot: "Splurge",
+      choiceId: library.choice(PREMIUM_CHOICE).id,
+    });
+    assert.equal(bought.status, 200);
+    assert.equal(bought.body.currentPage.title, "The Rare Books Room");
+
+    const splurge = await client.get(`/api/stories/${library.id}/path?slot=Splurge`);
+    assert.deepEqual(splurge.body.steps.map((step: any) => [step.choiceText, step.isPremium]), [[PREMIUM_CHOICE, true]]);
+    assert.deepEqual((await client.get(`/api/stories/${library.id}/path?slot=Main`)).body.steps, []);
+  });
+
+  it("refuses the purchase without enough eggplants", async () => {
+    const { userId, client } = await loggedInReader(server, 2);
+    await openNote(client);
+
+    const response = await selectPremium(client);
+    assert.equal(response.status, 400);
+    assert.equal(response.body.canPurchase, false);
+    assert.equal(await balanceOf(userId), 2);
+    assert.equal(await server.storage.hasPurchasedPremiumPath(userId, library.choice(PREMIUM_CHOICE).id), false);
+  });
+
+  it("charges only once when the same choice is bought concurrently", async () => {
+    const { userId, client } = await loggedInReader(server, 20);
+    await openNote(client);
+
+    const responses = await Promise.all(Array.from({ length: 5 }, () => selectPremium(client)));
+
+    const purchased = responses.filter((response) => response.status === 200 && !response.body.alreadyOwned);
+    assert.equal(purchased.length, 1);
+    for (const response of responses) {
+      assert.ok(
+        response.status === 200 ||
+          (response.status === 409 && response.body.alreadyOwned) ||
+          // Arrived after the purchase had already moved the reader on to the rare books room
+          (response.status === 403 && response.body.code === "choice_unavailable"),
+        `unexpected ${response.status}: ${JSON.stringify(response.body)}`
+      );
+    }
+
+    assert.equal(await balanceOf(userId), 17);
+    assert.equal((await server.storage.getUserPurchasedPaths(userId, library.id)).length, 1);
+    assert.equal((await premiumDebits(userId)).length, 1);
+  });
+
+  it("never lets concurrent purchases overdraw the balance", async () => {
+    const other = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    const { userId, client } = await loggedInReader(server, 3);
+    await openNote(client, library);
+    await openNote(client, other);
+
+    const responses = await Promise.all([selectPremium(client, library), selectPremium(client, other)]);
+
+    assert.deepEqual(responses.map((response) => response.status).sort(), [200, 400]);
+    assert.equal(await balanceOf(userId), 0);
+    assert.equal((await server.storage.getUserPurchasedPaths(userId)).length, 1);
+  });
+
+  describe("TransactionManager.purchasePremiumChoice", () => {
+    async function purchase(userId: string, story: SeededStory = library) {
+      const { transactionManager } = await import("../transaction-manager");
+      const choice = story.choice(PREMIUM_CHOICE);
+      return await transactionManager.purchasePremiumChoice({
+        userId,
+        storyId: story.id,
+        choiceId: choice.id,
+        pageId: choice.fromPageId,
+        eggplantCost: choice.eggplantCost || 0,
+      });
+    }
+
+    it("serializes concurrent purchases of the same choice", async () => {
+      const userId = await createUser(server.storage, 10);
+
+      const results = await Promise.all(Array.from({ length: 4 }, () => purchase(userId)));
+
+      assert.equal(results.filter((result) => result.success).length, 1);
+      assert.deepEqual(
+        results.filter((result) => !result.success).map((result) => result.error),
+        ["Choice already purchased", "Choice already purchased", "Choice already purchased"]
+      );
+      assert.equal(await balanceOf(userId), 7);
+    });
+
+    it("rolls back the debit when the purchase cannot complete", async () => {
+      const userId = await createUser(server.storage, 10);
+      assert.equal((await purchase(userId)).success, true);
+
+      const repeat = await purchase(userId);
+      assert.deepEqual(repeat, { success: false, error: "Choice already purchased" });
+      assert.equal(await balanceOf(userId), 7);
+      assert.equal((await premiumDebits(userId)).length, 1);
+    });
+
+    it("reports missing users and insufficient balances without writing anything", async () => {
+      assert.deepEqual(await purchase("test-no-such-user"), { success: false, error: "User not found" });
+
+      const userId = await createUser(server.storage, 1);
+      assert.deepEqual(await purchase(userId), { success: false, error: "Insufficient eggplants" });
+      assert.equal(await balanceOf(userId), 1);
+      assert.equal((await server.storage.getUserPurchasedPaths(userId)).length, 0);
+    });
+  });
+});
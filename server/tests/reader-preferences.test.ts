@@ -0,0 +1,52 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { DEFAULT_READER_PREFERENCES } from "@shared/readerPreferences";
+import { createUser, startTestServer, TestClient, type TestServer } from "./harness";
+
+describe("reader preferences", () => {
+  let server: TestServer;
+  let reader: TestClient;
+  let readerId: string;
+
+  before(async () => {
+    server = await startTestServer();
+    readerId = await createUser(server.storage, 0);
+    reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("starts from the defaults and keeps what the reader changes", async () => {
+    assert.deepEqual((await reader.get("/api/user/preferences")).body, DEFAULT_READER_PREFERENCES);
+
+    const saved = await reader.request("PUT", "/api/user/preferences", { theme: "sepia", fontSize: 1.25 });
+    assert.equal(saved.status, 200);
+    assert.deepEqual(saved.body, { ...DEFAULT_READER_PREFERENCES, theme: "sepia", fontSize: 1.25 });
+
+    await reader.request("PUT", "/api/user/preferences", { textWidth: "narrow", pageTurnAnimation: "none" });
+
+    // Another device signed in as the same reader sees the same settings
+    const otherDevice = new TestClient(server.baseUrl);
+    await otherDevice.login(readerId);
+    assert.deepEqual((await otherDevice.get("/api/user/preferences")).body, {
+      ...DEFAULT_READER_PREFERENCES,
+      theme: "sepia",
+      fontSize: 1.25,
+      textWidth: "narrow",
+      pageTurnAnimation: "none",
+    });
+  });
+
+  it("rejects settings the reader can't choose", async () => {
+    for (const body of [{ theme: "neon" }, { fontSize: 4 }, { lineHeight: "tall" }, { favouriteColour: "red" }]) {
+      assert.equal((await reader.request("PUT", "/api/user/preferences", body)).status, 400);
+    }
+    assert.equal((await reader.get("/api/user/preferences")).body.theme, "sepia");
+
+    const guest = new TestClient(server.baseUrl);
+    assert.equal((await guest.get("/api/user/preferences")).status, 401);
+  });
+});
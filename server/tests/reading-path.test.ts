@@ -0,0 +1,91 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureStory, loggedInReader, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("reading path and rewind", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function openPage(client: TestClient, title: string) {
+    return client.post(`/api/stories/${library.id}/session`, { pageId: library.page(title).id });
+  }
+
+  function choose(client: TestClient, choiceText: string) {
+    return client.post(`/api/stories/${library.id}/session`, { choiceId: library.choice(choiceText).id });
+  }
+
+  it("lists the forks the reader passed through, oldest first", async () => {
+    const { client } = await loggedInReader(server);
+    await openPage(client, "The Note");
+    await choose(client, "Follow the footsteps");
+    await choose(client, "Stay and talk");
+
+    const response = await client.get(`/api/stories/${library.id}/path`);
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.steps.map((step: any) => [step.fromPageTitle, step.choiceText, step.toPageTitle]),
+      [
+        ["The Note", "Follow the footsteps", "The Stairs"],
+        ["The Stairs", "Stay and talk", "Between the Stacks"],
+      ]
+    );
+  });
+
+  it("rewinds to a fork, dropping later choices and replaying story variables", async () => {
+    const { userId, client } = await loggedInReader(server);
+    await openPage(client, "The Note");
+    await choose(client, "Follow the footsteps");
+    await choose(client, "Stay and talk");
+    const [firstFork] = (await client.get(`/api/stories/${library.id}/path`)).body.steps;
+
+    const rewound = await client.post(`/api/stories/${library.id}/path/rewind`, { historyId: firstFork.historyId });
+    assert.equal(rewound.status, 200);
+    assert.equal(rewound.body.currentPage.id, library.page("The Note").id);
+    assert.deepEqual(rewound.body.progress.variables, { courage: 0 });
+    assert.equal(rewound.body.availableChoices.length, 2);
+
+    assert.deepEqual((await client.get(`/api/stories/${library.id}/path`)).body.steps, []);
+    assert.equal((await server.storage.getUserChoiceHistory(userId, library.id)).length, 0);
+    assert.equal((await server.storage.getReadingProgress(userId, library.id))?.currentPageId, library.page("The Note").id);
+
+    const resumed = await client.post(`/api/stories/${library.id}/session`, {});
+    assert.equal(resumed.body.currentPage.id, library.page("The Note").id);
+  });
+
+  it("keeps purchased paths when rewinding past them", async () => {
+    const { userId, client } = await loggedInReader(server, 5);
+    await openPage(client, "The Note");
+    await choose(client, "Find the rare books room");
+    const [fork] = (await client.get(`/api/stories/${library.id}/path`)).body.steps;
+
+    const rewound = await client.post(`/api/stories/${library.id}/path/rewind`, { historyId: fork.historyId });
+    const premium = rewound.body.availableChoices.find((entry: any) => entry.choice.choiceText === "Find the rare books room");
+    assert.equal(premium.requiresPurchase, false);
+
+    await choose(client, "Find the rare books room");
+    assert.equal((await server.storage.getUser(userId))?.eggplants, 2);
+  });
+
+  it("refuses to rewind to a choice that is not on the reader's path", async () => {
+    const { client } = await loggedInReader(server);
+    const response = await client.post(`/api/stories/${library.id}/path/rewind`, { historyId: "no-such-step" });
+
+    assert.equal(response.status, 404);
+    assert.equal(response.body.code, "history_not_found");
+  });
+
+  it("requires a signed-in reader", async () => {
+    const guest = new TestClient(server.baseUrl);
+    assert.equal((await guest.get(`/api/stories/${library.id}/path`)).status, 401);
+    assert.equal((await guest.post(`/api/stories/${library.id}/path/rewind`, { historyId: "x" })).status, 401);
+  });
+});
@@ -0,0 +1,324 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUser, fixtureStory, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("reading flow", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("lists choices for a page with premium ownership", async () => {
+    const guest = new TestClient(server.baseUrl);
+    const response = await guest.get(`/api/pages/2/choices?storyId=${library.id}`);
+
+    assert.equal(response.status, 200);
+    assert.deepEqual(
+      response.body.map((choice: any) => [choice.choiceText, choice.isPremium, choice.isOwned, choice.targetPage]),
+      [
+        ["Follow the footsteps", false, false, 3],
+        ["Find the rare books room", true, false, 4],
+      ]
+    );
+  });
+
+  it("returns no choices for pages outside the story", async () => {
+    const guest = new TestClient(server.baseUrl);
+    assert.deepEqual((await guest.get(`/api/pages/0/choices?storyId=${library.id}`)).body, []);
+    assert.deepEqual((await guest.get(`/api/pages/99/choices?storyId=${library.id}`)).body, []);
+  });
+
+  it("reports target pages from the page a choice points at, not its stored number", async () => {
+    const story = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    await server.storage.updateStoryChoice(story.choice("Stay and talk").id, { targetPage: null });
+
+    const response = await new TestClient(server.baseUrl).get(`/api/pages/${story.page("The Stairs").id}/choices`);
+    assert.equal(response.body[0].targetPageId, story.page("Between the Stacks").id);
+    assert.equal(response.body[0].targetPage, 5);
+  });
+
+  it("redirects page-number choice URLs to the page id", async () => {
+    const response = await fetch(`${server.baseUrl}/api/pages/2/choices?storyId=${library.id}`, { redirect: "manual" });
+
+    assert.equal(response.status, 301);
+    assert.equal(response.headers.get("location"), `/api/pages/${library.page("The Note").id}/choices`);
+  });
+
+  it("redirects old page-number reader links to page-id URLs", async () => {
+    const notePath = `/story/${library.id}/page/${library.page("The Note").id}`;
+
+    for (const oldPath of [`/story/${library.id}/page/2`, `/story/${library.id}?page=2`]) {
+      const response = await fetch(`${server.baseUrl}${oldPath}`, { redirect: "manual" });
+      assert.equal(response.status, 301);
+      assert.equal(response.headers.get("location"), notePath);
+    }
+  });
+
+  it("selects a free choice using its targetPage", async () => {
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+    await reader.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+
+    const response = await reader.post(`/api/choices/${library.choice("Follow the footsteps").id}/select`, {
+      storyId: library.id,
+      currentPage: 2,
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.targetPage, 3);
+    assert.equal(response.body.alreadyOwned, false);
+  });
+
+  it("falls back to the target page's order when a selected choice has no targetPage", async () => {
+    const story = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    const choice = story.choice("Stay and talk");
+    await server.storage.updateStoryChoice(choice.id, { targetPage: null });
+    const guest = new TestClient(server.baseUrl);
+    await guest.post(`/api/stories/${story.id}/session`, { pageId: story.page("The Stairs").id });
+
+    const response = await guest.post(`/api/choices/${choice.id}/select`, {
+      storyId: story.id,
+      currentPage: 3,
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.targetPage, story.page("Between the Stacks").order);
+  });
+
+  it("applies choice effects to the reader's story variables", async () => {
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+    await reader.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+
+    await reader.post(`/api/choices/${library.choice("Follow the footsteps").id}/select`, {
+      storyId: library.id,
+      currentPage: 2,
+    });
+
+    assert.deepEqual(await server.storage.getStoryVariableValues(readerId, library.id), { courage: 1 });
+    assert.equal((await server.storage.getUserChoiceHistory(readerId, library.id)).length, 1);
+  });
+
+  it("asks guests to log in before a premium choice", async () => {
+    const guest = new TestClient(server.baseUrl);
+    await guest.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+    const response = await guest.post(
+      `/api/choices/${library.choice("Find the rare books room").id}/select`,
+      { storyId: library.id, currentPage: 2 }
+    );
+
+    assert.equal(response.status, 401);
+    assert.equal(response.body.requiresAuth, true);
+    assert.equal(response.body.eggplantCost, 3);
+  });
+
+  it("saves and reads back reading progress", async () => {
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+
+    assert.equal((await reader.get(`/api/reading-progress/${library.id}`)).status, 200);
+    const saved = await reader.post("/api/reading-progress", { storyId: library.id, currentPage: 3 });
+    assert.equal(saved.status, 200);
+
+    const progress = await reader.get(`/api/reading-progress/${library.id}`);
+    assert.equal(progress.body.currentPage, 3);
+    assert.equal(progress.body.pagesRead, 3);
+  });
+
+  it("keeps readers on their page when pages are reordered", async () => {
+    const story = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+
+    const saved = await reader.post("/api/reading-progress", { storyId: story.id, currentPageId: story.page("The Stairs").id });
+    assert.equal(saved.body.currentPage, 3);
+
+    await server.storage.updateStoryPage(story.page("The Stairs").id, { order: 4 });
+    await server.storage.updateStoryPage(story.page("The Rare Books Room").id, { order: 3 });
+
+    const resumed = await reader.post(`/api/stories/${story.id}/session`, {});
+    assert.equal(resumed.body.currentPage.id, story.page("The Stairs").id);
+    assert.equal((await server.storage.getReadingProgress(readerId, story.id))?.currentPage, 4);
+  });
+
+  it("rejects protected routes without a session", async () => {
+    const response = await new TestClient(server.baseUrl).get(`/api/reading-progress/${library.id}`);
+    assert.equal(response.status, 401);
+  });
+});
+
+describe("story sessions", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function navigate(client: TestClient, body: { choiceId?: string; pageId?: string } = {}, storyId = library.id) {
+    return client.post(`/api/stories/${storyId}/session`, body);
+  }
+
+  it("starts guests on the first page with links to the next one", async () => {
+    const response = await navigate(new TestClient(server.baseUrl));
+
+    assert.equal(response.status, 200);
+    assert.equal(response.body.currentPage.id, library.page("Closing Time").id);
+    assert.equal(response.body.currentPage.nextPageId, library.page("The Note").id);
+    assert.equal(response.body.currentPage.previousPageId, null);
+    assert.equal(response.body.metadata.totalPages, 5);
+    assert.equal(response.body.userEggplants, 0);
+  });
+
+  it("evaluates the page's choices for the reader", async () => {
+    const response = await navigate(new TestClient(server.baseUrl), { pageId: library.page("The Note").id });
+
+    assert.equal(response.body.currentPage.nextPageId, null);
+    assert.deepEqual(
+      response.body.availableChoices.map((evaluation: any) => [evaluation.choice.choiceText, evaluation.requiresPurchase]),
+      [
+        ["Follow the footsteps", false],
+        ["Find the rare books room", true],
+      ]
+    );
+  });
+
+  it("takes a choice, applies its effects and resumes there", async () => {
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+    await navigate(reader, { pageId: library.page("The Note").id });
+
+    const taken = await navigate(reader, { choiceId: library.choice("Follow the footsteps").id });
+    assert.equal(taken.status, 200);
+    assert.equal(taken.body.currentPage.id, library.page("The Stairs").id);
+    assert.deepEqual(taken.body.progress.variables, { courage: 1 });
+    assert.equal((await server.storage.getUserChoiceHistory(readerId, library.id)).length, 1);
+
+    const resumed = await navigate(reader);
+    assert.equal(resumed.body.currentPage.id, library.page("The Stairs").id);
+    assert.equal((await server.storage.getReadingProgress(readerId, library.id))?.currentPage, 3);
+  });
+
+  it("buys a premium choice once through the engine", async () => {
+    const readerId = await createUser(server.storage, 5);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+    const premium = library.choice("Find the rare books room");
+    await navigate(reader, { pageId: library.page("The Note").id });
+
+    const bought = await navigate(reader, { choiceId: premium.id });
+    assert.equal(bought.status, 200);
+    assert.equal(bought.body.currentPage.id, library.page("The Rare Books Room").id);
+    assert.equal(bought.body.userEggplants, 2);
+    assert.deepEqual(bought.body.progress.purchasedChoices, [premium.id]);
+
+    const owned = await navigate(reader, { pageId: library.page("The Note").id });
+    const evaluation = owned.body.availableChoices.find((entry: any) => entry.choice.id === premium.id);
+    assert.equal(evaluation.requiresPurchase, false);
+
+    await navigate(reader, { choiceId: premium.id });
+    assert.equal((await server.storage.getUser(readerId))?.eggplants, 2);
+  });
+
+  it("refuses premium choices the reader cannot pay for", async () => {
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 1));
+    await navigate(reader, { pageId: library.page("The Note").id });
+
+    const response = await navigate(reader, { choiceId: library.choice("Find the rare books room").id });
+    assert.equal(response.status, 400);
+    assert.equal(response.body.code, "insufficient_eggplants");
+    assert.equal(response.body.required, 3);
+  });
+
+  it("only jumps to pages the reader could have read to", async () => {
+    const secret = library.page("The Rare Books Room").id;
+    const guest = new TestClient(server.baseUrl);
+    const lockedForGuest = await navigate(guest, { pageId: secret });
+    assert.equal(lockedForGuest.status, 403);
+    assert.equal(lockedForGuest.body.code, "page_locked");
+    assert.equal((await navigate(guest, { pageId: library.page("Between the Stacks").id })).status, 200);
+
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+    assert.equal((await navigate(reader, { pageId: secret })).status, 403);
+    assert.equal(await server.storage.getReadingProgress(readerId, library.id), undefined);
+
+    // Buying the way in opens the page up
+    const buyerId = await createUser(server.storage, 5);
+    const buyer = new TestClient(server.baseUrl);
+    await buyer.login(buyerId);
+    await navigate(buyer, { pageId: library.page("The Note").id });
+    await navigate(buyer, { choiceId: library.choice("Find the rare books room").id });
+    await navigate(buyer, { pageId: library.page("The Note").id });
+    assert.equal((await navigate(buyer, { pageId: secret })).status, 200);
+  });
+
+  it("only takes choices on the reader's current page", async () => {
+    const stayUntilDawn = library.choice("Stay until dawn").id;
+    const guest = new TestClient(server.baseUrl);
+    const skipped = await navigate(guest, { choiceId: stayUntilDawn });
+    assert.equal(skipped.status, 403);
+    assert.equal(skipped.body.code, "choice_unavailable");
+
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+    assert.equal((await navigate(reader, { choiceId: stayUntilDawn })).status, 403);
+
+    // Taking a choice moves the reader on, so it can't be taken again to pile up its effects
+    await navigate(reader, { pageId: library.page("The Note").id });
+    const footsteps = library.choice("Follow the footsteps").id;
+    assert.equal((await navigate(reader, { choiceId: footsteps })).status, 200);
+    assert.equal((await navigate(reader, { choiceId: footsteps })).status, 403);
+    assert.deepEqual(await server.storage.getStoryVariableValues(readerId, library.id), { courage: 1 });
+    assert.equal((await server.storage.getUserChoiceHistory(readerId, library.id)).length, 1);
+  });
+
+  it("only selects choices on the reader's current page through the older select route", async () => {
+    const stayUntilDawn = library.choice("Stay until dawn").id;
+    const select = (client: TestClient, choiceId: string) => client.post(`/api/choices/${choiceId}/select`, { storyId: library.id });
+
+    const guest = new TestClient(server.baseUrl);
+    const skipped = await select(guest, stayUntilDawn);
+    assert.equal(skipped.status, 403);
+    assert.equal(skipped.body.code, "choice_unavailable");
+
+    const readerId = await createUser(server.storage, 0);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(readerId);
+    assert.equal((await select(reader, stayUntilDawn)).status, 403);
+    assert.equal(await server.storage.getReadingProgress(readerId, library.id), undefined);
+
+    await navigate(reader, { pageId: library.page("The Note").id });
+    const footsteps = library.choice("Follow the footsteps").id;
+    assert.equal((await select(reader, footsteps)).status, 200);
+    assert.equal((await select(reader, footsteps)).status, 403);
+    assert.deepEqual(await server.storage.getStoryVariableValues(readerId, library.id), { courage: 1 });
+  });
+
+  it("rejects pages and choices from other stories", async () => {
+    const other = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    const guest = new TestClient(server.baseUrl);
+
+    assert.equal((await navigate(guest, { pageId: other.page("The Note").id })).status, 404);
+    assert.equal((await navigate(guest, { choiceId: other.choice("Follow the footsteps").id })).status, 404);
+    assert.equal((await navigate(guest, {}, "no-such-story")).status, 404);
+  });
+});
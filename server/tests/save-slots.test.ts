@@ -0,0 +1,109 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureStory, loggedInReader, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("save slots", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function read(client: TestClient, body: { slot?: string; pageId?: string; choiceId?: string }) {
+    return client.post(`/api/stories/${library.id}/session`, body);
+  }
+
+  async function pathIn(client: TestClient, slot: string) {
+    const response = await client.get(`/api/stories/${library.id}/path?slot=${encodeURIComponent(slot)}`);
+    return response.body.steps.map((step: any) => step.choiceText);
+  }
+
+  it("keeps a copied playthrough apart from the one it was copied from", async () => {
+    const { client } = await loggedInReader(server);
+    await read(client, { pageId: library.page("The Note").id });
+
+    const copy = await client.post(`/api/stories/${library.id}/slots`, { name: "Before the fork", copyFrom: "Main" });
+    assert.equal(copy.status, 201);
+    assert.equal(copy.body.currentPageId, library.page("The Note").id);
+
+    const main = await read(client, { slot: "Main", choiceId: library.choice("Follow the footsteps").id });
+    assert.equal(main.body.currentPage.title, "The Stairs");
+    assert.equal(main.body.progress.slot, "Main");
+    assert.deepEqual(main.body.progress.variables, { courage: 1 });
+
+    const branch = await read(client, { slot: "Before the fork" });
+    assert.equal(branch.body.currentPage.title, "The Note");
+    assert.deepEqual(branch.body.progress.variables, { courage: 0 });
+
+    assert.deepEqual(await pathIn(client, "Main"), ["Follow the footsteps"]);
+    assert.deepEqual(await pathIn(client, "Before the fork"), []);
+
+    // Without a slot the reader resumes the one they read last
+    const resumed = await read(client, {});
+    assert.equal(resumed.body.progress.slot, "Before the fork");
+
+    const slots = await client.get(`/api/stories/${library.id}/slots`);
+    assert.deepEqual(
+      slots.body.map((slot: any) => [slot.slot, slot.currentPageTitle]),
+      [["Before the fork", "The Note"], ["Main", "The Stairs"]]
+    );
+  });
+
+  it("copies choice history, so rewinding a copy leaves the original alone", async () => {
+    const { client } = await loggedInReader(server);
+    await read(client, { pageId: library.page("The Note").id });
+    await read(client, { choiceId: library.choice("Follow the footsteps").id });
+    await client.post(`/api/stories/${library.id}/slots`, { name: "Second try", copyFrom: "Main" });
+
+    const [step] = (await client.get(`/api/stories/${library.id}/path?slot=Second%20try`)).body.steps;
+    const rewound = await client.post(`/api/stories/${library.id}/path/rewind`, { historyId: step.historyId, slot: "Second try" });
+    assert.equal(rewound.status, 200);
+
+    assert.deepEqual(await pathIn(client, "Second try"), []);
+    assert.deepEqual(await pathIn(client, "Main"), ["Follow the footsteps"]);
+  });
+
+  it("starts new slots at the beginning and validates their names", async () => {
+    const { userId, client } = await loggedInReader(server);
+    await read(client, { pageId: library.page("The Stairs").id });
+
+    const fresh = await client.post(`/api/stories/${library.id}/slots`, { name: "  Fresh start  " });
+    assert.equal(fresh.status, 201);
+    assert.equal(fresh.body.slot, "Fresh start");
+    assert.equal(fresh.body.currentPageId, library.page("Closing Time").id);
+
+    assert.equal((await client.post(`/api/stories/${library.id}/slots`, { name: "Fresh start" })).status, 409);
+    assert.equal((await client.post(`/api/stories/${library.id}/slots`, { name: "Copy", copyFrom: "Nope" })).status, 404);
+    assert.equal((await client.post(`/api/stories/${library.id}/slots`, { name: " " })).status, 400);
+    assert.equal((await read(client, { slot: "x".repeat(41) })).status, 400);
+
+    // Several slots of one story still count as one story started
+    assert.equal((await server.storage.getUserStats(userId)).storiesStarted, 1);
+  });
+
+  it("restarts or deletes one slot without touching the others", async () => {
+    const { userId, client } = await loggedInReader(server);
+    await read(client, { pageId: library.page("The Note").id });
+    await read(client, { choiceId: library.choice("Follow the footsteps").id });
+    await client.post(`/api/stories/${library.id}/slots`, { name: "Spare", copyFrom: "Main" });
+
+    const restart = await client.post(`/api/stories/${library.id}/start-from-beginning`, { slot: "Spare" });
+    assert.equal(restart.status, 200);
+    assert.equal((await server.storage.getReadingProgress(userId, library.id, "Spare"))?.currentPageId, library.page("Closing Time").id);
+    assert.deepEqual(await pathIn(client, "Spare"), []);
+    assert.deepEqual(await pathIn(client, "Main"), ["Follow the footsteps"]);
+
+    const removed = await client.request("DELETE", `/api/stories/${library.id}/slots/Spare`);
+    assert.equal(removed.status, 200);
+    assert.deepEqual((await server.storage.getReadingSlots(userId, library.id)).map((slot) => slot.slot), ["Main"]);
+    assert.equal((await server.storage.getReadingProgress(userId, library.id))?.currentPageId, library.page("The Stairs").id);
+
+    assert.equal((await client.request("DELETE", `/api/stories/${library.id}/slots/Spare`)).status, 404);
+  });
+});
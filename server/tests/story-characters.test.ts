@@ -0,0 +1,81 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createUser, fixtureStory, loggedInAuthor, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+const ivy = {
+  id: "character-1",
+  name: "Ivy",
+  avatarUrl: "/media/ivy.jpg",
+  color: "#e11d48",
+  pronouns: "she/her",
+  bio: "The night librarian.",
+};
+
+describe("story characters", () => {
+  let server: TestServer;
+  let library: SeededStory;
+  let author: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    author = await loggedInAuthor(server, library);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("gives the builder's characters real ids and points messages and mentions at them", async () => {
+    const draft = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    draft.characters = [ivy];
+    draft.pages[0].content = `${draft.pages[0].content}\n\n@[Ivy](character:character-1) switches off the lamps.`;
+    draft.pages[1].pageType = "chat";
+    draft.pages[1].chatMessages = [{ id: "msg-1", sender: "Ivy", characterId: "character-1", message: "Still here?", isUser: false }];
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, draft)).status, 200);
+    assert.equal((await author.post(`/api/stories/${library.id}/publish`)).status, 200);
+
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+    const cast = await reader.get(`/api/stories/${library.id}/characters`);
+    assert.equal(cast.status, 200);
+    assert.equal(cast.body.length, 1);
+    const [saved] = cast.body;
+    assert.notEqual(saved.id, "character-1");
+    assert.deepEqual({ ...saved, id: ivy.id }, ivy);
+
+    const opening = await reader.post(`/api/stories/${library.id}/session`, { pageId: draft.pages[0].id });
+    assert.ok(opening.body.currentPage.content.includes(`@[Ivy](character:${saved.id})`));
+    const chat = await reader.post(`/api/stories/${library.id}/session`, { pageId: draft.pages[1].id });
+    assert.equal(chat.body.currentPage.chatMessages[0].characterId, saved.id);
+
+    // Saving again keeps the ids the story already has
+    const reopened = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    reopened.characters[0].bio = "Knows every shelf.";
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, reopened)).status, 200);
+    assert.equal((await author.get(`/api/stories/${library.id}/draft`)).body.characters[0].id, saved.id);
+
+    const validation = await author.get(`/api/stories/${library.id}/validate`);
+    assert.ok(!validation.body.issues.some((issue: any) => issue.code === "unknown_character"));
+
+    const download = await reader.get(`/api/stories/${library.id}/offline`);
+    assert.equal(download.body.characters[0].name, "Ivy");
+    assert.ok(download.body.assets.includes("/media/ivy.jpg"));
+  });
+
+  it("warns about references to characters who aren't in the cast", async () => {
+    const draft = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    draft.characters = [];
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, draft)).status, 200);
+
+    const validation = await author.get(`/api/stories/${library.id}/validate`);
+    assert.ok(validation.body.issues.some((issue: any) => issue.code === "unknown_character" && issue.severity === "warning"));
+  });
+
+  it("rejects malformed characters", async () => {
+    const draft = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    draft.characters = [{ ...ivy, color: "crimson" }];
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, draft)).status, 400);
+    assert.equal((await author.get(`/api/stories/missing-story/characters`)).status, 404);
+  });
+});
@@ -0,0 +1,91 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { layoutStoryGraph } from "../story-layout";
+import { createUser, fixtureStory, loggedInAuthor, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+function pages(...ids: string[]) {
+  return ids.map((id, index) => ({ id, order: index + 1 }));
+}
+
+function links(...pairs: string[]) {
+  return pairs.map((pair) => {
+    const [fromPageId, toPageId] = pair.split("->");
+    return { fromPageId, toPageId };
+  });
+}
+
+describe("story layout", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("breaks loops and puts every ending on the last layer", () => {
+    const layout = layoutStoryGraph(
+      pages("start", "hall", "garden", "quick-end", "long-end"),
+      links("start->hall", "start->quick-end", "hall->garden", "garden->hall", "garden->long-end")
+    );
+
+    assert.equal(layout.start.layer, 0);
+    assert.ok(layout.hall.layer < layout.garden.layer);
+    assert.equal(layout["quick-end"].layer, layout["long-end"].layer);
+    assert.equal(layout["long-end"].layer, Math.max(...Object.values(layout).map((position) => position.layer)));
+
+    const spots = Object.values(layout).map((position) => `${position.x},${position.y}`);
+    assert.equal(new Set(spots).size, spots.length);
+  });
+
+  it("orders each layer to avoid crossing links", () => {
+    const layout = layoutStoryGraph(
+      pages("start", "left", "right", "end-a", "end-b"),
+      links("start->left", "start->right", "left->end-b", "right->end-a")
+    );
+
+    assert.ok(layout.left.x < layout.right.x);
+    assert.ok(layout["end-b"].x < layout["end-a"].x);
+  });
+
+  it("lays out the builder's working copy apart from the published story", async () => {
+    const author = await loggedInAuthor(server, library);
+    const added = await author.post(`/api/stories/${library.id}/pages`, {
+      title: "Epilogue",
+      content: "A year later, the card is still in your wallet.",
+      order: 6,
+    });
+    assert.equal(added.status, 201);
+
+    const draft = await author.get(`/api/stories/${library.id}/draft/map`);
+    assert.equal(draft.status, 200);
+    const epilogue = draft.body.pageBubbles.find((page: any) => page.id === added.body.id);
+    const stacks = draft.body.pageBubbles.find((page: any) => page.id === library.page("Between the Stacks").id);
+    assert.ok(epilogue.y > stacks.y);
+
+    // Readers keep seeing the published story until the draft is published
+    const published = await author.get(`/api/stories/${library.id}/map`);
+    assert.equal(published.body.pageBubbles.length, 5);
+
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+    assert.equal((await reader.get(`/api/stories/${library.id}/draft/map`)).status, 403);
+  });
+
+  it("lays out pages published from a draft that was already saved", async () => {
+    const story = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    const author = await loggedInAuthor(server, story);
+    const added = await author.post(`/api/stories/${story.id}/pages`, { title: "Epilogue", content: "A year later.", order: 6 });
+    assert.equal((await author.get(`/api/stories/${story.id}/map`)).body.pageBubbles.length, 5);
+
+    assert.equal((await author.post(`/api/stories/${story.id}/publish`)).status, 200);
+    const published = (await author.get(`/api/stories/${story.id}/map`)).body;
+    const epilogue = published.pageBubbles.find((page: any) => page.id === added.body.id);
+    const stacks = published.pageBubbles.find((page: any) => page.id === story.page("Between the Stacks").id);
+    assert.ok(epilogue.y > stacks.y);
+  });
+});
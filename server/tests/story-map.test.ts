@@ -0,0 +1,82 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureStory, loggedInReader, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("story map", () => {
+  let server: TestServer;
+  let library: SeededStory;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function choose(client: TestClient, choiceText: string) {
+    return client.post(`/api/stories/${library.id}/session`, { choiceId: library.choice(choiceText).id });
+  }
+
+  // Bubble titles are shortened for display, so pages are matched by id
+  function visitedPages(map: any) {
+    return map.pageBubbles.filter((page: any) => page.visited).map((page: any) => page.id);
+  }
+
+  function bubble(map: any, title: string) {
+    return map.pageBubbles.find((page: any) => page.id === library.page(title).id);
+  }
+
+  function pageIds(...titles: string[]) {
+    return titles.map((title) => library.page(title).id);
+  }
+
+  it("reveals only the pages the reader has been through", async () => {
+    const { client } = await loggedInReader(server);
+    await client.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+    await choose(client, "Follow the footsteps");
+
+    const map = await client.get(`/api/stories/${library.id}/map`);
+    assert.equal(map.status, 200);
+    assert.deepEqual(visitedPages(map.body), pageIds("Closing Time", "The Note", "The Stairs"));
+    assert.equal(bubble(map.body, "The Stairs").isCurrent, true);
+    assert.equal(bubble(map.body, "The Note").isCurrent, false);
+    assert.deepEqual(
+      map.body.choices.filter((choice: any) => choice.taken).map((choice: any) => choice.id),
+      [library.choice("Follow the footsteps").id]
+    );
+    assert.deepEqual(map.body.reader, {
+      currentPageId: library.page("The Stairs").id,
+      endingsFound: 0,
+      totalEndings: 1,
+    });
+  });
+
+  it("marks endings once reached, separately in each save slot", async () => {
+    const { client } = await loggedInReader(server);
+    await client.post(`/api/stories/${library.id}/session`, { pageId: library.page("The Note").id });
+    await choose(client, "Follow the footsteps");
+    await choose(client, "Stay and talk");
+    await client.post(`/api/stories/${library.id}/session`, { slot: "Second try", pageId: library.page("Closing Time").id });
+
+    const main = (await client.get(`/api/stories/${library.id}/map?slot=Main`)).body;
+    assert.equal(bubble(main, "Between the Stacks").isDiscoveredEnding, true);
+    assert.equal(main.reader.endingsFound, 1);
+
+    const secondTry = (await client.get(`/api/stories/${library.id}/map?slot=${encodeURIComponent("Second try")}`)).body;
+    assert.deepEqual(visitedPages(secondTry), pageIds("Closing Time"));
+    assert.equal(secondTry.reader.endingsFound, 0);
+
+    assert.equal((await client.get(`/api/stories/${library.id}/map?slot=${"x".repeat(200)}`)).status, 400);
+  });
+
+  it("shows guests the whole map", async () => {
+    const guest = new TestClient(server.baseUrl);
+    const map = await guest.get(`/api/stories/${library.id}/map`);
+    assert.equal(map.status, 200);
+    assert.equal(map.body.reader, null);
+    assert.equal(map.body.pageBubbles.length, 5);
+    assert.ok(map.body.choices.every((choice: any) => !choice.taken));
+  });
+});
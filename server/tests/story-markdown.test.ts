@@ -0,0 +1,95 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { StoryMarkdown } from "@shared/story-engine/StoryMarkdown";
+import { createUser, fixtureStory, loggedInAuthor, seedStory, startTestServer, TestClient, type SeededStory, type TestServer } from "./harness";
+
+describe("story markdown", () => {
+  let server: TestServer;
+  let library: SeededStory;
+  let author: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    library = await seedStory(server.storage, fixtureStory("fixture-midnight-library"));
+    author = await loggedInAuthor(server, library);
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  it("reads emphasis, scene breaks, images and mentions into blocks", () => {
+    const blocks = StoryMarkdown.parse(
+      "*Not again,* you think.\n**Run.**\n\n* * *\n\n![The reading room](/media/room.jpg)\n\n*@[Ivy](character:ivy) waves* at snake_case \\*stars\\*",
+      [{ id: "ivy", name: "Ivy" }]
+    );
+
+    assert.deepEqual(blocks[0], {
+      type: "paragraph",
+      children: [
+        { type: "emphasis", children: [{ type: "text", text: "Not again," }] },
+        { type: "text", text: " you think." },
+        { type: "lineBreak" },
+        { type: "strong", children: [{ type: "text", text: "Run." }] },
+      ],
+    });
+    assert.deepEqual(blocks[1], { type: "sceneBreak" });
+    assert.deepEqual(blocks[2], { type: "image", url: "/media/room.jpg", alt: "The reading room" });
+    assert.deepEqual(blocks[3], {
+      type: "paragraph",
+      children: [
+        {
+          type: "emphasis",
+          children: [
+            { type: "mention", characterId: "ivy", name: "Ivy", character: { id: "ivy", name: "Ivy" } },
+            { type: "text", text: " waves" },
+          ],
+        },
+        { type: "text", text: " at snake_case *stars*" },
+      ],
+    });
+  });
+
+  it("cleans page text on save and keeps inline images for offline reading", async () => {
+    const note = library.page("The Note");
+    const saved = await author.request("PUT", `/api/pages/${note.id}`, {
+      content: "<script>steal()</script>She *hesitates*.\r\n\r\n\r\n![Map](javascript:alert(1)) ![Map](/media/map.jpg) <3",
+    });
+    assert.equal(saved.status, 200);
+    assert.equal(saved.body.content, "steal()She *hesitates*.\n\n ![Map](/media/map.jpg) <3");
+
+    const draft = (await author.get(`/api/stories/${library.id}/draft`)).body;
+    draft.pages[0].content = `Dust <img src=x onerror=alert(1)>motes\n\n---\n\n_Later._`;
+    assert.equal((await author.request("PUT", `/api/stories/${library.id}/draft`, draft)).status, 200);
+    assert.equal((await author.get(`/api/stories/${library.id}/draft`)).body.pages[0].content, "Dust motes\n\n---\n\n_Later._");
+
+    assert.equal((await author.post(`/api/stories/${library.id}/publish`)).status, 200);
+    const reader = new TestClient(server.baseUrl);
+    await reader.login(await createUser(server.storage, 0));
+    const download = await reader.get(`/api/stories/${library.id}/offline`);
+    assert.ok(download.body.assets.includes("/media/map.jpg"));
+  });
+
+  it("rejects page text over the length limit", async () => {
+    const stairs = library.page("The Stairs");
+    const tooLong = await author.request("PUT", `/api/pages/${stairs.id}`, { content: "word ".repeat(5000) });
+    assert.equal(tooLong.status, 400);
+  });
+
+  it("cleans and limits page text in stories created complete", async () => {
+    const completeStory = (content: string) => author.post("/api/stories/complete", {
+      title: "The Lighthouse",
+      description: "A keeper's last night",
+      spiceLevel: 1,
+      category: "straight",
+      pages: [{ id: "lamp", title: "The Lamp", content, order: 1 }],
+    });
+
+    const created = await completeStory("The lamp <script>steal()</script>*gutters*.");
+    assert.equal(created.status, 201);
+    const [lamp] = await server.storage.getStoryPages(created.body.story.id);
+    assert.equal(lamp.content, "The lamp steal()*gutters*.");
+
+    assert.equal((await completeStory("word ".repeat(5000))).status, 400);
+  });
+});
@@ -0,0 +1,48 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fixtureStory, loggedInAuthor, seedStory, startTestServer, TestClient, type TestServer } from "./harness";
+
+describe("creating complete stories", () => {
+  let server: TestServer;
+  let author: TestClient;
+
+  before(async () => {
+    server = await startTestServer();
+    author = await loggedInAuthor(server, await seedStory(server.storage, fixtureStory("fixture-midnight-library")));
+  });
+
+  after(async () => {
+    await server.close();
+  });
+
+  function completeStory(choiceTarget: string) {
+    return author.post("/api/stories/complete", {
+      title: "The Lighthouse",
+      description: "A keeper's last night",
+      spiceLevel: 1,
+      category: "straight",
+      isPublished: true,
+      pages: [
+        { id: "start", title: "The Lamp", content: "The lamp gutters.", order: 1, choices: [{ text: "Climb", targetPageId: choiceTarget }] },
+        { id: "top", title: "The Gallery", content: "Wind, and the sea.", order: 2, choices: [] },
+      ],
+    });
+  }
+
+  it("publishes through the working copy once the story checks out", async () => {
+    const created = await completeStory("top");
+    assert.equal(created.status, 201);
+    assert.equal(created.body.story.isPublished, true);
+
+    const pages = await server.storage.getStoryPages(created.body.story.id);
+    assert.deepEqual(pages.map((page) => page.title), ["The Lamp", "The Gallery"]);
+    assert.equal((await server.storage.getWorkingCopy(created.body.story.id))?.hasUnpublishedChanges, false);
+  });
+
+  it("keeps a story that fails validation as a draft", async () => {
+    const refused = await completeStory("start");
+    assert.equal(refused.status, 400);
+    assert.ok(refused.body.validation.issues.some((issue: any) => issue.code === "self_loop"));
+    assert.equal((await server.storage.getStory(refused.body.storyId))?.isPublished, false);
+  });
+});
@@ -1,6 +1,4 @@
-import { db } from "./db";
-import { eq, and } from "drizzle-orm";
-import { users, purchasedPremiumPaths, userChoices, readingProgress } from "@shared/schema";
+import { storage } from "./storage";
 
 export interface PremiumChoiceTransaction {
   userId: string;
@@ -18,77 +16,42 @@ export class TransactionManager {
     error?: string;
     newEggplantBalance?: number;
   }> {
-    return await db.transaction(async (tx) => {
-      try {
-        // 1. Get current user data with row locking
-        const [user] = await tx
-          .select()
-          .from(users)
-          .where(eq(users.id, transaction.userId))
-          .for('update'); // Row-level lock to prevent race conditions
-
-        if (!user) {
-          throw new Error('User not found');
-        }
-
-        // 2. Check if user has sufficient eggplants
-        if (user.eggplants < transaction.eggplantCost) {
-          throw new Error('Insufficient eggplants');
-        }
-
-        // 3. Check if choice is already purchased
-        const [existingPurchase] = await tx
-          .select()
-          .from(purchasedPremiumPaths)
-          .where(
-            and(
-              eq(purchasedPremiumPaths.userId, transaction.userId),
-              eq(purchasedPremiumPaths.choiceId, transaction.choiceId)
-            )
-          );
+    try {
+      return await storage.transaction(async (tx) => {
+        // 1. Deduct eggplants; this locks the user row and records the debit in the ledger.
+        //    Throws 'User not found' or 'Insufficient eggplants'.
+        const user = await tx.addEggplantsToUser(transaction.userId, -transaction.eggplantCost, {
+          reason: 'premium_choice',
+          referenceId: transaction.choiceId,
+          description: 'Unlocked premium path'
+        });
 
-        if (existingPurchase) {
+        // 2. Check if choice is already purchased (the balance change above rolls back)
+        if (await tx.hasPurchasedPremiumPath(transaction.userId, transaction.choiceId)) {
           throw new Error('Choice already purchased');
         }
 
-        // 4. Deduct eggplants
-        const newBalance = user.eggplants - transaction.eggplantCost;
-        await tx
-          .update(users)
-          .set({ 
-            eggplants: newBalance,
-            updatedAt: new Date()
-          })
-          .where(eq(users.id, transaction.userId));
-
-        // 5. Record the purchase
-        await tx.insert(purchasedPremiumPaths).values({
+        // 3. Record the purchase. Taking the choice goes into the reader's history separately, in
+        //    their save slot, once the story engine moves them on
+        await tx.purchasePremiumPath({
           userId: transaction.userId,
           storyId: transaction.storyId,
           choiceId: transaction.choiceId,
           eggplantCost: transaction.eggplantCost
         });
 
-        // 6. Record the choice in user history
-        await tx.insert(userChoices).values({
-          userId: transaction.userId,
-          storyId: transaction.storyId,
-          choiceId: transaction.choiceId
-        });
-
         return {
           success: true,
-          newEggplantBalance: newBalance
-        };
-
-      } catch (error) {
-        // Transaction will automatically rollback
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : 'Unknown error'
+          newEggplantBalance: user.eggplants || 0
         };
-      }
-    });
+      });
+    } catch (error) {
+      // The transaction has rolled back
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
   }
 
   // Atomic reading progress update
@@ -102,21 +65,13 @@ export class TransactionManager {
       choicesMade?: number;
     }
   ): Promise<{ success: boolean; error?: string }> {
-    return await db.transaction(async (tx) => {
-      try {
-        // Check if progress exists
-        const [existingProgress] = await tx
-          .select()
-          .from(readingProgress)
-          .where(
-            and(
-              eq(readingProgress.userId, userId),
-              eq(readingProgress.storyId, storyId)
-            )
-          )
-          .for('update');
+    try {
+      return await storage.transaction(async (tx) => {
+        const existingProgress = await tx.getReadingProgress(userId, storyId);
 
-        const updateData = {
+        await tx.saveReadingProgress({
+          userId,
+          storyId,
           currentPage: pageNumber,
           lastReadAt: new Date(),
           pagesRead: Math.max(existingProgress?.pagesRead || 0, pageNumber),
@@ -130,35 +85,16 @@ export class TransactionManager {
           ...(additionalData?.choicesMade && {
             choicesMade: (existingProgress?.choicesMade || 0) + additionalData.choicesMade
           })
-        };
-
-        if (existingProgress) {
-          await tx
-            .update(readingProgress)
-            .set(updateData)
-            .where(
-              and(
-                eq(readingProgress.userId, userId),
-                eq(readingProgress.storyId, storyId)
-              )
-            );
-        } else {
-          await tx.insert(readingProgress).values({
-            userId,
-            storyId,
-            ...updateData
-          });
-        }
+        });
 
         return { success: true };
-
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : 'Failed to update reading progress'
-        };
-      }
-    });
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Failed to update reading progress'
+      };
+    }
   }
 
   // Batch operations for performance
@@ -167,17 +103,19 @@ export class TransactionManager {
     storyId: string;
     choiceId: string;
   }>): Promise<{ success: boolean; error?: string }> {
-    return await db.transaction(async (tx) => {
-      try {
-        await tx.insert(userChoices).values(choices);
+    try {
+      return await storage.transaction(async (tx) => {
+        for (const choice of choices) {
+          await tx.saveUserChoice(choice);
+        }
         return { success: true };
-      } catch (error) {
-        return {
-          success: false,
-          error: error instanceof Error ? error.message : 'Batch operation failed'
-        };
-      }
-    });
+      });
+    } catch (error) {
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Batch operation failed'
+      };
+    }
   }
 }
 
@@ -0,0 +1,30 @@
+// Reader typography and theme settings, shared by the preferences API and the reader
+
+// Choices offered in the reader's settings
+export const READER_FONT_FAMILIES = ["crimson", "garamond", "baskerville", "georgia"] as const;
+export const READER_THEMES = ["dark", "light", "sepia", "oled"] as const;
+export const PAGE_TURN_ANIMATIONS = ["fade", "slide", "none"] as const;
+export const READER_TEXT_WIDTHS = ["narrow", "medium", "wide"] as const;
+
+// Slider limits; font size is in rem
+export const FONT_SIZE_RANGE = { min: 0.875, max: 1.5, step: 0.125 } as const;
+export const LINE_HEIGHT_RANGE = { min: 1.4, max: 2, step: 0.1 } as const;
+
+export interface ReaderPreferences {
+  fontFamily: (typeof READER_FONT_FAMILIES)[number];
+  fontSize: number;
+  lineHeight: number;
+  theme: (typeof READER_THEMES)[number];
+  pageTurnAnimation: (typeof PAGE_TURN_ANIMATIONS)[number];
+  textWidth: (typeof READER_TEXT_WIDTHS)[number];
+}
+
+// What readers see until they change anything; the user_preferences column defaults match
+export const DEFAULT_READER_PREFERENCES: ReaderPreferences = {
+  fontFamily: "crimson",
+  fontSize: 1.125,
+  lineHeight: 1.7,
+  theme: "dark",
+  pageTurnAnimation: "fade",
+  textWidth: "medium",
+};
@@ -7,12 +7,33 @@ import {
   varchar,
   text,
   integer,
+  real,
   boolean,
   unique,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { relations } from "drizzle-orm";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type {
+  ChoiceCondition,
+  ChoiceEffect,
+  StoryChatMessage,
+  StoryVariableDefinition,
+  StoryVariableValue,
+  StoryVariableValues,
+} from "./story-engine/types/StoryTypes";
+
+import {
+  PAGE_TURN_ANIMATIONS,
+  READER_FONT_FAMILIES,
+  READER_TEXT_WIDTHS,
+  READER_THEMES,
+  DEFAULT_READER_PREFERENCES,
+  type ReaderPreferences,
+} from "./readerPreferences";
+
+export type { ChoiceCondition, ChoiceEffect, StoryVariableValue, StoryVariableValues, ReaderPreferences };
 
 // Session storage table (required for Replit Auth)
 export const sessions = pgTable(
@@ -40,6 +61,18 @@ export const users = pgTable("users", {
   updatedAt: timestamp("updated_at").defaultNow(),
 });
 
+// How a signed-in reader likes pages to look, applied on every device they read on
+export const userPreferences = pgTable("user_preferences", {
+  userId: varchar("user_id").primaryKey().references(() => users.id, { onDelete: "cascade" }),
+  fontFamily: varchar("font_family", { enum: READER_FONT_FAMILIES }).notNull().default(DEFAULT_READER_PREFERENCES.fontFamily),
+  fontSize: real("font_size").notNull().default(DEFAULT_READER_PREFERENCES.fontSize), // rem
+  lineHeight: real("line_height").notNull().default(DEFAULT_READER_PREFERENCES.lineHeight),
+  theme: varchar("theme", { enum: READER_THEMES }).notNull().default(DEFAULT_READER_PREFERENCES.theme),
+  pageTurnAnimation: varchar("page_turn_animation", { enum: PAGE_TURN_ANIMATIONS }).notNull().default(DEFAULT_READER_PREFERENCES.pageTurnAnimation),
+  textWidth: varchar("text_width", { enum: READER_TEXT_WIDTHS }).notNull().default(DEFAULT_READER_PREFERENCES.textWidth),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
 // Stories table
 export const stories = pgTable("stories", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -51,11 +84,33 @@ export const stories = pgTable("stories", {
   category: varchar("category").notNull(), // 'straight', 'lgbt', 'all'
   wordCount: integer("word_count").notNull(),
   pathCount: integer("path_count").notNull(),
+  tags: text("tags").array().notNull().default(sql`'{}'::text[]`), // Lowercase, e.g. "vampire", "slow-burn"
   isFeatured: boolean("is_featured").default(false),
   isPublished: boolean("is_published").default(true),
+  publishedAt: timestamp("published_at"),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }), // Owner; null for legacy stories
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_stories_author").on(table.authorId),
+  // Search expressions must match storage.searchStories exactly for Postgres to use these
+  index("idx_stories_search").using(
+    "gin",
+    sql`(setweight(to_tsvector('english', ${table.title}), 'A') || setweight(to_tsvector('english', ${table.description}), 'B'))`
+  ),
+  index("idx_stories_tags").using("gin", table.tags),
+]);
+
+// Co-authors can edit a story but not delete it or manage its authors
+export const storyCoAuthors = pgTable("story_co_authors", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storyId: varchar("story_id").notNull().references(() => stories.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.storyId, table.userId),
+  index("idx_story_co_authors_user").on(table.userId),
+]);
 
 // Story pages 
 export const storyPages = pgTable("story_pages", {
@@ -66,10 +121,12 @@ export const storyPages = pgTable("story_pages", {
   isStarting: boolean("is_starting").default(false),
   order: integer("order").notNull(),
   pageType: varchar("page_type").default("story"), // "story", "choice", "chat"
-  chatMessages: jsonb("chat_messages"), // For chat dialogue pages
+  chatMessages: jsonb("chat_messages").$type<ChatMessage[]>(), // For chat dialogue pages
   nextPageId: varchar("next_page_id"),
   createdAt: timestamp("created_at").defaultNow(),
-});
+}, (table) => [
+  index("idx_story_pages_search").using("gin", sql`to_tsvector('english', ${table.content})`),
+]);
 
 // Story choices (PAGE-BASED SYSTEM)
 export const storyChoices = pgTable("story_choices", {
@@ -82,15 +139,90 @@ export const storyChoices = pgTable("story_choices", {
   order: integer("order").notNull(),
   targetPage: integer("target_page"), // PAGE-BASED NAVIGATION - page number reference
   targetPageId: varchar("target_page_id"), // PAGE-BASED NAVIGATION - page id reference for new stories
+  effects: jsonb("effects").$type<ChoiceEffect[]>(), // Variable changes applied when the choice is taken
+  conditions: jsonb("conditions").$type<ChoiceCondition[]>(), // All must hold for the choice to be shown
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Story state variables declared by the author (e.g. trust, metBarista)
+export const storyVariables = pgTable("story_variables", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storyId: varchar("story_id").notNull().references(() => stories.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  type: varchar("type", { enum: ["number", "boolean"] }).notNull(),
+  defaultValue: jsonb("default_value").$type<StoryVariableValue>().notNull(),
+  description: text("description"),
   createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.storyId, table.name),
+]);
+
+// The story's cast; chat messages and page text refer to characters by id
+export const storyCharacters = pgTable("story_characters", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storyId: varchar("story_id").notNull().references(() => stories.id, { onDelete: "cascade" }),
+  name: varchar("name").notNull(),
+  avatarUrl: text("avatar_url"),
+  color: varchar("color"),
+  pronouns: varchar("pronouns"),
+  bio: text("bio"),
+  sortOrder: integer("sort_order").notNull().default(0),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_story_characters_story").on(table.storyId, table.sortOrder),
+]);
+
+// Images authors upload for covers, ending cards, avatars and page art; each is stored in several
+// sizes (see server/media-library.ts) and `url` is the one to show by default
+export const mediaAssets = pgTable("media_assets", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  ownerId: varchar("owner_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  filename: varchar("filename").notNull(), // As uploaded, for the library listing
+  altText: text("alt_text").notNull().default(""),
+  mimeType: varchar("mime_type").notNull(),
+  width: integer("width").notNull(),
+  height: integer("height").notNull(),
+  sizeBytes: integer("size_bytes").notNull(),
+  url: text("url").notNull(),
+  variants: jsonb("variants").$type<MediaVariant[]>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_media_assets_owner").on(table.ownerId, table.createdAt),
+]);
+
+// Working copy of a published story; readers keep seeing the live rows until it is published
+export const storyDrafts = pgTable("story_drafts", {
+  storyId: varchar("story_id").primaryKey().references(() => stories.id, { onDelete: "cascade" }),
+  snapshot: jsonb("snapshot").$type<StorySnapshot>().notNull(),
+  updatedBy: varchar("updated_by").references(() => users.id, { onDelete: "set null" }),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
 });
 
-// User reading progress (PAGE-BASED ONLY)
+// Immutable snapshots of a story's content, one per save
+export const storyRevisions = pgTable("story_revisions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  storyId: varchar("story_id").notNull().references(() => stories.id, { onDelete: "cascade" }),
+  revisionNumber: integer("revision_number").notNull(),
+  authorId: varchar("author_id").references(() => users.id, { onDelete: "set null" }), // Who saved it
+  message: text("message"), // "Edited page 3", "Restored revision 4"...
+  snapshot: jsonb("snapshot").$type<StorySnapshot>().notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  unique().on(table.storyId, table.revisionNumber),
+]);
+
+// Save slot every reader starts in; rows written before slots existed belong to it
+export const DEFAULT_SAVE_SLOT = "Main";
+
+// User reading progress (PAGE-BASED ONLY), one row per save slot - a named playthrough of the story
 export const readingProgress = pgTable("reading_progress", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   storyId: varchar("story_id").notNull().references(() => stories.id, { onDelete: "cascade" }),
-  currentPage: integer("current_page").notNull().default(1), // PAGE-BASED: track page number (1, 2, 3...)
+  slot: text("slot").notNull().default(DEFAULT_SAVE_SLOT), // Save slot name, unique per reader and story
+  currentPageId: varchar("current_page_id").references(() => storyPages.id, { onDelete: "set null" }), // Where the reader is
+  currentPage: integer("current_page").notNull().default(1), // Order of currentPageId, kept in step for older clients
   isBookmarked: boolean("is_bookmarked").default(false),
   isCompleted: boolean("is_completed").default(false),
   completedAt: timestamp("completed_at"),
@@ -98,9 +230,10 @@ export const readingProgress = pgTable("reading_progress", {
   totalReadingTimeMinutes: integer("total_reading_time_minutes").default(0),
   pagesRead: integer("pages_read").default(0),
   choicesMade: integer("choices_made").default(0),
+  variables: jsonb("variables").$type<StoryVariableValues>().default({}), // Reader's current story state
   createdAt: timestamp("created_at").defaultNow(),
 }, (table) => [
-  unique().on(table.userId, table.storyId),
+  unique().on(table.userId, table.storyId, table.slot),
 ]);
 
 // Personal bookmarks for specific story moments
@@ -165,6 +298,7 @@ export const userChoices = pgTable("user_choices", {
   userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
   storyId: varchar("story_id").notNull().references(() => stories.id, { onDelete: "cascade" }),
   choiceId: varchar("choice_id").notNull().references(() => storyChoices.id, { onDelete: "cascade" }),
+  slot: text("slot").notNull().default(DEFAULT_SAVE_SLOT), // Save slot the choice was made in
   createdAt: timestamp("created_at").defaultNow(),
 });
 
@@ -193,10 +327,93 @@ export const authorMessages = pgTable("author_messages", {
   createdAt: timestamp("created_at").defaultNow(),
 });
 
+// Append-only eggplant ledger - every balance change leaves a row here
+export const eggplantTransactions = pgTable("eggplant_transactions", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  amount: integer("amount").notNull(), // Signed: positive = credit, negative = debit
+  balanceAfter: integer("balance_after").notNull(), // Resulting users.eggplants
+  reason: varchar("reason", {
+    enum: ["signup_bonus", "stripe_purchase", "package_purchase", "premium_choice", "spend", "admin_grant", "ab_test"],
+  }).notNull(),
+  referenceId: varchar("reference_id"), // paymentIntentId, choiceId, granting admin's user id, ...
+  description: text("description"), // Human-readable line for the history view
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_eggplant_transactions_user").on(table.userId, table.createdAt),
+  index("idx_eggplant_transactions_reference").on(table.reason, table.referenceId),
+  // Each Stripe payment intent is credited once, however many times the webhook is delivered
+  uniqueIndex("uq_eggplant_transactions_stripe_purchase").on(table.referenceId).where(sql`${table.reason} = 'stripe_purchase'`),
+]);
+
+// Persisted analytics events (premium funnel, engine events, A/B assignments)
+export const analyticsEvents = pgTable("analytics_events", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  eventType: varchar("event_type").notNull(), // "premium_choice", "page_view", "choice_made", ...
+  action: varchar("action"), // Funnel step for premium_choice: "view", "tap", "purchase_attempt", ...
+  userId: varchar("user_id"), // No FK - events outlive deleted users
+  sessionId: varchar("session_id"),
+  storyId: varchar("story_id"),
+  pageId: varchar("page_id"),
+  choiceId: varchar("choice_id"),
+  userEggplants: integer("user_eggplants"), // Balance at the time of the event
+  choiceCost: integer("choice_cost"),
+  hasEnoughFunds: boolean("has_enough_funds"),
+  metadata: jsonb("metadata"),
+  createdAt: timestamp("created_at").defaultNow(),
+}, (table) => [
+  index("idx_analytics_events_story").on(table.storyId, table.eventType, table.createdAt),
+  index("idx_analytics_events_choice").on(table.choiceId, table.action),
+  index("idx_analytics_events_user").on(table.userId, table.createdAt),
+]);
+
 // Relations
-export const storiesRelations = relations(stories, ({ many }) => ({
+export const storiesRelations = relations(stories, ({ one, many }) => ({
+  author: one(users, {
+    fields: [stories.authorId],
+    references: [users.id],
+  }),
+  coAuthors: many(storyCoAuthors),
   pages: many(storyPages),
   readingProgress: many(readingProgress),
+  variables: many(storyVariables),
+  characters: many(storyCharacters),
+}));
+
+export const storyCoAuthorsRelations = relations(storyCoAuthors, ({ one }) => ({
+  story: one(stories, {
+    fields: [storyCoAuthors.storyId],
+    references: [stories.id],
+  }),
+  user: one(users, {
+    fields: [storyCoAuthors.userId],
+    references: [users.id],
+  }),
+}));
+
+export const storyRevisionsRelations = relations(storyRevisions, ({ one }) => ({
+  story: one(stories, {
+    fields: [storyRevisions.storyId],
+    references: [stories.id],
+  }),
+  author: one(users, {
+    fields: [storyRevisions.authorId],
+    references: [users.id],
+  }),
+}));
+
+export const storyVariablesRelations = relations(storyVariables, ({ one }) => ({
+  story: one(stories, {
+    fields: [storyVariables.storyId],
+    references: [stories.id],
+  }),
+}));
+
+export const storyCharactersRelations = relations(storyCharacters, ({ one }) => ({
+  story: one(stories, {
+    fields: [storyCharacters.storyId],
+    references: [stories.id],
+  }),
 }));
 
 export const storyPagesRelations = relations(storyPages, ({ one, many }) => ({
@@ -228,6 +445,16 @@ export const usersRelations = relations(users, ({ many }) => ({
   readingSessions: many(readingSessions),
   purchasedPremiumPaths: many(purchasedPremiumPaths),
   collectedCards: many(userEndingCards),
+  eggplantTransactions: many(eggplantTransactions),
+  authoredStories: many(stories),
+  coAuthoredStories: many(storyCoAuthors),
+}));
+
+export const eggplantTransactionsRelations = relations(eggplantTransactions, ({ one }) => ({
+  user: one(users, {
+    fields: [eggplantTransactions.userId],
+    references: [users.id],
+  }),
 }));
 
 export const endingCardsRelations = relations(endingCards, ({ one, many }) => ({
@@ -387,10 +614,10 @@ export const insertUserEndingCardSchema = createInsertSchema(userEndingCards).om
 // Types
 export type UpsertUser = typeof users.$inferInsert;
 export type User = typeof users.$inferSelect;
+export type UserPreferences = typeof userPreferences.$inferSelect;
 export type Story = typeof stories.$inferSelect;
 export type StoryPage = typeof storyPages.$inferSelect & {
   choices?: Choice[];
-  chatMessages?: ChatMessage[];
   endingCard?: EndingCardData;
 };
 export type StoryChoice = typeof storyChoices.$inferSelect;
@@ -407,6 +634,75 @@ export type InsertAuthorMessage = typeof authorMessages.$inferInsert;
 export type EndingCard = typeof endingCards.$inferSelect;
 export type InsertEndingCard = typeof endingCards.$inferInsert;
 export type UserEndingCard = typeof userEndingCards.$inferSelect;
+export type EggplantTransaction = typeof eggplantTransactions.$inferSelect;
+export type InsertEggplantTransaction = typeof eggplantTransactions.$inferInsert;
+export type EggplantTransactionReason = EggplantTransaction["reason"];
+export type StoryCoAuthor = typeof storyCoAuthors.$inferSelect;
+export type StoryDraft = typeof storyDrafts.$inferSelect;
+export type StoryRevision = typeof storyRevisions.$inferSelect;
+export type StoryVariable = typeof storyVariables.$inferSelect;
+export type InsertStoryVariable = typeof storyVariables.$inferInsert;
+export type StoryCharacter = typeof storyCharacters.$inferSelect;
+export type MediaAsset = typeof mediaAssets.$inferSelect;
+export type InsertMediaAsset = typeof mediaAssets.$inferInsert;
+
+// One stored size of a media asset
+export interface MediaVariant {
+  name: "original" | "large" | "medium" | "thumb";
+  url: string;
+  width: number;
+  height: number;
+  format: string; // "webp" for the resized copies; the original keeps its own format
+  sizeBytes: number;
+}
+export type AnalyticsEventRecord = typeof analyticsEvents.$inferSelect;
+export type InsertAnalyticsEventRecord = typeof analyticsEvents.$inferInsert;
+
+// Everything an author can edit, captured at save time
+export type StorySnapshot = {
+  story: Pick<Story, "title" | "description" | "imageUrl" | "spiceLevel" | "category">;
+  pages: Array<Omit<typeof storyPages.$inferSelect, "storyId" | "createdAt">>;
+  choices: Array<Omit<StoryChoice, "createdAt">>;
+  endingCards: Array<Omit<EndingCard, "storyId" | "createdAt">>;
+  variables: StoryVariableDefinition[];
+  characters?: Array<Omit<StoryCharacter, "storyId" | "createdAt">>; // Missing from snapshots taken before stories had a cast
+};
+
+// The reader's story map. With a signed-in reader it carries their "fog of war": pages they've
+// visited, the page they're on and the endings they've found; without one those are all unset.
+export type StoryMapData = {
+  storyId: string;
+  pageBubbles: Array<{
+    id: string;
+    type: 'page' | 'choice' | 'ending';
+    pageNumber: number;
+    title: string;
+    isPremium: boolean;
+    isOwned: boolean;
+    x: number;
+    y: number;
+    connections: string[];
+    visited: boolean;
+    isCurrent: boolean;
+    isDiscoveredEnding: boolean;
+  }>;
+  choices: Array<{
+    id: string;
+    fromPageId: string;
+    toPageId: string;
+    text: string;
+    isPremium: boolean | null;
+    isOwned: boolean;
+    eggplantCost: number;
+    targetPage: number | null;
+    taken: boolean;
+  }>;
+  reader: {
+    currentPageId: string | null;
+    endingsFound: number;
+    totalEndings: number;
+  } | null;
+};
 
 // Additional types for frontend use
 export type Choice = {
@@ -415,14 +711,12 @@ export type Choice = {
   isPremium: boolean;
   eggplantCost: number;
   targetPageId: string;
+  effects?: ChoiceEffect[];
+  conditions?: ChoiceCondition[];
 };
 
-export type ChatMessage = {
-  id: string;
-  sender: string;
-  message: string;
-  isUser: boolean;
-};
+// One message on a chat page, with its playback timing and any attachment
+export type ChatMessage = StoryChatMessage;
 
 export type EndingCardData = {
   cardTitle: string;
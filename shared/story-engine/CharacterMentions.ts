@@ -0,0 +1,62 @@
+import type { StoryCharacter } from './types/StoryTypes';
+
+// A character named in page text, shown with their current name
+export interface CharacterMention {
+  characterId: string;
+  name: string; // As written, for when the character has since been removed
+  character?: StoryCharacter;
+}
+
+export class CharacterMentions {
+  // "@[Ivy](character:<id>)"; the bracketed name keeps the text readable wherever mentions aren't rendered
+  private static readonly PATTERN = /@\[([^\]]*)\]\(character:([^)\s]+)\)/g;
+
+  /**
+   * The text to insert when mentioning a character
+   */
+  static format(character: Pick<StoryCharacter, 'id' | 'name'>): string {
+    return `@[${character.name.replace(/[\[\]]/g, '')}](character:${character.id})`;
+  }
+
+  /**
+   * Splits text into plain runs and mentions, in order
+   */
+  static parse(text: string, characters: StoryCharacter[] = []): Array<string | CharacterMention> {
+    const byId = new Map(characters.map(character => [character.id, character]));
+    const parts: Array<string | CharacterMention> = [];
+    let lastIndex = 0;
+    for (const match of Array.from(text.matchAll(this.PATTERN))) {
+      if (match.index! > lastIndex) parts.push(text.slice(lastIndex, match.index));
+      parts.push({ characterId: match[2], name: match[1], character: byId.get(match[2]) });
+      lastIndex = match.index! + match[0].length;
+    }
+    if (lastIndex < text.length) parts.push(text.slice(lastIndex));
+    return parts;
+  }
+
+  /**
+   * Text with each mention replaced by the character's current name
+   */
+  static toPlainText(text: string, characters: StoryCharacter[] = []): string {
+    return this.parse(text, characters)
+      .map(part => (typeof part === 'string' ? part : part.character?.name ?? part.name))
+      .join('');
+  }
+
+  /**
+   * Ids of the characters mentioned in the text
+   */
+  static idsIn(text: string): string[] {
+    return Array.from(text.matchAll(this.PATTERN), match => match[2]);
+  }
+
+  /**
+   * Points mentions at new character ids, e.g. after ids are regenerated on import;
+   * mentions of characters not in the map are left alone
+   */
+  static remap(text: string, characterIds: Map<string, string>): string {
+    return text.replace(this.PATTERN, (mention, name: string, id: string) =>
+      characterIds.has(id) ? `@[${name}](character:${characterIds.get(id)})` : mention
+    );
+  }
+}
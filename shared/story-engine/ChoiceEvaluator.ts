@@ -4,11 +4,12 @@ import type {
   ChoiceEvaluation,
   TensionMetrics 
 } from './types/EngineTypes';
+import { VariableEvaluator } from './VariableEvaluator';
 
 export class ChoiceEvaluator {
   /**
    * Evaluates whether a user can access specific story choices
-   * Handles premium content logic and purchase validation
+   * Handles variable conditions, premium content logic and purchase validation
    */
   static evaluateChoices(
     choices: StoryChoice[],
@@ -23,10 +24,22 @@ export class ChoiceEvaluator {
     userProgress: UserProgress,
     userEggplants: number
   ): ChoiceEvaluation {
+    // Conditional choice - hidden until the reader's story state allows it
+    if (!VariableEvaluator.meetsConditions(choice.conditions, userProgress.variables || {})) {
+      return {
+        choice,
+        isVisible: false,
+        isAccessible: false,
+        requiresPurchase: false,
+        reason: 'Conditions not met'
+      };
+    }
+
     // Free choice - always accessible
     if (!choice.isPremium) {
       return {
         choice,
+        isVisible: true,
         isAccessible: true,
         requiresPurchase: false
       };
@@ -37,6 +50,7 @@ export class ChoiceEvaluator {
     if (alreadyPurchased) {
       return {
         choice,
+        isVisible: true,
         isAccessible: true,
         requiresPurchase: false,
         reason: 'Previously purchased'
@@ -47,6 +61,7 @@ export class ChoiceEvaluator {
     const canAfford = userEggplants >= choice.eggplantCost;
     return {
       choice,
+      isVisible: true,
       isAccessible: canAfford,
       requiresPurchase: true,
       reason: canAfford ? `Costs ${choice.eggplantCost} eggplants` : 'Insufficient eggplants'
@@ -61,7 +76,7 @@ export class ChoiceEvaluator {
     evaluations: ChoiceEvaluation[],
     userProgress: UserProgress
   ): TensionMetrics {
-    const premiumChoices = evaluations.filter(e => e.choice.isPremium);
+    const premiumChoices = evaluations.filter(e => e.isVisible && e.choice.isPremium);
     const accessiblePremium = premiumChoices.filter(e => e.isAccessible);
     const unaffordablePremium = premiumChoices.filter(e => !e.isAccessible && e.requiresPurchase);
 
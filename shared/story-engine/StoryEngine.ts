@@ -1,15 +1,20 @@
 import type { 
   NavigationRequest,
   NavigationResult,
+  NavigationErrorCode,
+  RewindRequest,
+  ChoiceHistoryEntry,
   StorySession,
   EngineConfig,
   StoryPage,
   StoryChoice,
   StoryMetadata,
-  UserProgress
+  UserProgress,
+  StoryVariableDefinition
 } from './types/EngineTypes';
 import { ChoiceEvaluator } from './ChoiceEvaluator';
 import { ProgressTracker } from './ProgressTracker';
+import { VariableEvaluator } from './VariableEvaluator';
 
 /**
  * Core Story Engine - Handles all story navigation logic
@@ -37,93 +42,218 @@ export class StoryEngine {
     dataProvider: StoryDataProvider
   ): Promise<NavigationResult> {
     try {
-      // Get current user progress
-      const userProgress = await dataProvider.getUserProgress(request.userId, request.storyId);
-      const userEggplants = await dataProvider.getUserEggplants(request.userId);
+      const { userId, storyId } = request;
+
+      const metadata = await dataProvider.getStoryMetadata(storyId);
+      if (!metadata) {
+        return this.failure('story_not_found', 'Story not found');
+      }
+
+      // Get current user progress (guests carry their own, or start fresh)
+      const userProgress = userId
+        ? await dataProvider.getUserProgress(userId, storyId, request.slot)
+        : request.guestProgress ?? null;
+      let userEggplants = userId ? await dataProvider.getUserEggplants(userId) : 0;
+      const variableDefinitions = await dataProvider.getStoryVariables(storyId);
+
+      // Progress with story variables resolved against their defaults
+      let currentProgress: UserProgress = userProgress
+        ? { ...userProgress, variables: VariableEvaluator.initialize(variableDefinitions, userProgress.variables) }
+        : this.createInitialProgress(userId || '', storyId, '', variableDefinitions, request.slot);
 
       // Determine target page
-      let targetPage: StoryPage;
+      let targetPage: StoryPage | null;
+      let premiumOutcome: NavigationResult['premiumOutcome'];
       
       if (request.choiceId) {
         // User made a choice - validate and process
         const choice = await dataProvider.getChoice(request.choiceId);
-        if (!choice) {
-          return { success: false, session: null as any, error: 'Invalid choice' };
+        targetPage = choice ? await dataProvider.getPage(choice.toPageId) : null;
+        if (!choice || !targetPage || targetPage.storyId !== storyId) {
+          return this.failure('choice_not_found', 'Invalid choice');
         }
 
-        // Check if premium choice needs purchase
-        const currentProgress = userProgress || this.createInitialProgress(request.userId, request.storyId, '');
+        // Choices are taken from the page the reader is on; readers who haven't started are on the first page
+        const currentPageId = currentProgress.currentPageId || await dataProvider.getFirstPageId(storyId);
+        if (choice.fromPageId !== currentPageId) {
+          return this.failure('choice_unavailable', 'That choice is not on your current page', choice);
+        }
+
+        // Check conditions and whether a premium choice needs purchase
         const evaluation = ChoiceEvaluator.evaluateChoices([choice], currentProgress, userEggplants)[0];
-        
-        if (evaluation.requiresPurchase && !evaluation.isAccessible) {
-          return { 
-            success: false, 
-            session: null as any, 
-            error: 'Insufficient eggplants for premium choice' 
-          };
+
+        if (!evaluation.isVisible) {
+          return this.failure('choice_unavailable', 'Choice is not available', choice);
+        }
+
+        if (evaluation.requiresPurchase) {
+          if (!userId) {
+            return this.failure('login_required', 'Login required for premium choices', choice);
+          }
+          if (!evaluation.isAccessible) {
+            return this.failure('insufficient_eggplants', 'Insufficient eggplants for premium choice', choice);
+          }
+
+          // The provider re-checks balance and ownership atomically, so concurrent requests can't double-spend
+          const purchase = await dataProvider.purchaseChoice(userId, storyId, choice);
+          if (purchase === 'insufficient_eggplants') {
+            return this.failure('insufficient_eggplants', 'Insufficient eggplants for premium choice', choice);
+          }
+
+          currentProgress = ProgressTracker.recordPurchase(currentProgress, choice.id).progress;
+          userEggplants = await dataProvider.getUserEggplants(userId);
+          premiumOutcome = purchase === 'purchased' ? 'purchased' : 'owned';
+        } else if (choice.isPremium) {
+          premiumOutcome = 'owned';
         }
 
-        // Handle premium purchase if needed
-        if (evaluation.requiresPurchase && evaluation.isAccessible) {
-          const purchaseResult = ProgressTracker.recordPurchase(currentProgress, request.choiceId);
-          await dataProvider.saveUserProgress(purchaseResult.progress);
-          await dataProvider.deductEggplants(request.userId, choice.eggplantCost);
+        // Apply the choice's effects to story state
+        currentProgress = {
+          ...currentProgress,
+          variables: VariableEvaluator.applyEffects(choice.effects, currentProgress.variables)
+        };
+
+        if (userId) {
+          await dataProvider.recordChoice(userId, storyId, choice.id, currentProgress.slot);
         }
 
-        targetPage = await dataProvider.getPage(choice.toPageId);
-      } else if (request.targetPageId) {
+        return await this.enterPage(request, dataProvider, currentProgress, targetPage, metadata, userEggplants, {
+          choice,
+          premiumOutcome
+        });
+      }
+
+      if (request.targetPageId) {
         // Direct page navigation
         targetPage = await dataProvider.getPage(request.targetPageId);
+        if (!targetPage || targetPage.storyId !== storyId) {
+          return this.failure('page_not_found', 'Page not found');
+        }
+
+        // Anywhere but the reader's current page has to be somewhere they could have read to
+        const targetPageId = targetPage.id;
+        if (targetPageId !== currentProgress.currentPageId) {
+          const { pages } = await this.reachablePages(storyId, currentProgress.purchasedChoices, dataProvider);
+          if (!pages.some(page => page.id === targetPageId)) {
+            return this.failure('page_locked', 'That page is behind a premium choice you have not unlocked');
+          }
+        }
       } else {
-        // Get current page or start of story
-        const pageId = userProgress?.currentPageId || await dataProvider.getFirstPageId(request.storyId);
-        targetPage = await dataProvider.getPage(pageId);
+        // Resume where the reader left off, or start the story
+        targetPage = userProgress?.currentPageId ? await dataProvider.getPage(userProgress.currentPageId) : null;
+        if (!targetPage) {
+          const firstPageId = await dataProvider.getFirstPageId(storyId);
+          targetPage = firstPageId ? await dataProvider.getPage(firstPageId) : null;
+        }
+        if (!targetPage) {
+          return this.failure('page_not_found', 'Story has no pages');
+        }
       }
 
-      // Update progress
-      const progressResult = ProgressTracker.updateProgress(
-        userProgress || this.createInitialProgress(request.userId, request.storyId, targetPage.id),
-        targetPage,
-        request.choiceId
-      );
+      return await this.enterPage(request, dataProvider, currentProgress, targetPage, metadata, userEggplants);
 
-      await dataProvider.saveUserProgress(progressResult.progress);
+    } catch (error) {
+      return {
+        success: false,
+        session: null,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      };
+    }
+  }
 
-      // Get available choices for this page
-      const availableChoices = await dataProvider.getChoicesFromPage(targetPage.id);
-      const choiceEvaluations = ChoiceEvaluator.evaluateChoices(
-        availableChoices,
-        progressResult.progress,
-        userEggplants
-      );
+  /**
+   * Takes the reader back to the page where they made an earlier choice, so they can choose again.
+   * That choice and everything after it leave their path; story variables are replayed from the
+   * choices that remain. Purchases are kept.
+   */
+  async rewind(request: RewindRequest, dataProvider: StoryDataProvider): Promise<NavigationResult> {
+    try {
+      const { userId, storyId } = request;
 
-      // Get story metadata
-      const metadata = await dataProvider.getStoryMetadata(request.storyId);
+      const metadata = await dataProvider.getStoryMetadata(storyId);
+      if (!metadata) {
+        return this.failure('story_not_found', 'Story not found');
+      }
 
-      // Build session state
-      const session: StorySession = {
-        storyId: request.storyId,
-        currentPage: targetPage,
-        availableChoices: choiceEvaluations,
-        progress: progressResult.progress,
-        metadata
-      };
+      const userProgress = await dataProvider.getUserProgress(userId, storyId, request.slot);
+      const slot = userProgress?.slot ?? request.slot;
 
-      return {
-        success: true,
-        session,
-        analyticsEvent: progressResult.analyticsEvent
+      const history = await dataProvider.getChoiceHistory(userId, storyId, slot);
+      const forkIndex = history.findIndex(entry => entry.id === request.historyId);
+      const forkPage = forkIndex >= 0 ? await dataProvider.getPage(history[forkIndex].choice.fromPageId) : null;
+      if (!forkPage) {
+        return this.failure('history_not_found', 'That choice is not on your path');
+      }
+
+      await dataProvider.removeChoiceHistory(userId, storyId, history.slice(forkIndex).map(entry => entry.id));
+
+      const variableDefinitions = await dataProvider.getStoryVariables(storyId);
+      const variables = history
+        .slice(0, forkIndex)
+        .reduce(
+          (values, entry) => VariableEvaluator.applyEffects(entry.choice.effects, values),
+          VariableEvaluator.initialize(variableDefinitions)
+        );
+
+      const currentProgress: UserProgress = {
+        ...(userProgress || this.createInitialProgress(userId, storyId, forkPage.id, variableDefinitions, slot)),
+        variables
       };
+      const userEggplants = await dataProvider.getUserEggplants(userId);
 
+      return await this.enterPage(
+        { userId, storyId, slot, targetPageId: forkPage.id },
+        dataProvider,
+        currentProgress,
+        forkPage,
+        metadata,
+        userEggplants
+      );
     } catch (error) {
       return {
         success: false,
-        session: null as any,
+        session: null,
         error: error instanceof Error ? error.message : 'Unknown error'
       };
     }
   }
 
+  /**
+   * The pages a reader can get to from the story's first page, and the choices on them. Readers
+   * move on through "next page" links, free choices and the premium choices they own, so pages
+   * only reached through premium choices they haven't bought are left out.
+   */
+  async reachablePages(
+    storyId: string,
+    ownedChoiceIds: string[],
+    dataProvider: StoryDataProvider
+  ): Promise<{ pages: StoryPage[]; choices: StoryChoice[] }> {
+    const firstPageId = await dataProvider.getFirstPageId(storyId);
+    const owned = new Set(ownedChoiceIds);
+    const pages: StoryPage[] = [];
+    const choices: StoryChoice[] = [];
+    const visited = new Set<string>();
+    const queue = firstPageId ? [firstPageId] : [];
+
+    while (queue.length > 0) {
+      const pageId = queue.shift()!;
+      if (visited.has(pageId)) continue;
+      visited.add(pageId);
+
+      const page = await dataProvider.getPage(pageId);
+      if (!page || page.storyId !== storyId) continue;
+      pages.push(page);
+
+      for (const choice of await dataProvider.getChoicesFromPage(page.id)) {
+        choices.push(choice);
+        if (!choice.isPremium || owned.has(choice.id)) queue.push(choice.toPageId);
+      }
+      if (page.nextPageId) queue.push(page.nextPageId);
+    }
+
+    return { pages, choices };
+  }
+
   /**
    * Gets tension metrics for current session (used by enhanced UX)
    */
@@ -138,13 +268,72 @@ export class StoryEngine {
     );
   }
 
-  private createInitialProgress(userId: string, storyId: string, currentPageId: string): UserProgress {
+  // Moves the reader onto targetPage, saves their progress and builds the session for it
+  private async enterPage(
+    request: NavigationRequest,
+    dataProvider: StoryDataProvider,
+    currentProgress: UserProgress,
+    targetPage: StoryPage,
+    metadata: StoryMetadata,
+    userEggplants: number,
+    taken: Pick<NavigationResult, 'choice' | 'premiumOutcome'> = {}
+  ): Promise<NavigationResult> {
+    // Update progress
+    const progressResult = ProgressTracker.updateProgress(
+      currentProgress,
+      targetPage,
+      request.choiceId
+    );
+
+    if (request.userId) {
+      await dataProvider.saveUserProgress(progressResult.progress);
+    }
+
+    // Get available choices for this page
+    const availableChoices = await dataProvider.getChoicesFromPage(targetPage.id);
+    const choiceEvaluations = ChoiceEvaluator.evaluateChoices(
+      availableChoices,
+      progressResult.progress,
+      userEggplants
+    ).filter(evaluation => evaluation.isVisible);
+
+    // Build session state
+    const session: StorySession = {
+      storyId: request.storyId,
+      currentPage: targetPage,
+      availableChoices: choiceEvaluations,
+      progress: progressResult.progress,
+      metadata,
+      userEggplants
+    };
+
+    return {
+      success: true,
+      session,
+      analyticsEvent: progressResult.analyticsEvent,
+      ...taken
+    };
+  }
+
+  private failure(errorCode: NavigationErrorCode, error: string, choice?: StoryChoice): NavigationResult {
+    return { success: false, session: null, error, errorCode, choice };
+  }
+
+  private createInitialProgress(
+    userId: string,
+    storyId: string,
+    currentPageId: string,
+    variableDefinitions: StoryVariableDefinition[],
+    slot?: string
+  ): UserProgress {
     return {
       userId,
       storyId,
+      slot,
       currentPageId,
       completedPages: [],
       purchasedChoices: [],
+      variables: VariableEvaluator.initialize(variableDefinitions),
       lastReadAt: new Date()
     };
   }
@@ -155,14 +344,21 @@ export class StoryEngine {
  * Allows story engine to be database-agnostic
  */
 export interface StoryDataProvider {
-  getUserProgress(userId: string, storyId: string): Promise<UserProgress | null>;
+  // Without a slot, the save slot the reader read last
+  getUserProgress(userId: string, storyId: string, slot?: string): Promise<UserProgress | null>;
   saveUserProgress(progress: UserProgress): Promise<void>;
   getUserEggplants(userId: string): Promise<number>;
-  deductEggplants(userId: string, amount: number): Promise<void>;
+  // Charges for a premium choice and records ownership in one atomic step
+  purchaseChoice(userId: string, storyId: string, choice: StoryChoice): Promise<'purchased' | 'already_owned' | 'insufficient_eggplants'>;
+  // Appends to the reader's choice history in a save slot
+  recordChoice(userId: string, storyId: string, choiceId: string, slot?: string): Promise<void>;
+  getChoiceHistory(userId: string, storyId: string, slot?: string): Promise<ChoiceHistoryEntry[]>;
+  removeChoiceHistory(userId: string, storyId: string, historyIds: string[]): Promise<void>;
   
-  getPage(pageId: string): Promise<StoryPage>;
+  getPage(pageId: string): Promise<StoryPage | null>;
   getChoice(choiceId: string): Promise<StoryChoice | null>;
   getChoicesFromPage(pageId: string): Promise<StoryChoice[]>;
-  getFirstPageId(storyId: string): Promise<string>;
-  getStoryMetadata(storyId: string): Promise<StoryMetadata>;
+  getFirstPageId(storyId: string): Promise<string | null>;
+  getStoryMetadata(storyId: string): Promise<StoryMetadata | null>;
+  getStoryVariables(storyId: string): Promise<StoryVariableDefinition[]>;
 }
\ No newline at end of file
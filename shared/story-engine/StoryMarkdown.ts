@@ -0,0 +1,195 @@
+import { CharacterMentions } from './CharacterMentions';
+import type { StoryCharacter } from './types/StoryTypes';
+
+export type StoryInline =
+  | { type: 'text'; text: string }
+  | { type: 'lineBreak' }
+  | { type: 'emphasis'; children: StoryInline[] }
+  | { type: 'strong'; children: StoryInline[] }
+  | { type: 'image'; url: string; alt: string }
+  | { type: 'mention'; characterId: string; name: string; character?: StoryCharacter };
+
+export type StoryBlock =
+  | { type: 'paragraph'; children: StoryInline[] }
+  | { type: 'sceneBreak' }
+  | { type: 'image'; url: string; alt: string }; // An image on a paragraph of its own
+
+/**
+ * The markdown authors can use in page text, and nothing more: *italics* (or _italics_), **bold**,
+ * ![images](url) and scene breaks ("***" or "---" on a line of their own). Blank lines separate
+ * paragraphs, single line breaks are kept, and a backslash makes the next mark literal.
+ * Text is never treated as HTML, so rendering the parsed blocks is safe wherever the text came from.
+ */
+export class StoryMarkdown {
+  private static readonly SCENE_BREAK = /^\s*(?:(?:\*\s*){3,}|(?:-\s*){3,})$/;
+  private static readonly INLINE =
+    /!\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))+)\)|\*\*(?=\S)([\s\S]+?)\*\*|\*(?=\S)([^*]+?)\*|(?<![A-Za-z0-9])_(?=\S)([^_]+?)_(?![A-Za-z0-9])/;
+  private static readonly ESCAPE = /\\([\\*_!\[\]()-])/g;
+  // Stand-ins for escaped marks and mentions while the rest of a paragraph is parsed
+  private static readonly PLACEHOLDER = /[\uE000-\uF8FF]/g;
+  private static readonly PLACEHOLDER_BASE = 0xe000;
+
+  /**
+   * Whether an image URL can be shown: web addresses and paths on this site only
+   */
+  static isSafeUrl(url: string): boolean {
+    return /^https?:\/\/[^\s]+$/i.test(url) || /^\/(?!\/)[^\s]*$/.test(url);
+  }
+
+  /**
+   * Cleans page text before it's saved: HTML tags and comments are dropped, as are images that
+   * point anywhere but the web, and line endings and blank lines are tidied
+   */
+  static sanitize(content: string): string {
+    return content
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F\u007F]/g, '')
+      .replace(this.PLACEHOLDER, '')
+      .replace(/<!--[\s\S]*?(?:-->|$)/g, '')
+      .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+      .replace(/!\[([^\]]*)\]\(((?:[^()\s]|\([^()\s]*\))*)\)/g, (image, _alt: string, url: string) => (this.isSafeUrl(url) ? image : ''))
+      .replace(/[ \t]+$/gm, '')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim();
+  }
+
+  /**
+   * Splits page text into blocks for the reader; mentions are matched against the cast
+   */
+  static parse(content: string, characters: StoryCharacter[] = []): StoryBlock[] {
+    const blocks: StoryBlock[] = [];
+    let lines: string[] = [];
+    const endParagraph = () => {
+      if (lines.length > 0) blocks.push(this.toBlock(lines.join('\n'), characters));
+      lines = [];
+    };
+
+    for (const line of content.replace(/\r\n?/g, '\n').replace(this.PLACEHOLDER, '').split('\n')) {
+      if (line.trim() === '') {
+        endParagraph();
+      } else if (this.SCENE_BREAK.test(line)) {
+        endParagraph();
+        blocks.push({ type: 'sceneBreak' });
+      } else {
+        lines.push(line.trim());
+      }
+    }
+    endParagraph();
+    return blocks;
+  }
+
+  /**
+   * The words a reader sees, for previews and word counts
+   */
+  static toPlainText(content: string, characters: StoryCharacter[] = []): string {
+    const inlineText = (nodes: StoryInline[]): string =>
+      nodes
+        .map((node) => {
+          switch (node.type) {
+            case 'text': return node.text;
+            case 'lineBreak': return '\n';
+            case 'emphasis':
+            case 'strong': return inlineText(node.children);
+            case 'mention': return node.character?.name ?? node.name;
+            case 'image': return '';
+          }
+        })
+        .join('');
+
+    return this.parse(content, characters)
+      .flatMap((block) => (block.type === 'paragraph' ? [inlineText(block.children).trim()] : []))
+      .filter((text) => text.length > 0)
+      .join('\n\n');
+  }
+
+  /**
+   * Images the text shows, in order
+   */
+  static imageUrls(content: string): string[] {
+    const urls: string[] = [];
+    const visit = (nodes: StoryInline[]) =>
+      nodes.forEach((node) => {
+        if (node.type === 'image') urls.push(node.url);
+        if (node.type === 'emphasis' || node.type === 'strong') visit(node.children);
+      });
+    this.parse(content).forEach((block) => {
+      if (block.type === 'image') urls.push(block.url);
+      if (block.type === 'paragraph') visit(block.children);
+    });
+    return urls;
+  }
+
+  private static toBlock(paragraph: string, characters: StoryCharacter[]): StoryBlock {
+    const children = this.parseInline(paragraph, characters);
+    if (children.length === 1 && children[0].type === 'image') {
+      return { type: 'image', url: children[0].url, alt: children[0].alt };
+    }
+    return { type: 'paragraph', children };
+  }
+
+  private static parseInline(paragraph: string, characters: StoryCharacter[]): StoryInline[] {
+    // Escaped marks and mentions become placeholders, so a name with a "*" in it can't start italics
+    const stored: StoryInline[] = [];
+    const store = (node: StoryInline) => {
+      stored.push(node);
+      return String.fromCharCode(this.PLACEHOLDER_BASE + stored.length - 1);
+    };
+
+    const unescaped = paragraph.replace(this.ESCAPE, (_escape, mark: string) => store({ type: 'text', text: mark }));
+    const text = CharacterMentions.parse(unescaped, characters)
+      .map((part) => (typeof part === 'string' ? part : store({ type: 'mention', ...part })))
+      .join('');
+    return this.parseMarks(text, stored);
+  }
+
+  private static parseMarks(text: string, stored: StoryInline[]): StoryInline[] {
+    const nodes: StoryInline[] = [];
+    let rest = text;
+    let match: RegExpMatchArray | null;
+    while ((match = rest.match(this.INLINE))) {
+      nodes.push(...this.restore(rest.slice(0, match.index), stored));
+      const [whole, alt, url, strong, emphasis, underscored] = match;
+      if (url !== undefined) {
+        const altText = this.restore(alt, stored).map((node) => (node.type === 'text' ? node.text : '')).join('');
+        if (this.isSafeUrl(url)) nodes.push({ type: 'image', url, alt: altText });
+      } else if (strong !== undefined) {
+        nodes.push({ type: 'strong', children: this.parseMarks(strong, stored) });
+      } else {
+        nodes.push({ type: 'emphasis', children: this.parseMarks(emphasis ?? underscored, stored) });
+      }
+      rest = rest.slice(match.index! + whole.length);
+    }
+    nodes.push(...this.restore(rest, stored));
+    return nodes;
+  }
+
+  // Plain text back out of a run: placeholders are swapped back and line breaks split it up
+  private static restore(text: string, stored: StoryInline[]): StoryInline[] {
+    const nodes: StoryInline[] = [];
+    let run = '';
+    const endRun = () => {
+      if (run) nodes.push({ type: 'text', text: run });
+      run = '';
+    };
+
+    for (const character of Array.from(text)) {
+      const code = character.charCodeAt(0);
+      if (character === '\n') {
+        endRun();
+        nodes.push({ type: 'lineBreak' });
+      } else if (code >= this.PLACEHOLDER_BASE && code - this.PLACEHOLDER_BASE < stored.length) {
+        const node = stored[code - this.PLACEHOLDER_BASE];
+        if (node.type === 'text') {
+          run += node.text;
+        } else {
+          endRun();
+          nodes.push(node);
+        }
+      } else {
+        run += character;
+      }
+    }
+    endRun();
+    return nodes;
+  }
+}
@@ -0,0 +1,83 @@
+import type {
+  StoryVariableDefinition,
+  StoryVariableValues,
+  ChoiceEffect,
+  ChoiceCondition
+} from './types/EngineTypes';
+
+export class VariableEvaluator {
+  /**
+   * Builds the starting variable state for a story
+   * Values already saved in progress win over definition defaults
+   */
+  static initialize(
+    definitions: StoryVariableDefinition[],
+    savedValues: StoryVariableValues = {}
+  ): StoryVariableValues {
+    const values: StoryVariableValues = {};
+    definitions.forEach(definition => {
+      values[definition.name] = definition.defaultValue;
+    });
+    return { ...values, ...savedValues };
+  }
+
+  /**
+   * Checks whether every condition holds against the current values
+   * Unknown variables compare as 0 / false so authoring typos hide rather than crash
+   */
+  static meetsConditions(
+    conditions: ChoiceCondition[] | undefined,
+    values: StoryVariableValues
+  ): boolean {
+    if (!conditions || conditions.length === 0) {
+      return true;
+    }
+    return conditions.every(condition => this.checkCondition(condition, values));
+  }
+
+  /**
+   * Applies choice effects in order and returns the new variable state
+   */
+  static applyEffects(
+    effects: ChoiceEffect[] | undefined,
+    values: StoryVariableValues
+  ): StoryVariableValues {
+    if (!effects || effects.length === 0) {
+      return values;
+    }
+
+    const updated = { ...values };
+    effects.forEach(effect => {
+      if (effect.operation === 'increment') {
+        const current = Number(updated[effect.variable] ?? 0);
+        updated[effect.variable] = current + Number(effect.value);
+      } else {
+        updated[effect.variable] = effect.value;
+      }
+    });
+    return updated;
+  }
+
+  private static checkCondition(condition: ChoiceCondition, values: StoryVariableValues): boolean {
+    const raw = values[condition.variable];
+    const actual = typeof condition.value === 'boolean' ? Boolean(raw) : Number(raw ?? 0);
+    const expected = condition.value;
+
+    switch (condition.operator) {
+      case 'eq':
+        return actual === expected;
+      case 'neq':
+        return actual !== expected;
+      case 'gt':
+        return Number(actual) > Number(expected);
+      case 'gte':
+        return Number(actual) >= Number(expected);
+      case 'lt':
+        return Number(actual) < Number(expected);
+      case 'lte':
+        return Number(actual) <= Number(expected);
+      default:
+        return false;
+    }
+  }
+}
@@ -1,3 +1,5 @@
+import type { StoryCharacter, StoryChoice, StoryMetadata, StoryPage, StorySession, StoryVariableDefinition, UserProgress } from './StoryTypes';
+
 // Story engine configuration and processing types
 export interface EngineConfig {
   enableAnalytics: boolean;
@@ -7,17 +9,39 @@ export interface EngineConfig {
 }
 
 export interface NavigationRequest {
-  userId: string;
+  userId?: string; // Guests can navigate, but nothing is saved and premium choices need a login
+  guestProgress?: UserProgress; // Where a guest left off, kept by the caller since the engine saves nothing for them
   storyId: string;
+  slot?: string; // Save slot to read in; defaults to the one the reader used last
   choiceId?: string;
   targetPageId?: string;
 }
 
+export interface RewindRequest {
+  userId: string;
+  storyId: string;
+  slot?: string;
+  historyId: string; // The choice on the reader's path to take back
+}
+
+export type NavigationErrorCode =
+  | 'story_not_found'
+  | 'page_not_found'
+  | 'choice_not_found'
+  | 'choice_unavailable'
+  | 'login_required'
+  | 'insufficient_eggplants'
+  | 'page_locked'
+  | 'history_not_found';
+
 export interface NavigationResult {
   success: boolean;
-  session: any; // Will be typed as StorySession after import
+  session: StorySession | null;
   error?: string;
+  errorCode?: NavigationErrorCode;
   analyticsEvent?: AnalyticsEvent;
+  choice?: StoryChoice; // The choice the request took, also set when it was refused
+  premiumOutcome?: 'purchased' | 'owned'; // For premium choices that went through
 }
 
 export interface AnalyticsEvent {
@@ -37,12 +61,35 @@ export interface TensionMetrics {
   purchaseUrgency: number; // 0-100
 }
 
+// Everything the engine needs to run a story without the server, for offline reading
+export interface OfflineStoryBundle {
+  storyId: string;
+  downloadedAt: string;
+  metadata: StoryMetadata;
+  firstPageId: string;
+  pages: StoryPage[]; // Only pages the reader can reach without buying anything more
+  choices: StoryChoice[]; // Every choice on those pages, locked premium ones included
+  variables: StoryVariableDefinition[];
+  characters: StoryCharacter[];
+  progress: UserProgress | null; // The reader's saved progress when they downloaded
+  userEggplants: number;
+  assets: string[]; // Image URLs the pages use
+}
+
 // Re-export story types for convenience
 export type {
   StoryPage,
+  StoryChatMessage,
+  StoryCharacter,
+  ChoiceHistoryEntry,
   StoryChoice, 
   StoryMetadata,
   UserProgress,
   ChoiceEvaluation,
-  StorySession
+  StorySession,
+  StoryVariableValue,
+  StoryVariableValues,
+  StoryVariableDefinition,
+  ChoiceEffect,
+  ChoiceCondition
 } from './StoryTypes';
\ No newline at end of file
@@ -3,8 +3,46 @@ export interface StoryPage {
   id: string;
   storyId: string;
   pageNumber: number;
+  title: string;
   content: string;
+  pageType: string; // 'story' | 'choice' | 'chat'
+  chatMessages?: StoryChatMessage[];
   isEnding: boolean;
+  // Where "Next" and "Back" lead; nextPageId is null on pages with choices and on endings
+  nextPageId: string | null;
+  previousPageId: string | null;
+}
+
+export interface StoryChatMessage {
+  id: string;
+  characterId?: string; // Cast member sending it; `sender` is the name shown if they're gone
+  sender: string;
+  message: string;
+  timestamp?: string;
+  isUser: boolean;
+  // Playback: a pause after the previous message, then "typing…" for typingMs before it appears.
+  // Left unset, the typing time follows the message's length.
+  delayMs?: number;
+  typingMs?: number;
+  attachment?: ChatAttachment;
+  readReceipt?: boolean; // Reader's own messages: shows "Read" once the other side answers
+}
+
+export interface ChatAttachment {
+  type: "image" | "voice";
+  url: string;
+  caption?: string; // Alt text for images, transcript for voice notes
+  durationSeconds?: number; // Voice notes
+}
+
+// A member of the story's cast, referenced by id from chat messages and page text
+export interface StoryCharacter {
+  id: string;
+  name: string;
+  avatarUrl?: string | null;
+  color?: string | null; // Hex colour for their name and chat bubbles
+  pronouns?: string | null;
+  bio?: string | null;
 }
 
 export interface StoryChoice {
@@ -15,6 +53,33 @@ export interface StoryChoice {
   isPremium: boolean;
   eggplantCost: number;
   description?: string;
+  effects?: ChoiceEffect[];
+  conditions?: ChoiceCondition[];
+}
+
+// Story state variables - "trust", "desire", "tookRiskyPath" ...
+export type StoryVariableValue = number | boolean;
+export type StoryVariableValues = Record<string, StoryVariableValue>;
+
+export interface StoryVariableDefinition {
+  name: string;
+  type: 'number' | 'boolean';
+  defaultValue: StoryVariableValue;
+  description?: string;
+}
+
+// Applied when a reader takes a choice
+export interface ChoiceEffect {
+  variable: string;
+  operation: 'set' | 'increment';
+  value: StoryVariableValue;
+}
+
+// All conditions must hold for a choice to be shown
+export interface ChoiceCondition {
+  variable: string;
+  operator: 'eq' | 'neq' | 'gt' | 'gte' | 'lt' | 'lte';
+  value: StoryVariableValue;
 }
 
 export interface StoryMetadata {
@@ -28,17 +93,27 @@ export interface StoryMetadata {
   coverImage?: string;
 }
 
+// One choice on the reader's path, oldest first
+export interface ChoiceHistoryEntry {
+  id: string;
+  choice: StoryChoice;
+  chosenAt: Date;
+}
+
 export interface UserProgress {
   userId: string;
   storyId: string;
+  slot?: string; // Save slot this playthrough lives in; unset for guests and brand-new readers
   currentPageId: string;
   completedPages: string[];
   purchasedChoices: string[];
+  variables: StoryVariableValues;
   lastReadAt: Date;
 }
 
 export interface ChoiceEvaluation {
   choice: StoryChoice;
+  isVisible: boolean; // false when the choice's conditions aren't met
   isAccessible: boolean;
   requiresPurchase: boolean;
   reason?: string;
@@ -50,4 +125,5 @@ export interface StorySession {
   availableChoices: ChoiceEvaluation[];
   progress: UserProgress;
   metadata: StoryMetadata;
+  userEggplants: number; // Balance the choices were evaluated against; 0 for guests
 }
\ No newline at end of file
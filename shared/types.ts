@@ -1,4 +1,13 @@
 // Shared interface definitions to eliminate redundancy across components
+import type {
+  ChatAttachment,
+  ChoiceCondition,
+  ChoiceEffect,
+  StoryCharacter,
+  StoryVariableDefinition,
+} from "./story-engine/types/StoryTypes";
+
+export type { ChatAttachment, ChoiceCondition, ChoiceEffect, StoryCharacter, StoryVariableDefinition };
 
 // UNIFIED PAGE-BASED SYSTEM - Single source of truth for all story creation
 export interface StoryPage {
@@ -14,10 +23,15 @@ export interface StoryPage {
 
 export interface ChatMessage {
   id: string;
-  sender: string;
+  characterId?: string; // Cast member sending it (see StoryCharacter)
+  sender: string; // Their name, kept as a fallback if the character is removed
   message: string;
   timestamp?: string;
   isUser: boolean; // true for user messages (right side), false for other character (left side)
+  delayMs?: number; // Pause after the previous message during playback
+  typingMs?: number; // How long "typing…" shows first; unset follows the message's length
+  attachment?: ChatAttachment; // Image or voice note
+  readReceipt?: boolean; // User messages: shows "Read" once the other side answers
 }
 
 export interface Choice {
@@ -26,6 +40,8 @@ export interface Choice {
   isPremium: boolean;
   eggplantCost: number;
   targetPageId: string;
+  effects?: ChoiceEffect[]; // Applied to story variables when taken
+  conditions?: ChoiceCondition[]; // Choice is hidden unless all hold
 }
 
 export interface StoryPageBubble {
@@ -80,4 +96,6 @@ export interface CreateStoryPayload {
   isPublished?: boolean;
   isFeatured?: boolean;
   pages: StoryPage[];
+  variables?: StoryVariableDefinition[];
+  characters?: StoryCharacter[];
 }
\ No newline at end of file